@@ -35,8 +35,6 @@ export default {
       favicon: "./assets/favicon.png"
     },
     extra: {
-      // Production Groq API key (hardcoded for security)
-      groqApiKey: "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",
       eas: {
         projectId: "agrisense-pro"
       }
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ActivityIndicator } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { BorderRadius, Spacing, Shadows } from "@/constants/theme";
+import { describeApiError } from "@/services/farmAccess";
+import { getFarmEt0, totalEt0, type FarmEt0 } from "@/services/et0";
+
+interface EvapotranspirationCardProps {
+  farmId: string;
+}
+
+const BAR_HEIGHT = 48;
+
+// Reference evapotranspiration for the last week and the week ahead: how
+// much water the weather is drawing out of the farm's soil each day.
+export function EvapotranspirationCard({
+  farmId,
+}: EvapotranspirationCardProps) {
+  const { theme } = useTheme();
+  const [data, setData] = useState<FarmEt0 | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getFarmEt0(farmId)
+      .then((et0) => {
+        if (!cancelled) setData(et0);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(describeApiError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [farmId]);
+
+  const days = data ? [...data.history, ...data.forecast] : [];
+  const today = data?.forecast[0];
+  const peak = Math.max(1, ...days.map((day) => day.et0));
+  const estimated = days.some((day) => day.method === "hargreaves");
+  const rain = data
+    ? data.history.reduce((sum, day) => sum + day.precipitation, 0)
+    : 0;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.cardBackground, borderColor: theme.border },
+        Shadows.small,
+      ]}
+    >
+      {isLoading ? (
+        <ActivityIndicator color={theme.primary} />
+      ) : error ? (
+        <View style={styles.message}>
+          <Feather name="map-pin" size={16} color={theme.textSecondary} />
+          <ThemedText
+            style={[styles.messageText, { color: theme.textSecondary }]}
+          >
+            {error}
+          </ThemedText>
+        </View>
+      ) : data ? (
+        <>
+          <View style={styles.summary}>
+            <View style={styles.summaryItem}>
+              <ThemedText type="h2">{today ? today.et0 : "--"} mm</ThemedText>
+              <ThemedText
+                style={[styles.label, { color: theme.textSecondary }]}
+              >
+                Today
+              </ThemedText>
+            </View>
+            <View style={styles.summaryItem}>
+              <ThemedText type="h4">{totalEt0(data.forecast)} mm</ThemedText>
+              <ThemedText
+                style={[styles.label, { color: theme.textSecondary }]}
+              >
+                Next {data.forecast.length} days
+              </ThemedText>
+            </View>
+            <View style={styles.summaryItem}>
+              <ThemedText type="h4">{totalEt0(data.history)} mm</ThemedText>
+              <ThemedText
+                style={[styles.label, { color: theme.textSecondary }]}
+              >
+                Last {data.history.length} days, {Math.round(rain)} mm rain
+              </ThemedText>
+            </View>
+          </View>
+
+          <View style={styles.bars}>
+            {days.map((day) => (
+              <View key={day.date} style={styles.barSlot}>
+                <View
+                  style={[
+                    styles.bar,
+                    {
+                      height: Math.max(2, (day.et0 / peak) * BAR_HEIGHT),
+                      backgroundColor: theme.warning,
+                      opacity: day.forecast ? 0.45 : 1,
+                    },
+                  ]}
+                />
+                {day.precipitation > 0 ? (
+                  <View
+                    style={[styles.rainDot, { backgroundColor: theme.accent }]}
+                  />
+                ) : null}
+              </View>
+            ))}
+          </View>
+
+          <ThemedText style={[styles.note, { color: theme.textSecondary }]}>
+            {estimated
+              ? "FAO-56 reference ET; some days estimated from temperature only"
+              : "FAO-56 Penman-Monteith reference ET"}
+            {" · faded bars are forecast, dots mark rain"}
+          </ThemedText>
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  summary: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: Spacing.lg,
+  },
+  summaryItem: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+  },
+  bars: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    height: BAR_HEIGHT + Spacing.md,
+    gap: 3,
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "flex-end",
+    height: "100%",
+  },
+  bar: {
+    width: "100%",
+    borderRadius: 2,
+  },
+  rainDot: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 11,
+    marginTop: Spacing.sm,
+  },
+  message: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  messageText: {
+    flex: 1,
+    fontSize: 13,
+  },
+});
@@ -10,10 +10,10 @@ import Animated, {
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { BorderRadius, Spacing, Colors } from "@/constants/theme";
-import type { Field } from "@/lib/mockData";
+import type { FieldSummary } from "@shared/models";
 
 interface FieldCardProps {
-  field: Field;
+  field: FieldSummary;
   onPress?: () => void;
 }
 
@@ -57,6 +57,10 @@ export function FieldCard({ field, onPress }: FieldCardProps) {
     }
   };
 
+  // The reading behind a non-healthy status takes the status colour
+  const metricColor = (metric: FieldSummary["statusMetric"]) =>
+    field.statusMetric === metric ? getStatusColor() : undefined;
+
   const SensorItem = ({
     icon,
     value,
@@ -114,23 +118,28 @@ export function FieldCard({ field, onPress }: FieldCardProps) {
           icon="droplet"
           value={`${field.moisture}%`}
           label="Moisture"
-          color={
-            field.moisture < 40
-              ? isDark
-                ? Colors.dark.warning
-                : Colors.light.warning
-              : undefined
-          }
+          color={metricColor("soilMoisture")}
+        />
+        <SensorItem
+          icon="activity"
+          value={field.pH.toFixed(1)}
+          label="pH"
+          color={metricColor("pH")}
         />
-        <SensorItem icon="activity" value={field.ph.toFixed(1)} label="pH" />
         <SensorItem icon="thermometer" value={`${field.temperature}°C`} label="Temp" />
         <SensorItem icon="wind" value={`${field.nitrogen}%`} label="N-P-K" />
       </View>
 
+      {field.statusReason ? (
+        <ThemedText style={[styles.reason, { color: getStatusColor() }]}>
+          {field.statusReason}
+        </ThemedText>
+      ) : null}
+
       <View style={[styles.footer, { borderTopColor: theme.border }]}>
         <Feather name="clock" size={14} color={theme.textSecondary} />
         <ThemedText style={[styles.footerText, { color: theme.textSecondary }]}>
-          Last irrigation: {field.lastIrrigation}
+          Last irrigation: {field.lastIrrigation ?? "Unknown"}
         </ThemedText>
         <Feather name="chevron-right" size={18} color={theme.textSecondary} />
       </View>
@@ -196,6 +205,11 @@ const styles = StyleSheet.create({
   sensorLabel: {
     fontSize: 11,
   },
+  reason: {
+    fontSize: 13,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
   footer: {
     flexDirection: "row",
     alignItems: "center",
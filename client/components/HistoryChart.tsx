@@ -0,0 +1,137 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing } from "@/constants/theme";
+import type { SensorMetric } from "@shared/schema";
+import type { HistoryBucket, HistoryPoint } from "@shared/history";
+
+interface HistoryChartProps {
+  series: HistoryPoint[];
+  metric: SensorMetric;
+  bucket: HistoryBucket;
+  unit: string;
+  color?: string;
+}
+
+const CHART_HEIGHT = 120;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function bucketLabel(start: string, bucket: HistoryBucket): string {
+  const date = new Date(start);
+  return bucket === "hour"
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+// One bar per bucket for the metric's average, scaled between the lowest and
+// highest readings of the range. Buckets without readings are left empty.
+export function HistoryChart({
+  series,
+  metric,
+  bucket,
+  unit,
+  color,
+}: HistoryChartProps) {
+  const { theme } = useTheme();
+  const stats = series.map((point) => point[metric]);
+  const present = stats.filter((stat) => stat !== undefined);
+
+  if (present.length === 0) {
+    return (
+      <ThemedText style={[styles.empty, { color: theme.textSecondary }]}>
+        No readings in this range
+      </ThemedText>
+    );
+  }
+
+  const low = Math.min(...present.map((stat) => stat.min));
+  const high = Math.max(...present.map((stat) => stat.max));
+  const span = high - low || 1;
+  const barColor = color ?? theme.accent;
+
+  return (
+    <View>
+      <View style={styles.scaleRow}>
+        <ThemedText style={[styles.scaleText, { color: theme.textSecondary }]}>
+          {round(high)}
+          {unit}
+        </ThemedText>
+      </View>
+      <View
+        style={[
+          styles.chart,
+          { height: CHART_HEIGHT, borderColor: theme.border },
+        ]}
+      >
+        {stats.map((stat, i) => (
+          <View key={series[i].start} style={styles.slot}>
+            {stat ? (
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    // A sliver even at the range's low point
+                    height: Math.max(
+                      2,
+                      ((stat.avg - low) / span) * CHART_HEIGHT,
+                    ),
+                    backgroundColor: barColor,
+                  },
+                ]}
+              />
+            ) : null}
+          </View>
+        ))}
+      </View>
+      <View style={styles.scaleRow}>
+        <ThemedText style={[styles.scaleText, { color: theme.textSecondary }]}>
+          {round(low)}
+          {unit}
+        </ThemedText>
+      </View>
+      <View style={styles.axisRow}>
+        <ThemedText style={[styles.scaleText, { color: theme.textSecondary }]}>
+          {bucketLabel(series[0].start, bucket)}
+        </ThemedText>
+        <ThemedText style={[styles.scaleText, { color: theme.textSecondary }]}>
+          {bucketLabel(series[series.length - 1].start, bucket)}
+        </ThemedText>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    borderBottomWidth: 1,
+    gap: 2,
+  },
+  slot: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  bar: {
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  scaleRow: {
+    paddingVertical: Spacing.xs,
+  },
+  axisRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  scaleText: {
+    fontSize: 11,
+  },
+  empty: {
+    fontSize: 13,
+    textAlign: "center",
+    paddingVertical: Spacing.lg,
+  },
+});
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ActivityIndicator } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { BorderRadius, Spacing, Shadows } from "@/constants/theme";
+import { describeApiError } from "@/services/farmAccess";
+import {
+  getFarmWaterBalance,
+  type FieldWaterBalance,
+} from "@/services/waterBalance";
+
+interface WaterBalanceCardProps {
+  farmId: string;
+}
+
+function refillText(days: number | null): string {
+  if (days === null) return "No irrigation needed";
+  if (days === 0) return "Irrigate today";
+  if (days === 1) return "Irrigate tomorrow";
+  return `Irrigate in ${days} days`;
+}
+
+// How much water each field's root zone has left, when it will reach the
+// refill point and how much to apply then.
+export function WaterBalanceCard({ farmId }: WaterBalanceCardProps) {
+  const { theme } = useTheme();
+  const [balances, setBalances] = useState<FieldWaterBalance[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getFarmWaterBalance(farmId)
+      .then((result) => {
+        if (!cancelled) setBalances(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(describeApiError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [farmId]);
+
+  const levelColor = (balance: FieldWaterBalance) =>
+    balance.daysUntilRefill === 0
+      ? theme.critical
+      : balance.daysUntilRefill !== null && balance.daysUntilRefill <= 2
+        ? theme.warning
+        : theme.success;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.cardBackground, borderColor: theme.border },
+        Shadows.small,
+      ]}
+    >
+      {isLoading ? (
+        <ActivityIndicator color={theme.primary} />
+      ) : error ? (
+        <View style={styles.message}>
+          <Feather name="map-pin" size={16} color={theme.textSecondary} />
+          <ThemedText
+            style={[styles.messageText, { color: theme.textSecondary }]}
+          >
+            {error}
+          </ThemedText>
+        </View>
+      ) : balances && balances.length === 0 ? (
+        <ThemedText
+          style={[styles.messageText, { color: theme.textSecondary }]}
+        >
+          Add fields to this farm to track their soil water.
+        </ThemedText>
+      ) : balances ? (
+        balances.map((balance, i) => (
+          <View
+            key={balance.fieldId}
+            style={[
+              styles.field,
+              i > 0 && { borderTopWidth: 1, borderTopColor: theme.border },
+            ]}
+          >
+            <View style={styles.fieldHeader}>
+              <ThemedText style={styles.fieldName}>
+                {balance.fieldName}
+              </ThemedText>
+              <ThemedText
+                style={[styles.refill, { color: levelColor(balance) }]}
+              >
+                {refillText(balance.daysUntilRefill)}
+              </ThemedText>
+            </View>
+
+            {balance.cropStage ? (
+              <ThemedText
+                style={[styles.detail, { color: theme.textSecondary }]}
+              >
+                {balance.cropStage}
+              </ThemedText>
+            ) : null}
+
+            <View style={[styles.track, { backgroundColor: theme.border }]}>
+              <View
+                style={[
+                  styles.level,
+                  {
+                    width: `${balance.waterLeft}%`,
+                    backgroundColor: levelColor(balance),
+                  },
+                ]}
+              />
+              <View
+                style={[
+                  styles.refillMark,
+                  {
+                    left: `${100 - (100 * balance.readilyAvailableWater) / balance.totalAvailableWater}%`,
+                    backgroundColor: theme.text,
+                  },
+                ]}
+              />
+            </View>
+
+            <ThemedText style={[styles.detail, { color: theme.textSecondary }]}>
+              {balance.waterLeft}% of available water left · {balance.depletion}{" "}
+              of {balance.readilyAvailableWater} mm used before refill
+            </ThemedText>
+            {balance.recommendedDepth > 0 ? (
+              <ThemedText
+                style={[styles.detail, { color: theme.textSecondary }]}
+              >
+                Apply {balance.recommendedDepth} mm to refill
+                {balance.recommendedMinutes !== null
+                  ? ` (about ${balance.recommendedMinutes} min)`
+                  : ""}
+              </ThemedText>
+            ) : null}
+          </View>
+        ))
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  field: {
+    paddingVertical: Spacing.sm,
+  },
+  fieldHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  fieldName: {
+    fontWeight: "600",
+  },
+  refill: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+    marginBottom: Spacing.xs,
+  },
+  level: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  refillMark: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 2,
+  },
+  detail: {
+    fontSize: 12,
+  },
+  message: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  messageText: {
+    flex: 1,
+    fontSize: 13,
+  },
+});
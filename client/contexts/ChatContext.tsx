@@ -1,14 +1,14 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { Alert, AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { 
-  getChatCompletion, 
-  availableModels, 
-  validateApiKey,
-  testApiConnection,
-  ChatMessage as GroqChatMessage,
-  ChatCompletionOptions
-} from '@/services/groq';
+import {
+  availableModels,
+  getChatStatus,
+  streamChatCompletion,
+  ChatMessage as ApiChatMessage,
+} from '@/services/chat';
+import { useFarms } from '@/contexts/FarmContext';
+import type { ChatModelId } from '@shared/chat';
 
 export interface Message {
   _id: string;
@@ -29,7 +29,6 @@ export interface ChatConfig {
   model: string;
   temperature: number;
   maxTokens: number;
-  apiKey?: string;
 }
 
 interface ChatContextType {
@@ -41,7 +40,6 @@ interface ChatContextType {
   sendMessage: (text: string) => Promise<void>;
   clearChat: () => void;
   updateConfig: (config: Partial<ChatConfig>) => Promise<void>;
-  validateApiKey: (key: string) => Promise<boolean>;
   testConnection: () => Promise<void>;
   availableModels: typeof availableModels;
   toggleChat: () => void;
@@ -73,17 +71,19 @@ export function ChatProvider({ children }: { children: ReactNode }) {
   const [showChat, setShowChat] = useState(true);
   const [apiStatus, setApiStatus] = useState<'connected' | 'disconnected' | 'checking'>('checking');
   const [isInitialized, setIsInitialized] = useState(false);
+  // The AI is told about the farm the user has selected
+  const { selectedFarm } = useFarms();
 
   // Check API connection on app start and when app comes to foreground
   useEffect(() => {
     const checkConnection = async () => {
       try {
         setApiStatus('checking');
-        const result = await testApiConnection();
-        setApiStatus(result.success ? 'connected' : 'disconnected');
+        const status = await getChatStatus();
+        setApiStatus(status.available ? 'connected' : 'disconnected');
         
-        if (!result.success) {
-          console.warn('API connection check failed:', result.message);
+        if (!status.available) {
+          console.warn('AI chat is not configured on the server');
         }
       } catch (error) {
         setApiStatus('disconnected');
@@ -127,7 +127,8 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         // Load chat config
         const storedConfig = await AsyncStorage.getItem(STORAGE_KEYS.CHAT_CONFIG);
         if (storedConfig) {
-          const parsedConfig = JSON.parse(storedConfig);
+          // Drop the API key older versions kept on the device
+          const { apiKey: _apiKey, ...parsedConfig } = JSON.parse(storedConfig);
           
           // Migrate deprecated models to current versions
           const migratedConfig = migrateModelConfig(parsedConfig);
@@ -169,7 +170,11 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     };
 
     const currentModel = cfg.model;
-    const newModel = deprecatedModelMap[currentModel] || currentModel;
+    const mappedModel = deprecatedModelMap[currentModel] || currentModel;
+    // The chat proxy only accepts the models it lists
+    const newModel = availableModels.some(m => m.id === mappedModel)
+      ? mappedModel
+      : defaultConfig.model;
 
     if (newModel !== currentModel) {
       return { ...cfg, model: newModel };
@@ -260,7 +265,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     setIsTyping(true);
 
     try {
-      // Prepare messages for Groq API
+      // Prepare the conversation for the chat proxy
       const conversationMessages = messages
         .filter(msg => !msg.pending && !msg.error)
         .slice(-10)
@@ -269,7 +274,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           content: msg.text
         }));
 
-      const groqMessages: GroqChatMessage[] = [
+      const apiMessages: ApiChatMessage[] = [
         ...conversationMessages,
         {
           role: 'user',
@@ -277,21 +282,28 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         }
       ];
 
-      // API options
-      const options: ChatCompletionOptions = {
-        model: config.model,
-        temperature: config.temperature,
-        max_tokens: config.maxTokens,
-        stream: false,
-      };
-
-      // Get response from Groq
-      const response = await getChatCompletion(groqMessages, options);
+      // Show the answer as it streams in
+      const { content } = await streamChatCompletion(
+        {
+          messages: apiMessages,
+          model: config.model as ChatModelId,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          farmId: selectedFarm?.id,
+        },
+        (partial) => {
+          setMessages(prev => prev.map(msg =>
+            msg.pending && msg.user._id === 'bot'
+              ? { ...msg, text: partial }
+              : msg
+          ));
+        }
+      );
 
       // Update bot message with response
       const updatedMessages = newMessages.map(msg => 
         msg.pending && msg.user._id === 'bot'
-          ? { ...msg, text: response, pending: false }
+          ? { ...msg, text: content, pending: false }
           : msg
       );
 
@@ -377,29 +389,6 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     // Migrate model if it's deprecated
     const migratedConfig = migrateModelConfig(updatedConfig);
     
-    // Validate API key if it's being updated
-    if (newConfig.apiKey !== undefined) {
-      if (newConfig.apiKey && newConfig.apiKey.trim() !== '') {
-        const isValid = await validateApiKey(newConfig.apiKey.trim());
-        
-        if (isValid) {
-          // Test connection with new API key
-          setApiStatus('checking');
-          const result = await testApiConnection();
-          setApiStatus(result.success ? 'connected' : 'disconnected');
-          
-          if (result.success) {
-            Alert.alert('✅ Success', 'API key validated and connected successfully!');
-          } else {
-            Alert.alert('⚠️ Warning', 'API key validated but connection test failed.');
-          }
-        } else {
-          Alert.alert('❌ Invalid API Key', 'The provided API key appears to be invalid.');
-          return; // Don't save invalid key
-        }
-      }
-    }
-    
     // Notify user if model was migrated
     if (migratedConfig.model !== updatedConfig.model) {
       Alert.alert(
@@ -412,19 +401,17 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     await saveConfig(migratedConfig);
   };
 
-  const validateApiKeyHandler = async (key: string): Promise<boolean> => {
-    return await validateApiKey(key);
-  };
-
   const testConnection = async () => {
     try {
       setApiStatus('checking');
-      const result = await testApiConnection();
-      setApiStatus(result.success ? 'connected' : 'disconnected');
+      const status = await getChatStatus();
+      setApiStatus(status.available ? 'connected' : 'disconnected');
       
       Alert.alert(
-        result.success ? '✅ Connection Successful' : '❌ Connection Failed',
-        result.message
+        status.available ? '✅ Connection Successful' : '❌ Connection Failed',
+        status.available
+          ? `${status.usage.requests} of ${status.usage.requestLimit} messages used today`
+          : 'AI chat is not configured on the server.'
       );
     } catch (error: any) {
       setApiStatus('disconnected');
@@ -464,7 +451,6 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     sendMessage,
     clearChat,
     updateConfig,
-    validateApiKey: validateApiKeyHandler,
     testConnection,
     availableModels,
     toggleChat,
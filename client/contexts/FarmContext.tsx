@@ -1,42 +1,22 @@
 // FarmContext.tsx - Updated for Realtime Database
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { getDatabase, ref, push, set, update, remove, get, query, orderByChild, equalTo, onValue, off } from 'firebase/database';
+import { getDatabase } from 'firebase/database';
 import { useAuth } from '@/contexts/AuthContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface Farm {
-  id: string;
-  name: string;
-  location: string;
-  totalAcres: number;
-  cropTypes: string[];
-  soilType: string;
-  irrigationType: string;
-  createdAt: string;
-  updatedAt: string;
-  userId: string;
-  status: 'active' | 'inactive';
-  description?: string;
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-  };
-  sensorData?: {
-    soilMoisture: number;
-    pH: number;
-    temperature: number;
-    nitrogen: number;
-    phosphorus: number;
-    potassium: number;
-    lastUpdated: string;
-  };
-}
+import {
+  createFarm,
+  deleteFarm as deleteFarmEverywhere,
+  describeApiError,
+  loadAccessibleFarms,
+  updateFarm as updateFarmEverywhere,
+} from '@/services/farmAccess';
+import type { Farm, NewFarm } from '@shared/models';
 
 interface FarmContextType {
   farms: Farm[];
   loading: boolean;
   selectedFarm: Farm | null;
-  addFarm: (farmData: Omit<Farm, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => Promise<{ success: boolean; error?: string }>;
+  addFarm: (farmData: NewFarm) => Promise<{ success: boolean; error?: string }>;
   updateFarm: (farmId: string, farmData: Partial<Farm>) => Promise<{ success: boolean; error?: string }>;
   deleteFarm: (farmId: string) => Promise<{ success: boolean; error?: string }>;
   selectFarm: (farm: Farm | null) => void;
@@ -68,41 +48,16 @@ export function FarmProvider({ children }: { children: ReactNode }) {
     try {
       setLoading(true);
       
-      // Query farms for current user
-      const farmsRef = ref(db, 'farms');
-      // We'll filter by userId on the client side since Realtime Database doesn't support complex queries like Firestore
+      // Farms the user owns or has been invited to
+      const { farmsData, roles } = await loadAccessibleFarms(db, user.uid);
+      const loadedFarms: Farm[] = Object.keys(farmsData).map((key) => ({
+        id: key,
+        ...farmsData[key],
+        role: roles[key],
+      }));
       
-      const snapshot = await get(farmsRef);
-      const loadedFarms: Farm[] = [];
-      
-      if (snapshot.exists()) {
-        const farmsData = snapshot.val();
-        Object.keys(farmsData).forEach((key) => {
-          const farm = farmsData[key];
-          // Only include farms that belong to the current user
-          if (farm.userId === user.uid) {
-            loadedFarms.push({
-              id: key,
-              name: farm.name || '',
-              location: farm.location || '',
-              totalAcres: farm.totalAcres || 0,
-              cropTypes: farm.cropTypes || [],
-              soilType: farm.soilType || '',
-              irrigationType: farm.irrigationType || '',
-              createdAt: farm.createdAt || '',
-              updatedAt: farm.updatedAt || '',
-              userId: farm.userId,
-              status: farm.status || 'active',
-              description: farm.description,
-              coordinates: farm.coordinates,
-              sensorData: farm.sensorData
-            });
-          }
-        });
-        
-        // Sort by creation date
-        loadedFarms.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-      }
+      // Sort by creation date
+      loadedFarms.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
       
       setFarms(loadedFarms);
       
@@ -110,8 +65,8 @@ export function FarmProvider({ children }: { children: ReactNode }) {
       const savedSelectedFarm = await AsyncStorage.getItem(SELECTED_FARM_KEY);
       if (savedSelectedFarm) {
         const parsedFarm = JSON.parse(savedSelectedFarm);
-        // Verify the farm still exists in the loaded farms and belongs to the user
-        const farmExists = loadedFarms.find(farm => farm.id === parsedFarm.id && farm.userId === user.uid);
+        // Verify the farm still exists in the loaded farms and the user can still see it
+        const farmExists = loadedFarms.find(farm => farm.id === parsedFarm.id);
         if (farmExists) {
           setSelectedFarm(farmExists);
         } else if (loadedFarms.length > 0) {
@@ -146,18 +101,16 @@ export function FarmProvider({ children }: { children: ReactNode }) {
   };
 
   // Add a new farm
-  const addFarm = async (farmData: Omit<Farm, 'id' | 'createdAt' | 'updatedAt' | 'userId'>): Promise<{ success: boolean; error?: string }> => {
+  const addFarm = async (farmData: NewFarm): Promise<{ success: boolean; error?: string }> => {
     if (!user) {
       return { success: false, error: 'You must be logged in to add a farm' };
     }
 
     try {
-      const farmWithMetadata = {
+      // The server assigns the id; the farm's node is written under it
+      const newFarm = await createFarm(db, user.uid, {
         ...farmData,
-        userId: user.uid,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        status: 'active' as const,
+        status: 'active',
         sensorData: {
           soilMoisture: 0,
           pH: 0,
@@ -167,17 +120,7 @@ export function FarmProvider({ children }: { children: ReactNode }) {
           potassium: 0,
           lastUpdated: new Date().toISOString()
         }
-      };
-
-      const farmsRef = ref(db, 'farms');
-      const newFarmRef = push(farmsRef);
-      await set(newFarmRef, farmWithMetadata);
-      
-      // Create the new farm object with the generated ID
-      const newFarm: Farm = {
-        id: newFarmRef.key!,
-        ...farmWithMetadata,
-      };
+      });
       
       // Update local state
       setFarms(prev => [newFarm, ...prev]);
@@ -189,11 +132,11 @@ export function FarmProvider({ children }: { children: ReactNode }) {
       }
       
       return { success: true };
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error adding farm:', error);
       return { 
         success: false, 
-        error: error.message || 'Failed to add farm. Please try again.' 
+        error: describeApiError(error) 
       };
     }
   };
@@ -201,11 +144,7 @@ export function FarmProvider({ children }: { children: ReactNode }) {
   // Update an existing farm
   const updateFarm = async (farmId: string, farmData: Partial<Farm>): Promise<{ success: boolean; error?: string }> => {
     try {
-      const farmRef = ref(db, `farms/${farmId}`);
-      await update(farmRef, {
-        ...farmData,
-        updatedAt: new Date().toISOString(),
-      });
+      await updateFarmEverywhere(db, farmId, farmData);
       
       // Update local state
       setFarms(prev => prev.map(farm => 
@@ -222,11 +161,11 @@ export function FarmProvider({ children }: { children: ReactNode }) {
       }
       
       return { success: true };
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating farm:', error);
       return { 
         success: false, 
-        error: error.message || 'Failed to update farm. Please try again.' 
+        error: describeApiError(error) 
       };
     }
   };
@@ -237,8 +176,7 @@ export function FarmProvider({ children }: { children: ReactNode }) {
       // Check if this is the selected farm
       const isSelectedFarm = selectedFarm?.id === farmId;
       
-      const farmRef = ref(db, `farms/${farmId}`);
-      await remove(farmRef);
+      await deleteFarmEverywhere(db, farmId);
       
       // Update local state
       setFarms(prev => prev.filter(farm => farm.id !== farmId));
@@ -256,11 +194,11 @@ export function FarmProvider({ children }: { children: ReactNode }) {
       }
       
       return { success: true };
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting farm:', error);
       return { 
         success: false, 
-        error: error.message || 'Failed to delete farm. Please try again.' 
+        error: describeApiError(error) 
       };
     }
   };
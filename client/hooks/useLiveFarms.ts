@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { liveClient, type FarmMessage } from "@/lib/live-client";
+import type {
+  LiveAlert,
+  LiveCommand,
+  LiveIrrigationRun,
+  LiveSensorData,
+} from "@shared/live";
+import { alertSchema } from "@shared/models";
+
+export type LiveFarmState = {
+  sensorData: LiveSensorData | null;
+  // The run in progress, if any
+  activeRun: LiveIrrigationRun | null;
+  // The most recent run change, including the one that just finished
+  lastRun: LiveIrrigationRun | null;
+  // The most recent valve command the controller confirmed or rejected
+  lastCommand: LiveCommand | null;
+  error: string | null;
+};
+
+const EMPTY_STATE: LiveFarmState = {
+  sensorData: null,
+  activeRun: null,
+  lastRun: null,
+  lastCommand: null,
+  error: null,
+};
+
+function applyMessage(
+  state: LiveFarmState,
+  message: FarmMessage,
+): LiveFarmState {
+  switch (message.type) {
+    case "subscribed":
+      return {
+        ...state,
+        sensorData: message.sensorData,
+        activeRun: message.activeRun,
+        error: null,
+      };
+    case "sensorData":
+      return { ...state, sensorData: message.sensorData };
+    case "irrigationRun":
+      return {
+        ...state,
+        activeRun: message.run.status === "in_progress" ? message.run : null,
+        lastRun: message.run,
+      };
+    case "command":
+      return { ...state, lastCommand: message.command };
+    case "error":
+      return { ...state, error: message.message };
+    default:
+      return state;
+  }
+}
+
+/**
+ * Follows sensor snapshots, irrigation runs and valve commands for the given
+ * farms over the API server's WebSocket, keyed by farm id. `onAlert` is called
+ * for alerts raised on any of them. Nothing is followed while signed out.
+ */
+export function useLiveFarms(
+  farmIds: string[],
+  onAlert?: (alert: LiveAlert) => void,
+): { farms: Record<string, LiveFarmState>; connected: boolean } {
+  const { user } = useAuth();
+  const uid = user?.uid;
+  const [farms, setFarms] = useState<Record<string, LiveFarmState>>({});
+  const [connected, setConnected] = useState(liveClient.connected);
+  const onAlertRef = useRef(onAlert);
+  onAlertRef.current = onAlert;
+
+  const farmKey = farmIds.join(",");
+
+  useEffect(() => liveClient.onStatusChange(setConnected), []);
+
+  useEffect(() => {
+    setFarms({});
+    if (!uid || !farmKey) return;
+
+    const unsubscribes = farmKey.split(",").map((farmId) =>
+      liveClient.followFarm(farmId, (message) => {
+        if (message.type === "alert") {
+          const alert = alertSchema.safeParse(message.alert);
+          if (alert.success) {
+            onAlertRef.current?.(alert.data);
+          } else {
+            console.warn("Ignoring malformed live alert:", alert.error.message);
+          }
+          return;
+        }
+        setFarms((prev) => ({
+          ...prev,
+          [farmId]: applyMessage(prev[farmId] ?? EMPTY_STATE, message),
+        }));
+      }),
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [uid, farmKey]);
+
+  return { farms, connected };
+}
+
+// Single-farm form of `useLiveFarms`; pass undefined to follow nothing.
+export function useLiveFarm(
+  farmId: string | undefined,
+  onAlert?: (alert: LiveAlert) => void,
+): LiveFarmState & { connected: boolean } {
+  const { farms, connected } = useLiveFarms(farmId ? [farmId] : [], onAlert);
+  return { ...((farmId && farms[farmId]) || EMPTY_STATE), connected };
+}
@@ -0,0 +1,145 @@
+import { auth } from "@/config/firebase";
+import { getApiUrl } from "@/lib/query-client";
+import {
+  LIVE_PATH,
+  type LiveClientMessage,
+  type LiveServerMessage,
+} from "@shared/live";
+
+export type FarmMessage = Exclude<LiveServerMessage, { type: "ready" }>;
+type FarmListener = (message: FarmMessage) => void;
+type StatusListener = (connected: boolean) => void;
+
+const MAX_RETRY_MS = 30 * 1000;
+
+/**
+ * One WebSocket to the API server shared by every screen. It connects while
+ * at least one farm is followed, authenticates with the user's ID token,
+ * re-subscribes after reconnecting and closes once nothing is followed.
+ */
+class LiveClient {
+  private socket: WebSocket | null = null;
+  private ready = false;
+  private retries = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+  private farmListeners = new Map<string, Set<FarmListener>>();
+  private statusListeners = new Set<StatusListener>();
+
+  get connected(): boolean {
+    return this.ready;
+  }
+
+  followFarm(farmId: string, listener: FarmListener): () => void {
+    let listeners = this.farmListeners.get(farmId);
+    if (!listeners) {
+      listeners = new Set();
+      this.farmListeners.set(farmId, listeners);
+      this.sendIfReady({ type: "subscribe", farmId });
+    }
+    listeners.add(listener);
+    this.connect();
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size > 0) return;
+
+      this.farmListeners.delete(farmId);
+      this.sendIfReady({ type: "unsubscribe", farmId });
+      if (this.farmListeners.size === 0) this.disconnect();
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private connect() {
+    if (this.socket || this.retryTimer) return;
+
+    const url = new URL(LIVE_PATH, getApiUrl());
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(url.toString());
+    this.socket = socket;
+
+    socket.onopen = async () => {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) {
+        socket.close();
+        return;
+      }
+      this.send(socket, { type: "auth", token });
+    };
+    socket.onmessage = (event) => {
+      this.onMessage(socket, JSON.parse(String(event.data)));
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setReady(false);
+      // Nothing to retry when signed out or no longer following anything.
+      if (this.farmListeners.size > 0 && auth.currentUser) this.scheduleRetry();
+    };
+  }
+
+  private disconnect() {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    this.retries = 0;
+    const socket = this.socket;
+    this.socket = null;
+    this.setReady(false);
+    socket?.close();
+  }
+
+  // Backs off exponentially to 30s so a down server isn't hammered.
+  private scheduleRetry() {
+    const delay = Math.min(1000 * 2 ** this.retries, MAX_RETRY_MS);
+    this.retries += 1;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      if (this.farmListeners.size > 0) this.connect();
+    }, delay);
+  }
+
+  private onMessage(socket: WebSocket, message: LiveServerMessage) {
+    if (message.type === "ready") {
+      this.retries = 0;
+      this.setReady(true);
+      this.farmListeners.forEach((_listeners, farmId) => {
+        this.send(socket, { type: "subscribe", farmId });
+      });
+      return;
+    }
+    if (message.farmId === undefined) {
+      if (message.type === "error") {
+        console.error("Live updates error:", message.message);
+      }
+      return;
+    }
+
+    this.farmListeners
+      .get(message.farmId)
+      ?.forEach((listener) => listener(message));
+  }
+
+  private setReady(ready: boolean) {
+    if (this.ready === ready) return;
+    this.ready = ready;
+    this.statusListeners.forEach((listener) => listener(ready));
+  }
+
+  private sendIfReady(message: LiveClientMessage) {
+    if (this.socket && this.ready) this.send(this.socket, message);
+  }
+
+  private send(socket: WebSocket, message: LiveClientMessage) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const liveClient = new LiveClient();
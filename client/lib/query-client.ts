@@ -1,4 +1,7 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { Platform } from "react-native";
+import Constants from "expo-constants";
+import { auth } from "@/config/firebase";
 
 /**
  * Gets the base URL for the Express API server (e.g., "http://localhost:3000")
@@ -16,6 +19,24 @@ export function getApiUrl(): string {
   return url.href;
 }
 
+// Identifies the app build and platform in the server's audit log
+const CLIENT_ID = `agrisense-app/${Constants.expoConfig?.version ?? "dev"} (${Platform.OS})`;
+
+/**
+ * Authenticates the signed-in Firebase user to the API server with their ID
+ * token. The Firebase SDK caches the token and refreshes it before it expires.
+ * Also names the app build in X-Client so the server's audit trail can record
+ * which client made a change.
+ * @returns {Promise<Record<string, string>>} Headers to merge into every request
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  return {
+    "X-Client": CLIENT_ID,
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -33,7 +54,10 @@ export async function apiRequest(
 
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(await getAuthHeaders()),
+      ...(data ? { "Content-Type": "application/json" } : {}),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -52,6 +76,7 @@ export const getQueryFn: <T>(options: {
     const url = new URL(queryKey.join("/") as string, baseUrl);
 
     const res = await fetch(url, {
+      headers: await getAuthHeaders(),
       credentials: "include",
     });
 
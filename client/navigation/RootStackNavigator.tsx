@@ -4,9 +4,14 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import MainTabNavigator from "@/navigation/MainTabNavigator";
 import NotificationsScreen from "@/screens/NotificationsScreen";
 import FieldDetailScreen from "@/screens/FieldDetailScreen";
+import FarmTeamScreen from "@/screens/FarmTeamScreen";
+import FarmActivityScreen from "@/screens/FarmActivityScreen";
+import FarmDevicesScreen from "@/screens/FarmDevicesScreen";
+import DeviceCalibrationScreen from "@/screens/DeviceCalibrationScreen";
 import LoginScreen from "@/screens/auth/LoginScreen";
 import SignupScreen from "@/screens/auth/SignupScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
+import type { DeviceType } from "@/services/devices";
 import ForgotPasswordScreen from "@/screens/auth/forgot-password";
 
 export type RootStackParamList = {
@@ -16,6 +21,14 @@ export type RootStackParamList = {
   Main: undefined;
   Notifications: undefined;
   FieldDetail: { fieldId: string };
+  FarmTeam: { farmId: string; farmName: string };
+  FarmActivity: { farmId: string; farmName: string };
+  FarmDevices: { farmId: string; farmName: string };
+  DeviceCalibration: {
+    deviceId: string;
+    deviceName: string;
+    deviceType: DeviceType;
+  };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -46,12 +59,12 @@ export default function RootStackNavigator() {
       <Stack.Screen
         name="ForgotPassword"
         component={ForgotPasswordScreen}
-        options={{ 
+        options={{
           title: "Reset Password",
-          headerShown: true 
+          headerShown: true,
         }}
       />
-      
+
       {/* Main App */}
       <Stack.Screen
         name="Main"
@@ -75,6 +88,38 @@ export default function RootStackNavigator() {
           headerTitle: "Field Details",
         }}
       />
+      <Stack.Screen
+        name="FarmTeam"
+        component={FarmTeamScreen}
+        options={{
+          ...opaqueScreenOptions,
+          headerTitle: "Farm Team",
+        }}
+      />
+      <Stack.Screen
+        name="FarmActivity"
+        component={FarmActivityScreen}
+        options={{
+          ...opaqueScreenOptions,
+          headerTitle: "Farm Activity",
+        }}
+      />
+      <Stack.Screen
+        name="FarmDevices"
+        component={FarmDevicesScreen}
+        options={{
+          ...opaqueScreenOptions,
+          headerTitle: "Devices",
+        }}
+      />
+      <Stack.Screen
+        name="DeviceCalibration"
+        component={DeviceCalibrationScreen}
+        options={{
+          ...opaqueScreenOptions,
+          headerTitle: "Calibration",
+        }}
+      />
     </Stack.Navigator>
   );
 }
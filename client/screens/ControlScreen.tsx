@@ -24,60 +24,60 @@ import {
   ref, 
   get, 
   set, 
-  update, 
-  push, 
-  onValue, 
-  off,
-  remove
+  update
 } from "firebase/database";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Button } from "@/components/Button";
+import { EvapotranspirationCard } from "@/components/EvapotranspirationCard";
+import { WaterBalanceCard } from "@/components/WaterBalanceCard";
 import { useTheme } from "@/hooks/useTheme";
+import { useLiveFarm } from "@/hooks/useLiveFarms";
 import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/query-client";
+import {
+  acceptInvite,
+  canPerform,
+  createFarm,
+  deleteFarm,
+  describeApiError,
+  getMyInvites,
+  loadAccessibleFarms,
+  type FarmInvite,
+  type FarmRole,
+} from "@/services/farmAccess";
 import { Spacing, BorderRadius, Shadows } from "@/constants/theme";
+import type { ReadingQuality } from "@shared/quality";
+import type { LiveCommand } from "@shared/live";
+import { assessHealth, type HealthAssessment } from "@shared/health";
+import {
+  irrigationLogSchema,
+  type ApiIrrigationLog,
+  type Farm as FarmModel,
+  type SensorSnapshot,
+} from "@shared/models";
 
 type RootStackParamList = {
   Control: undefined;
   Farms: undefined;
   AddFarm: undefined;
   FieldDetail: { fieldId: string };
+  FarmTeam: { farmId: string; farmName: string };
+  FarmActivity: { farmId: string; farmName: string };
+  FarmDevices: { farmId: string; farmName: string };
 };
 
-interface Farm {
-  id: string;
-  name: string;
-  location: string;
-  totalAcres: number;
-  cropTypes: string[];
-  soilType: string;
-  irrigationType: string;
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-  };
-  description?: string;
-  createdAt: string;
-  updatedAt: string;
-  userId: string;
-  status: 'healthy' | 'attention' | 'critical';
-  sensorData?: {
-    soilMoisture: number;
-    pH: number;
-    temperature: number;
-    nitrogen: number;
-    phosphorus: number;
-    potassium: number;
-    lastUpdated: string;
-  };
-  irrigationSchedule?: {
-    autoMode: boolean;
-    scheduleTime: string;
-    duration: number;
-    lastUpdated: string;
-  };
-}
+// A farm with the user's role and its health worked out from the latest readings
+type Farm = FarmModel & {
+  role: FarmRole;
+  health: HealthAssessment;
+};
+
+// A run as the irrigation routes return it, with the valve command it sent
+type IrrigationRun = ApiIrrigationLog & {
+  command?: LiveCommand;
+};
 
 interface IrrigationSettings {
   autoMode: boolean;
@@ -87,19 +87,21 @@ interface IrrigationSettings {
   lastUpdated: string;
 }
 
+type ScheduleSettings = Pick<IrrigationSettings, 'autoMode' | 'scheduleTime' | 'duration'>;
+
 const IRRIGATION_SETTINGS_KEY = '@agrisense_irrigation_settings';
 
 // Helper function to extract sensor data from any object structure
-const extractSensorData = (data: any) => {
+const extractSensorData = (data: Omit<SensorSnapshot, 'lastUpdated' | 'quality'> | undefined) => {
   if (!data) return { soilMoisture: 0, pH: 0, temperature: 0, nitrogen: 0, phosphorus: 0, potassium: 0 };
   
   return {
-    soilMoisture: Number(data['soil moisture'] || data.soilMoisture || 0),
-    pH: Number(data.ph || data.pH || 0),
-    temperature: Number(data.temperature || 0),
-    nitrogen: Number(data.nitrogen || 0),
-    phosphorus: Number(data.phosphorus || 0),
-    potassium: Number(data.potassium || 0)
+    soilMoisture: data.soilMoisture,
+    pH: data.pH,
+    temperature: data.temperature,
+    nitrogen: data.nitrogen,
+    phosphorus: data.phosphorus,
+    potassium: data.potassium
   };
 };
 
@@ -123,6 +125,8 @@ export default function ControlScreen() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isIrrigating, setIsIrrigating] = useState(false);
   const [nextIrrigationTime, setNextIrrigationTime] = useState("No schedule set");
+  const [valveCommand, setValveCommand] = useState<LiveCommand | null>(null);
+  const [pendingInvites, setPendingInvites] = useState<FarmInvite[]>([]);
   const [showAddFarmModal, setShowAddFarmModal] = useState(false);
   const [showQuickAddModal, setShowQuickAddModal] = useState(false);
   const [quickFarmName, setQuickFarmName] = useState("");
@@ -136,65 +140,104 @@ export default function ControlScreen() {
   // Initialize Firebase
   const database = getDatabase();
 
+  // What the user's role on the selected farm lets them do
+  const canIrrigate = canPerform(selectedFarm?.role, 'irrigate');
+  const canEditSchedule = canPerform(selectedFarm?.role, 'editSchedule');
+
+  const alertNotAllowed = (action: string) => {
+    Alert.alert(
+      "Not Allowed",
+      `Your ${selectedFarm?.role ?? "current"} role on ${selectedFarm?.name ?? "this farm"} does not allow you to ${action}. Ask the farm owner or a manager.`
+    );
+  };
+
   // Load farms and settings
   useEffect(() => {
     loadSettings();
     loadUserFarms();
+    loadPendingInvites();
     
     return () => {
       // Clean up any listeners
     };
   }, [user]);
 
-  // Listen to real-time sensor data
+  // Sensor snapshots, runs and valve commands are pushed by the API server
+  const live = useLiveFarm(selectedFarm?.id);
+
   useEffect(() => {
-    if (!selectedFarm) return;
-    
-    // Listen to sensor data from the correct location
-    let sensorRef;
-    if (selectedFarm.id.startsWith('farm')) {
-      // For farm1-farm5, listen at root level
-      sensorRef = ref(database, `${selectedFarm.id}`);
-    } else {
-      // For user-added farms in the "farms" node
-      sensorRef = ref(database, `farms/${selectedFarm.id}/sensorData`);
+    if (!selectedFarm || !live.sensorData) return;
+    showSensorData(selectedFarm.id, extractSensorData(live.sensorData), live.sensorData.lastUpdated, live.sensorData.quality);
+  }, [live.sensorData]);
+
+  // Reflect the server-side run state for the selected farm
+  useEffect(() => {
+    setValveCommand(null);
+    if (!selectedFarm) {
+      setIsIrrigating(false);
+      return;
     }
-    
-    const unsubscribe = onValue(sensorRef, (snapshot) => {
-      const data = snapshot.val();
-      
-      if (data) {
-        const sensorData = extractSensorData(data);
-        
-        setRealTimeSensorData({
-          soilMoisture: sensorData.soilMoisture,
-          pH: sensorData.pH,
-          temperature: sensorData.temperature
-        });
-        
-        // Update the farm in the list with latest sensor data
-        setFarms(prevFarms => 
-          prevFarms.map(farm => 
-            farm.id === selectedFarm.id 
-              ? { 
-                  ...farm, 
-                  sensorData: {
-                    ...sensorData,
-                    lastUpdated: new Date().toISOString()
-                  }
-                } 
-              : farm
-          )
-        );
-      }
-    }, (error) => {
-      console.error(`Error listening to ${selectedFarm.id}:`, error);
+
+    loadIrrigationStatus(selectedFarm.id);
+  }, [selectedFarm?.id]);
+
+  useEffect(() => {
+    if (live.lastRun) showRunStatus(live.lastRun);
+  }, [live.lastRun]);
+
+  // The controller's answer to the last valve command we sent
+  useEffect(() => {
+    const command = live.lastCommand;
+    if (!command || command.id !== valveCommand?.id) return;
+
+    setValveCommand(command);
+    if (command.status === 'failed' && command.type === 'start') {
+      triggerHaptic('warning');
+      Alert.alert("Valve Not Responding", command.error || "The controller did not confirm the start command.");
+    }
+  }, [live.lastCommand]);
+
+  const showSensorData = (farmId: string, sensorData: ReturnType<typeof extractSensorData>, lastUpdated: string, quality: ReadingQuality | null = null) => {
+    setRealTimeSensorData({
+      soilMoisture: sensorData.soilMoisture,
+      pH: sensorData.pH,
+      temperature: sensorData.temperature
     });
     
-    return () => {
-      off(sensorRef);
-    };
-  }, [selectedFarm?.id, database]);
+    // Update the farm in the list with latest sensor data
+    setFarms(prevFarms => 
+      prevFarms.map(farm => 
+        farm.id === farmId 
+          ? { ...farm, sensorData: { ...sensorData, lastUpdated, quality } } 
+          : farm
+      )
+    );
+  };
+
+  const showRunStatus = (run: Pick<IrrigationRun, 'status' | 'startTime' | 'endTime' | 'duration' | 'note'> | undefined) => {
+    if (run?.status === 'in_progress') {
+      const endsAt = new Date(new Date(run.startTime).getTime() + run.duration * 60000);
+      setIsIrrigating(true);
+      setNextIrrigationTime(`In progress until ${endsAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+    } else {
+      setIsIrrigating(false);
+      if (run?.status === 'completed' && run.endTime) {
+        setNextIrrigationTime(`Completed at ${new Date(run.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+      } else if (run?.status === 'skipped') {
+        setNextIrrigationTime(`Skipped: ${run.note}`);
+      }
+    }
+  };
+
+  const loadIrrigationStatus = async (farmId: string) => {
+    try {
+      const res = await apiRequest("GET", `/api/farms/${farmId}/irrigation-logs`);
+      const runs = irrigationLogSchema.array().parse(await res.json());
+      showRunStatus(runs[0]);
+    } catch (error) {
+      console.error('Error loading irrigation status:', error);
+    }
+  };
 
   const loadSettings = async () => {
     try {
@@ -232,50 +275,28 @@ export default function ControlScreen() {
       
       const farmsArray: Farm[] = [];
       
-      // Load only farms that belong to the current user from the "farms" node
-      const farmsRef = ref(database, 'farms');
-      const farmsSnapshot = await get(farmsRef);
+      // Farms the user owns or has been invited to
+      const { farmsData, roles } = await loadAccessibleFarms(database, user.uid);
       
-      if (farmsSnapshot.exists()) {
-        const farmsData = farmsSnapshot.val();
+      Object.keys(farmsData).forEach(key => {
+        const farm = farmsData[key];
         
-        Object.keys(farmsData).forEach(key => {
-          const farm = farmsData[key];
-          
-          // Only include farms that belong to the current user
-          if (farm.userId !== user.uid) return;
-          
-          // Extract sensor data - check both sensorData object and direct properties
-          let sensorData;
-          if (farm.sensorData) {
-            sensorData = extractSensorData(farm.sensorData);
-          } else {
-            // Check if sensor data is stored directly on the farm object
-            sensorData = extractSensorData(farm);
+        // Latest readings live under the farm's sensorData
+        const sensorData = extractSensorData(farm.sensorData);
+        
+        farmsArray.push({
+          id: key,
+          ...farm,
+          name: farm.name || `Farm ${key}`,
+          role: roles[key],
+          health: calculateFarmStatus(farm),
+          sensorData: {
+            ...sensorData,
+            lastUpdated: farm.sensorData?.lastUpdated || new Date().toISOString(),
+            quality: farm.sensorData?.quality
           }
-          
-          farmsArray.push({
-            id: key,
-            name: farm.name || `Farm ${key}`,
-            location: farm.location || "",
-            totalAcres: farm.totalAcres || 0,
-            cropTypes: farm.cropTypes || [],
-            soilType: farm.soilType || "",
-            irrigationType: farm.irrigationType || "Manual",
-            description: farm.description,
-            coordinates: farm.coordinates,
-            createdAt: farm.createdAt || new Date().toISOString(),
-            updatedAt: farm.updatedAt || new Date().toISOString(),
-            userId: farm.userId,
-            status: farm.status || "healthy",
-            sensorData: {
-              ...sensorData,
-              lastUpdated: farm.lastUpdated || new Date().toISOString()
-            },
-            irrigationSchedule: farm.irrigationSchedule
-          });
         });
-      }
+      });
       
       // Sort farms by name
       farmsArray.sort((a, b) => a.name.localeCompare(b.name));
@@ -312,12 +333,46 @@ export default function ControlScreen() {
     }
   };
 
+  const loadPendingInvites = async () => {
+    if (!user) {
+      setPendingInvites([]);
+      return;
+    }
+
+    try {
+      setPendingInvites(await getMyInvites());
+    } catch (error) {
+      console.error('Error loading invites:', error);
+    }
+  };
+
+  const handleAcceptInvite = async (invite: FarmInvite) => {
+    if (!user) return;
+
+    try {
+      await acceptInvite(database, invite, user.uid);
+      triggerHaptic('success');
+      setPendingInvites(prev => prev.filter(i => i.id !== invite.id));
+      Alert.alert("✅ Invite Accepted", `You joined ${invite.farmName ?? "the farm"} as a ${invite.role}.`);
+      loadUserFarms();
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      Alert.alert("Error", describeApiError(error));
+    }
+  };
+
   const handleRefresh = () => {
     setIsRefreshing(true);
     loadUserFarms();
+    loadPendingInvites();
   };
 
   const handleDeleteFarm = async (farm: Farm) => {
+    if (!canPerform(farm.role, 'deleteFarm')) {
+      Alert.alert("Not Allowed", `Only the owner can delete "${farm.name}".`);
+      return;
+    }
+
     Alert.alert(
       "Delete Farm",
       `Are you sure you want to delete "${farm.name}"? This action cannot be undone.`,
@@ -330,8 +385,7 @@ export default function ControlScreen() {
             try {
               setIsLoading(true);
               
-              const farmRef = ref(database, `farms/${farm.id}`);
-              await remove(farmRef);
+              await deleteFarm(database, farm.id);
               
               // Update local state
               setFarms(prev => prev.filter(f => f.id !== farm.id));
@@ -361,39 +415,77 @@ export default function ControlScreen() {
     );
   };
 
-  const saveSettings = async () => {
-    if (!selectedFarm) return;
-    
+  // Saves the schedule with `changes` applied. State updates haven't landed
+  // yet when this runs, so new values are passed in rather than read from state.
+  // Returns why the save failed, or null.
+  const saveSettings = async (changes: Partial<ScheduleSettings> = {}): Promise<string | null> => {
+    if (!selectedFarm) return null;
+
+    const schedule: ScheduleSettings = { autoMode, scheduleTime, duration, ...changes };
     try {
-      const settings: IrrigationSettings = {
-        autoMode,
-        scheduleTime,
-        duration,
-        selectedFarmId: selectedFarm.id,
-        lastUpdated: new Date().toISOString(),
-      };
-      await AsyncStorage.setItem(IRRIGATION_SETTINGS_KEY, JSON.stringify(settings));
-      
-      // Save to farm in database (only for user-added farms)
-      if (!selectedFarm.id.startsWith('farm')) {
-        const farmRef = ref(database, `farms/${selectedFarm.id}/irrigationSchedule`);
-        await set(farmRef, {
-          autoMode,
-          scheduleTime,
-          duration,
-          lastUpdated: new Date().toISOString()
-        });
-      }
-      
+      await saveLocalSettings(selectedFarm.id, schedule);
     } catch (error) {
       console.error('Failed to save settings:', error);
+      return "the settings couldn't be saved";
     }
+
+    const serverError = await saveScheduleToServer(selectedFarm.id, schedule);
+    return serverError && `the irrigation server couldn't be updated (${serverError})`;
+  };
+
+  const saveLocalSettings = async (farmId: string, schedule: ScheduleSettings) => {
+    const settings: IrrigationSettings = {
+      ...schedule,
+      selectedFarmId: farmId,
+      lastUpdated: new Date().toISOString(),
+    };
+    await AsyncStorage.setItem(IRRIGATION_SETTINGS_KEY, JSON.stringify(settings));
+
+    // Save to farm in database
+    const farmRef = ref(database, `farms/${farmId}/irrigationSchedule`);
+    await set(farmRef, {
+      ...schedule,
+      lastUpdated: new Date().toISOString()
+    });
   };
 
-  const handleToggleMode = (value: boolean) => {
+  // The server scheduler runs saved schedules; Firebase keeps a copy for display.
+  // A server failure is reported, not thrown, so the Firebase copy is still saved.
+  const saveScheduleToServer = async (farmId: string, schedule: ScheduleSettings): Promise<string | null> => {
+    try {
+      await apiRequest("PUT", `/api/farms/${farmId}/schedule`, {
+        ...schedule,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      return null;
+    } catch (error) {
+      console.error('Failed to save schedule to the server:', error);
+      return describeApiError(error);
+    }
+  };
+
+  const handleToggleMode = async (value: boolean) => {
+    if (!selectedFarm) return;
+    if (!canEditSchedule) {
+      alertNotAllowed("change the irrigation mode");
+      return;
+    }
     setAutoMode(value);
     triggerHaptic('impact');
-    saveSettings();
+
+    const error = await saveSettings({ autoMode: value });
+    if (error) {
+      // Back to what the server scheduler is still running, copies included
+      setAutoMode(!value);
+      saveLocalSettings(selectedFarm.id, { autoMode: !value, scheduleTime, duration }).catch((restoreError) => {
+        console.error('Failed to restore settings:', restoreError);
+      });
+      Alert.alert(
+        "Mode Not Changed",
+        `${selectedFarm.name} is still in ${value ? "manual" : "auto"} mode: ${error}. Please try again.`,
+        [{ text: "OK", style: "default" }]
+      );
+    }
   };
 
   const triggerHaptic = (type: 'success' | 'warning' | 'impact') => {
@@ -422,20 +514,15 @@ export default function ControlScreen() {
       return;
     }
 
-    // For demo farms, we can't save schedules at root level
-    if (selectedFarm.id.startsWith('farm')) {
-      Alert.alert(
-        "Schedule Saved Locally",
-        `Irrigation schedule saved for ${selectedFarm.name}. Note: This schedule is saved locally as this is a demo farm.`,
-        [{ text: "OK", style: "default" }]
-      );
+    if (!canEditSchedule) {
+      alertNotAllowed("change the irrigation schedule");
       return;
     }
 
     try {
       triggerHaptic('success');
-      
-      // Save to Firebase (only for user-added farms)
+
+      // Save to Firebase
       const scheduleRef = ref(database, `farms/${selectedFarm.id}/irrigationSchedule`);
       await set(scheduleRef, {
         autoMode,
@@ -446,6 +533,16 @@ export default function ControlScreen() {
       });
       
       setNextIrrigationTime(`Scheduled for ${scheduleTime}`);
+
+      const serverError = await saveScheduleToServer(selectedFarm.id, { autoMode, scheduleTime, duration });
+      if (serverError) {
+        Alert.alert(
+          "Schedule Saved",
+          `The schedule for ${selectedFarm.name} was saved, but the irrigation server couldn't be updated (${serverError}), so it won't run automatically yet. Save again to retry.`,
+          [{ text: "OK", style: "default" }]
+        );
+        return;
+      }
       
       Alert.alert(
         "✅ Schedule Saved",
@@ -465,6 +562,11 @@ export default function ControlScreen() {
       return;
     }
 
+    if (!canIrrigate) {
+      alertNotAllowed("start irrigation");
+      return;
+    }
+
     Alert.alert(
       "🚀 Start Irrigation Now?",
       `This will start manual irrigation for ${selectedFarm.name} for ${duration} minutes.`,
@@ -478,39 +580,18 @@ export default function ControlScreen() {
               triggerHaptic('impact');
               setIsIrrigating(true);
               
-              // Save irrigation log (only for user-added farms)
-              if (!selectedFarm.id.startsWith('farm')) {
-                const irrigationLogRef = push(ref(database, `farms/${selectedFarm.id}/irrigationLogs`));
-                await set(irrigationLogRef, {
-                  mode: 'manual',
-                  duration,
-                  startTime: new Date().toISOString(),
-                  status: 'in_progress',
-                  estimatedWaterUsage: duration * 100
-                });
-              }
+              const res = await apiRequest("POST", `/api/farms/${selectedFarm.id}/irrigation/start`, { duration });
+              const run: IrrigationRun = await res.json();
               
+              setValveCommand(run.command ?? null);
               setNextIrrigationTime("Now - In Progress");
               
               Alert.alert(
                 "✅ Irrigation Started",
-                `Manual irrigation started for ${selectedFarm.name}. Duration: ${duration} minutes.\n\nEstimated water usage: ${duration * 100} liters`,
+                `Manual irrigation started for ${selectedFarm.name}. Duration: ${duration} minutes.\n\nEstimated water usage: ${run.estimatedWaterUsage} liters`,
                 [{ text: "OK", style: "default" }]
               );
               
-              // Simulate completion
-              setTimeout(async () => {
-                setIsIrrigating(false);
-                
-                // Update log (only for user-added farms)
-                if (!selectedFarm.id.startsWith('farm')) {
-                  // In real implementation, you would update the log here
-                }
-                
-                setNextIrrigationTime("Completed just now");
-                
-              }, 5000); // 5 seconds for demo
-              
             } catch (error) {
               console.error('Error starting irrigation:', error);
               Alert.alert("Error", "Failed to start irrigation.");
@@ -522,6 +603,27 @@ export default function ControlScreen() {
     );
   };
 
+  const handleStopNow = async () => {
+    if (!selectedFarm) return;
+
+    if (!canIrrigate) {
+      alertNotAllowed("stop irrigation");
+      return;
+    }
+
+    try {
+      triggerHaptic('warning');
+      const res = await apiRequest("POST", `/api/farms/${selectedFarm.id}/irrigation/stop`);
+      const run: IrrigationRun = await res.json();
+      setValveCommand(run.command ?? null);
+      setIsIrrigating(false);
+      setNextIrrigationTime("Stopped just now");
+    } catch (error) {
+      console.error('Error stopping irrigation:', error);
+      Alert.alert("Error", "Failed to stop irrigation.");
+    }
+  };
+
   const handleCustomTimeSelect = () => {
     if (customTime && /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(customTime)) {
       setScheduleTime(customTime);
@@ -546,17 +648,15 @@ export default function ControlScreen() {
     try {
       setIsLoading(true);
       
-      const newFarm: any = {
+      // The server assigns the id; the farm's node is written under it
+      const newFarm = await createFarm(database, user.uid, {
         name: quickFarmName.trim(),
         location: "", // Leave empty until populated
         totalAcres: 0, // Leave as 0 until populated
         cropTypes: [], // Empty array until populated
         soilType: "", // Leave empty until populated
         irrigationType: "Manual", // Default
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        userId: user.uid, // Tie to current user
-        status: 'healthy',
+        status: 'active',
         sensorData: {
           soilMoisture: 0,
           pH: 0,
@@ -566,15 +666,13 @@ export default function ControlScreen() {
           potassium: 0,
           lastUpdated: new Date().toISOString()
         }
-      };
-      
-      const farmsRef = ref(database, 'farms');
-      const newFarmRef = push(farmsRef);
-      await set(newFarmRef, newFarm);
+      });
       
       const newFarmWithId: Farm = {
-        id: newFarmRef.key!,
-        ...newFarm
+        ...newFarm,
+        role: 'owner',
+        // No readings until a sensor reports
+        health: assessHealth({}, newFarm)
       };
       
       // Update local state
@@ -595,7 +693,7 @@ export default function ControlScreen() {
       
     } catch (error) {
       console.error("Error adding farm:", error);
-      Alert.alert("❌ Error", "Failed to add farm.");
+      Alert.alert("❌ Error", `Failed to add farm: ${describeApiError(error)}`);
     } finally {
       setIsLoading(false);
     }
@@ -619,19 +717,11 @@ export default function ControlScreen() {
     }
   };
 
-  // Calculate farm status based on sensor data
-  const calculateFarmStatus = (farm: Farm): 'healthy' | 'attention' | 'critical' => {
-    const moisture = farm.sensorData?.soilMoisture || 0;
-    const ph = farm.sensorData?.pH || 0;
-    
-    // Simple logic for demo - adjust based on your requirements
-    if (moisture < 30 || moisture > 70 || ph < 5 || ph > 8) {
-      return 'attention';
-    } else if (moisture < 20 || moisture > 80 || ph < 4 || ph > 9) {
-      return 'critical';
-    }
-    return 'healthy';
-  };
+  // Farm health from its latest readings, judged for its crops and soil
+  const calculateFarmStatus = (
+    farm: Pick<Farm, 'sensorData' | 'cropTypes' | 'soilType'>
+  ): HealthAssessment =>
+    assessHealth(farm.sensorData ?? {}, farm, { quality: farm.sensorData?.quality });
 
   // Loading State
   if (isLoading && !showQuickAddModal) {
@@ -697,6 +787,33 @@ export default function ControlScreen() {
           </View>
         </View>
 
+        {/* Invitations to other people's farms */}
+        {pendingInvites.map((invite) => (
+          <View
+            key={invite.id}
+            style={[
+              styles.inviteCard,
+              { backgroundColor: theme.cardBackground, borderColor: theme.primary },
+              Shadows.small,
+            ]}
+          >
+            <Feather name="mail" size={20} color={theme.primary} />
+            <View style={styles.inviteText}>
+              <ThemedText style={styles.inviteTitle}>
+                Join {invite.farmName ?? "a farm"}
+              </ThemedText>
+              <ThemedText style={[styles.inviteDescription, { color: theme.textSecondary }]}>
+                You have been invited as a {invite.role}
+              </ThemedText>
+            </View>
+            <Pressable onPress={() => handleAcceptInvite(invite)} style={styles.customTimeButton}>
+              <ThemedText style={[styles.customTimeText, { color: theme.primary }]}>
+                Accept
+              </ThemedText>
+            </Pressable>
+          </View>
+        ))}
+
         {/* Farm Selection */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -770,16 +887,21 @@ export default function ControlScreen() {
                       </ThemedText>
                       {selectedFarm && (
                         <Feather 
-                          name={getStatusIcon(selectedFarm.status)} 
+                          name={getStatusIcon(selectedFarm.health.status)} 
                           size={16} 
-                          color={getStatusColor(selectedFarm.status)} 
+                          color={getStatusColor(selectedFarm.health.status)} 
                         />
                       )}
                     </View>
-                    <ThemedText style={[styles.farmStatus, { color: getStatusColor(selectedFarm?.status || 'healthy') }]}>
-                      {selectedFarm?.status.toUpperCase() || "HEALTHY"}
+                    <ThemedText style={[styles.farmStatus, { color: getStatusColor(selectedFarm?.health.status || 'healthy') }]}>
+                      {selectedFarm?.health.status.toUpperCase() || "HEALTHY"}
                     </ThemedText>
                   </View>
+                  {selectedFarm && selectedFarm.health.driver && (
+                    <ThemedText style={[styles.farmHealthReason, { color: getStatusColor(selectedFarm.health.status) }]}>
+                      {selectedFarm.health.reason}
+                    </ThemedText>
+                  )}
                   {selectedFarm && selectedFarm.sensorData && (
                     <View style={styles.farmDetails}>
                       <View style={styles.farmDetail}>
@@ -806,6 +928,54 @@ export default function ControlScreen() {
                 />
               </Pressable>
 
+              {selectedFarm && (
+                <View style={styles.teamRow}>
+                  <ThemedText style={[styles.teamRoleText, { color: theme.textSecondary }]}>
+                    Your role: {selectedFarm.role}
+                  </ThemedText>
+                  <View style={styles.teamLinks}>
+                    {canPerform(selectedFarm.role, 'viewAudit') && (
+                      <Pressable
+                        onPress={() => navigation.navigate('FarmActivity', {
+                          farmId: selectedFarm.id,
+                          farmName: selectedFarm.name,
+                        })}
+                        style={styles.customTimeButton}
+                      >
+                        <Feather name="clock" size={14} color={theme.primary} />
+                        <ThemedText style={[styles.customTimeText, { color: theme.primary }]}>
+                          Activity
+                        </ThemedText>
+                      </Pressable>
+                    )}
+                    <Pressable
+                      onPress={() => navigation.navigate('FarmDevices', {
+                        farmId: selectedFarm.id,
+                        farmName: selectedFarm.name,
+                      })}
+                      style={styles.customTimeButton}
+                    >
+                      <Feather name="cpu" size={14} color={theme.primary} />
+                      <ThemedText style={[styles.customTimeText, { color: theme.primary }]}>
+                        Devices
+                      </ThemedText>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => navigation.navigate('FarmTeam', {
+                        farmId: selectedFarm.id,
+                        farmName: selectedFarm.name,
+                      })}
+                      style={styles.customTimeButton}
+                    >
+                      <Feather name="users" size={14} color={theme.primary} />
+                      <ThemedText style={[styles.customTimeText, { color: theme.primary }]}>
+                        Team
+                      </ThemedText>
+                    </Pressable>
+                  </View>
+                </View>
+              )}
+
               {showFarmPicker && (
                 <View
                   style={[
@@ -822,7 +992,7 @@ export default function ControlScreen() {
                       <View key={farm.id} style={styles.farmOptionContainer}>
                         <Pressable
                           onPress={() => {
-                            const updatedFarm = { ...farm, status: farmStatus };
+                            const updatedFarm = { ...farm, health: farmStatus };
                             setSelectedFarm(updatedFarm);
                             setShowFarmPicker(false);
                             triggerHaptic('impact');
@@ -850,9 +1020,9 @@ export default function ControlScreen() {
                         >
                           <View style={styles.farmOptionLeft}>
                             <Feather 
-                              name={getStatusIcon(farmStatus)} 
+                              name={getStatusIcon(farmStatus.status)} 
                               size={14} 
-                              color={getStatusColor(farmStatus)} 
+                              color={getStatusColor(farmStatus.status)} 
                             />
                             <View style={styles.farmOptionInfo}>
                               <ThemedText style={styles.farmOptionName}>{farm.name}</ThemedText>
@@ -862,17 +1032,17 @@ export default function ControlScreen() {
                             </View>
                           </View>
                           <View style={styles.farmOptionRight}>
-                            {farm.id.startsWith('farm') && (
-                              <View style={[styles.sensorOnlyBadge, { backgroundColor: `${theme.accent}15` }]}>
-                                <ThemedText style={[styles.sensorOnlyText, { color: theme.accent }]}>
-                                  Demo
+                            {!hasSensorData && (
+                              <View style={[styles.noDataBadge, { backgroundColor: `${theme.warning}15` }]}>
+                                <ThemedText style={[styles.noDataText, { color: theme.warning }]}>
+                                  No Data
                                 </ThemedText>
                               </View>
                             )}
-                            {!hasSensorData && !farm.id.startsWith('farm') && (
+                            {farm.sensorData?.quality && (
                               <View style={[styles.noDataBadge, { backgroundColor: `${theme.warning}15` }]}>
                                 <ThemedText style={[styles.noDataText, { color: theme.warning }]}>
-                                  No Data
+                                  Check Sensor
                                 </ThemedText>
                               </View>
                             )}
@@ -882,8 +1052,8 @@ export default function ControlScreen() {
                           </View>
                         </Pressable>
                         
-                        {/* Delete button for user-added farms */}
-                        {!farm.id.startsWith('farm') && (
+                        {/* Delete button for farms the user owns */}
+                        {canPerform(farm.role, 'deleteFarm') && (
                           <TouchableOpacity
                             onPress={() => handleDeleteFarm(farm)}
                             style={styles.deleteOptionButton}
@@ -968,16 +1138,34 @@ export default function ControlScreen() {
                 </View>
               </View>
               <ThemedText style={[styles.sensorNote, { color: theme.textSecondary }]}>
-                {selectedFarm.id.startsWith('farm') 
-                  ? "Demo farm data" 
-                  : "Real-time data from your sensors"}
+                Real-time data from your sensors
               </ThemedText>
             </View>
           </View>
         )}
 
-        {/* Irrigation Controls - Only show for user-added farms */}
-        {selectedFarm && !selectedFarm.id.startsWith('farm') && (
+        {/* Evaporative demand from the farm's weather */}
+        {selectedFarm && (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Water Demand (ET₀)
+            </ThemedText>
+            <EvapotranspirationCard farmId={selectedFarm.id} />
+          </View>
+        )}
+
+        {/* Root-zone water left in each field and when to refill it */}
+        {selectedFarm && (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Field Water Balance
+            </ThemedText>
+            <WaterBalanceCard farmId={selectedFarm.id} />
+          </View>
+        )}
+
+        {/* Irrigation Controls */}
+        {selectedFarm && (
           <>
             {/* Mode Selection */}
             <View style={styles.section}>
@@ -1024,6 +1212,7 @@ export default function ControlScreen() {
                   <Switch
                     value={autoMode}
                     onValueChange={handleToggleMode}
+                    disabled={!canEditSchedule}
                     trackColor={{ false: theme.backgroundTertiary, true: theme.primary }}
                     thumbColor="#FFFFFF"
                   />
@@ -1137,35 +1326,32 @@ export default function ControlScreen() {
                   <ThemedText style={[styles.statusField, { color: theme.textSecondary }]}>
                     for {selectedFarm.name}
                   </ThemedText>
+                  {valveCommand && (
+                    <ThemedText
+                      style={[
+                        styles.statusField,
+                        {
+                          color: valveCommand.status === 'failed'
+                            ? theme.critical
+                            : valveCommand.status === 'confirmed'
+                              ? theme.success
+                              : theme.warning,
+                        },
+                      ]}
+                    >
+                      {valveCommand.status === 'pending'
+                        ? "Waiting for valve controller..."
+                        : valveCommand.status === 'confirmed'
+                          ? "Valve confirmed"
+                          : `Valve command failed: ${valveCommand.error ?? "no response"}`}
+                    </ThemedText>
+                  )}
                 </View>
               </View>
             </View>
           </>
         )}
 
-        {/* Info for demo farms */}
-        {selectedFarm && selectedFarm.id.startsWith('farm') && (
-          <View style={styles.section}>
-            <View style={[
-              styles.infoCard,
-              { backgroundColor: `${theme.info}15`, borderColor: theme.info },
-              Shadows.small,
-            ]}>
-              <View style={styles.infoIcon}>
-                <Feather name="info" size={24} color={theme.info} />
-              </View>
-              <View style={styles.infoContent}>
-                <ThemedText style={[styles.infoTitle, { color: theme.info }]}>
-                  Demo Farm
-                </ThemedText>
-                <ThemedText style={[styles.infoText, { color: theme.textSecondary }]}>
-                  This is a demo farm for testing sensor data. To add your own farm and control irrigation, please add a new farm.
-                </ThemedText>
-              </View>
-            </View>
-          </View>
-        )}
-
         {/* User not logged in message */}
         {!user && (
           <View style={styles.section}>
@@ -1190,8 +1376,8 @@ export default function ControlScreen() {
         )}
       </ScrollView>
 
-      {/* Action Buttons - Only show for user-added farms */}
-      {selectedFarm && !selectedFarm.id.startsWith('farm') && (
+      {/* Action Buttons */}
+      {selectedFarm && (
         <View
           style={[
             styles.floatingActions,
@@ -1202,11 +1388,11 @@ export default function ControlScreen() {
           ]}
         >
           <Button
-            onPress={handleStartNow}
+            onPress={isIrrigating ? handleStopNow : handleStartNow}
             variant="outline"
             icon={isIrrigating ? "pause" : "play"}
             style={styles.secondaryButton}
-            disabled={isIrrigating}
+            disabled={!canIrrigate}
           >
             {isIrrigating ? "Stop" : "Start Now"}
           </Button>
@@ -1215,7 +1401,7 @@ export default function ControlScreen() {
             variant="primary"
             icon="save"
             style={styles.primaryButton}
-            disabled={isIrrigating}
+            disabled={isIrrigating || !canEditSchedule}
           >
             Save Schedule
           </Button>
@@ -1627,6 +1813,10 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '700',
   },
+  farmHealthReason: {
+    fontSize: 12,
+    marginBottom: Spacing.xs,
+  },
   farmDetails: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1686,15 +1876,6 @@ const styles = StyleSheet.create({
     padding: Spacing.sm,
     marginRight: Spacing.sm,
   },
-  sensorOnlyBadge: {
-    paddingHorizontal: Spacing.xs,
-    paddingVertical: 2,
-    borderRadius: BorderRadius.xs,
-  },
-  sensorOnlyText: {
-    fontSize: 10,
-    fontWeight: '600',
-  },
   noDataBadge: {
     paddingHorizontal: Spacing.xs,
     paddingVertical: 2,
@@ -1799,6 +1980,41 @@ const styles = StyleSheet.create({
   modeDescription: {
     fontSize: 13,
   },
+  inviteCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  inviteText: {
+    flex: 1,
+  },
+  inviteTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  inviteDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  teamRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+  },
+  teamLinks: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  teamRoleText: {
+    fontSize: 12,
+    textTransform: 'capitalize',
+  },
   customTimeButton: {
     flexDirection: 'row',
     alignItems: 'center',
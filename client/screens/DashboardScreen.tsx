@@ -13,34 +13,70 @@ import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation, useIsFocused } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
-import { getDatabase, ref, get, onValue, off } from "firebase/database";
+import { getDatabase } from "firebase/database";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { KPICard } from "@/components/KPICard";
 import { HeaderTitle } from "@/components/HeaderTitle";
 import { useTheme } from "@/hooks/useTheme";
+import { useLiveFarms } from "@/hooks/useLiveFarms";
 import { useChat } from "@/contexts/ChatContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { useWeather } from "@/contexts/WeatherContext";
 import { Spacing, BorderRadius, Shadows } from "@/constants/theme";
 import { subscribeToAlerts, Alert as AlertType } from "@/services/notifications/firebaseNotifications";
 import type { RootStackParamList } from "@/navigation/RootStackNavigator";
-import { getWeatherIconName } from "@/services/weatherService";
+import { getWeatherIconName, WEATHER_CONDITION_LABELS } from "@/services/weatherService";
+import { loadAccessibleFarms } from "@/services/farmAccess";
+import type { LiveAlert } from "@shared/live";
+import type { FieldSummary, SensorSnapshot } from "@shared/models";
+import { assessHealth, type HealthAssessment } from "@shared/health";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+// A farm's entry on the dashboard
+type DashboardFarm = Omit<FieldSummary, 'nitrogen' | 'phosphorus' | 'potassium'> & {
+  location: string;
+  cropTypes: string[];
+  soilType: string;
+  userId: string;
+  health: HealthAssessment;
+};
+
+// Health from the farm's latest readings, judged for its crops and soil
+const assessFarm = (
+  farm: Pick<DashboardFarm, 'cropTypes' | 'soilType'>,
+  data: Pick<SensorSnapshot, 'soilMoisture' | 'pH' | 'quality'> | undefined
+) => assessHealth(data ?? {}, farm, { quality: data?.quality });
+
 // Helper function to extract sensor data
-const extractSensorData = (data: any) => {
+const extractSensorData = (data: Pick<SensorSnapshot, 'soilMoisture' | 'pH' | 'temperature'> | undefined) => {
   if (!data) return { soilMoisture: 0, pH: 0, temperature: 0 };
   
   return {
-    soilMoisture: Number(data['soil moisture'] || data.soilMoisture || 0),
-    pH: Number(data.ph || data.pH || 0),
-    temperature: Number(data.temperature || 0)
+    soilMoisture: data.soilMoisture,
+    pH: data.pH,
+    temperature: data.temperature
   };
 };
 
+// Server alerts pushed over the live connection, in the shape of stored alerts
+const toAlert = (alert: LiveAlert): AlertType => ({
+  id: alert.id,
+  userId: alert.userId,
+  title: alert.title,
+  message: alert.message,
+  type: alert.type,
+  data: alert.data ?? undefined,
+  read: alert.read,
+  createdAt: new Date(alert.createdAt),
+  expiresAt: alert.expiresAt ? new Date(alert.expiresAt) : undefined,
+  actionUrl: alert.actionUrl ?? undefined,
+  priority: alert.priority,
+  category: alert.category,
+});
+
 // Helper function to get day name
 const getDayName = (dateString: string): string => {
   const date = new Date(dateString);
@@ -74,7 +110,8 @@ export default function DashboardScreen() {
   const [totalAlerts, setTotalAlerts] = useState(0);
   const [isLoadingAlerts, setIsLoadingAlerts] = useState(true);
   const [alerts, setAlerts] = useState<AlertType[]>([]);
-  const [farms, setFarms] = useState<any[]>([]);
+  const [liveAlerts, setLiveAlerts] = useState<AlertType[]>([]);
+  const [farms, setFarms] = useState<DashboardFarm[]>([]);
   const [overallStats, setOverallStats] = useState({
     totalWaterSaved: 0,
     waterSavingsPercentage: 0,
@@ -113,94 +150,39 @@ export default function DashboardScreen() {
       setIsLoading(true);
       setIsRefreshing(true);
       
-      const farmsArray: any[] = [];
-      let totalMoisture = 0;
-      let totalPH = 0;
-      let farmCount = 0;
-      let healthyFarms = 0;
+      const farmsArray: DashboardFarm[] = [];
       
-      // Load only farms that belong to the current user from the "farms" node
-      const farmsRef = ref(database, 'farms');
-      const farmsSnapshot = await get(farmsRef);
+      // Farms the user owns or has been invited to
+      const { farmsData } = await loadAccessibleFarms(database, user.uid);
       
-      if (farmsSnapshot.exists()) {
-        const farmsData = farmsSnapshot.val();
+      Object.keys(farmsData).forEach(key => {
+        const farm = farmsData[key];
+        
+        // Latest readings live under the farm's sensorData
+        const sensorData = extractSensorData(farm.sensorData);
         
-        Object.keys(farmsData).forEach(key => {
-          const farm = farmsData[key];
-          
-          // Only include farms that belong to the current user
-          if (farm.userId !== user.uid) return;
-          
-          // Extract sensor data
-          let sensorData;
-          if (farm.sensorData) {
-            sensorData = extractSensorData(farm.sensorData);
-          } else {
-            sensorData = extractSensorData(farm);
-          }
-          
-          totalMoisture += sensorData.soilMoisture;
-          totalPH += sensorData.pH;
-          farmCount++;
-          
-          // Determine status
-          let status: 'healthy' | 'attention' | 'critical' = farm.status || 'healthy';
-          if (!farm.status) {
-            if (sensorData.soilMoisture < 30 || sensorData.pH < 5 || sensorData.pH > 8) {
-              status = 'attention';
-            }
-            if (sensorData.soilMoisture < 20 || sensorData.pH < 4 || sensorData.pH > 9) {
-              status = 'critical';
-            }
-          }
-          
-          if (status === 'healthy') healthyFarms++;
-          
-          farmsArray.push({
-            id: key,
-            name: farm.name || `Farm ${key}`,
-            acres: farm.totalAcres || 0,
-            cropType: farm.cropTypes?.[0] || "Unknown",
-            status,
-            moisture: sensorData.soilMoisture,
-            pH: sensorData.pH,
-            temperature: sensorData.temperature,
-            location: farm.location,
-            soilType: farm.soilType,
-            userId: farm.userId // Ensure we track the user ID
-          });
+        // Health comes from the readings; farm.status only says whether the farm is in use
+        const health = assessFarm(farm, farm.sensorData);
+        
+        farmsArray.push({
+          id: key,
+          name: farm.name || `Farm ${key}`,
+          acres: farm.totalAcres || 0,
+          cropType: farm.cropTypes?.[0] || "Unknown",
+          status: health.status,
+          moisture: sensorData.soilMoisture,
+          pH: sensorData.pH,
+          temperature: sensorData.temperature,
+          location: farm.location,
+          cropTypes: farm.cropTypes,
+          soilType: farm.soilType,
+          userId: farm.userId, // Ensure we track the user ID
+          health
         });
-      }
-      
-      // Calculate overall statistics with updated formulas
-      const averageMoisture = farmCount > 0 ? Math.round(totalMoisture / farmCount) : 0;
-      const averagePH = farmCount > 0 ? parseFloat((totalPH / farmCount).toFixed(1)) : 0;
-      const soilHealthScore = calculateSoilHealthScore(averageMoisture, averagePH);
-      
-      // Calculate water savings based on moisture levels - UPDATED FORMULA
-      const waterSavingsPercentage = calculateWaterSavings(farmsArray);
-      
-      // Calculate yield improvement based on soil health - UPDATED FORMULA
-      const yieldImprovement = calculateYieldImprovement(soilHealthScore);
-      
-      // Calculate CO2 reduction based on water savings
-      const co2Reduced = Math.round(waterSavingsPercentage * 15); // 15kg CO2 per % water saved
-      
-      // Calculate total water saved (in liters)
-      // Assuming average farm uses 10,000L per irrigation, 2 irrigations per week
-      const totalWaterSaved = Math.round((waterSavingsPercentage / 100) * 10000 * 2 * farmsArray.length);
+      });
       
       setFarms(farmsArray);
-      setOverallStats({
-        totalWaterSaved,
-        waterSavingsPercentage,
-        yieldImprovement,
-        soilHealthScore,
-        co2Reduced,
-        averageMoisture,
-        averagePH
-      });
+      setOverallStats(calculateOverallStats(farmsArray));
       
     } catch (error) {
       console.error('Error loading dashboard data:', error);
@@ -210,89 +192,25 @@ export default function DashboardScreen() {
     }
   };
 
-  // UPDATED: Soil Health Score Calculation
-  const calculateSoilHealthScore = (moisture: number, ph: number): number => {
-    let score = 0;
+  // Soil health score: the average of each farm's score against its own crop
+  // and soil thresholds. Farms with no readings yet are left out.
+  const calculateSoilHealthScore = (farms: DashboardFarm[]): number => {
+    const scored = farms.filter(farm => farm.health.metrics.length > 0);
+    if (scored.length === 0) return 0;
     
-    // Moisture Score (max 50 points) - More granular
-    if (moisture >= 45 && moisture <= 55) {
-      score += 50; // Perfect center
-    } else if (moisture >= 40 && moisture < 45) {
-      score += 45; // Near perfect low
-    } else if (moisture > 55 && moisture <= 60) {
-      score += 45; // Near perfect high
-    } else if (moisture >= 35 && moisture < 40) {
-      score += 35; // Good low
-    } else if (moisture > 60 && moisture <= 65) {
-      score += 35; // Good high
-    } else if (moisture >= 30 && moisture < 35) {
-      score += 25; // Acceptable low
-    } else if (moisture > 65 && moisture <= 70) {
-      score += 25; // Acceptable high
-    } else if (moisture >= 20 && moisture < 30) {
-      score += 15; // Marginal low
-    } else if (moisture > 70 && moisture <= 80) {
-      score += 15; // Marginal high
-    } else {
-      score += 5; // Poor
-    }
-    
-    // pH Score (max 50 points) - More granular
-    if (ph >= 6.3 && ph <= 6.7) {
-      score += 50; // Optimal center
-    } else if (ph >= 6.0 && ph < 6.3) {
-      score += 45; // Near optimal low
-    } else if (ph > 6.7 && ph <= 7.0) {
-      score += 45; // Near optimal high
-    } else if (ph >= 5.7 && ph < 6.0) {
-      score += 35; // Good low
-    } else if (ph > 7.0 && ph <= 7.3) {
-      score += 35; // Good high
-    } else if (ph >= 5.5 && ph < 5.7) {
-      score += 25; // Acceptable low
-    } else if (ph > 7.3 && ph <= 7.5) {
-      score += 25; // Acceptable high
-    } else if (ph >= 5.0 && ph < 5.5) {
-      score += 15; // Marginal low
-    } else if (ph > 7.5 && ph <= 8.0) {
-      score += 15; // Marginal high
-    } else {
-      score += 5; // Poor
-    }
-    
-    return Math.min(score, 100);
+    const total = scored.reduce((sum, farm) => sum + farm.health.score, 0);
+    return Math.round(total / scored.length);
   };
 
   // UPDATED: Water Savings Calculation
-  const calculateWaterSavings = (farms: any[]): number => {
+  const calculateWaterSavings = (farms: DashboardFarm[]): number => {
     if (farms.length === 0) return 0;
     
+    // Moisture efficiency is how close each farm sits to its ideal moisture
     let totalMoistureEfficiency = 0;
     farms.forEach(farm => {
-      const moisture = farm.moisture;
-      
-      // Calculate moisture efficiency percentage
-      if (moisture >= 45 && moisture <= 55) {
-        totalMoistureEfficiency += 100; // Perfect: 100% efficiency
-      } else if (moisture >= 40 && moisture < 45) {
-        totalMoistureEfficiency += 90; // Near perfect low: 90% efficiency
-      } else if (moisture > 55 && moisture <= 60) {
-        totalMoistureEfficiency += 90; // Near perfect high: 90% efficiency
-      } else if (moisture >= 35 && moisture < 40) {
-        totalMoistureEfficiency += 70; // Good low: 70% efficiency
-      } else if (moisture > 60 && moisture <= 65) {
-        totalMoistureEfficiency += 70; // Good high: 70% efficiency
-      } else if (moisture >= 30 && moisture < 35) {
-        totalMoistureEfficiency += 50; // Acceptable low: 50% efficiency
-      } else if (moisture > 65 && moisture <= 70) {
-        totalMoistureEfficiency += 50; // Acceptable high: 50% efficiency
-      } else if (moisture >= 20 && moisture < 30) {
-        totalMoistureEfficiency += 30; // Marginal low: 30% efficiency
-      } else if (moisture > 70 && moisture <= 80) {
-        totalMoistureEfficiency += 30; // Marginal high: 30% efficiency
-      } else {
-        totalMoistureEfficiency += 10; // Poor: 10% efficiency
-      }
+      const moisture = farm.health.metrics.find(metric => metric.metric === 'soilMoisture');
+      totalMoistureEfficiency += moisture?.score ?? 0;
     });
     
     const averageEfficiency = totalMoistureEfficiency / farms.length;
@@ -306,6 +224,41 @@ export default function DashboardScreen() {
     return parseFloat((soilHealthScore / 100 * 25).toFixed(1));
   };
 
+  // Overall statistics across the dashboard's farm entries
+  const calculateOverallStats = (farmsArray: DashboardFarm[]) => {
+    const farmCount = farmsArray.length;
+    const totalMoisture = farmsArray.reduce((sum, farm) => sum + farm.moisture, 0);
+    const totalPH = farmsArray.reduce((sum, farm) => sum + farm.pH, 0);
+
+    // Calculate overall statistics with updated formulas
+    const averageMoisture = farmCount > 0 ? Math.round(totalMoisture / farmCount) : 0;
+    const averagePH = farmCount > 0 ? parseFloat((totalPH / farmCount).toFixed(1)) : 0;
+    const soilHealthScore = calculateSoilHealthScore(farmsArray);
+    
+    // Calculate water savings based on moisture levels - UPDATED FORMULA
+    const waterSavingsPercentage = calculateWaterSavings(farmsArray);
+    
+    // Calculate yield improvement based on soil health - UPDATED FORMULA
+    const yieldImprovement = calculateYieldImprovement(soilHealthScore);
+    
+    // Calculate CO2 reduction based on water savings
+    const co2Reduced = Math.round(waterSavingsPercentage * 15); // 15kg CO2 per % water saved
+    
+    // Calculate total water saved (in liters)
+    // Assuming average farm uses 10,000L per irrigation, 2 irrigations per week
+    const totalWaterSaved = Math.round((waterSavingsPercentage / 100) * 10000 * 2 * farmCount);
+
+    return {
+      totalWaterSaved,
+      waterSavingsPercentage,
+      yieldImprovement,
+      soilHealthScore,
+      co2Reduced,
+      averageMoisture,
+      averagePH
+    };
+  };
+
   useEffect(() => {
     if (isFocused) {
       loadAllData();
@@ -343,6 +296,38 @@ export default function DashboardScreen() {
     };
   }, [user?.uid, isFocused]);
 
+  // Sensor snapshots and alerts pushed by the API server
+  const farmIds = farms.map(farm => farm.id);
+  const { farms: liveFarms } = useLiveFarms(
+    isFocused ? farmIds : [],
+    (alert) => setLiveAlerts(prev => [toAlert(alert), ...prev])
+  );
+
+  useEffect(() => {
+    if (Object.keys(liveFarms).length === 0) return;
+
+    const updated = farms.map(farm => {
+      const live = liveFarms[farm.id]?.sensorData;
+      if (!live) return farm;
+
+      const sensorData = extractSensorData(live);
+      const health = assessFarm(farm, live);
+      return {
+        ...farm,
+        status: health.status,
+        moisture: sensorData.soilMoisture,
+        pH: sensorData.pH,
+        temperature: sensorData.temperature,
+        health
+      };
+    });
+    setFarms(updated);
+    setOverallStats(calculateOverallStats(updated));
+  }, [liveFarms]);
+
+  const allAlerts = [...liveAlerts, ...alerts];
+  const unreadTotal = unreadCount + liveAlerts.filter(alert => !alert.read).length;
+
   const handleRefresh = () => {
     setIsRefreshing(true);
     loadAllData();
@@ -388,17 +373,17 @@ export default function DashboardScreen() {
   };
 
   const getCriticalAlertsCount = () => {
-    return alerts.filter(alert => 
+    return allAlerts.filter(alert => 
       (alert.type === 'critical' || alert.type === 'warning') && !alert.read
     ).length;
   };
 
   const getRecentAlert = () => {
-    const unreadAlerts = alerts.filter(alert => !alert.read);
+    const unreadAlerts = allAlerts.filter(alert => !alert.read);
     if (unreadAlerts.length > 0) {
       return unreadAlerts[0];
     }
-    return alerts.length > 0 ? alerts[0] : null;
+    return allAlerts.length > 0 ? allAlerts[0] : null;
   };
 
   const recentAlert = getRecentAlert();
@@ -459,7 +444,7 @@ export default function DashboardScreen() {
               ) : (
                 <>
                   <Feather name="bell" size={20} color={theme.text} />
-                  {unreadCount > 0 && (
+                  {unreadTotal > 0 && (
                     <View
                       style={[
                         styles.badge,
@@ -467,7 +452,7 @@ export default function DashboardScreen() {
                       ]}
                     >
                       <ThemedText style={styles.badgeText}>
-                        {unreadCount > 99 ? '99+' : unreadCount}
+                        {unreadTotal > 99 ? '99+' : unreadTotal}
                       </ThemedText>
                     </View>
                   )}
@@ -734,7 +719,7 @@ export default function DashboardScreen() {
                     <Feather name="bell" size={24} color={theme.critical} />
                   </View>
                   <ThemedText style={styles.quickActionText}>
-                    {unreadCount > 0 ? `Alerts (${unreadCount})` : 'Notifications'}
+                    {unreadTotal > 0 ? `Alerts (${unreadTotal})` : 'Notifications'}
                   </ThemedText>
                 </Pressable>
               </View>
@@ -857,7 +842,7 @@ export default function DashboardScreen() {
                       <View style={styles.currentWeatherTemp}>
                         <ThemedText type="h1">{weatherData.current.temp}°</ThemedText>
                         <ThemedText style={[styles.currentWeatherCondition, { color: theme.textSecondary }]}>
-                          {weatherData.current.condition.charAt(0).toUpperCase() + weatherData.current.condition.slice(1)}
+                          {WEATHER_CONDITION_LABELS[weatherData.current.condition]}
                         </ThemedText>
                       </View>
                       <Feather 
@@ -1012,6 +997,11 @@ export default function DashboardScreen() {
                         <ThemedText style={[styles.summaryAcres, { color: theme.textSecondary }]}>
                           {field.acres > 0 ? `${field.acres} acres` : 'Unknown size'} • {field.cropType}
                         </ThemedText>
+                        {field.health.driver && (
+                          <ThemedText style={[styles.summaryAcres, { color: getStatusColor(field.status) }]}>
+                            {field.health.reason}
+                          </ThemedText>
+                        )}
                       </View>
                     </View>
                     <View style={styles.summaryRight}>
@@ -1071,7 +1061,7 @@ export default function DashboardScreen() {
                   Shadows.small,
                 ]}
               >
-                {alerts.slice(0, 2).map((alert, index) => (
+                {allAlerts.slice(0, 2).map((alert, index) => (
                   <Pressable
                     key={alert.id}
                     onPress={() => navigation.navigate("Notifications")}
@@ -1125,7 +1115,7 @@ export default function DashboardScreen() {
                   </Pressable>
                 ))}
                 
-                {alerts.length === 0 && (
+                {allAlerts.length === 0 && (
                   <View style={styles.noActivity}>
                     <Feather name="check-circle" size={24} color={theme.textSecondary} />
                     <ThemedText style={[styles.noActivityText, { color: theme.textSecondary }]}>
@@ -1134,7 +1124,7 @@ export default function DashboardScreen() {
                   </View>
                 )}
                 
-                {alerts.length > 0 && (
+                {allAlerts.length > 0 && (
                   <Pressable
                     onPress={() => navigation.navigate("Notifications")}
                     style={styles.viewAllActivity}
@@ -0,0 +1,644 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { describeApiError } from "@/services/farmAccess";
+import {
+  METRIC_LABELS,
+  PH_BUFFERS,
+  describeCalibration,
+  getDeviceCalibrations,
+  getLatestRawReading,
+  resetCalibration,
+  saveCalibration,
+  type CalibrationDefinition,
+  type DeviceCalibration,
+} from "@/services/calibration";
+import type { DeviceType } from "@/services/devices";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import type { SensorMetric } from "@shared/schema";
+
+type DeviceCalibrationRouteProp = RouteProp<
+  RootStackParamList,
+  "DeviceCalibration"
+>;
+
+// Raw and actual as typed, so half-entered numbers survive re-renders
+interface PointInput {
+  raw: string;
+  actual: string;
+}
+
+const METRICS = Object.keys(METRIC_LABELS) as SensorMetric[];
+const MAX_POINTS = 10;
+
+const DEFAULT_METRIC: Record<DeviceType, SensorMetric> = {
+  soil_probe: "soilMoisture",
+  ph_probe: "pH",
+  npk_probe: "nitrogen",
+  weather_station: "temperature",
+  valve_controller: "soilMoisture",
+  gateway: "temperature",
+};
+
+// pH is calibrated against two buffers and moisture against reference
+// samples; the other metrics only need an offset and gain.
+const initialPoints = (metric: SensorMetric): PointInput[] =>
+  metric === "pH"
+    ? [
+        { raw: "", actual: "6.86" },
+        { raw: "", actual: "4.01" },
+      ]
+    : [
+        { raw: "", actual: "" },
+        { raw: "", actual: "" },
+      ];
+
+const isCurveMetric = (metric: SensorMetric) =>
+  metric === "pH" || metric === "soilMoisture";
+
+export default function DeviceCalibrationScreen() {
+  const insets = useSafeAreaInsets();
+  const route = useRoute<DeviceCalibrationRouteProp>();
+  const { theme } = useTheme();
+  const { deviceId, deviceName, deviceType } = route.params;
+
+  const [calibrations, setCalibrations] = useState<DeviceCalibration[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [capturing, setCapturing] = useState<number | null>(null);
+
+  const [metric, setMetric] = useState<SensorMetric>(
+    DEFAULT_METRIC[deviceType],
+  );
+  const [points, setPoints] = useState<PointInput[]>(initialPoints(metric));
+  const [offset, setOffset] = useState("0");
+  const [gain, setGain] = useState("1");
+  const [soilType, setSoilType] = useState("");
+  const [note, setNote] = useState("");
+
+  const isCurve = isCurveMetric(metric);
+  const history = calibrations.filter((c) => c.metric === metric);
+  const current = history.find((c) => !c.retiredAt);
+
+  const loadCalibrations = async () => {
+    try {
+      setCalibrations(await getDeviceCalibrations(deviceId));
+    } catch (error) {
+      console.error("Error loading calibrations:", error);
+      Alert.alert("Error", describeApiError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCalibrations();
+  }, [deviceId]);
+
+  const selectMetric = (next: SensorMetric) => {
+    setMetric(next);
+    setPoints(initialPoints(next));
+    setOffset("0");
+    setGain("1");
+    setSoilType("");
+    setNote("");
+  };
+
+  const updatePoint = (index: number, update: Partial<PointInput>) => {
+    setPoints((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, ...update } : p)),
+    );
+  };
+
+  // Fills in what the probe reads right now, with it sitting in the buffer
+  // or reference sample.
+  const capturePoint = async (index: number) => {
+    try {
+      setCapturing(index);
+      const reading = await getLatestRawReading(deviceId);
+      const raw = reading.raw[metric];
+      if (raw === undefined) {
+        Alert.alert(
+          "No Reading",
+          `${deviceName} hasn't reported ${METRIC_LABELS[metric]} yet.`,
+        );
+        return;
+      }
+      updatePoint(index, { raw: String(raw) });
+    } catch (error) {
+      Alert.alert("Capture Failed", describeApiError(error));
+    } finally {
+      setCapturing(null);
+    }
+  };
+
+  const buildDefinition = (): CalibrationDefinition | null => {
+    if (!isCurve) {
+      const o = Number(offset);
+      const g = Number(gain);
+      if (!offset.trim() || !Number.isFinite(o) || !Number.isFinite(g)) {
+        return null;
+      }
+      return g > 0 ? { kind: "linear", offset: o, gain: g } : null;
+    }
+
+    const parsed = points.map((p) => ({
+      raw: Number(p.raw),
+      actual: Number(p.actual),
+    }));
+    const complete = points.every((p) => p.raw.trim() && p.actual.trim());
+    const finite = parsed.every(
+      (p) => Number.isFinite(p.raw) && Number.isFinite(p.actual),
+    );
+    return complete && finite ? { kind: "curve", points: parsed } : null;
+  };
+
+  const handleSave = async () => {
+    const definition = buildDefinition();
+    if (!definition) {
+      Alert.alert(
+        "Incomplete Calibration",
+        isCurve
+          ? "Capture a raw reading and enter the true value for every point."
+          : "Enter a numeric offset and a gain above zero.",
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await saveCalibration(deviceId, {
+        metric,
+        definition,
+        soilType:
+          metric === "soilMoisture" && soilType.trim()
+            ? soilType.trim()
+            : undefined,
+        note: note.trim() || undefined,
+      });
+      const retiredAt = saved.createdAt;
+      setCalibrations((prev) => [
+        saved,
+        ...prev.map((c) =>
+          c.metric === metric && !c.retiredAt ? { ...c, retiredAt } : c,
+        ),
+      ]);
+      selectMetric(metric);
+      Alert.alert(
+        "Calibration Saved",
+        "Readings from now on are corrected; the raw values are kept too.",
+      );
+    } catch (error) {
+      Alert.alert("Save Failed", describeApiError(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmReset = () => {
+    Alert.alert(
+      "Reset Calibration",
+      `${deviceName} will go back to storing its raw ${METRIC_LABELS[metric]} readings.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await resetCalibration(deviceId, metric);
+              await loadCalibrations();
+            } catch (error) {
+              Alert.alert("Error", describeApiError(error));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </ThemedView>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.text,
+      backgroundColor: theme.cardBackground,
+      borderColor: theme.border,
+    },
+  ];
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? theme.primary : theme.border,
+          backgroundColor: selected
+            ? `${theme.primary}15`
+            : theme.cardBackground,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[
+          styles.chipText,
+          { color: selected ? theme.primary : theme.text },
+        ]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  const renderPoint = (point: PointInput, index: number) => (
+    <View
+      key={index}
+      style={[
+        styles.point,
+        { backgroundColor: theme.cardBackground, borderColor: theme.border },
+      ]}
+    >
+      <ThemedText style={styles.rowTitle}>
+        {metric === "pH" ? `Buffer ${index + 1}` : `Reference ${index + 1}`}
+      </ThemedText>
+      {metric === "pH" && (
+        <View style={styles.chips}>
+          {PH_BUFFERS.map((buffer) =>
+            renderChip(
+              String(buffer),
+              `pH ${buffer.toFixed(2)}`,
+              point.actual === String(buffer),
+              () => updatePoint(index, { actual: String(buffer) }),
+            ),
+          )}
+        </View>
+      )}
+      <View style={styles.inputRow}>
+        <TextInput
+          value={point.raw}
+          onChangeText={(raw) => updatePoint(index, { raw })}
+          placeholder="Probe reads"
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="numeric"
+          style={[inputStyle, styles.inputHalf]}
+        />
+        <TextInput
+          value={point.actual}
+          onChangeText={(actual) => updatePoint(index, { actual })}
+          placeholder={metric === "pH" ? "Buffer pH" : "True value"}
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="numeric"
+          style={[inputStyle, styles.inputHalf]}
+        />
+      </View>
+      <View style={styles.pointActions}>
+        <Pressable
+          onPress={() => capturePoint(index)}
+          disabled={capturing !== null}
+          style={styles.linkButton}
+        >
+          <Feather name="download" size={14} color={theme.primary} />
+          <ThemedText style={[styles.linkText, { color: theme.primary }]}>
+            {capturing === index ? "Capturing..." : "Capture latest reading"}
+          </ThemedText>
+        </Pressable>
+        {metric === "soilMoisture" && points.length > 2 && (
+          <Pressable
+            onPress={() =>
+              setPoints((prev) => prev.filter((_, i) => i !== index))
+            }
+            style={styles.linkButton}
+          >
+            <Feather name="trash-2" size={14} color={theme.critical} />
+            <ThemedText style={[styles.linkText, { color: theme.critical }]}>
+              Remove
+            </ThemedText>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="h3">{deviceName}</ThemedText>
+          <ThemedText style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {deviceId}
+          </ThemedText>
+        </View>
+
+        <View style={styles.chips}>
+          {METRICS.map((m) =>
+            renderChip(m, METRIC_LABELS[m], m === metric, () =>
+              selectMetric(m),
+            ),
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Current
+          </ThemedText>
+          <View
+            style={[
+              styles.row,
+              {
+                backgroundColor: theme.cardBackground,
+                borderColor: theme.border,
+              },
+            ]}
+          >
+            <View style={styles.rowText}>
+              <ThemedText style={styles.rowTitle}>
+                {current
+                  ? describeCalibration(current.definition)
+                  : "Uncalibrated"}
+              </ThemedText>
+              <ThemedText
+                style={[styles.rowMeta, { color: theme.textSecondary }]}
+              >
+                {current
+                  ? [
+                      current.soilType,
+                      `Since ${new Date(current.createdAt).toLocaleDateString()}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")
+                  : "Readings are stored as the device reports them."}
+              </ThemedText>
+            </View>
+            {current && (
+              <Pressable onPress={confirmReset} style={styles.linkButton}>
+                <ThemedText
+                  style={[styles.linkText, { color: theme.critical }]}
+                >
+                  Reset to raw
+                </ThemedText>
+              </Pressable>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            New Calibration
+          </ThemedText>
+          <ThemedText style={[styles.help, { color: theme.textSecondary }]}>
+            {metric === "pH"
+              ? "Rinse the probe, place it in each buffer in turn and capture its reading once it settles."
+              : metric === "soilMoisture"
+                ? "Capture the probe's reading in samples of this soil whose moisture you've measured, e.g. by oven drying. Add points to cover the range you irrigate in."
+                : "Corrected value = raw × gain + offset."}
+          </ThemedText>
+
+          {isCurve ? (
+            <>
+              {points.map(renderPoint)}
+              {metric === "soilMoisture" && points.length < MAX_POINTS && (
+                <Pressable
+                  onPress={() =>
+                    setPoints((prev) => [...prev, { raw: "", actual: "" }])
+                  }
+                  style={[styles.linkButton, styles.addPoint]}
+                >
+                  <Feather name="plus" size={14} color={theme.primary} />
+                  <ThemedText
+                    style={[styles.linkText, { color: theme.primary }]}
+                  >
+                    Add reference point
+                  </ThemedText>
+                </Pressable>
+              )}
+              {metric === "soilMoisture" && (
+                <TextInput
+                  value={soilType}
+                  onChangeText={setSoilType}
+                  placeholder="Soil type, e.g. sandy loam"
+                  placeholderTextColor={theme.textSecondary}
+                  style={inputStyle}
+                />
+              )}
+            </>
+          ) : (
+            <View style={styles.inputRow}>
+              <TextInput
+                value={offset}
+                onChangeText={setOffset}
+                placeholder="Offset"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numeric"
+                style={[inputStyle, styles.inputHalf]}
+              />
+              <TextInput
+                value={gain}
+                onChangeText={setGain}
+                placeholder="Gain"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numeric"
+                style={[inputStyle, styles.inputHalf]}
+              />
+            </View>
+          )}
+
+          <TextInput
+            value={note}
+            onChangeText={setNote}
+            placeholder="Note (optional)"
+            placeholderTextColor={theme.textSecondary}
+            style={inputStyle}
+          />
+          <Button onPress={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Calibration"}
+          </Button>
+        </View>
+
+        {history.some((c) => c.retiredAt) && (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              History
+            </ThemedText>
+            {history
+              .filter((c) => c.retiredAt)
+              .map((c) => (
+                <View
+                  key={c.id}
+                  style={[
+                    styles.row,
+                    {
+                      backgroundColor: theme.cardBackground,
+                      borderColor: theme.border,
+                      opacity: 0.7,
+                    },
+                  ]}
+                >
+                  <View style={styles.rowText}>
+                    <ThemedText style={styles.rowTitle}>
+                      {describeCalibration(c.definition)}
+                    </ThemedText>
+                    <ThemedText
+                      style={[styles.rowMeta, { color: theme.textSecondary }]}
+                    >
+                      {[
+                        c.soilType,
+                        `${new Date(c.createdAt).toLocaleDateString()} – ${new Date(c.retiredAt!).toLocaleDateString()}`,
+                        c.note,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </ThemedText>
+                  </View>
+                </View>
+              ))}
+          </View>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    marginBottom: Spacing.lg,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: Spacing.xs,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  help: {
+    fontSize: 13,
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  point: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+    gap: Spacing.sm,
+  },
+  pointActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  addPoint: {
+    marginBottom: Spacing.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 15,
+    marginBottom: Spacing.md,
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
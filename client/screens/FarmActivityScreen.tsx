@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  Share,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  AUDIT_ACTION_LABELS,
+  describeAuditChange,
+  exportAuditCsv,
+  getAuditEntries,
+  type AuditEntry,
+} from "@/services/audit";
+import { describeApiError } from "@/services/farmAccess";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type FarmActivityRouteProp = RouteProp<RootStackParamList, "FarmActivity">;
+
+const PAGE_SIZE = 50;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function FarmActivityScreen() {
+  const insets = useSafeAreaInsets();
+  const route = useRoute<FarmActivityRouteProp>();
+  const { theme } = useTheme();
+  const { farmId, farmName } = route.params;
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const loadFirstPage = async () => {
+      try {
+        setIsLoading(true);
+        const page = await getAuditEntries(farmId);
+        setEntries(page);
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        console.error("Error loading farm activity:", error);
+        Alert.alert("Error", describeApiError(error));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFirstPage();
+  }, [farmId]);
+
+  const loadMore = async () => {
+    if (!hasMore || isLoadingMore || entries.length === 0) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await getAuditEntries(
+        farmId,
+        entries[entries.length - 1].createdAt,
+      );
+      setEntries((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error loading more activity:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const csv = await exportAuditCsv(farmId);
+      await Share.share({ title: `${farmName} activity`, message: csv });
+    } catch (error) {
+      Alert.alert("Export Failed", describeApiError(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderEntry = ({ item }: { item: AuditEntry }) => {
+    const change = describeAuditChange(item);
+    return (
+      <View
+        style={[
+          styles.entry,
+          { backgroundColor: theme.cardBackground, borderColor: theme.border },
+        ]}
+      >
+        <View style={styles.entryHeader}>
+          <ThemedText style={styles.entryAction}>
+            {AUDIT_ACTION_LABELS[item.action] ?? item.action}
+          </ThemedText>
+          <ThemedText
+            style={[styles.entryMeta, { color: theme.textSecondary }]}
+          >
+            {formatTime(item.createdAt)}
+          </ThemedText>
+        </View>
+        <ThemedText style={[styles.entryMeta, { color: theme.textSecondary }]}>
+          by {item.actorEmail ?? item.actorId}
+          {item.client ? ` · ${item.client}` : ""}
+        </ThemedText>
+        {change !== "" && (
+          <ThemedText style={styles.entryChange} numberOfLines={3}>
+            {change}
+          </ThemedText>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.id}
+        renderItem={renderEntry}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="h3" style={styles.headerTitle}>
+              {farmName}
+            </ThemedText>
+            <Pressable
+              onPress={handleExport}
+              disabled={isExporting || entries.length === 0}
+              style={styles.exportButton}
+            >
+              <Feather name="share" size={16} color={theme.primary} />
+              <ThemedText style={[styles.exportText, { color: theme.primary }]}>
+                {isExporting ? "Exporting..." : "Export CSV"}
+              </ThemedText>
+            </Pressable>
+          </View>
+        }
+        ListEmptyComponent={
+          <ThemedText style={[styles.empty, { color: theme.textSecondary }]}>
+            No changes have been recorded for this farm yet.
+          </ThemedText>
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <ActivityIndicator color={theme.primary} style={styles.footer} />
+          ) : null
+        }
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  exportButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    padding: Spacing.xs,
+  },
+  exportText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  entry: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  entryAction: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  entryMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  entryChange: {
+    fontSize: 13,
+    marginTop: Spacing.sm,
+  },
+  empty: {
+    textAlign: "center",
+    marginTop: Spacing.xl,
+  },
+  footer: {
+    marginVertical: Spacing.lg,
+  },
+});
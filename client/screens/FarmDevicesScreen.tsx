@@ -0,0 +1,552 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+  RefreshControl,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  useNavigation,
+  useRoute,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { apiRequest } from "@/lib/query-client";
+import {
+  canPerform,
+  describeApiError,
+  getFarmRole,
+  type FarmRole,
+} from "@/services/farmAccess";
+import {
+  DEVICE_TYPE_LABELS,
+  decommissionDevice,
+  deviceTypes,
+  getFarmDevices,
+  provisionDevice,
+  rotateDeviceSecret,
+  type Device,
+  type DeviceType,
+  type ProvisionedDevice,
+} from "@/services/devices";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { fieldSchema, type ApiField } from "@shared/models";
+
+type FarmDevicesRouteProp = RouteProp<RootStackParamList, "FarmDevices">;
+
+const formatLastSeen = (iso: string | null) => {
+  if (!iso) return "Never seen";
+
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "Seen just now";
+  if (minutes < 60) return `Seen ${minutes}m ago`;
+  if (minutes < 24 * 60) return `Seen ${Math.round(minutes / 60)}h ago`;
+  return `Seen ${new Date(iso).toLocaleDateString()}`;
+};
+
+export default function FarmDevicesScreen() {
+  const insets = useSafeAreaInsets();
+  const route = useRoute<FarmDevicesRouteProp>();
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const { farmId, farmName } = route.params;
+
+  const [role, setRole] = useState<FarmRole | null>(null);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [fields, setFields] = useState<ApiField[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [newId, setNewId] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<DeviceType>("soil_probe");
+  const [newFieldId, setNewFieldId] = useState<string | null>(null);
+  const [newZone, setNewZone] = useState("");
+  const [newDepth, setNewDepth] = useState("");
+
+  const canManageDevices = canPerform(role ?? undefined, "manageDevices");
+  const active = devices.filter((d) => d.status === "active");
+  const decommissioned = devices.filter((d) => d.status !== "active");
+  const fieldNames = Object.fromEntries(fields.map((f) => [f.id, f.name]));
+
+  const loadDevices = async () => {
+    try {
+      const [farmRole, farmDevices, fieldsRes] = await Promise.all([
+        getFarmRole(farmId),
+        getFarmDevices(farmId),
+        apiRequest("GET", `/api/farms/${farmId}/fields`),
+      ]);
+      setRole(farmRole);
+      setDevices(farmDevices);
+      setFields(fieldSchema.array().parse(await fieldsRes.json()));
+    } catch (error) {
+      console.error("Error loading farm devices:", error);
+      Alert.alert("Error", describeApiError(error));
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDevices();
+  }, [farmId]);
+
+  const showSecret = (device: ProvisionedDevice) => {
+    Alert.alert(
+      "Device Secret",
+      `Configure ${device.name} to send this as its bearer token. It won't be shown again.\n\n${device.secret}`,
+    );
+  };
+
+  const handleProvision = async () => {
+    const depth = newDepth.trim() ? Number(newDepth) : null;
+    if (depth !== null && !Number.isFinite(depth)) {
+      Alert.alert("Invalid Depth", "Enter the install depth in centimetres.");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const device = await provisionDevice(farmId, {
+        id: newId,
+        name: newName,
+        type: newType,
+        fieldId: newFieldId,
+        zone: newZone.trim() || null,
+        installDepthCm: depth,
+      });
+      setNewId("");
+      setNewName("");
+      setNewZone("");
+      setNewDepth("");
+      const { secret: _secret, ...listed } = device;
+      setDevices((prev) => [listed, ...prev.filter((d) => d.id !== device.id)]);
+      showSecret(device);
+    } catch (error) {
+      Alert.alert("Provisioning Failed", describeApiError(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDevicePress = (device: Device) => {
+    if (!canManageDevices || device.status !== "active") return;
+
+    Alert.alert(device.name, device.id, [
+      {
+        text: "Rotate secret",
+        onPress: async () => {
+          try {
+            showSecret(await rotateDeviceSecret(device.id));
+          } catch (error) {
+            Alert.alert("Error", describeApiError(error));
+          }
+        },
+      },
+      {
+        text: "Decommission",
+        style: "destructive",
+        onPress: () => confirmDecommission(device),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const confirmDecommission = (device: Device) => {
+    Alert.alert(
+      "Decommission Device",
+      `${device.name} will stop being able to send readings. Its history is kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Decommission",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await decommissionDevice(device.id);
+              setDevices((prev) =>
+                prev.map((d) =>
+                  d.id === device.id
+                    ? { ...d, status: "decommissioned", online: false }
+                    : d,
+                ),
+              );
+            } catch (error) {
+              Alert.alert("Error", describeApiError(error));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderDevice = (device: Device) => {
+    const isActive = device.status === "active";
+    const statusColor = !isActive
+      ? theme.textSecondary
+      : device.online
+        ? theme.success
+        : theme.critical;
+    const placement = [
+      device.fieldId ? fieldNames[device.fieldId] : null,
+      device.zone,
+      device.installDepthCm !== null
+        ? `${device.installDepthCm} cm deep`
+        : null,
+    ].filter(Boolean);
+    const health = [
+      device.battery !== null ? `Battery ${Math.round(device.battery)}%` : null,
+      device.firmwareVersion ? `Firmware ${device.firmwareVersion}` : null,
+    ].filter(Boolean);
+
+    return (
+      <Pressable
+        key={device.id}
+        onPress={() => handleDevicePress(device)}
+        disabled={!canManageDevices || !isActive}
+        style={[
+          styles.row,
+          {
+            backgroundColor: theme.cardBackground,
+            borderColor: theme.border,
+            opacity: isActive ? 1 : 0.6,
+          },
+        ]}
+      >
+        <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowTitle}>{device.name}</ThemedText>
+          <ThemedText style={[styles.rowMeta, { color: theme.textSecondary }]}>
+            {DEVICE_TYPE_LABELS[device.type]} · {device.id}
+          </ThemedText>
+          {placement.length > 0 && (
+            <ThemedText
+              style={[styles.rowMeta, { color: theme.textSecondary }]}
+            >
+              {placement.join(" · ")}
+            </ThemedText>
+          )}
+          <ThemedText style={[styles.rowMeta, { color: statusColor }]}>
+            {isActive
+              ? `${device.online ? "Online" : "Offline"} · ${formatLastSeen(device.lastSeenAt)}`
+              : "Decommissioned"}
+          </ThemedText>
+          {isActive && device.maintenanceReason && (
+            <ThemedText style={[styles.rowMeta, { color: theme.warning }]}>
+              Needs maintenance: {device.maintenanceReason}
+            </ThemedText>
+          )}
+          {isActive && health.length > 0 && (
+            <ThemedText
+              style={[styles.rowMeta, { color: theme.textSecondary }]}
+            >
+              {health.join(" · ")}
+            </ThemedText>
+          )}
+        </View>
+        {canManageDevices && isActive && (
+          <Pressable
+            onPress={() =>
+              navigation.navigate("DeviceCalibration", {
+                deviceId: device.id,
+                deviceName: device.name,
+                deviceType: device.type,
+              })
+            }
+            hitSlop={8}
+          >
+            <Feather name="sliders" size={18} color={theme.textSecondary} />
+          </Pressable>
+        )}
+        {canManageDevices && isActive && (
+          <Feather
+            name="more-horizontal"
+            size={18}
+            color={theme.textSecondary}
+          />
+        )}
+      </Pressable>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </ThemedView>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.text,
+      backgroundColor: theme.cardBackground,
+      borderColor: theme.border,
+    },
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={() => {
+              setIsRefreshing(true);
+              loadDevices();
+            }}
+          />
+        }
+      >
+        <View style={styles.header}>
+          <ThemedText type="h3">{farmName}</ThemedText>
+          <ThemedText style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {active.filter((d) => d.online).length} of {active.length} devices
+            online
+          </ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          {active.length === 0 ? (
+            <ThemedText style={[styles.empty, { color: theme.textSecondary }]}>
+              No devices are registered to this farm yet.
+            </ThemedText>
+          ) : (
+            active.map(renderDevice)
+          )}
+        </View>
+
+        {canManageDevices && (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Add a Device
+            </ThemedText>
+            <TextInput
+              value={newId}
+              onChangeText={setNewId}
+              placeholder="Serial number or device EUI"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={inputStyle}
+            />
+            <TextInput
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="Name, e.g. North block probe"
+              placeholderTextColor={theme.textSecondary}
+              style={inputStyle}
+            />
+            <View style={styles.chips}>
+              {deviceTypes.map((type) => (
+                <Pressable
+                  key={type}
+                  onPress={() => setNewType(type)}
+                  style={[
+                    styles.chip,
+                    {
+                      borderColor:
+                        newType === type ? theme.primary : theme.border,
+                      backgroundColor:
+                        newType === type
+                          ? `${theme.primary}15`
+                          : theme.cardBackground,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={[
+                      styles.chipText,
+                      { color: newType === type ? theme.primary : theme.text },
+                    ]}
+                  >
+                    {DEVICE_TYPE_LABELS[type]}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+            {fields.length > 0 && (
+              <View style={styles.chips}>
+                {[{ id: null, name: "No field" }, ...fields].map((field) => (
+                  <Pressable
+                    key={field.id ?? "none"}
+                    onPress={() => setNewFieldId(field.id)}
+                    style={[
+                      styles.chip,
+                      {
+                        borderColor:
+                          newFieldId === field.id
+                            ? theme.primary
+                            : theme.border,
+                        backgroundColor:
+                          newFieldId === field.id
+                            ? `${theme.primary}15`
+                            : theme.cardBackground,
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.chipText,
+                        {
+                          color:
+                            newFieldId === field.id
+                              ? theme.primary
+                              : theme.text,
+                        },
+                      ]}
+                    >
+                      {field.name}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            <View style={styles.inputRow}>
+              <TextInput
+                value={newZone}
+                onChangeText={setNewZone}
+                placeholder="Zone (optional)"
+                placeholderTextColor={theme.textSecondary}
+                style={[inputStyle, styles.inputHalf]}
+              />
+              <TextInput
+                value={newDepth}
+                onChangeText={setNewDepth}
+                placeholder="Depth, cm"
+                placeholderTextColor={theme.textSecondary}
+                keyboardType="numeric"
+                style={[inputStyle, styles.inputHalf]}
+              />
+            </View>
+            <Button
+              onPress={handleProvision}
+              disabled={!newId.trim() || !newName.trim() || isSaving}
+            >
+              {isSaving ? "Provisioning..." : "Provision Device"}
+            </Button>
+          </View>
+        )}
+
+        {decommissioned.length > 0 && (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Decommissioned
+            </ThemedText>
+            {decommissioned.map(renderDevice)}
+          </View>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    marginBottom: Spacing.xl,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: Spacing.xs,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  empty: {
+    textAlign: "center",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 15,
+    marginBottom: Spacing.md,
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
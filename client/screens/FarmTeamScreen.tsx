@@ -0,0 +1,471 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { getDatabase } from "firebase/database";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  canManageRole,
+  canPerform,
+  changeMemberRole,
+  describeApiError,
+  getFarmInvites,
+  getFarmMembers,
+  getFarmRole,
+  inviteToFarm,
+  memberRoles,
+  removeMember,
+  revokeInvite,
+  type FarmInvite,
+  type FarmRole,
+  type FarmTeamMember,
+  type MemberRole,
+} from "@/services/farmAccess";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type FarmTeamRouteProp = RouteProp<RootStackParamList, "FarmTeam">;
+
+const ROLE_DESCRIPTIONS: Record<FarmRole, string> = {
+  owner: "Full control, including deleting the farm",
+  manager: "Edits schedules and settings, manages workers and viewers",
+  worker: "Starts and stops irrigation",
+  viewer: "Sees sensor data and history",
+};
+
+export default function FarmTeamScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+  const route = useRoute<FarmTeamRouteProp>();
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { farmId, farmName } = route.params;
+  const database = getDatabase();
+
+  const [role, setRole] = useState<FarmRole | null>(null);
+  const [members, setMembers] = useState<FarmTeamMember[]>([]);
+  const [invites, setInvites] = useState<FarmInvite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("viewer");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  const canManageTeam = canPerform(role ?? undefined, "manageTeam");
+
+  const loadTeam = async () => {
+    try {
+      setIsLoading(true);
+      const farmRole = await getFarmRole(farmId);
+      setRole(farmRole);
+      setMembers(await getFarmMembers(farmId));
+      setInvites(
+        canPerform(farmRole, "manageTeam") ? await getFarmInvites(farmId) : [],
+      );
+    } catch (error) {
+      console.error("Error loading farm team:", error);
+      Alert.alert("Error", describeApiError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTeam();
+  }, [farmId]);
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return;
+
+    try {
+      setIsSending(true);
+      await inviteToFarm(database, farmId, inviteEmail, inviteRole);
+      setInviteEmail("");
+      Alert.alert(
+        "Invite Sent",
+        `${inviteEmail.trim()} can join ${farmName} as a ${inviteRole} after signing in with that email.`,
+      );
+      setInvites(await getFarmInvites(farmId));
+    } catch (error) {
+      Alert.alert("Invite Failed", describeApiError(error));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRevoke = (invite: FarmInvite) => {
+    Alert.alert("Revoke Invite", `Revoke the invite for ${invite.email}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Revoke",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await revokeInvite(database, invite);
+            setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+          } catch (error) {
+            Alert.alert("Error", describeApiError(error));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleMemberPress = (member: FarmTeamMember) => {
+    if (!role || member.role === "owner" || !canManageRole(role, member.role))
+      return;
+
+    const name = member.email ?? "this member";
+    Alert.alert(name, "Change their role or remove them from the farm.", [
+      ...memberRoles
+        .filter((r) => r !== member.role && canManageRole(role, r))
+        .map((r) => ({
+          text: `Make ${r}`,
+          onPress: async () => {
+            try {
+              await changeMemberRole(database, farmId, member.userId, r);
+              setMembers((prev) =>
+                prev.map((m) =>
+                  m.userId === member.userId ? { ...m, role: r } : m,
+                ),
+              );
+            } catch (error) {
+              Alert.alert("Error", describeApiError(error));
+            }
+          },
+        })),
+      {
+        text: "Remove",
+        style: "destructive" as const,
+        onPress: async () => {
+          try {
+            await removeMember(database, farmId, member.userId);
+            setMembers((prev) =>
+              prev.filter((m) => m.userId !== member.userId),
+            );
+          } catch (error) {
+            Alert.alert("Error", describeApiError(error));
+          }
+        },
+      },
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  const handleLeave = () => {
+    if (!user) return;
+
+    Alert.alert("Leave Farm", `You will lose access to ${farmName}.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Leave",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await removeMember(database, farmId, user.uid);
+            navigation.goBack();
+          } catch (error) {
+            Alert.alert("Error", describeApiError(error));
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="h3">{farmName}</ThemedText>
+          {role && (
+            <ThemedText
+              style={[styles.subtitle, { color: theme.textSecondary }]}
+            >
+              You are the {role}: {ROLE_DESCRIPTIONS[role].toLowerCase()}
+            </ThemedText>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Members
+          </ThemedText>
+          {members.map((member) => {
+            const manageable =
+              role !== null &&
+              member.role !== "owner" &&
+              canManageRole(role, member.role);
+            const isMe = member.userId === user?.uid;
+            return (
+              <Pressable
+                key={member.userId}
+                onPress={() => handleMemberPress(member)}
+                disabled={!manageable}
+                style={[
+                  styles.row,
+                  {
+                    backgroundColor: theme.cardBackground,
+                    borderColor: theme.border,
+                  },
+                ]}
+              >
+                <Feather
+                  name={member.role === "owner" ? "award" : "user"}
+                  size={18}
+                  color={theme.primary}
+                />
+                <View style={styles.rowText}>
+                  <ThemedText style={styles.rowTitle}>
+                    {isMe
+                      ? "You"
+                      : (member.email ??
+                        (member.role === "owner"
+                          ? "Farm owner"
+                          : member.userId))}
+                  </ThemedText>
+                  <ThemedText
+                    style={[styles.rowMeta, { color: theme.textSecondary }]}
+                  >
+                    {member.role}
+                  </ThemedText>
+                </View>
+                {manageable && (
+                  <Feather
+                    name="more-horizontal"
+                    size={18}
+                    color={theme.textSecondary}
+                  />
+                )}
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {canManageTeam && (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Invite Someone
+            </ThemedText>
+            <TextInput
+              value={inviteEmail}
+              onChangeText={setInviteEmail}
+              placeholder="Email address"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              keyboardType="email-address"
+              style={[
+                styles.input,
+                {
+                  color: theme.text,
+                  backgroundColor: theme.cardBackground,
+                  borderColor: theme.border,
+                },
+              ]}
+            />
+            <View style={styles.roleOptions}>
+              {memberRoles
+                .filter((r) => role && canManageRole(role, r))
+                .map((r) => (
+                  <Pressable
+                    key={r}
+                    onPress={() => setInviteRole(r)}
+                    style={[
+                      styles.roleOption,
+                      {
+                        borderColor:
+                          inviteRole === r ? theme.primary : theme.border,
+                        backgroundColor:
+                          inviteRole === r
+                            ? `${theme.primary}15`
+                            : theme.cardBackground,
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.roleOptionTitle,
+                        {
+                          color: inviteRole === r ? theme.primary : theme.text,
+                        },
+                      ]}
+                    >
+                      {r}
+                    </ThemedText>
+                    <ThemedText
+                      style={[styles.rowMeta, { color: theme.textSecondary }]}
+                    >
+                      {ROLE_DESCRIPTIONS[r]}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+            </View>
+            <Button
+              onPress={handleInvite}
+              disabled={!inviteEmail.trim() || isSending}
+            >
+              {isSending ? "Sending..." : "Send Invite"}
+            </Button>
+          </View>
+        )}
+
+        {canManageTeam && invites.length > 0 && (
+          <View style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Pending Invites
+            </ThemedText>
+            {invites.map((invite) => (
+              <View
+                key={invite.id}
+                style={[
+                  styles.row,
+                  {
+                    backgroundColor: theme.cardBackground,
+                    borderColor: theme.border,
+                  },
+                ]}
+              >
+                <Feather name="mail" size={18} color={theme.accent} />
+                <View style={styles.rowText}>
+                  <ThemedText style={styles.rowTitle}>
+                    {invite.email}
+                  </ThemedText>
+                  <ThemedText
+                    style={[styles.rowMeta, { color: theme.textSecondary }]}
+                  >
+                    {invite.role}
+                  </ThemedText>
+                </View>
+                {role && canManageRole(role, invite.role) && (
+                  <Pressable onPress={() => handleRevoke(invite)} hitSlop={8}>
+                    <Feather name="x" size={18} color={theme.critical} />
+                  </Pressable>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {role && role !== "owner" && (
+          <Pressable onPress={handleLeave} style={styles.leaveButton}>
+            <Feather name="log-out" size={16} color={theme.critical} />
+            <ThemedText style={[styles.leaveText, { color: theme.critical }]}>
+              Leave this farm
+            </ThemedText>
+          </Pressable>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    marginBottom: Spacing.xl,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: Spacing.xs,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 2,
+    textTransform: "capitalize",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 15,
+    marginBottom: Spacing.md,
+  },
+  roleOptions: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  roleOption: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+  },
+  roleOptionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    textTransform: "capitalize",
+  },
+  leaveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+  },
+  leaveText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -14,15 +14,7 @@ import { ThemedView } from '@/components/ThemedView';
 import { useTheme } from '@/hooks/useTheme';
 import { useFarms } from '@/contexts/FarmContext';
 import { Spacing, BorderRadius } from '@/constants/theme';
-
-interface Farm {
-  id: string;
-  name: string;
-  location: string;
-  totalAcres: number;
-  cropTypes: string[];
-  status: string;
-}
+import type { Farm } from '@shared/models';
 
 export default function FarmsScreen() {
   const navigation = useNavigation();
@@ -1,5 +1,5 @@
-import React, { useState } from "react";
-import { View, StyleSheet, ScrollView, Pressable, Alert } from "react-native";
+import React, { useState, useEffect } from "react";
+import { View, StyleSheet, ScrollView, Pressable, Alert, ActivityIndicator } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useRoute, RouteProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
@@ -9,24 +9,31 @@ import { Platform } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Button } from "@/components/Button";
+import { HistoryChart } from "@/components/HistoryChart";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { mockFields } from "@/lib/mockData";
+import { apiRequest } from "@/lib/query-client";
 import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { fieldSchema, type ApiField } from "@shared/models";
+import type { SensorMetric } from "@shared/schema";
+import type { FieldHistory, HistoryRange, Trend } from "@shared/history";
+import { assessHealth } from "@shared/health";
+import { cropStage, describeStage, findCrop, localDateString } from "@shared/crops";
 
 type FieldDetailRouteProp = RouteProp<RootStackParamList, "FieldDetail">;
 
 interface SensorCardProps {
+  metric: SensorMetric;
   icon: keyof typeof Feather.glyphMap;
   label: string;
-  value: number;
+  value: number | undefined;
   unit: string;
-  trend: "up" | "down" | "stable";
+  trend: Trend;
   color?: string;
 }
 
 interface TimeRangeButtonProps {
-  range: "24h" | "7d" | "30d";
+  range: HistoryRange;
   label: string;
 }
 
@@ -34,9 +41,69 @@ export default function FieldDetailScreen() {
   const insets = useSafeAreaInsets();
   const route = useRoute<FieldDetailRouteProp>();
   const { theme, isDark } = useTheme();
-  const [timeRange, setTimeRange] = useState<"24h" | "7d" | "30d">("24h");
+  const [timeRange, setTimeRange] = useState<HistoryRange>("24h");
+  const [chartMetric, setChartMetric] = useState<{ metric: SensorMetric; label: string; unit: string }>({
+    metric: "soilMoisture",
+    label: "Soil Moisture",
+    unit: "%",
+  });
+  const [field, setField] = useState<ApiField | null>(null);
+  const [history, setHistory] = useState<FieldHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const { fieldId } = route.params;
 
-  const field = mockFields.find((f) => f.id === route.params.fieldId) || mockFields[0];
+  useEffect(() => {
+    const loadField = async () => {
+      try {
+        const res = await apiRequest("GET", `/api/fields/${fieldId}`);
+        setField(fieldSchema.parse(await res.json()));
+      } catch (error) {
+        console.error("Error loading field:", error);
+        setLoadError("Unable to load this field.");
+      }
+    };
+
+    loadField();
+  }, [fieldId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        const res = await apiRequest(
+          "GET",
+          `/api/fields/${fieldId}/history?range=${timeRange}`
+        );
+        const data: FieldHistory = await res.json();
+        if (!cancelled) setHistory(data);
+      } catch (error) {
+        console.error("Error loading sensor history:", error);
+        if (!cancelled) setLoadError("Unable to load sensor history.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [fieldId, timeRange]);
+
+  const latest = history?.latest ?? {};
+  const trendOf = (metric: SensorMetric): Trend => history?.trends[metric] ?? "stable";
+  const crop = findCrop(field?.cropType);
+  const stage = crop ? cropStage(crop, field?.plantedOn, localDateString()) : null;
+  // Judged for the field's own crop, its growth stage and soil
+  const health = assessHealth(latest, {
+    cropTypes: field?.cropType ? [field.cropType] : [],
+    soilType: field?.soilType,
+    stage: stage?.stage,
+  });
+  const fieldStatus = health.status;
 
   const handleManualIrrigation = () => {
     if (Platform.OS !== "web") {
@@ -44,7 +111,7 @@ export default function FieldDetailScreen() {
     }
     Alert.alert(
       "Start Manual Irrigation",
-      `This will start irrigation for ${field.name}. Proceed?`,
+      `This will start irrigation for ${field?.name ?? "this field"}. Proceed?`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -61,7 +128,7 @@ export default function FieldDetailScreen() {
   };
 
   const getStatusColor = () => {
-    switch (field.status) {
+    switch (fieldStatus) {
       case "healthy":
         return isDark ? Colors.dark.success : Colors.light.success;
       case "attention":
@@ -74,7 +141,7 @@ export default function FieldDetailScreen() {
   };
 
   const getStatusLabel = () => {
-    switch (field.status) {
+    switch (fieldStatus) {
       case "healthy":
         return "Healthy";
       case "attention":
@@ -86,7 +153,8 @@ export default function FieldDetailScreen() {
     }
   };
 
-  const SensorCard: React.FC<SensorCardProps> = ({ icon, label, value, unit, trend, color }) => {
+  // Tapping a card charts its metric
+  const SensorCard: React.FC<SensorCardProps> = ({ metric, icon, label, value, unit, trend, color }) => {
     const trendIcon =
       trend === "up" ? "arrow-up" : trend === "down" ? "arrow-down" : "minus";
     const trendColor =
@@ -101,10 +169,14 @@ export default function FieldDetailScreen() {
           : theme.textSecondary;
 
     return (
-      <View
+      <Pressable
+        onPress={() => setChartMetric({ metric, label, unit })}
         style={[
           styles.sensorCard,
-          { backgroundColor: theme.cardBackground, borderColor: theme.border },
+          {
+            backgroundColor: theme.cardBackground,
+            borderColor: chartMetric.metric === metric ? theme.primary : theme.border,
+          },
         ]}
       >
         <View
@@ -126,7 +198,7 @@ export default function FieldDetailScreen() {
         </ThemedText>
         <View style={styles.sensorValueRow}>
           <ThemedText type="h2" style={styles.sensorValue}>
-            {value}
+            {value ?? "--"}
           </ThemedText>
           <ThemedText style={[styles.sensorUnit, { color: theme.textSecondary }]}>
             {unit}
@@ -138,7 +210,7 @@ export default function FieldDetailScreen() {
             {trend === "stable" ? "Stable" : trend === "up" ? "Rising" : "Falling"}
           </ThemedText>
         </View>
-      </View>
+      </Pressable>
     );
   };
 
@@ -179,11 +251,21 @@ export default function FieldDetailScreen() {
         showsVerticalScrollIndicator={false}
       >
         <View style={styles.header}>
-          <View>
-            <ThemedText type="h2">{field.name}</ThemedText>
+          <View style={styles.headerInfo}>
+            <ThemedText type="h2">{field?.name ?? "Field"}</ThemedText>
             <ThemedText style={[styles.acres, { color: theme.textSecondary }]}>
-              {field.acres} acres
+              {field?.acres ?? 0} acres
             </ThemedText>
+            {crop && stage ? (
+              <ThemedText style={[styles.acres, { color: theme.textSecondary }]}>
+                {describeStage(crop, stage)}
+              </ThemedText>
+            ) : null}
+            {health.driver ? (
+              <ThemedText style={[styles.statusReason, { color: getStatusColor() }]}>
+                {health.reason}
+              </ThemedText>
+            ) : null}
           </View>
           <View style={[styles.statusBadge, { backgroundColor: `${getStatusColor()}15` }]}>
             <View style={[styles.statusDot, { backgroundColor: getStatusColor() }]} />
@@ -205,15 +287,25 @@ export default function FieldDetailScreen() {
             </View>
           </View>
 
+          {isLoading && !history ? (
+            <ActivityIndicator color={theme.primary} style={styles.loadingIndicator} />
+          ) : null}
+          {loadError ? (
+            <ThemedText style={[styles.errorText, { color: theme.critical }]}>
+              {loadError}
+            </ThemedText>
+          ) : null}
+
           <View style={styles.sensorGrid}>
             <SensorCard
+              metric="soilMoisture"
               icon="droplet"
               label="Soil Moisture"
-              value={field.moisture}
+              value={latest.soilMoisture}
               unit="%"
-              trend={field.moisture < 50 ? "down" : "stable"}
+              trend={trendOf("soilMoisture")}
               color={
-                field.moisture < 40
+                latest.soilMoisture !== undefined && latest.soilMoisture < 40
                   ? isDark
                     ? Colors.dark.warning
                     : Colors.light.warning
@@ -221,48 +313,72 @@ export default function FieldDetailScreen() {
               }
             />
             <SensorCard
+              metric="pH"
               icon="activity"
               label="pH Level"
-              value={field.ph}
+              value={latest.pH}
               unit=""
-              trend="stable"
+              trend={trendOf("pH")}
             />
           </View>
 
           <View style={styles.sensorGrid}>
             <SensorCard
+              metric="temperature"
               icon="thermometer"
               label="Temperature"
-              value={field.temperature}
+              value={latest.temperature}
               unit="°C"
-              trend="up"
+              trend={trendOf("temperature")}
             />
             <SensorCard
+              metric="nitrogen"
               icon="wind"
               label="Nitrogen (N)"
-              value={field.nitrogen}
+              value={latest.nitrogen}
               unit="%"
-              trend="stable"
+              trend={trendOf("nitrogen")}
               color={isDark ? Colors.dark.success : Colors.light.success}
             />
           </View>
 
           <View style={styles.sensorGrid}>
             <SensorCard
+              metric="phosphorus"
               icon="layers"
               label="Phosphorus (P)"
-              value={field.phosphorus}
+              value={latest.phosphorus}
               unit="%"
-              trend="down"
+              trend={trendOf("phosphorus")}
             />
             <SensorCard
+              metric="potassium"
               icon="box"
               label="Potassium (K)"
-              value={field.potassium}
+              value={latest.potassium}
               unit="%"
-              trend="stable"
+              trend={trendOf("potassium")}
             />
           </View>
+
+          {history ? (
+            <View
+              style={[
+                styles.chartCard,
+                { backgroundColor: theme.cardBackground, borderColor: theme.border },
+              ]}
+            >
+              <ThemedText style={[styles.chartTitle, { color: theme.textSecondary }]}>
+                {chartMetric.label}, {history.bucket === "hour" ? "hourly" : "daily"} average
+              </ThemedText>
+              <HistoryChart
+                series={history.series}
+                metric={chartMetric.metric}
+                bucket={history.bucket}
+                unit={chartMetric.unit}
+              />
+            </View>
+          ) : null}
         </View>
 
         <View style={styles.section}>
@@ -337,6 +453,10 @@ const styles = StyleSheet.create({
     alignItems: "flex-start",
     marginBottom: Spacing.xl,
   },
+  headerInfo: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
   acres: {
     fontSize: 14,
     marginTop: 2,
@@ -358,6 +478,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  statusReason: {
+    fontSize: 13,
+    marginTop: Spacing.xs,
+  },
   section: {
     marginBottom: Spacing.xl,
   },
@@ -428,6 +552,15 @@ const styles = StyleSheet.create({
   trendText: {
     fontSize: 11,
   },
+  chartCard: {
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    padding: Spacing.lg,
+  },
+  chartTitle: {
+    fontSize: 13,
+    marginBottom: Spacing.sm,
+  },
   healthCard: {
     borderRadius: BorderRadius.lg,
     borderWidth: 1,
@@ -458,6 +591,13 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     padding: Spacing.xl,
   },
+  loadingIndicator: {
+    marginBottom: Spacing.md,
+  },
+  errorText: {
+    fontSize: 14,
+    marginBottom: Spacing.md,
+  },
   notesPlaceholder: {
     fontSize: 14,
     textAlign: "center",
@@ -5,107 +5,123 @@ import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
-import { getDatabase, ref, get, onValue, off } from "firebase/database";
+import { getDatabase } from "firebase/database";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { FieldCard } from "@/components/FieldCard";
 import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
+import { loadAccessibleFarms } from "@/services/farmAccess";
+import { apiRequest } from "@/lib/query-client";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { fieldSchema, type ApiField, type Farm, type FieldSummary } from "@shared/models";
+import { assessHealth } from "@shared/health";
+import { cropStage, findCrop, localDateString } from "@shared/crops";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Farm {
-  id: string;
-  name: string;
-  location: string;
-  totalAcres: number;
-  cropTypes: string[];
-  soilType: string;
-  irrigationType: string;
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-  };
-  description?: string;
-  createdAt: string;
-  updatedAt: string;
-  status: 'healthy' | 'attention' | 'critical';
-  sensorData?: {
-    soilMoisture: number;
-    pH: number;
-    temperature: number;
-    nitrogen: number;
-    phosphorus: number;
-    potassium: number;
-    lastUpdated: string;
+type FarmField = ApiField & { farm: Farm };
+
+// What a field card shows. Readings are the farm's latest, judged for the
+// field's own crop and growth stage; fields without readings yet count as
+// healthy rather than critical.
+const toFieldSummary = ({ farm, ...field }: FarmField): FieldSummary => {
+  const readings = farm.sensorData;
+  const cropType = field.cropType ?? farm.cropTypes[0];
+  const crop = findCrop(cropType);
+  const health = assessHealth(
+    readings ?? {},
+    {
+      cropTypes: cropType ? [cropType] : [],
+      soilType: field.soilType ?? farm.soilType,
+      stage: crop ? cropStage(crop, field.plantedOn, localDateString()).stage : undefined,
+    },
+    { quality: readings?.quality }
+  );
+
+  return {
+    id: field.id,
+    name: field.name,
+    acres: field.acres,
+    cropType: cropType ?? "Unknown",
+    status: health.status,
+    statusReason: health.driver ? health.reason : undefined,
+    statusMetric: health.driver?.metric,
+    moisture: readings?.soilMoisture ?? 0,
+    pH: readings?.pH ?? 0,
+    temperature: readings?.temperature ?? 0,
+    nitrogen: readings?.nitrogen ?? 0,
+    phosphorus: readings?.phosphorus ?? 0,
+    potassium: readings?.potassium ?? 0,
   };
-}
+};
 
 export default function FieldsScreen() {
   const insets = useSafeAreaInsets();
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<NavigationProp>();
   const { theme } = useTheme();
+  const { user } = useAuth();
   
   const [searchQuery, setSearchQuery] = useState("");
-  const [farms, setFarms] = useState<Farm[]>([]);
+  const [fields, setFields] = useState<FarmField[]>([]);
   const [loading, setLoading] = useState(true);
   
   const db = getDatabase();
 
   useEffect(() => {
-    loadFarmsFromDatabase();
-    return () => {
-      // Clean up listeners
-    };
-  }, []);
+    loadFields();
+  }, [user]);
+
+  const loadFields = async () => {
+    if (!user) {
+      setFields([]);
+      setLoading(false);
+      return;
+    }
 
-  const loadFarmsFromDatabase = async () => {
     try {
       setLoading(true);
-      const farmsRef = ref(db, 'farms');
-      
-      // Set up real-time listener
-      const unsubscribe = onValue(farmsRef, (snapshot) => {
-        if (snapshot.exists()) {
-          const farmsData = snapshot.val();
-          const farmsArray: Farm[] = Object.keys(farmsData).map(key => ({
-            id: key,
-            ...farmsData[key]
-          }));
-          setFarms(farmsArray);
-        } else {
-          setFarms([]);
-        }
-        setLoading(false);
-      }, (error) => {
-        console.error('Error loading farms:', error);
-        setLoading(false);
-      });
-
-      return () => {
-        off(farmsRef);
-      };
+      // Farms the user owns or has been invited to
+      const { farmsData } = await loadAccessibleFarms(db, user.uid);
+      const farmsArray: Farm[] = Object.keys(farmsData).map(key => ({
+        id: key,
+        ...farmsData[key]
+      }));
+      // Field ids are the server's, which the detail screen loads by
+      const farmFields = await Promise.all(
+        farmsArray.map(async (farm) => {
+          try {
+            const res = await apiRequest("GET", `/api/farms/${farm.id}/fields`);
+            return fieldSchema.array().parse(await res.json()).map((field) => ({ ...field, farm }));
+          } catch (error) {
+            console.error(`Error loading fields of farm ${farm.id}:`, error);
+            return [];
+          }
+        })
+      );
+      setFields(farmFields.flat());
     } catch (error) {
-      console.error('Error loading farms:', error);
+      console.error('Error loading fields:', error);
+    } finally {
       setLoading(false);
     }
   };
 
-  const filteredFarms = farms.filter((farm) =>
-    farm.name.toLowerCase().includes(searchQuery.toLowerCase())
+  const filteredFields = fields.filter((field) =>
+    `${field.name} ${field.farm.name}`.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const totalAcres = farms.reduce((sum, farm) => sum + farm.totalAcres, 0);
+  const totalAcres = fields.reduce((sum, field) => sum + field.acres, 0);
 
   if (loading) {
     return (
       <ThemedView style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={theme.primary} />
         <ThemedText style={[styles.loadingText, { color: theme.textSecondary }]}>
-          Loading farms...
+          Loading fields...
         </ThemedText>
       </ThemedView>
     );
@@ -114,9 +130,9 @@ export default function FieldsScreen() {
   return (
     <ThemedView style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top + Spacing.lg }]}>
-        <ThemedText type="h2">Farms</ThemedText>
+        <ThemedText type="h2">Fields</ThemedText>
         <ThemedText style={[styles.subtitle, { color: theme.textSecondary }]}>
-          {farms.length} farm{farms.length !== 1 ? 's' : ''} | {totalAcres} total acres
+          {fields.length} field{fields.length !== 1 ? 's' : ''} | {totalAcres} total acres
         </ThemedText>
       </View>
 
@@ -130,7 +146,7 @@ export default function FieldsScreen() {
           <Feather name="search" size={18} color={theme.textSecondary} />
           <TextInput
             style={[styles.searchInput, { color: theme.text }]}
-            placeholder="Search farms..."
+            placeholder="Search fields or farms..."
             placeholderTextColor={theme.textSecondary}
             value={searchQuery}
             onChangeText={setSearchQuery}
@@ -147,10 +163,10 @@ export default function FieldsScreen() {
       </View>
 
       <FlatList
-        data={filteredFarms}
+        data={filteredFields}
         renderItem={({ item }) => (
           <FieldCard
-            field={item}
+            field={toFieldSummary(item)}
             onPress={() => navigation.navigate("FieldDetail", { fieldId: item.id })}
           />
         )}
@@ -165,10 +181,10 @@ export default function FieldsScreen() {
           <View style={styles.emptyState}>
             <Feather name="map" size={48} color={theme.textSecondary} />
             <ThemedText style={[styles.emptyTitle, { color: theme.text }]}>
-              No Farms Added
+              No Fields Yet
             </ThemedText>
             <ThemedText style={[styles.emptyText, { color: theme.textSecondary }]}>
-              Add your first farm to start monitoring
+              Fields added to your farms appear here
             </ThemedText>
           </View>
         }
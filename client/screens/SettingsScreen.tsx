@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   View,
   StyleSheet,
@@ -17,34 +17,7 @@ import { Spacing, BorderRadius } from '@/constants/theme';
 
 export default function SettingsScreen() {
   const { theme } = useTheme();
-  const { config, updateConfig, validateApiKey, availableModels } = useChat();
-  
-  const [apiKey, setApiKey] = useState(config.apiKey || '');
-  const [showApiKey, setShowApiKey] = useState(false);
-  const [validating, setValidating] = useState(false);
-
-  const handleSaveApiKey = async () => {
-    if (!apiKey.trim()) {
-      Alert.alert('Error', 'Please enter an API key');
-      return;
-    }
-
-    setValidating(true);
-    try {
-      const isValid = await validateApiKey(apiKey.trim());
-      
-      if (isValid) {
-        await updateConfig({ apiKey: apiKey.trim() });
-        Alert.alert('Success', 'API key saved and validated successfully');
-      } else {
-        Alert.alert('Invalid Key', 'The API key appears to be invalid. Please check and try again.');
-      }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to validate API key. Please try again.');
-    } finally {
-      setValidating(false);
-    }
-  };
+  const { config, updateConfig, availableModels } = useChat();
 
   const handleModelChange = (modelId: string) => {
     updateConfig({ model: modelId });
@@ -70,81 +43,18 @@ export default function SettingsScreen() {
       <ScrollView contentContainerStyle={styles.scrollContent}>
         <View style={styles.section}>
           <ThemedText type="h3" style={styles.sectionTitle}>
-            API Configuration
+            AI Service
           </ThemedText>
           
           <View style={[styles.card, { backgroundColor: theme.backgroundSecondary }]}>
-            <View style={styles.settingRow}>
+            <View style={[styles.settingRow, styles.settingRowLast]}>
               <View style={styles.settingInfo}>
-                <ThemedText style={styles.settingTitle}>Groq API Key</ThemedText>
+                <ThemedText style={styles.settingTitle}>AgriSense AI</ThemedText>
                 <ThemedText style={[styles.settingDescription, { color: theme.textSecondary }]}>
-                  Required for AI chat features. Get your key from console.groq.com
+                  Chat runs through the AgriSense server, so no API key is needed on this device. Daily message limits apply per account.
                 </ThemedText>
               </View>
             </View>
-
-            <View style={styles.apiKeyContainer}>
-              <TextInput
-                style={[
-                  styles.apiKeyInput,
-                  {
-                    backgroundColor: theme.backgroundDefault,
-                    color: theme.text,
-                    borderColor: theme.border,
-                  }
-                ]}
-                value={showApiKey ? apiKey : '•'.repeat(apiKey.length || 10)}
-                onChangeText={setApiKey}
-                placeholder="sk-..."
-                placeholderTextColor={theme.textSecondary}
-                secureTextEntry={!showApiKey}
-                editable={!validating}
-              />
-              <Pressable
-                onPress={() => setShowApiKey(!showApiKey)}
-                style={styles.eyeButton}
-              >
-                <Feather
-                  name={showApiKey ? 'eye-off' : 'eye'}
-                  size={20}
-                  color={theme.textSecondary}
-                />
-              </Pressable>
-            </View>
-
-            <Pressable
-              style={[
-                styles.saveButton,
-                { 
-                  backgroundColor: validating ? theme.backgroundTertiary : theme.primary,
-                  opacity: validating ? 0.7 : 1,
-                }
-              ]}
-              onPress={handleSaveApiKey}
-              disabled={validating}
-            >
-              {validating ? (
-                <ThemedText style={[styles.saveButtonText, { color: theme.buttonText }]}>
-                  Validating...
-                </ThemedText>
-              ) : (
-                <>
-                  <Feather name="check-circle" size={18} color={theme.buttonText} />
-                  <ThemedText style={[styles.saveButtonText, { color: theme.buttonText }]}>
-                    Save & Validate
-                  </ThemedText>
-                </>
-              )}
-            </Pressable>
-
-            {config.apiKey && (
-              <View style={styles.statusContainer}>
-                <Feather name="check-circle" size={16} color={theme.success} />
-                <ThemedText style={[styles.statusText, { color: theme.success }]}>
-                  API key is configured
-                </ThemedText>
-              </View>
-            )}
           </View>
         </View>
 
@@ -289,13 +199,7 @@ export default function SettingsScreen() {
             <View style={styles.aboutItem}>
               <Feather name="shield" size={18} color={theme.textSecondary} />
               <ThemedText style={[styles.aboutText, { color: theme.textSecondary }]}>
-                Your API key is stored securely on device
-              </ThemedText>
-            </View>
-            <View style={styles.aboutItem}>
-              <Feather name="globe" size={18} color={theme.textSecondary} />
-              <ThemedText style={[styles.aboutText, { color: theme.textSecondary }]}>
-                Get API key: console.groq.com
+                Provider keys stay on the AgriSense server
               </ThemedText>
             </View>
           </View>
@@ -344,45 +248,6 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
-  apiKeyContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: Spacing.lg,
-  },
-  apiKeyInput: {
-    flex: 1,
-    borderWidth: 1,
-    borderRadius: BorderRadius.md,
-    paddingHorizontal: Spacing.lg,
-    paddingVertical: Spacing.md,
-    fontSize: 14,
-    fontFamily: 'monospace',
-  },
-  eyeButton: {
-    padding: Spacing.md,
-    marginLeft: Spacing.sm,
-  },
-  saveButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: Spacing.sm,
-    padding: Spacing.md,
-    borderRadius: BorderRadius.md,
-    marginBottom: Spacing.md,
-  },
-  saveButtonText: {
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  statusContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: Spacing.sm,
-  },
-  statusText: {
-    fontSize: 14,
-  },
   modelsContainer: {
     gap: Spacing.md,
   },
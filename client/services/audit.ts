@@ -0,0 +1,77 @@
+import { apiRequest } from "@/lib/query-client";
+import type {
+  AuditAction,
+  AuditEntry as StoredAuditEntry,
+} from "@shared/schema";
+
+// Dates arrive as ISO strings over JSON
+export type AuditEntry = Omit<StoredAuditEntry, "createdAt"> & {
+  createdAt: string;
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "farm.create": "Created the farm",
+  "farm.update": "Edited farm details",
+  "farm.delete": "Deleted the farm",
+  "field.create": "Added a field",
+  "field.update": "Edited a field",
+  "field.delete": "Removed a field",
+  "schedule.update": "Changed the irrigation schedule",
+  "irrigation.start": "Started irrigation",
+  "irrigation.stop": "Stopped irrigation",
+  "irrigation.duration": "Changed the irrigation duration",
+  "member.update": "Changed a member's role",
+  "member.remove": "Removed a member",
+  "invite.create": "Invited someone",
+  "invite.revoke": "Revoked an invite",
+  "invite.accept": "Joined the farm",
+  "device.provision": "Provisioned a device",
+  "device.update": "Edited a device",
+  "device.rotateSecret": "Rotated a device secret",
+  "device.decommission": "Decommissioned a device",
+  "device.calibrate": "Calibrated a device",
+  "device.resetCalibration": "Reset a device calibration",
+};
+
+// Newest first; pass the oldest `createdAt` seen to page further back
+export async function getAuditEntries(
+  farmId: string,
+  before?: string,
+): Promise<AuditEntry[]> {
+  const params = new URLSearchParams({ limit: "50" });
+  if (before) params.set("before", before);
+
+  const res = await apiRequest(
+    "GET",
+    `/api/farms/${farmId}/audit?${params.toString()}`,
+  );
+  return res.json();
+}
+
+export async function exportAuditCsv(farmId: string): Promise<string> {
+  const res = await apiRequest(
+    "GET",
+    `/api/farms/${farmId}/audit/export?format=csv`,
+  );
+  return res.text();
+}
+
+// "autoMode: true → false, duration: 30 → 45"
+export function describeAuditChange(entry: AuditEntry): string {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const format = (value: unknown) =>
+    value === undefined
+      ? "—"
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .map((key) =>
+      entry.before && entry.after
+        ? `${key}: ${format(before[key])} → ${format(after[key])}`
+        : `${key}: ${format(entry.after ? after[key] : before[key])}`,
+    )
+    .join(", ");
+}
@@ -0,0 +1,68 @@
+import { apiRequest } from "@/lib/query-client";
+import type { Serialized } from "@shared/live";
+import type {
+  CalibrationRequest,
+  DeviceCalibration as DeviceCalibrationRow,
+  SensorMetric,
+} from "@shared/schema";
+
+export { describeCalibration, PH_BUFFERS } from "@shared/calibration";
+export type {
+  CalibrationDefinition,
+  CalibrationPoint,
+} from "@shared/calibration";
+
+export type DeviceCalibration = Serialized<DeviceCalibrationRow>;
+
+export const METRIC_LABELS: Record<SensorMetric, string> = {
+  soilMoisture: "Moisture (%)",
+  pH: "pH",
+  temperature: "Temperature (°C)",
+  nitrogen: "Nitrogen (mg/kg)",
+  phosphorus: "Phosphorus (mg/kg)",
+  potassium: "Potassium (mg/kg)",
+};
+
+export type LatestRawReading = {
+  recordedAt: string;
+  raw: Partial<Record<SensorMetric, number>>;
+};
+
+// Newest first; the active calibration per metric has no `retiredAt`
+export async function getDeviceCalibrations(
+  deviceId: string,
+): Promise<DeviceCalibration[]> {
+  const res = await apiRequest("GET", `/api/devices/${deviceId}/calibrations`);
+  return res.json();
+}
+
+// What the device last reported, before calibration. Rejects with a 404 if
+// it hasn't sent anything yet.
+export async function getLatestRawReading(
+  deviceId: string,
+): Promise<LatestRawReading> {
+  const res = await apiRequest(
+    "GET",
+    `/api/devices/${deviceId}/readings/latest`,
+  );
+  return res.json();
+}
+
+export async function saveCalibration(
+  deviceId: string,
+  calibration: CalibrationRequest,
+): Promise<DeviceCalibration> {
+  const res = await apiRequest(
+    "POST",
+    `/api/devices/${deviceId}/calibrations`,
+    calibration,
+  );
+  return res.json();
+}
+
+export async function resetCalibration(
+  deviceId: string,
+  metric: SensorMetric,
+): Promise<void> {
+  await apiRequest("DELETE", `/api/devices/${deviceId}/calibrations/${metric}`);
+}
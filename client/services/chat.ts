@@ -0,0 +1,84 @@
+import { fetch } from "expo/fetch";
+import { apiRequest, getApiUrl, getAuthHeaders } from "@/lib/query-client";
+import type {
+  ChatRequest,
+  ChatStatus,
+  ChatStreamEvent,
+  ChatUsageSummary,
+} from "@shared/chat";
+
+export { chatModels as availableModels } from "@shared/chat";
+export type { ChatMessage, ChatRequest } from "@shared/chat";
+
+export interface ChatCompletionResult {
+  content: string;
+  usage?: ChatUsageSummary;
+}
+
+/**
+ * Streams an answer from the AgriSense chat proxy. The server holds the
+ * provider key, adds the system prompt and enforces per-user quotas.
+ */
+export async function streamChatCompletion(
+  request: ChatRequest,
+  onDelta: (content: string) => void,
+): Promise<ChatCompletionResult> {
+  const res = await fetch(new URL("/api/chat", getApiUrl()).href, {
+    method: "POST",
+    headers: {
+      ...(await getAuthHeaders()),
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+  });
+
+  if (!res.ok) {
+    let message = res.statusText || "AI service error";
+    try {
+      message = (await res.json()).message || message;
+    } catch {
+      // Not a JSON error body
+    }
+    throw new Error(message);
+  }
+  if (!res.body) {
+    throw new Error("Streaming is not supported on this device");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+  let usage: ChatUsageSummary | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const raw of events) {
+      if (!raw.startsWith("data: ")) continue;
+
+      const event: ChatStreamEvent = JSON.parse(raw.slice(6));
+      if (event.type === "delta") {
+        content += event.content;
+        onDelta(content);
+      } else if (event.type === "done") {
+        usage = event.usage;
+      } else {
+        throw new Error(event.message);
+      }
+    }
+  }
+
+  return { content, usage };
+}
+
+export async function getChatStatus(): Promise<ChatStatus> {
+  const res = await apiRequest("GET", "/api/chat/status");
+  return res.json();
+}
@@ -0,0 +1,56 @@
+import { apiRequest } from "@/lib/query-client";
+import type {
+  DeviceResponse,
+  DeviceType,
+  ProvisionedDevice as ProvisionedDeviceResponse,
+} from "@shared/devices";
+import type { Serialized } from "@shared/live";
+import type { InsertDevice, UpdateDevice } from "@shared/schema";
+
+export { deviceTypes, isDeviceOnline } from "@shared/devices";
+export type { DeviceType } from "@shared/devices";
+
+export type Device = Serialized<DeviceResponse>;
+export type ProvisionedDevice = Serialized<ProvisionedDeviceResponse>;
+
+export const DEVICE_TYPE_LABELS: Record<DeviceType, string> = {
+  soil_probe: "Soil moisture probe",
+  ph_probe: "pH probe",
+  npk_probe: "NPK probe",
+  weather_station: "Weather station",
+  valve_controller: "Valve controller",
+  gateway: "Gateway",
+};
+
+// Newest first, decommissioned devices included
+export async function getFarmDevices(farmId: string): Promise<Device[]> {
+  const res = await apiRequest("GET", `/api/farms/${farmId}/devices`);
+  return res.json();
+}
+
+export async function provisionDevice(
+  farmId: string,
+  device: InsertDevice,
+): Promise<ProvisionedDevice> {
+  const res = await apiRequest("POST", `/api/farms/${farmId}/devices`, device);
+  return res.json();
+}
+
+export async function updateDevice(
+  deviceId: string,
+  update: UpdateDevice,
+): Promise<Device> {
+  const res = await apiRequest("PATCH", `/api/devices/${deviceId}`, update);
+  return res.json();
+}
+
+export async function rotateDeviceSecret(
+  deviceId: string,
+): Promise<ProvisionedDevice> {
+  const res = await apiRequest("POST", `/api/devices/${deviceId}/secret`);
+  return res.json();
+}
+
+export async function decommissionDevice(deviceId: string): Promise<void> {
+  await apiRequest("DELETE", `/api/devices/${deviceId}`);
+}
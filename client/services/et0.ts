@@ -0,0 +1,18 @@
+import { apiRequest } from "@/lib/query-client";
+import type { Et0Day, FarmEt0 } from "@shared/et0";
+
+export type { Et0Day, Et0Method, FarmEt0 } from "@shared/et0";
+
+/**
+ * The farm's reference evapotranspiration over the last `days` days and the
+ * week ahead. Rejects with a 409 if the farm has no coordinates.
+ */
+export async function getFarmEt0(farmId: string, days = 7): Promise<FarmEt0> {
+  const res = await apiRequest("GET", `/api/farms/${farmId}/et0?days=${days}`);
+  return res.json();
+}
+
+// mm over the given days, to one decimal
+export function totalEt0(days: Et0Day[]): number {
+  return Math.round(days.reduce((sum, day) => sum + day.et0, 0) * 10) / 10;
+}
@@ -0,0 +1,348 @@
+import {
+  equalTo,
+  get,
+  orderByChild,
+  query,
+  ref,
+  remove,
+  set,
+  update,
+  type Database,
+} from "firebase/database";
+import { apiRequest } from "@/lib/query-client";
+import {
+  farmRecordSchema,
+  type Farm,
+  type FarmRecord,
+  type NewFarm,
+} from "@shared/models";
+import type { FarmRole, MemberRole } from "@shared/roles";
+
+export {
+  canManageRole,
+  canPerform,
+  farmRoles,
+  memberRoles,
+} from "@shared/roles";
+export type { FarmAction, FarmRole, MemberRole } from "@shared/roles";
+
+export interface AccessibleFarms {
+  // Validated farm nodes keyed by id, like a snapshot of `farms`
+  farmsData: Record<string, FarmRecord>;
+  roles: Record<string, FarmRole>;
+}
+
+// A farm as `/api/farms` returns it
+type ApiFarm = Omit<FarmRecord, "description" | "sensorData"> & {
+  id: string;
+  description: string | null;
+  role: FarmRole;
+  sensorData?: FarmRecord["sensorData"] | null;
+};
+
+// The details the server keeps; the rest of the node is the app's own
+const toFarmDetails = (farm: Partial<NewFarm>) => ({
+  name: farm.name,
+  location: farm.location,
+  totalAcres: farm.totalAcres,
+  cropTypes: farm.cropTypes,
+  soilType: farm.soilType,
+  irrigationType: farm.irrigationType,
+  status: farm.status,
+  description: farm.description,
+  coordinates: farm.coordinates,
+});
+
+// Farm nodes that don't match the model are left out rather than rendered
+// half-broken; the warning says which field was wrong.
+function parseFarmRecord(farmId: string, value: unknown): FarmRecord | null {
+  const result = farmRecordSchema.safeParse(value);
+  if (result.success) return result.data;
+
+  const issue = result.error.issues[0];
+  console.warn(
+    `Skipping farm ${farmId}: ${issue.path.join(".") || "record"} ${issue.message}`,
+  );
+  return null;
+}
+
+// The server's details over the farm's node, which still carries the
+// schedule copy and the member mirror the database rules read
+function mergeFarm(farm: ApiFarm, node: unknown): FarmRecord | null {
+  const { id, role, description, sensorData, ...details } = farm;
+  const record = (node ?? {}) as Partial<FarmRecord>;
+  return parseFarmRecord(id, {
+    ...record,
+    ...details,
+    description: description ?? undefined,
+    sensorData: sensorData ?? record.sensorData,
+  });
+}
+
+// The Realtime Database rejects undefined values
+const toNode = (value: object) => JSON.parse(JSON.stringify(value));
+
+async function readOwnedFarms(
+  database: Database,
+  uid: string,
+): Promise<Record<string, unknown>> {
+  try {
+    const owned = await get(
+      query(ref(database, "farms"), orderByChild("userId"), equalTo(uid)),
+    );
+    return owned.exists() ? owned.val() : {};
+  } catch (error) {
+    // The server's details are enough to list the farms
+    console.error("Failed to load farm nodes:", error);
+    return {};
+  }
+}
+
+/**
+ * Loads every farm the user can see. The server lists them, owned and shared
+ * alike, and each is merged with its Realtime Database node. The database
+ * rules only allow listing `farms` filtered to the caller's own uid, so
+ * nodes of shared farms are read one by one. Without the server, the owned
+ * nodes are all there is.
+ */
+export async function loadAccessibleFarms(
+  database: Database,
+  uid: string,
+): Promise<AccessibleFarms> {
+  const farmsData: Record<string, FarmRecord> = {};
+  const roles: Record<string, FarmRole> = {};
+  const owned = await readOwnedFarms(database, uid);
+
+  let listed: ApiFarm[];
+  try {
+    const res = await apiRequest("GET", "/api/farms");
+    listed = await res.json();
+  } catch (error) {
+    console.error("Failed to load farms from the server:", error);
+    Object.entries(owned).forEach(([id, value]) => {
+      const farm = parseFarmRecord(id, value);
+      if (!farm) return;
+      farmsData[id] = farm;
+      roles[id] = "owner";
+    });
+    return { farmsData, roles };
+  }
+
+  await Promise.all(
+    listed.map(async (farm) => {
+      let node = owned[farm.id];
+      if (node === undefined && farm.role !== "owner") {
+        try {
+          const snapshot = await get(ref(database, `farms/${farm.id}`));
+          node = snapshot.val();
+        } catch (error) {
+          // The membership mirror may not have synced yet
+          console.error(`Failed to load shared farm ${farm.id}:`, error);
+        }
+      }
+      const record = mergeFarm(farm, node);
+      if (!record) return;
+      farmsData[farm.id] = record;
+      roles[farm.id] = farm.role;
+    }),
+  );
+
+  return { farmsData, roles };
+}
+
+/**
+ * Creates the farm on the server, which assigns its id, then writes its
+ * node in the Realtime Database under the same id.
+ */
+export async function createFarm(
+  database: Database,
+  uid: string,
+  details: NewFarm,
+): Promise<Farm> {
+  const res = await apiRequest("POST", "/api/farms", toFarmDetails(details));
+  const created: ApiFarm = await res.json();
+  const record = mergeFarm({ ...created, role: "owner" }, details);
+  if (!record) throw new Error("The server returned an unexpected farm");
+
+  try {
+    await set(ref(database, `farms/${created.id}`), {
+      ...toNode(record),
+      userId: uid,
+    });
+  } catch (error) {
+    // The server has the farm, which is what lists it
+    console.error(`Failed to write farm ${created.id} node:`, error);
+  }
+  return { ...record, id: created.id, role: "owner" };
+}
+
+export async function updateFarm(
+  database: Database,
+  farmId: string,
+  changes: Partial<NewFarm>,
+): Promise<void> {
+  const details = toFarmDetails(changes);
+  await apiRequest("PATCH", `/api/farms/${farmId}`, details);
+  await update(ref(database, `farms/${farmId}`), {
+    ...toNode(details),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Deleting on the server checks the role and records it in the audit trail.
+// A farm the server doesn't know, one not yet migrated, is only in the
+// Realtime Database, whose rules still let only its owner remove it.
+export async function deleteFarm(
+  database: Database,
+  farmId: string,
+): Promise<void> {
+  try {
+    await apiRequest("DELETE", `/api/farms/${farmId}`);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+  }
+  await remove(ref(database, `farms/${farmId}`));
+}
+
+export interface FarmTeamMember {
+  userId: string;
+  role: FarmRole;
+  email: string | null;
+  createdAt: string;
+}
+
+export interface FarmInvite {
+  id: string;
+  farmId: string;
+  email: string;
+  role: MemberRole;
+  createdAt: string;
+  // Only set on invites addressed to the current user
+  farmName?: string | null;
+}
+
+// apiRequest errors read "403: {"message":"..."}"; show just the message.
+export function describeApiError(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error);
+  const body = text.slice(text.indexOf(":") + 1).trim();
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body || "Something went wrong";
+  }
+}
+
+// apiRequest errors start with the status
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("404:");
+}
+
+// Database rules key invites by email, which can't contain '.'
+function inviteKey(email: string): string {
+  return email.trim().toLowerCase().replace(/\./g, ",");
+}
+
+/**
+ * Team changes go to the server, which owns roles, and are then mirrored into
+ * the Realtime Database, whose rules read `farms/{farmId}/members` to let
+ * members see the farm and managers edit its schedule.
+ */
+async function mirrorMember(
+  database: Database,
+  farmId: string,
+  userId: string,
+  role: MemberRole | null,
+): Promise<void> {
+  const memberRef = ref(database, `farms/${farmId}/members/${userId}`);
+  await (role ? set(memberRef, role) : remove(memberRef));
+}
+
+// Lets the invitee add themself to the member mirror on accept
+async function mirrorInvite(
+  database: Database,
+  farmId: string,
+  email: string,
+  role: MemberRole | null,
+): Promise<void> {
+  const inviteRef = ref(database, `farmInvites/${farmId}/${inviteKey(email)}`);
+  await (role ? set(inviteRef, role) : remove(inviteRef));
+}
+
+export async function getFarmRole(farmId: string): Promise<FarmRole> {
+  const res = await apiRequest("GET", `/api/farms/${farmId}`);
+  return (await res.json()).role;
+}
+
+export async function getFarmMembers(
+  farmId: string,
+): Promise<FarmTeamMember[]> {
+  const res = await apiRequest("GET", `/api/farms/${farmId}/members`);
+  return res.json();
+}
+
+export async function getFarmInvites(farmId: string): Promise<FarmInvite[]> {
+  const res = await apiRequest("GET", `/api/farms/${farmId}/invites`);
+  return res.json();
+}
+
+export async function inviteToFarm(
+  database: Database,
+  farmId: string,
+  email: string,
+  role: MemberRole,
+): Promise<FarmInvite> {
+  const res = await apiRequest("POST", `/api/farms/${farmId}/invites`, {
+    email,
+    role,
+  });
+  const invite: FarmInvite = await res.json();
+  await mirrorInvite(database, farmId, invite.email, invite.role);
+  return invite;
+}
+
+export async function revokeInvite(
+  database: Database,
+  invite: FarmInvite,
+): Promise<void> {
+  await apiRequest(
+    "DELETE",
+    `/api/farms/${invite.farmId}/invites/${invite.id}`,
+  );
+  await mirrorInvite(database, invite.farmId, invite.email, null);
+}
+
+export async function changeMemberRole(
+  database: Database,
+  farmId: string,
+  userId: string,
+  role: MemberRole,
+): Promise<void> {
+  await apiRequest("PATCH", `/api/farms/${farmId}/members/${userId}`, { role });
+  await mirrorMember(database, farmId, userId, role);
+}
+
+// Also used by members leaving a farm
+export async function removeMember(
+  database: Database,
+  farmId: string,
+  userId: string,
+): Promise<void> {
+  await apiRequest("DELETE", `/api/farms/${farmId}/members/${userId}`);
+  await mirrorMember(database, farmId, userId, null);
+}
+
+export async function getMyInvites(): Promise<FarmInvite[]> {
+  const res = await apiRequest("GET", "/api/invites");
+  return res.json();
+}
+
+export async function acceptInvite(
+  database: Database,
+  invite: FarmInvite,
+  uid: string,
+): Promise<void> {
+  await apiRequest("POST", `/api/invites/${invite.id}/accept`);
+  // The rules check the invite mirror, so it is removed last
+  await mirrorMember(database, invite.farmId, uid, invite.role);
+  await mirrorInvite(database, invite.farmId, invite.email, null);
+}
@@ -1,28 +1,40 @@
 import { createAlert, createSystemAlert } from './firebaseNotifications';
+import type { HealthAssessment } from '@shared/health';
 
-export async function generateIrrigationAlert(
+// Alerts on a field that isn't healthy, for the reading that made it so.
+// Healthy fields don't get one.
+export async function generateFieldHealthAlert(
   userId: string,
   fieldName: string,
-  moistureLevel: number,
-  threshold: number
+  health: HealthAssessment
 ): Promise<void> {
-  const isCritical = moistureLevel < threshold * 0.5;
+  const { driver } = health;
+  if (!driver) return;
+
+  const isCritical = health.status === 'critical';
+  const isMoisture = driver.metric === 'soilMoisture';
+  const problem = isMoisture
+    ? `${driver.direction === 'low' ? 'Low' : 'High'} Soil Moisture`
+    : `Soil pH Too ${driver.direction === 'low' ? 'Acidic' : 'Alkaline'}`;
   
   await createAlert({
     userId,
-    title: isCritical ? '🚨 Critical: Low Soil Moisture' : '⚠️ Low Soil Moisture',
-    message: `Field "${fieldName}" has moisture level at ${moistureLevel}%, which is below the optimal threshold of ${threshold}%.`,
+    title: `${isCritical ? '🚨 Critical: ' : '⚠️ '}${problem}`,
+    message: `Field "${fieldName}": ${health.reason}.`,
     type: isCritical ? 'critical' : 'warning',
-    category: 'irrigation',
+    category: isMoisture ? 'irrigation' : 'soil',
     priority: isCritical ? 'high' : 'medium',
     data: {
       fieldName,
-      moistureLevel,
-      threshold,
-      action: 'schedule_irrigation',
+      metric: driver.metric,
+      value: driver.value,
+      healthyRange: driver.thresholds.healthy,
+      crop: health.crop,
+      action: isMoisture ? 'schedule_irrigation' : 'test_soil',
       timestamp: new Date().toISOString(),
     },
-    actionUrl: '/control', // Deep link to irrigation control
+    // Deep link to irrigation control; Firestore rejects undefined fields
+    ...(isMoisture && { actionUrl: '/control' }),
     expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
   });
 }
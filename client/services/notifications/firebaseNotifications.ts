@@ -21,6 +21,15 @@ import { getAuth } from 'firebase/auth';
 import { getMessaging, getToken, onMessage } from 'firebase/messaging';
 import { db } from '@/config/firebase';
 import Constants from 'expo-constants';
+import { z } from 'zod';
+import {
+  alertCategories,
+  alertPriorities,
+  alertTypes,
+  type AlertCategory,
+  type AlertPriority,
+  type AlertType,
+} from '@shared/models';
 
 // Conditional import for expo-notifications (only works on mobile)
 let expoNotifications: any = null;
@@ -32,7 +41,7 @@ if (Platform.OS !== 'web') {
   }
 }
 
-export type AlertType = 'info' | 'warning' | 'critical' | 'success' | 'system';
+export type { AlertType };
 
 export interface Alert {
   id: string;
@@ -45,10 +54,24 @@ export interface Alert {
   createdAt: Date;
   expiresAt?: Date;
   actionUrl?: string;
-  priority: 'low' | 'medium' | 'high';
-  category: 'irrigation' | 'soil' | 'weather' | 'system' | 'crop' | 'market' | 'security';
+  priority: AlertPriority;
+  category: AlertCategory;
 }
 
+// Alert documents as stored in Firestore. Older documents may lack a priority
+// or category; those fall back to the defaults the app has always shown.
+const alertDocumentSchema = z.object({
+  userId: z.string(),
+  title: z.string(),
+  message: z.string(),
+  type: z.enum(alertTypes),
+  data: z.record(z.unknown()).nullish(),
+  read: z.boolean().catch(false),
+  actionUrl: z.string().nullish(),
+  priority: z.enum(alertPriorities).catch('medium'),
+  category: z.enum(alertCategories).catch('system'),
+});
+
 export interface NotificationPreferences {
   enabled: boolean;
   emailNotifications: boolean;
@@ -166,19 +189,19 @@ export function subscribeToAlerts(
             return;
           }
           
+          const parsed = alertDocumentSchema.safeParse(data);
+          if (!parsed.success) {
+            console.warn(`Skipping malformed alert ${doc.id}:`, parsed.error.issues[0]?.message);
+            return;
+          }
+          
           alerts.push({
+            ...parsed.data,
             id: doc.id,
-            userId: data.userId,
-            title: data.title,
-            message: data.message,
-            type: data.type,
-            data: data.data || {},
-            read: data.read || false,
+            data: parsed.data.data || {},
             createdAt,
             expiresAt,
-            actionUrl: data.actionUrl,
-            priority: data.priority || 'medium',
-            category: data.category || 'system',
+            actionUrl: parsed.data.actionUrl ?? undefined,
           });
         });
         callback(alerts);
@@ -0,0 +1,15 @@
+import { apiRequest } from "@/lib/query-client";
+import type { FieldWaterBalance } from "@shared/waterBalance";
+
+export type { FieldWaterBalance, WaterBalanceDay } from "@shared/waterBalance";
+
+/**
+ * The root-zone water balance of each of the farm's fields. Rejects with a
+ * 409 if the farm has no coordinates.
+ */
+export async function getFarmWaterBalance(
+  farmId: string,
+): Promise<FieldWaterBalance[]> {
+  const res = await apiRequest("GET", `/api/farms/${farmId}/water-balance`);
+  return res.json();
+}
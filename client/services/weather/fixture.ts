@@ -0,0 +1,132 @@
+import { localDateString } from "@shared/crops";
+import {
+  dayLabel,
+  type WeatherData,
+  type WeatherForecastDay,
+  type WeatherProvider,
+} from "./provider";
+
+// A forecast without dates; the fixture provider dates it from today
+export type WeatherFixture = {
+  location: string;
+  current: WeatherData["current"];
+  forecast: Omit<WeatherForecastDay, "date" | "dayOfWeek">[];
+};
+
+// A plausible week with a wet spell in the middle, for demos
+export const DEMO_WEATHER_FIXTURE: WeatherFixture = {
+  location: "Demo Farm",
+  current: {
+    temp: 24,
+    condition: "partly-cloudy",
+    description: "partly cloudy",
+    humidity: 58,
+    windSpeed: 12,
+    feelsLike: 25,
+    precipitation: 0,
+    uvIndex: 6,
+  },
+  forecast: [
+    {
+      condition: "partly-cloudy",
+      description: "partly cloudy",
+      tempMax: 27,
+      tempMin: 16,
+      humidity: 58,
+      precipitation: 0,
+      windSpeed: 12,
+      uvIndex: 6,
+    },
+    {
+      condition: "sunny",
+      description: "sunny",
+      tempMax: 29,
+      tempMin: 17,
+      humidity: 50,
+      precipitation: 0,
+      windSpeed: 10,
+      uvIndex: 8,
+    },
+    {
+      condition: "cloudy",
+      description: "overcast",
+      tempMax: 25,
+      tempMin: 18,
+      humidity: 70,
+      precipitation: 1,
+      windSpeed: 15,
+      uvIndex: 4,
+    },
+    {
+      condition: "rain",
+      description: "moderate rain",
+      tempMax: 22,
+      tempMin: 17,
+      humidity: 88,
+      precipitation: 14,
+      windSpeed: 20,
+      uvIndex: 2,
+    },
+    {
+      condition: "storm",
+      description: "thundery showers",
+      tempMax: 23,
+      tempMin: 16,
+      humidity: 85,
+      precipitation: 9,
+      windSpeed: 24,
+      uvIndex: 3,
+    },
+    {
+      condition: "drizzle",
+      description: "light drizzle",
+      tempMax: 24,
+      tempMin: 15,
+      humidity: 76,
+      precipitation: 2,
+      windSpeed: 14,
+      uvIndex: 5,
+    },
+    {
+      condition: "sunny",
+      description: "sunny",
+      tempMax: 28,
+      tempMin: 15,
+      humidity: 52,
+      precipitation: 0,
+      windSpeed: 9,
+      uvIndex: 8,
+    },
+  ],
+};
+
+/**
+ * Serves a fixed forecast without touching the network, dated from today so
+ * it never looks stale. For tests and offline demos; select it with
+ * EXPO_PUBLIC_WEATHER_PROVIDER=fixture.
+ */
+export function createFixtureProvider(
+  fixture: WeatherFixture = DEMO_WEATHER_FIXTURE,
+): WeatherProvider {
+  return {
+    id: "fixture",
+
+    async getWeather() {
+      const today = new Date();
+      const forecast = fixture.forecast.map((day, i) => {
+        const date = localDateString(
+          new Date(today.getFullYear(), today.getMonth(), today.getDate() + i),
+        );
+        return { ...day, date, dayOfWeek: dayLabel(date, i) };
+      });
+
+      return {
+        current: { ...fixture.current },
+        forecast,
+        location: fixture.location,
+        lastUpdated: today.toISOString(),
+        provider: "fixture",
+      };
+    },
+  };
+}
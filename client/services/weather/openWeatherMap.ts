@@ -0,0 +1,99 @@
+import {
+  dayLabel,
+  fetchJson,
+  requireApiKey,
+  type WeatherCondition,
+  type WeatherForecastDay,
+  type WeatherProviderFactory,
+} from "./provider";
+
+const BASE_URL = "https://api.openweathermap.org/data/2.5";
+
+// https://openweathermap.org/weather-conditions
+export function conditionFromOpenWeatherMap(id: number): WeatherCondition {
+  if (id >= 200 && id < 300) return "storm";
+  if (id >= 300 && id < 400) return "drizzle";
+  if (id >= 500 && id < 600) return "rain";
+  if (id >= 600 && id < 700) return "snow";
+  if (id === 781) return "storm";
+  if (id >= 700 && id < 800) return "fog";
+  if (id === 800) return "sunny";
+  if (id === 801) return "partly-cloudy";
+  return "cloudy";
+}
+
+// m/s to km/h
+const kmh = (speed: number) => Math.round(speed * 3.6);
+
+// Current weather plus the free 5-day forecast in 3-hour steps, grouped into
+// days
+export const createOpenWeatherMapProvider: WeatherProviderFactory = (
+  config,
+) => ({
+  id: "openweathermap",
+
+  async getWeather(lat, lon) {
+    const appid = requireApiKey("OpenWeatherMap", config);
+    const baseUrl = config.baseUrl ?? BASE_URL;
+    const params = { lat, lon, appid, units: "metric" };
+    const [current, forecast] = await Promise.all([
+      fetchJson("OpenWeatherMap", `${baseUrl}/weather`, params),
+      fetchJson("OpenWeatherMap", `${baseUrl}/forecast`, {
+        ...params,
+        cnt: 40,
+      }),
+    ]);
+
+    const days = new Map<string, any[]>();
+    for (const item of forecast.list) {
+      const date = new Date(item.dt * 1000).toISOString().split("T")[0];
+      days.set(date, [...(days.get(date) ?? []), item]);
+    }
+
+    const daily: WeatherForecastDay[] = [...days.entries()]
+      .slice(0, 7)
+      .map(([date, items], i) => {
+        const temps = items.map((item) => item.main.temp);
+        // The midday step describes the day best
+        const midday =
+          items.find((item) => {
+            const hour = new Date(item.dt * 1000).getHours();
+            return hour >= 11 && hour <= 14;
+          }) ?? items[Math.floor(items.length / 2)];
+        const precipitation = items.reduce(
+          (sum, item) =>
+            sum + (item.rain?.["3h"] ?? 0) + (item.snow?.["3h"] ?? 0),
+          0,
+        );
+        return {
+          date,
+          dayOfWeek: dayLabel(date, i),
+          condition: conditionFromOpenWeatherMap(midday.weather[0].id),
+          description: midday.weather[0].description,
+          tempMax: Math.round(Math.max(...temps)),
+          tempMin: Math.round(Math.min(...temps)),
+          humidity: midday.main.humidity,
+          precipitation: Math.round(precipitation),
+          windSpeed: kmh(midday.wind.speed),
+        };
+      });
+
+    return {
+      current: {
+        temp: Math.round(current.main.temp),
+        condition: conditionFromOpenWeatherMap(current.weather[0].id),
+        description: current.weather[0].description,
+        humidity: current.main.humidity,
+        windSpeed: kmh(current.wind.speed),
+        feelsLike: Math.round(current.main.feels_like),
+        precipitation: current.rain?.["1h"] ?? current.snow?.["1h"] ?? 0,
+        // Not in the free tier
+        uvIndex: 0,
+      },
+      forecast: daily,
+      location: current.name || "Unknown Location",
+      lastUpdated: new Date().toISOString(),
+      provider: "openweathermap",
+    };
+  },
+});
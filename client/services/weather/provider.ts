@@ -0,0 +1,127 @@
+/*
+ * What every weather provider returns, whichever service it talks to. Each
+ * provider maps its own condition codes onto `WeatherCondition`, so screens
+ * pick icons and labels the same way for all of them.
+ */
+
+export const weatherConditions = [
+  "sunny",
+  "partly-cloudy",
+  "cloudy",
+  "fog",
+  "drizzle",
+  "rain",
+  "snow",
+  "storm",
+] as const;
+
+export type WeatherCondition = (typeof weatherConditions)[number];
+
+export const WEATHER_CONDITION_LABELS: Record<WeatherCondition, string> = {
+  sunny: "Sunny",
+  "partly-cloudy": "Partly cloudy",
+  cloudy: "Cloudy",
+  fog: "Fog",
+  drizzle: "Drizzle",
+  rain: "Rain",
+  snow: "Snow",
+  storm: "Thunderstorm",
+};
+
+export interface WeatherForecastDay {
+  // YYYY-MM-DD
+  date: string;
+  // "Today", then "Mon", "Tue", ...
+  dayOfWeek: string;
+  condition: WeatherCondition;
+  // The provider's own wording, e.g. "light rain"
+  description: string;
+  // °C
+  tempMax: number;
+  tempMin: number;
+  // %
+  humidity: number;
+  // mm
+  precipitation: number;
+  // km/h
+  windSpeed: number;
+  sunrise?: string;
+  sunset?: string;
+  uvIndex?: number;
+}
+
+export interface WeatherData {
+  current: {
+    temp: number;
+    condition: WeatherCondition;
+    description: string;
+    humidity: number;
+    windSpeed: number;
+    feelsLike: number;
+    precipitation: number;
+    // 0 when the provider doesn't report it
+    uvIndex: number;
+  };
+  forecast: WeatherForecastDay[];
+  location: string;
+  lastUpdated: string;
+  // Which provider it came from, see WeatherProvider.id
+  provider: string;
+}
+
+export interface WeatherProviderConfig {
+  apiKey?: string;
+  // Overrides the provider's own endpoint, e.g. for a proxy
+  baseUrl?: string;
+}
+
+export interface WeatherProvider {
+  id: string;
+  // Current conditions and the days ahead, starting today
+  getWeather(lat: number, lon: number): Promise<WeatherData>;
+}
+
+export type WeatherProviderFactory = (
+  config: WeatherProviderConfig,
+) => WeatherProvider;
+
+export class WeatherProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WeatherProviderError";
+  }
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// "Today" for the first day of a forecast, its weekday after that
+export function dayLabel(date: string, index: number): string {
+  return index === 0 ? "Today" : WEEKDAYS[new Date(`${date}T12:00`).getDay()];
+}
+
+export async function fetchJson(
+  provider: string,
+  url: string,
+  params: Record<string, string | number>,
+): Promise<any> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)]),
+  );
+  const res = await fetch(`${url}?${query}`);
+  if (!res.ok) {
+    throw new WeatherProviderError(`${provider} responded ${res.status}`);
+  }
+  return res.json();
+}
+
+export function requireApiKey(
+  provider: string,
+  config: WeatherProviderConfig,
+): string {
+  if (!config.apiKey) {
+    throw new WeatherProviderError(
+      `Set EXPO_PUBLIC_WEATHER_API_KEY to use ${provider}`,
+    );
+  }
+  return config.apiKey;
+}
@@ -0,0 +1,86 @@
+import {
+  dayLabel,
+  fetchJson,
+  requireApiKey,
+  type WeatherCondition,
+  type WeatherForecastDay,
+  type WeatherProviderFactory,
+} from "./provider";
+
+const BASE_URL = "https://api.weatherapi.com/v1";
+
+const DRIZZLE = [1072, 1150, 1153, 1168, 1171];
+const RAIN = [
+  1063, 1180, 1183, 1186, 1189, 1192, 1195, 1198, 1201, 1240, 1243, 1246,
+];
+const FOG = [1030, 1135, 1147];
+const STORM = [1087, 1273, 1276, 1279, 1282];
+
+// https://www.weatherapi.com/docs/weather_conditions.json. Sleet, ice
+// pellets and blizzards count as snow.
+export function conditionFromWeatherApi(code: number): WeatherCondition {
+  if (code === 1000) return "sunny";
+  if (code === 1003) return "partly-cloudy";
+  if (code === 1006 || code === 1009) return "cloudy";
+  if (FOG.includes(code)) return "fog";
+  if (DRIZZLE.includes(code)) return "drizzle";
+  if (RAIN.includes(code)) return "rain";
+  if (STORM.includes(code)) return "storm";
+  if (code >= 1066 && code <= 1264) return "snow";
+  return "cloudy";
+}
+
+const describe = (condition: { text: string }) =>
+  condition.text.trim().toLowerCase();
+
+export const createWeatherApiProvider: WeatherProviderFactory = (config) => ({
+  id: "weatherapi",
+
+  async getWeather(lat, lon) {
+    const data = await fetchJson(
+      "WeatherAPI",
+      `${config.baseUrl ?? BASE_URL}/forecast.json`,
+      {
+        key: requireApiKey("WeatherAPI", config),
+        q: `${lat},${lon}`,
+        days: 7,
+        aqi: "no",
+        alerts: "no",
+      },
+    );
+
+    const forecast: WeatherForecastDay[] = data.forecast.forecastday.map(
+      (day: any, i: number) => ({
+        date: day.date,
+        dayOfWeek: dayLabel(day.date, i),
+        condition: conditionFromWeatherApi(day.day.condition.code),
+        description: describe(day.day.condition),
+        tempMax: Math.round(day.day.maxtemp_c),
+        tempMin: Math.round(day.day.mintemp_c),
+        humidity: day.day.avghumidity,
+        precipitation: day.day.totalprecip_mm,
+        windSpeed: Math.round(day.day.maxwind_kph),
+        sunrise: day.astro.sunrise,
+        sunset: day.astro.sunset,
+        uvIndex: Math.round(day.day.uv),
+      }),
+    );
+
+    return {
+      current: {
+        temp: Math.round(data.current.temp_c),
+        condition: conditionFromWeatherApi(data.current.condition.code),
+        description: describe(data.current.condition),
+        humidity: data.current.humidity,
+        windSpeed: Math.round(data.current.wind_kph),
+        feelsLike: Math.round(data.current.feelslike_c),
+        precipitation: data.current.precip_mm,
+        uvIndex: data.current.uv,
+      },
+      forecast,
+      location: data.location.name,
+      lastUpdated: new Date().toISOString(),
+      provider: "weatherapi",
+    };
+  },
+});
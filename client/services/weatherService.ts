@@ -1,20 +1,46 @@
 // services/weatherService.ts
-import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Configuration
-const WEATHER_CONFIG = {
-  // Choose one provider:
-  
-  // OpenWeatherMap (recommended)
-//   provider: 'openweathermap',
-//   apiKey: 'YOUR_OPENWEATHERMAP_API_KEY', // Replace with your key
-//   baseUrl: 'https://api.openweathermap.org/data/2.5',
-  
-//   OR WeatherAPI.com (alternative)
-  provider: 'weatherapi',
-  apiKey: 'b1facdcf80c248f192064117261102',
-  baseUrl: 'https://api.weatherapi.com/v1'
+import type { Feather } from '@expo/vector-icons';
+
+import ENV from '@/config/env';
+import { createFixtureProvider } from '@/services/weather/fixture';
+import { createOpenWeatherMapProvider } from '@/services/weather/openWeatherMap';
+import {
+  WeatherProviderError,
+  type WeatherCondition,
+  type WeatherData,
+  type WeatherProvider,
+  type WeatherProviderFactory,
+} from '@/services/weather/provider';
+import { createWeatherApiProvider } from '@/services/weather/weatherApi';
+
+export {
+  WEATHER_CONDITION_LABELS,
+  type WeatherCondition,
+  type WeatherData,
+  type WeatherForecastDay,
+  type WeatherProvider,
+} from '@/services/weather/provider';
+
+// Provider registry. EXPO_PUBLIC_WEATHER_PROVIDER picks one; `fixture` serves
+// a canned week without a network or a key.
+const providers: Record<string, WeatherProviderFactory> = {
+  openweathermap: createOpenWeatherMapProvider,
+  weatherapi: createWeatherApiProvider,
+  fixture: () => createFixtureProvider(),
+};
+
+// Makes another provider selectable by id, e.g. a fixture with test data
+export const registerWeatherProvider = (id: string, factory: WeatherProviderFactory): void => {
+  providers[id] = factory;
+};
+
+export const getWeatherProvider = (id: string = ENV.WEATHER_PROVIDER): WeatherProvider => {
+  const factory = providers[id];
+  if (!factory) {
+    throw new WeatherProviderError(`Unknown weather provider "${id}"`);
+  }
+  return factory({ apiKey: ENV.WEATHER_API_KEY, baseUrl: ENV.WEATHER_BASE_URL });
 };
 
 // Cache keys
@@ -32,80 +58,6 @@ const DEFAULT_COORDINATES = {
   lon: -122.4194,
 };
 
-interface WeatherForecastDay {
-  date: string;
-  dayOfWeek: string;
-  condition: string;
-  conditionCode: number;
-  icon: string;
-  tempMax: number;
-  tempMin: number;
-  humidity: number;
-  precipitation: number; // in mm
-  windSpeed: number;
-  sunrise?: string;
-  sunset?: string;
-  uvIndex?: number;
-}
-
-interface WeatherData {
-  current: {
-    temp: number;
-    condition: string;
-    icon: string;
-    humidity: number;
-    windSpeed: number;
-    feelsLike: number;
-    precipitation: number;
-    uvIndex: number;
-  };
-  forecast: WeatherForecastDay[];
-  location: string;
-  lastUpdated: string;
-}
-
-// Helper to get condition icon
-const getConditionIcon = (conditionCode: number, isDay: boolean = true): string => {
-  // Mapping based on OpenWeatherMap condition codes
-  // https://openweathermap.org/weather-conditions
-  
-  if (conditionCode >= 200 && conditionCode < 300) {
-    return 'cloud-lightning'; // Thunderstorm
-  } else if (conditionCode >= 300 && conditionCode < 400) {
-    return 'cloud-drizzle'; // Drizzle
-  } else if (conditionCode >= 500 && conditionCode < 600) {
-    return 'cloud-rain'; // Rain
-  } else if (conditionCode >= 600 && conditionCode < 700) {
-    return 'cloud-snow'; // Snow
-  } else if (conditionCode >= 700 && conditionCode < 800) {
-    return 'wind'; // Atmosphere (mist, fog, etc.)
-  } else if (conditionCode === 800) {
-    return isDay ? 'sun' : 'moon'; // Clear
-  } else if (conditionCode === 801) {
-    return 'cloud'; // Few clouds
-  } else if (conditionCode === 802) {
-    return 'cloud'; // Scattered clouds
-  } else if (conditionCode >= 803 && conditionCode <= 804) {
-    return 'cloud'; // Broken/overcast clouds
-  }
-  
-  return 'cloud';
-};
-
-// Helper to get condition text
-const getConditionText = (conditionCode: number): string => {
-  if (conditionCode >= 200 && conditionCode < 300) return 'storm';
-  if (conditionCode >= 300 && conditionCode < 400) return 'drizzle';
-  if (conditionCode >= 500 && conditionCode < 600) return 'rain';
-  if (conditionCode >= 600 && conditionCode < 700) return 'snow';
-  if (conditionCode >= 700 && conditionCode < 800) return 'wind';
-  if (conditionCode === 800) return 'sunny';
-  if (conditionCode === 801) return 'partly-cloudy';
-  if (conditionCode === 802) return 'cloudy';
-  if (conditionCode >= 803 && conditionCode <= 804) return 'cloudy';
-  return 'cloudy';
-};
-
 // Save to cache
 const saveToCache = async (key: string, data: any): Promise<void> => {
   try {
@@ -126,6 +78,13 @@ const loadFromCache = async (key: string): Promise<any> => {
   }
 };
 
+// Forecasts cached from another provider, or from before their output was
+// normalized, are ignored
+const loadCachedForecast = async (providerId: string): Promise<WeatherData | null> => {
+  const cached = await loadFromCache(CACHE_KEYS.FORECAST);
+  return cached?.provider === providerId ? cached : null;
+};
+
 // Check if cache is valid
 const isCacheValid = async (): Promise<boolean> => {
   try {
@@ -164,184 +123,6 @@ const getUserCoordinates = async (): Promise<{ lat: number; lon: number }> => {
   }
 };
 
-// Format temperature (Kelvin to Celsius)
-const kelvinToCelsius = (kelvin: number): number => {
-  return Math.round(kelvin - 273.15);
-};
-
-// Format temperature (Kelvin to Fahrenheit)
-const kelvinToFahrenheit = (kelvin: number): number => {
-  return Math.round((kelvin - 273.15) * 9/5 + 32);
-};
-
-// Get day of week
-const getDayOfWeek = (date: Date): string => {
-  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  return days[date.getDay()];
-};
-
-// Format time
-const formatTime = (timestamp: number): string => {
-  const date = new Date(timestamp * 1000);
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-};
-
-// OpenWeatherMap API implementation
-const getWeatherFromOpenWeatherMap = async (lat: number, lon: number): Promise<WeatherData> => {
-  try {
-    // Get current weather and forecast
-    const [currentResponse, forecastResponse] = await Promise.all([
-      axios.get(`${WEATHER_CONFIG.baseUrl}/weather`, {
-        params: {
-          lat,
-          lon,
-          appid: WEATHER_CONFIG.apiKey,
-          units: 'metric', // or 'imperial' for Fahrenheit
-        },
-      }),
-      axios.get(`${WEATHER_CONFIG.baseUrl}/forecast`, {
-        params: {
-          lat,
-          lon,
-          appid: WEATHER_CONFIG.apiKey,
-          units: 'metric',
-          cnt: 40, // 5 days * 8 intervals per day = 40
-        },
-      }),
-    ]);
-
-    const current = currentResponse.data;
-    const forecast = forecastResponse.data;
-
-    // Process forecast data - group by day
-    const dailyForecast: WeatherForecastDay[] = [];
-    const daysMap = new Map<string, any[]>();
-
-    // Group forecast by date
-    forecast.list.forEach((item: any) => {
-      const date = new Date(item.dt * 1000);
-      const dateKey = date.toISOString().split('T')[0];
-      
-      if (!daysMap.has(dateKey)) {
-        daysMap.set(dateKey, []);
-      }
-      daysMap.get(dateKey)!.push(item);
-    });
-
-    // Create daily forecast for next 7 days
-    const today = new Date();
-    for (let i = 0; i < 7; i++) {
-      const forecastDate = new Date(today);
-      forecastDate.setDate(today.getDate() + i);
-      const dateKey = forecastDate.toISOString().split('T')[0];
-      
-      const dayItems = daysMap.get(dateKey) || [];
-      
-      if (dayItems.length > 0) {
-        // Calculate min/max temp for the day
-        const temps = dayItems.map(item => item.main.temp);
-        const tempMax = Math.max(...temps);
-        const tempMin = Math.min(...temps);
-        
-        // Get midday weather for condition
-        const middayItem = dayItems.find(item => {
-          const hour = new Date(item.dt * 1000).getHours();
-          return hour >= 11 && hour <= 14;
-        }) || dayItems[Math.floor(dayItems.length / 2)];
-        
-        // Calculate precipitation
-        const precipitation = dayItems.reduce((sum, item) => {
-          return sum + (item.rain?.['3h'] || 0) + (item.snow?.['3h'] || 0);
-        }, 0);
-        
-        dailyForecast.push({
-          date: dateKey,
-          dayOfWeek: i === 0 ? 'Today' : getDayOfWeek(forecastDate),
-          condition: getConditionText(middayItem.weather[0].id),
-          conditionCode: middayItem.weather[0].id,
-          icon: getConditionIcon(middayItem.weather[0].id, true),
-          tempMax: Math.round(tempMax),
-          tempMin: Math.round(tempMin),
-          humidity: middayItem.main.humidity,
-          precipitation: Math.round(precipitation),
-          windSpeed: Math.round(middayItem.wind.speed * 3.6), // Convert m/s to km/h
-        });
-      }
-    }
-
-    return {
-      current: {
-        temp: Math.round(current.main.temp),
-        condition: getConditionText(current.weather[0].id),
-        icon: getConditionIcon(current.weather[0].id, true),
-        humidity: current.main.humidity,
-        windSpeed: Math.round(current.wind.speed * 3.6), // Convert m/s to km/h
-        feelsLike: Math.round(current.main.feels_like),
-        precipitation: current.rain?.['1h'] || current.snow?.['1h'] || 0,
-        uvIndex: 0, // OpenWeatherMap doesn't provide UV in free tier
-      },
-      forecast: dailyForecast,
-      location: current.name || 'Unknown Location',
-      lastUpdated: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error('OpenWeatherMap API error:', error);
-    throw new Error('Failed to fetch weather data');
-  }
-};
-
-// WeatherAPI.com implementation (alternative)
-const getWeatherFromWeatherAPI = async (lat: number, lon: number): Promise<WeatherData> => {
-  try {
-    const response = await axios.get(`${WEATHER_CONFIG.baseUrl}/forecast.json`, {
-      params: {
-        key: WEATHER_CONFIG.apiKey,
-        q: `${lat},${lon}`,
-        days: 7,
-        aqi: 'no',
-        alerts: 'no',
-      },
-    });
-
-    const data = response.data;
-
-    const forecast: WeatherForecastDay[] = data.forecast.forecastday.map((day: any) => ({
-      date: day.date,
-      dayOfWeek: new Date(day.date).getDate() === new Date().getDate() ? 'Today' : getDayOfWeek(new Date(day.date)),
-      condition: day.day.condition.text.toLowerCase(),
-      conditionCode: day.day.condition.code,
-      icon: getConditionIcon(day.day.condition.code, true),
-      tempMax: Math.round(day.day.maxtemp_c),
-      tempMin: Math.round(day.day.mintemp_c),
-      humidity: day.day.avghumidity,
-      precipitation: day.day.totalprecip_mm,
-      windSpeed: Math.round(day.day.maxwind_kph),
-      sunrise: day.astro.sunrise,
-      sunset: day.astro.sunset,
-      uvIndex: Math.round(day.day.uv),
-    }));
-
-    return {
-      current: {
-        temp: Math.round(data.current.temp_c),
-        condition: data.current.condition.text.toLowerCase(),
-        icon: getConditionIcon(data.current.condition.code, data.current.is_day === 1),
-        humidity: data.current.humidity,
-        windSpeed: Math.round(data.current.wind_kph),
-        feelsLike: Math.round(data.current.feelslike_c),
-        precipitation: data.current.precip_mm,
-        uvIndex: data.current.uv,
-      },
-      forecast,
-      location: data.location.name,
-      lastUpdated: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error('WeatherAPI error:', error);
-    throw new Error('Failed to fetch weather data');
-  }
-};
-
 // Main function to get weather data
 export const getWeatherForecast = async (useCache: boolean = true): Promise<WeatherData | null> => {
   try {
@@ -349,7 +130,7 @@ export const getWeatherForecast = async (useCache: boolean = true): Promise<Weat
     if (useCache) {
       const isCacheValidResult = await isCacheValid();
       if (isCacheValidResult) {
-        const cachedData = await loadFromCache(CACHE_KEYS.FORECAST);
+        const cachedData = await loadCachedForecast(ENV.WEATHER_PROVIDER);
         if (cachedData) {
           console.log('Using cached weather data');
           return cachedData;
@@ -360,19 +141,8 @@ export const getWeatherForecast = async (useCache: boolean = true): Promise<Weat
     // Get user coordinates
     const coordinates = await getUserCoordinates();
     
-    let weatherData: WeatherData;
-    
     // Fetch from selected provider
-    switch (WEATHER_CONFIG.provider) {
-      case 'openweathermap':
-        weatherData = await getWeatherFromOpenWeatherMap(coordinates.lat, coordinates.lon);
-        break;
-      case 'weatherapi':
-        weatherData = await getWeatherFromWeatherAPI(coordinates.lat, coordinates.lon);
-        break;
-      default:
-        throw new Error('Invalid weather provider configured');
-    }
+    const weatherData = await getWeatherProvider().getWeather(coordinates.lat, coordinates.lon);
     
     // Save to cache
     await saveToCache(CACHE_KEYS.FORECAST, weatherData);
@@ -384,7 +154,7 @@ export const getWeatherForecast = async (useCache: boolean = true): Promise<Weat
     
     // Try to return cached data even if expired
     if (useCache) {
-      const cachedData = await loadFromCache(CACHE_KEYS.FORECAST);
+      const cachedData = await loadCachedForecast(ENV.WEATHER_PROVIDER);
       if (cachedData) {
         console.log('Using expired cached weather data due to API error');
         return cachedData;
@@ -412,22 +182,16 @@ export const refreshWeatherForecast = async (): Promise<WeatherData | null> => {
 };
 
 // Get weather icon for Feather icons
-export const getWeatherIconName = (condition: string): keyof typeof Feather.glyphMap => {
-  const iconMap: Record<string, keyof typeof Feather.glyphMap> = {
+export const getWeatherIconName = (condition: WeatherCondition): keyof typeof Feather.glyphMap => {
+  const iconMap: Record<WeatherCondition, keyof typeof Feather.glyphMap> = {
     'sunny': 'sun',
-    'clear': 'sun',
     'partly-cloudy': 'cloud',
     'cloudy': 'cloud',
-    'overcast': 'cloud',
-    'rain': 'cloud-rain',
+    'fog': 'wind',
     'drizzle': 'cloud-drizzle',
+    'rain': 'cloud-rain',
     'snow': 'cloud-snow',
     'storm': 'cloud-lightning',
-    'thunderstorm': 'cloud-lightning',
-    'wind': 'wind',
-    'mist': 'wind',
-    'fog': 'wind',
-    'haze': 'wind',
   };
   
   return iconMap[condition] || 'cloud';
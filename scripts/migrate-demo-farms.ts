@@ -0,0 +1,193 @@
+/**
+ * Moves the demo farms' sensor data from the root of the Realtime Database
+ * (`/farm1` .. `/farm5`) into the layout every other farm uses:
+ *
+ *   farms/{farmId}             name, userId and the rest of the farm details
+ *   farms/{farmId}/sensorData  latest soilMoisture, pH, temperature, nitrogen,
+ *                              phosphorus, potassium and lastUpdated
+ *
+ *   npm run migrate:demo-farms -- --owner <uid> [--dry-run]
+ *
+ * Options:
+ *   --owner      User who owns demo farms that have no farms/{farmId} node
+ *                yet (existing owners are kept)
+ *   --farm       Only migrate these farms (default farm1 .. farm5)
+ *   --keep       Leave the root-level nodes in place
+ *   --dry-run    Print what would be written without changing anything
+ *
+ * Talks to the database over its REST API as an admin, with
+ * FIREBASE_DATABASE_URL and a database secret in FIREBASE_DATABASE_SECRET.
+ * Running it twice is harmless: farms with no root-level node are skipped.
+ */
+import { parseArgs } from "node:util";
+
+const DEMO_FARMS = ["farm1", "farm2", "farm3", "farm4", "farm5"];
+
+// Root-level nodes were written by early firmware, which used its own keys
+const LEGACY_KEYS: Record<string, string[]> = {
+  soilMoisture: ["soilMoisture", "soil moisture", "moisture"],
+  pH: ["pH", "ph"],
+  temperature: ["temperature", "temp"],
+  nitrogen: ["nitrogen"],
+  phosphorus: ["phosphorus"],
+  potassium: ["potassium"],
+};
+
+const TIMESTAMP_KEYS = ["lastUpdated", "timestamp", "updatedAt"];
+
+type RawNode = Record<string, unknown>;
+
+class DatabaseClient {
+  constructor(
+    private url: string,
+    private secret: string,
+  ) {}
+
+  private async request(method: string, path: string, body?: unknown) {
+    const res = await fetch(
+      `${this.url}/${path}.json?auth=${encodeURIComponent(this.secret)}`,
+      {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      },
+    );
+    if (!res.ok) {
+      throw new Error(`${method} /${path}: ${res.status} ${await res.text()}`);
+    }
+    return res.json();
+  }
+
+  get(path: string): Promise<RawNode | null> {
+    return this.request("GET", path);
+  }
+
+  // Writes only the given children, leaving the rest of the node alone
+  async update(path: string, values: RawNode): Promise<void> {
+    await this.request("PATCH", path, values);
+  }
+
+  async remove(path: string): Promise<void> {
+    await this.request("DELETE", path);
+  }
+}
+
+function pick(node: RawNode, keys: string[]): unknown {
+  const key = keys.find((k) => node[k] !== undefined && node[k] !== null);
+  return key === undefined ? undefined : node[key];
+}
+
+// The root-level node's readings under the canonical metric names. Values
+// that aren't numbers are dropped rather than stored as 0.
+function toSensorData(node: RawNode, fallbackTime: string) {
+  const sensorData: Record<string, number | string> = {};
+  for (const [metric, keys] of Object.entries(LEGACY_KEYS)) {
+    const value = Number(pick(node, keys));
+    if (pick(node, keys) !== undefined && Number.isFinite(value)) {
+      sensorData[metric] = value;
+    }
+  }
+
+  const time = pick(node, TIMESTAMP_KEYS);
+  const parsed =
+    typeof time === "number" || typeof time === "string"
+      ? new Date(time)
+      : undefined;
+  sensorData.lastUpdated =
+    parsed && !Number.isNaN(parsed.getTime())
+      ? parsed.toISOString()
+      : fallbackTime;
+  return sensorData;
+}
+
+// Sensor values some older farms/{farmId} nodes carried at their top level
+function strayReadingKeys(node: RawNode): RawNode {
+  const stray: RawNode = {};
+  for (const key of Object.values(LEGACY_KEYS).flat()) {
+    if (node[key] !== undefined) stray[key] = null;
+  }
+  return stray;
+}
+
+function parseOptions() {
+  const { values } = parseArgs({
+    options: {
+      owner: { type: "string" },
+      farm: { type: "string", multiple: true },
+      keep: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const url = process.env.FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!url || !secret) {
+    throw new Error(
+      "Set FIREBASE_DATABASE_URL and FIREBASE_DATABASE_SECRET to migrate",
+    );
+  }
+  return {
+    url: url.replace(/\/+$/, ""),
+    secret,
+    owner: values.owner,
+    farmIds: values.farm?.length ? values.farm : DEMO_FARMS,
+    keep: values.keep,
+    dryRun: values["dry-run"],
+  };
+}
+
+async function main() {
+  const options = parseOptions();
+  const db = new DatabaseClient(options.url, options.secret);
+  const now = new Date().toISOString();
+  let migrated = 0;
+
+  for (const farmId of options.farmIds) {
+    const legacy = await db.get(farmId);
+    if (!legacy) {
+      console.log(`${farmId}: nothing at the root, skipping`);
+      continue;
+    }
+
+    const existing = (await db.get(`farms/${farmId}`)) ?? {};
+    const userId = existing.userId ?? options.owner;
+    if (typeof userId !== "string" || !userId) {
+      console.error(`${farmId}: no owner, pass --owner <uid> to migrate it`);
+      continue;
+    }
+
+    const number = farmId.replace(/^farm/, "");
+    const farm: RawNode = {
+      ...strayReadingKeys(existing),
+      userId,
+      name: existing.name ?? `Demo Farm ${number}`,
+      location: existing.location ?? "",
+      totalAcres: existing.totalAcres ?? 0,
+      cropTypes: existing.cropTypes ?? [],
+      soilType: existing.soilType ?? "",
+      irrigationType: existing.irrigationType ?? "Manual",
+      createdAt: existing.createdAt ?? now,
+      updatedAt: now,
+      sensorData: toSensorData(legacy, now),
+    };
+
+    if (options.dryRun) {
+      console.log(`${farmId}: would write farms/${farmId}`, farm);
+      continue;
+    }
+
+    await db.update(`farms/${farmId}`, farm);
+    if (!options.keep) await db.remove(farmId);
+    console.log(
+      `${farmId}: moved to farms/${farmId}${options.keep ? " (root kept)" : ""}`,
+    );
+    migrated++;
+  }
+
+  console.log(`Migrated ${migrated} of ${options.farmIds.length} farms`);
+}
+
+main().catch((error) => {
+  console.error((error as Error).message);
+  process.exit(1);
+});
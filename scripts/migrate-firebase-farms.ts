@@ -0,0 +1,126 @@
+/**
+ * Copies farms the app created only in the Realtime Database into the API
+ * server's database, keeping their ids, so the server's schedule,
+ * irrigation, team, device, weather and live routes know them:
+ *
+ *   farms/{farmId}                     → farms row with id {farmId}
+ *   farms/{farmId}/irrigationSchedule  → irrigation_schedules row
+ *
+ *   DATABASE_URL=... npm run migrate:firebase-farms -- [--dry-run]
+ *
+ * Options:
+ *   --farm       Only migrate these farms (default every farm)
+ *   --timezone   Time zone of the copied schedules (default UTC); the app
+ *                saves its own on the next schedule change
+ *   --dry-run    Print what would be created without changing anything
+ *
+ * Reads the Realtime Database over its REST API as an admin, with
+ * FIREBASE_DATABASE_URL and a database secret in FIREBASE_DATABASE_SECRET.
+ * Farms the server already has are skipped, so running it twice is harmless.
+ */
+import { parseArgs } from "node:util";
+import { farmRecordSchema } from "../shared/models";
+
+async function readFarms(
+  url: string,
+  secret: string,
+): Promise<Record<string, unknown>> {
+  const res = await fetch(
+    `${url}/farms.json?auth=${encodeURIComponent(secret)}`,
+  );
+  if (!res.ok) {
+    throw new Error(`GET /farms: ${res.status} ${await res.text()}`);
+  }
+  return (await res.json()) ?? {};
+}
+
+function parseOptions() {
+  const { values } = parseArgs({
+    options: {
+      farm: { type: "string", multiple: true },
+      timezone: { type: "string", default: "UTC" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const url = process.env.FIREBASE_DATABASE_URL;
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  if (!url || !secret) {
+    throw new Error(
+      "Set FIREBASE_DATABASE_URL and FIREBASE_DATABASE_SECRET to migrate",
+    );
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error("Set DATABASE_URL to the server's database to migrate");
+  }
+  return {
+    url: url.replace(/\/+$/, ""),
+    secret,
+    farmIds: values.farm,
+    timezone: values.timezone,
+    dryRun: values["dry-run"],
+  };
+}
+
+async function main() {
+  const options = parseOptions();
+  // Imported late so storage is created only once DATABASE_URL is checked
+  const { storage } = await import("../server/storage");
+  const nodes = await readFarms(options.url, options.secret);
+  const farmIds = options.farmIds ?? Object.keys(nodes);
+  let migrated = 0;
+
+  for (const farmId of farmIds) {
+    const parsed = farmRecordSchema.safeParse(nodes[farmId]);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      console.error(
+        `${farmId}: ${issue.path.join(".") || "record"} ${issue.message}, skipping`,
+      );
+      continue;
+    }
+    if (await storage.getFarm(farmId)) {
+      console.log(`${farmId}: already on the server, skipping`);
+      continue;
+    }
+
+    const record = parsed.data;
+    const farm = {
+      name: record.name || `Farm ${farmId}`,
+      location: record.location,
+      totalAcres: record.totalAcres,
+      cropTypes: record.cropTypes,
+      soilType: record.soilType,
+      irrigationType: record.irrigationType,
+      status: record.status,
+      description: record.description ?? null,
+      coordinates: record.coordinates ?? null,
+    };
+    const schedule = record.irrigationSchedule && {
+      autoMode: record.irrigationSchedule.autoMode,
+      scheduleTime: record.irrigationSchedule.scheduleTime,
+      duration: Math.round(record.irrigationSchedule.duration),
+      timezone: options.timezone,
+    };
+
+    if (options.dryRun) {
+      console.log(`${farmId}: would create for ${record.userId}`, farm, {
+        schedule,
+      });
+      continue;
+    }
+
+    await storage.createFarm(record.userId, farm, farmId);
+    if (schedule) await storage.upsertIrrigationSchedule(farmId, schedule);
+    console.log(`${farmId}: created for ${record.userId}`);
+    migrated++;
+  }
+
+  console.log(`Migrated ${migrated} of ${farmIds.length} farms`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error((error as Error).message);
+  process.exit(1);
+});
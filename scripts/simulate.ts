@@ -0,0 +1,447 @@
+/**
+ * Virtual sensor simulator for development and demos. Streams soil moisture,
+ * temperature, pH and NPK readings for one or more farms into
+ * /api/telemetry, and plays each farm's valve controller so irrigation runs
+ * started from the app wet the simulated soil.
+ *
+ *   npm run simulate -- --farm <farmId> [--farm <farmId> ...]
+ *
+ * Options:
+ *   --url        API server (default http://localhost:5000, or SIM_API_URL)
+ *   --interval   Seconds between readings (default 10)
+ *   --speed      How much faster than real time the soil changes (default 1)
+ *   --backfill   Hours of 15-minute history to send before streaming
+ *   --rain       Chance of rain starting in any simulated hour (default 0.03)
+ *   --seed       Random seed, for repeatable runs
+ *   --once       Send one round of readings and exit
+ *
+ * Readings are sent with TELEMETRY_API_KEY, as a gateway would. Irrigation
+ * only reaches the simulator when the server runs with
+ * ACTUATOR_TRANSPORT=polling, since it picks up valve commands by polling.
+ */
+import { parseArgs } from "node:util";
+import type {
+  ActuatorCommand,
+  SensorMetric,
+  TelemetryReading,
+} from "../shared/schema";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const BACKFILL_STEP_MS = 15 * MINUTE_MS;
+// Largest batch /api/telemetry accepts
+const MAX_BATCH = 500;
+
+type SoilProfile = {
+  name: string;
+  // Moisture (%) the soil holds after draining, and where plants struggle
+  fieldCapacity: number;
+  wiltingPoint: number;
+  // Share of the water above field capacity that drains away per hour
+  drainagePerHour: number;
+};
+
+const SOILS: SoilProfile[] = [
+  {
+    name: "sandy loam",
+    fieldCapacity: 55,
+    wiltingPoint: 20,
+    drainagePerHour: 0.3,
+  },
+  { name: "loam", fieldCapacity: 65, wiltingPoint: 28, drainagePerHour: 0.15 },
+  {
+    name: "clay loam",
+    fieldCapacity: 75,
+    wiltingPoint: 40,
+    drainagePerHour: 0.07,
+  },
+];
+
+// Moisture points per minute while the valve is open, and per mm of rain
+const IRRIGATION_RATE = 0.4;
+const RAIN_EFFECT = 0.8;
+// Moisture points per hour lost at midday on a 25 °C day in moist soil
+const PEAK_ET = 1.2;
+
+// Sensor noise (standard deviation) per metric, so no probe ever flatlines
+const NOISE: Record<SensorMetric, number> = {
+  soilMoisture: 0.4,
+  pH: 0.03,
+  temperature: 0.15,
+  nitrogen: 1.5,
+  phosphorus: 1,
+  potassium: 3,
+};
+
+// mulberry32: small, fast and good enough for plausible noise
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const between = (min: number, max: number) => min + next() * (max - min);
+  const gaussian = (sd: number) =>
+    Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next()) * sd;
+  return { next, between, gaussian };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * One farm's soil and weather. Each farm gets its own soil type and
+ * baselines from its id, so the same farm looks the same across runs.
+ */
+class SimulatedFarm {
+  readonly deviceId: string;
+  readonly soil: SoilProfile;
+  private random: Random;
+
+  private moisture: number;
+  private temperature: number;
+  private pH: number;
+  private basePH: number;
+  private nitrogen: number;
+  private phosphorus: number;
+  private potassium: number;
+  private meanTemperature: number;
+  private battery = 100;
+
+  private rainUntil = 0;
+  private rainIntensity = 0; // mm/h
+  private valveOpenedAt: number | null = null;
+  private valveOpenUntil = 0;
+
+  constructor(
+    readonly farmId: string,
+    seed: number,
+    private rainChance: number,
+  ) {
+    this.random = createRandom(seed ^ hashString(farmId));
+    this.deviceId = `sim-${farmId.slice(0, 8).toLowerCase()}`;
+    this.soil = SOILS[Math.floor(this.random.next() * SOILS.length)];
+    this.moisture = this.random.between(
+      this.soil.wiltingPoint + 10,
+      this.soil.fieldCapacity,
+    );
+    this.meanTemperature = this.random.between(14, 24);
+    this.temperature = this.meanTemperature;
+    this.basePH = this.random.between(5.8, 7.4);
+    this.pH = this.basePH;
+    this.nitrogen = this.random.between(25, 60);
+    this.phosphorus = this.random.between(15, 40);
+    this.potassium = this.random.between(120, 250);
+  }
+
+  get isRaining() {
+    return this.rainIntensity > 0;
+  }
+
+  get isIrrigating() {
+    return this.valveOpenedAt !== null;
+  }
+
+  // Advances the soil by `minutes`, ending at `now` (epoch ms).
+  step(now: number, minutes: number) {
+    const hours = minutes / 60;
+    const hourOfDay =
+      new Date(now).getUTCHours() + new Date(now).getUTCMinutes() / 60;
+    this.updateWeather(now, hours);
+
+    // Soil temperature trails the air: a daily swing peaking mid-afternoon,
+    // a few degrees cooler while it rains.
+    const target =
+      this.meanTemperature +
+      6 * Math.sin((2 * Math.PI * (hourOfDay - 9)) / 24) -
+      (this.isRaining ? 3 : 0);
+    this.temperature += (target - this.temperature) * Math.min(1, hours / 1.5);
+
+    // Evapotranspiration follows the sun and heat, and slows as the soil
+    // dries towards the wilting point.
+    const sun = Math.max(0, Math.sin((Math.PI * (hourOfDay - 6)) / 12));
+    const available = clamp(
+      (this.moisture - this.soil.wiltingPoint) /
+        (this.soil.fieldCapacity - this.soil.wiltingPoint),
+      0.1,
+      1,
+    );
+    const heat = clamp(this.temperature / 25, 0.2, 1.6);
+    this.moisture -= PEAK_ET * sun * heat * available * hours;
+
+    if (this.isRaining) {
+      this.moisture += this.rainIntensity * RAIN_EFFECT * hours;
+      this.pH -= 0.002 * this.rainIntensity * hours;
+    }
+    if (this.valveOpenedAt !== null) {
+      const from = Math.max(now - minutes * MINUTE_MS, this.valveOpenedAt);
+      const to = Math.min(now, this.valveOpenUntil);
+      this.moisture += (IRRIGATION_RATE * Math.max(0, to - from)) / MINUTE_MS;
+      if (now >= this.valveOpenUntil) this.valveOpenedAt = null;
+    }
+
+    // Water above field capacity drains, taking nitrate with it
+    if (this.moisture > this.soil.fieldCapacity) {
+      const drained =
+        (this.moisture - this.soil.fieldCapacity) *
+        Math.min(1, this.soil.drainagePerHour * hours);
+      this.moisture -= drained;
+      this.nitrogen -= drained * 0.3;
+    }
+    this.moisture = clamp(this.moisture, 5, 95);
+
+    // Crop uptake during the day; pH drifts back towards its baseline
+    this.nitrogen -= 0.02 * sun * hours;
+    this.phosphorus -= 0.005 * sun * hours;
+    this.potassium -= 0.03 * sun * hours;
+    this.nitrogen = Math.max(2, this.nitrogen);
+    this.phosphorus = Math.max(2, this.phosphorus);
+    this.potassium = Math.max(10, this.potassium);
+    this.pH += (this.basePH - this.pH) * 0.05 * hours;
+  }
+
+  private updateWeather(now: number, hours: number) {
+    if (this.isRaining && now >= this.rainUntil) this.rainIntensity = 0;
+    if (this.isRaining) return;
+
+    const chance = 1 - (1 - this.rainChance) ** hours;
+    if (this.random.next() < chance) {
+      this.rainIntensity = this.random.between(0.5, 8);
+      this.rainUntil = now + this.random.between(0.5, 6) * HOUR_MS;
+    }
+  }
+
+  // Valve commands from the server, as a polling controller receives them.
+  // Durations are simulated minutes, so a run wets the soil by the same
+  // amount whatever the speed.
+  apply(command: ActuatorCommand, now: number) {
+    if (command.type === "start") {
+      this.valveOpenedAt = now;
+      this.valveOpenUntil = now + (command.duration ?? 0) * MINUTE_MS;
+    } else if (command.type === "stop") {
+      this.valveOpenedAt = null;
+    } else if (command.type === "set_duration" && this.valveOpenedAt !== null) {
+      this.valveOpenUntil =
+        this.valveOpenedAt + (command.duration ?? 0) * MINUTE_MS;
+    }
+  }
+
+  reading(timestamp: Date): TelemetryReading {
+    const noisy = (metric: SensorMetric, value: number) =>
+      value + this.random.gaussian(NOISE[metric]);
+    this.battery = Math.max(5, this.battery - 0.002);
+
+    return {
+      farmId: this.farmId,
+      deviceId: this.deviceId,
+      timestamp,
+      soilMoisture: round(
+        clamp(noisy("soilMoisture", this.moisture), 1, 99),
+        1,
+      ),
+      temperature: round(noisy("temperature", this.temperature), 1),
+      pH: round(clamp(noisy("pH", this.pH), 3, 10), 2),
+      nitrogen: Math.round(Math.max(0, noisy("nitrogen", this.nitrogen))),
+      phosphorus: Math.round(Math.max(0, noisy("phosphorus", this.phosphorus))),
+      potassium: Math.round(Math.max(0, noisy("potassium", this.potassium))),
+      battery: round(this.battery, 1),
+      firmwareVersion: "sim-1.0",
+    };
+  }
+
+  describe(reading: TelemetryReading): string {
+    const state = [
+      this.isRaining ? `raining ${this.rainIntensity.toFixed(1)} mm/h` : null,
+      this.isIrrigating ? "valve open" : null,
+    ].filter(Boolean);
+    return (
+      `farm ${this.farmId}: ${reading.soilMoisture}% moisture, ` +
+      `${reading.temperature}°C, pH ${reading.pH}, ` +
+      `NPK ${reading.nitrogen}/${reading.phosphorus}/${reading.potassium}` +
+      (state.length > 0 ? ` (${state.join(", ")})` : "")
+    );
+  }
+}
+
+class SimulatorClient {
+  constructor(
+    private baseUrl: string,
+    private apiKey: string | undefined,
+  ) {}
+
+  private async request(method: string, path: string, body?: unknown) {
+    const res = await fetch(new URL(path, this.baseUrl), {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      let message = text;
+      try {
+        message = JSON.parse(text).message ?? text;
+      } catch {}
+      throw new Error(`${method} ${path} failed (${res.status}): ${message}`);
+    }
+    return res;
+  }
+
+  async sendReadings(readings: TelemetryReading[]) {
+    for (let i = 0; i < readings.length; i += MAX_BATCH) {
+      await this.request("POST", "/api/telemetry", {
+        readings: readings.slice(i, i + MAX_BATCH),
+      });
+    }
+  }
+
+  async pendingCommands(farmId: string): Promise<ActuatorCommand[]> {
+    const res = await this.request(
+      "GET",
+      `/api/actuator-commands/pending?farmId=${encodeURIComponent(farmId)}`,
+    );
+    return res.json();
+  }
+
+  async acknowledge(commandId: string) {
+    await this.request("POST", `/api/actuator-commands/${commandId}/ack`, {
+      ok: true,
+    });
+  }
+}
+
+function parseOptions() {
+  const { values } = parseArgs({
+    options: {
+      farm: { type: "string", multiple: true },
+      url: { type: "string" },
+      interval: { type: "string", default: "10" },
+      speed: { type: "string", default: "1" },
+      backfill: { type: "string", default: "0" },
+      rain: { type: "string", default: "0.03" },
+      seed: { type: "string" },
+      once: { type: "boolean", default: false },
+    },
+  });
+
+  const number = (name: string, value: string, min: number) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min) {
+      throw new Error(`--${name} must be a number of at least ${min}`);
+    }
+    return parsed;
+  };
+
+  if (!values.farm?.length) {
+    throw new Error("Pass at least one --farm <farmId> to simulate");
+  }
+  return {
+    farmIds: values.farm,
+    url: values.url ?? process.env.SIM_API_URL ?? "http://localhost:5000",
+    intervalMs: number("interval", values.interval, 1) * 1000,
+    speed: number("speed", values.speed, 0.1),
+    backfillHours: number("backfill", values.backfill, 0),
+    rainChance: Math.min(1, number("rain", values.rain, 0)),
+    seed: values.seed ? hashString(values.seed) : Date.now(),
+    once: values.once,
+  };
+}
+
+async function main() {
+  const options = parseOptions();
+  const client = new SimulatorClient(
+    options.url,
+    process.env.TELEMETRY_API_KEY,
+  );
+  const farms = options.farmIds.map(
+    (farmId) => new SimulatedFarm(farmId, options.seed, options.rainChance),
+  );
+  for (const farm of farms) {
+    console.log(
+      `farm ${farm.farmId}: ${farm.soil.name}, readings from ${farm.deviceId}`,
+    );
+  }
+
+  let clock = Date.now();
+
+  if (options.backfillHours > 0) {
+    const history: TelemetryReading[] = [];
+    let time = clock - options.backfillHours * HOUR_MS;
+    while (time < clock) {
+      time += BACKFILL_STEP_MS;
+      for (const farm of farms) {
+        farm.step(time, BACKFILL_STEP_MS / MINUTE_MS);
+        history.push(farm.reading(new Date(time)));
+      }
+    }
+    await client.sendReadings(history);
+    console.log(`sent ${history.length} readings of history`);
+  }
+
+  // The soil runs `speed` times faster than the wall clock, but readings
+  // carry real timestamps so the server sees a live device.
+  let model = clock;
+  const tick = async () => {
+    const now = Date.now();
+    const minutes = ((now - clock) * options.speed) / MINUTE_MS;
+    clock = now;
+    model += minutes * MINUTE_MS;
+
+    for (const farm of farms) {
+      try {
+        for (const command of await client.pendingCommands(farm.farmId)) {
+          farm.apply(command, model);
+          await client.acknowledge(command.id);
+          console.log(`farm ${farm.farmId}: valve ${command.type}`);
+        }
+      } catch (error) {
+        console.error(`farm ${farm.farmId}: ${(error as Error).message}`);
+      }
+
+      farm.step(model, minutes);
+      const reading = farm.reading(new Date(now));
+      try {
+        await client.sendReadings([reading]);
+        console.log(farm.describe(reading));
+      } catch (error) {
+        console.error(`farm ${farm.farmId}: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  await tick();
+  if (options.once) return;
+
+  const interval = setInterval(() => {
+    tick().catch((error) => console.error("Simulator tick failed:", error));
+  }, options.intervalMs);
+  const stop = () => {
+    clearInterval(interval);
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((error) => {
+  console.error((error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+import type { Request, Response } from "express";
+import type { Device, Farm, Field } from "@shared/schema";
+import { canPerform, type FarmAction, type FarmRole } from "@shared/roles";
+import { storage } from "./storage";
+
+// Set by the `authenticate` middleware from the caller's Firebase ID token.
+export function getUserId(req: Request): string | undefined {
+  return req.user?.uid;
+}
+
+export function requireUserId(req: Request, res: Response): string | undefined {
+  const userId = getUserId(req);
+  if (!userId) {
+    res
+      .status(401)
+      .json({ message: req.authError ?? "Authentication required" });
+  }
+  return userId;
+}
+
+// The farm's `userId` is its owner; everyone else needs a membership.
+export async function getFarmRole(
+  farm: Farm,
+  userId: string,
+): Promise<FarmRole | undefined> {
+  if (farm.userId === userId) return "owner";
+  return (await storage.getFarmMember(farm.id, userId))?.role;
+}
+
+export type FarmAccess = { farm: Farm; userId: string; role: FarmRole };
+
+// Resolves a farm and checks the caller's role allows `action`. Farms the
+// caller has no role on are reported as missing so their ids don't leak;
+// members lacking the role get a 403.
+export async function loadFarmAccess(
+  req: Request,
+  res: Response,
+  farmId: string,
+  action: FarmAction,
+): Promise<FarmAccess | undefined> {
+  const userId = requireUserId(req, res);
+  if (!userId) return undefined;
+
+  const farm = await storage.getFarm(farmId);
+  const role = farm && (await getFarmRole(farm, userId));
+  if (!farm || !role) {
+    res.status(404).json({ message: "Farm not found" });
+    return undefined;
+  }
+  if (!canPerform(role, action)) {
+    res
+      .status(403)
+      .json({ message: `Your ${role} role does not allow this action` });
+    return undefined;
+  }
+  return { farm, userId, role };
+}
+
+export async function loadFarm(
+  req: Request,
+  res: Response,
+  farmId: string,
+  action: FarmAction,
+): Promise<Farm | undefined> {
+  return (await loadFarmAccess(req, res, farmId, action))?.farm;
+}
+
+export async function loadField(
+  req: Request,
+  res: Response,
+  fieldId: string,
+  action: FarmAction,
+): Promise<Field | undefined> {
+  const field = await storage.getField(fieldId);
+  if (!field) {
+    res.status(404).json({ message: "Field not found" });
+    return undefined;
+  }
+
+  const farm = await loadFarm(req, res, field.farmId, action);
+  return farm ? field : undefined;
+}
+
+// Decommissioned devices are reported as missing.
+export async function loadDevice(
+  req: Request,
+  res: Response,
+  deviceId: string,
+  action: FarmAction,
+): Promise<Device | undefined> {
+  const device = await storage.getDevice(deviceId.toLowerCase());
+  if (!device || device.status !== "active") {
+    res.status(404).json({ message: "Device not found" });
+    return undefined;
+  }
+
+  const farm = await loadFarm(req, res, device.farmId, action);
+  return farm ? device : undefined;
+}
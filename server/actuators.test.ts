@@ -0,0 +1,230 @@
+import type { Alert, InsertActuatorCommand } from "@shared/schema";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CommandChannel, SimulatedValveController } from "./actuators";
+import { FarmEvents } from "./events";
+import { MemStorage } from "./storage";
+
+const ACK_DELAY_MS = 100;
+const ACK_TIMEOUT_MS = 1000;
+
+// Hands out the given draws in order, then never drops or rejects
+const draws =
+  (...values: number[]) =>
+  () =>
+    values.shift() ?? 0.99;
+
+let storage: MemStorage;
+let events: FarmEvents;
+let alerts: Alert[];
+let farmId: string;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-06-01T06:00:00Z"));
+  storage = new MemStorage();
+  events = new FarmEvents();
+  alerts = [];
+  events.on("alert", (alert) => alerts.push(alert));
+  farmId = (await storage.createFarm("owner", { name: "North Farm" })).id;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function setup(
+  valve: ConstructorParameters<typeof SimulatedValveController>[0] = {},
+) {
+  const controller = new SimulatedValveController({
+    ackDelayMs: ACK_DELAY_MS,
+    ...valve,
+  });
+  const channel = new CommandChannel(
+    controller,
+    storage,
+    { ackTimeoutMs: ACK_TIMEOUT_MS, maxAttempts: 3 },
+    events,
+  );
+  controller.connect((id, ack) => {
+    void channel.acknowledge(id, ack);
+  });
+  const sent = vi.spyOn(controller, "send");
+  return { controller, channel, sent };
+}
+
+const command = (
+  type: InsertActuatorCommand["type"],
+  duration: number | null = null,
+): InsertActuatorCommand => ({
+  farmId,
+  irrigationLogId: null,
+  type,
+  duration,
+});
+
+describe("CommandChannel", () => {
+  it("applies a command and records the acknowledgement", async () => {
+    const { controller, channel } = setup();
+
+    const dispatched = await channel.dispatch(command("start", 30));
+    expect(dispatched).toMatchObject({ status: "pending", attempts: 1 });
+
+    await vi.advanceTimersByTimeAsync(ACK_DELAY_MS);
+    expect(await storage.getActuatorCommand(dispatched.id)).toMatchObject({
+      status: "confirmed",
+      error: null,
+    });
+    expect(controller.getValve(farmId)).toEqual({
+      open: true,
+      openedAt: new Date("2026-06-01T06:00:00.100Z"),
+      closesAt: new Date("2026-06-01T06:30:00.100Z"),
+    });
+  });
+
+  it("resends a lost command with the same id", async () => {
+    // Dropped, then delivered and accepted
+    const { channel, sent } = setup({ dropRate: 0.5, random: draws(0.1) });
+
+    const dispatched = await channel.dispatch(command("start", 30));
+    await vi.advanceTimersByTimeAsync(ACK_TIMEOUT_MS + ACK_DELAY_MS);
+
+    expect(sent.mock.calls.map(([message]) => message)).toEqual([
+      expect.objectContaining({ id: dispatched.id, attempt: 1 }),
+      expect.objectContaining({ id: dispatched.id, attempt: 2 }),
+    ]);
+    expect(await storage.getActuatorCommand(dispatched.id)).toMatchObject({
+      status: "confirmed",
+      attempts: 2,
+    });
+  });
+
+  it("applies a retried command only once", async () => {
+    // Acknowledges after the channel has already resent
+    const { controller, channel, sent } = setup({
+      ackDelayMs: ACK_TIMEOUT_MS + 500,
+    });
+
+    const dispatched = await channel.dispatch(command("start", 30));
+    await vi.advanceTimersByTimeAsync(ACK_TIMEOUT_MS);
+    expect(sent).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(3 * ACK_TIMEOUT_MS);
+
+    expect(controller.getValve(farmId).openedAt).toEqual(
+      new Date("2026-06-01T06:00:01.500Z"),
+    );
+    expect(await storage.getActuatorCommand(dispatched.id)).toMatchObject({
+      status: "confirmed",
+      settledAt: new Date("2026-06-01T06:00:01.500Z"),
+    });
+  });
+
+  it("fails a command after its last attempt goes unacknowledged", async () => {
+    const { channel, sent } = setup({ dropRate: 1 });
+    const settled = vi.fn();
+    channel.on("settled", settled);
+
+    const dispatched = await channel.dispatch(command("start", 30));
+    await vi.advanceTimersByTimeAsync(3 * ACK_TIMEOUT_MS);
+
+    expect(sent).toHaveBeenCalledTimes(3);
+    const failed = await storage.getActuatorCommand(dispatched.id);
+    expect(failed).toMatchObject({
+      status: "failed",
+      attempts: 3,
+      error: "No acknowledgement after 3 attempts",
+    });
+    expect(settled).toHaveBeenCalledWith(failed);
+
+    await vi.advanceTimersByTimeAsync(3 * ACK_TIMEOUT_MS);
+    expect(sent).toHaveBeenCalledTimes(3);
+  });
+
+  it("records a rejection from the controller", async () => {
+    const { controller, channel } = setup({ failureRate: 1 });
+
+    const dispatched = await channel.dispatch(command("start", 30));
+    await vi.advanceTimersByTimeAsync(ACK_DELAY_MS);
+
+    expect(await storage.getActuatorCommand(dispatched.id)).toMatchObject({
+      status: "failed",
+      error: "Valve fault",
+    });
+    expect(controller.getValve(farmId).open).toBe(false);
+  });
+
+  it("leaves a settled command as it is on late or repeated acks", async () => {
+    const { channel } = setup();
+
+    const dispatched = await channel.dispatch(command("start", 30));
+    await vi.advanceTimersByTimeAsync(ACK_DELAY_MS);
+    const confirmed = await storage.getActuatorCommand(dispatched.id);
+
+    await vi.advanceTimersByTimeAsync(ACK_TIMEOUT_MS);
+    expect(
+      await channel.acknowledge(dispatched.id, { ok: false, error: "Late" }),
+    ).toEqual(confirmed);
+    expect(await channel.acknowledge(dispatched.id, { ok: true })).toEqual(
+      confirmed,
+    );
+    expect(await channel.acknowledge("unknown", { ok: true })).toBeUndefined();
+  });
+
+  describe("stop commands", () => {
+    it("alerts the owner when the controller rejects one", async () => {
+      const { channel } = setup({ failureRate: 1 });
+
+      const dispatched = await channel.dispatch(command("stop"));
+      await vi.advanceTimersByTimeAsync(ACK_DELAY_MS);
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({
+        userId: "owner",
+        farmId,
+        title: "Valve may still be open",
+        type: "critical",
+        data: { actuatorCommandId: dispatched.id, irrigationLogId: null },
+      });
+      expect(alerts[0].message).toContain("(Valve fault)");
+      expect(await storage.getAlertsByUser("owner")).toEqual(alerts);
+    });
+
+    it("alerts the owner when one times out", async () => {
+      const { channel } = setup({ dropRate: 1 });
+
+      await channel.dispatch(command("stop"));
+      await vi.advanceTimersByTimeAsync(3 * ACK_TIMEOUT_MS);
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].message).toContain(
+        "(No acknowledgement after 3 attempts)",
+      );
+    });
+
+    it("leaves other failed commands to the scheduler", async () => {
+      const { channel } = setup({ failureRate: 1 });
+
+      await channel.dispatch(command("start", 30));
+      await channel.dispatch(command("set_duration", 45));
+      await vi.advanceTimersByTimeAsync(ACK_DELAY_MS);
+
+      expect(alerts).toEqual([]);
+    });
+  });
+
+  it("re-arms commands left pending by a restart", async () => {
+    const { channel, sent } = setup();
+    const pending = await storage.createActuatorCommand(command("start", 30));
+    await storage.updateActuatorCommand(pending.id, { attempts: 1 });
+
+    await channel.resume();
+    expect(sent).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(ACK_TIMEOUT_MS + ACK_DELAY_MS);
+
+    expect(sent).toHaveBeenCalledWith(
+      expect.objectContaining({ id: pending.id, attempt: 2 }),
+    );
+    expect(await storage.getActuatorCommand(pending.id)).toMatchObject({
+      status: "confirmed",
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import { EventEmitter } from "node:events";
+import type { Express } from "express";
+import { z } from "zod";
+import {
+  actuatorAckSchema,
+  type ActuatorAck,
+  type ActuatorCommand,
+  type ActuatorCommandType,
+  type InsertActuatorCommand,
+} from "@shared/schema";
+import { loadFarm } from "./access";
+import { farmEvents, type FarmEvents } from "./events";
+import { asyncHandler, parseBody, parseInput } from "./http";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { hasValidApiKey } from "./telemetry";
+
+const log = console.log;
+
+export type CommandMessage = {
+  id: string;
+  farmId: string;
+  type: ActuatorCommandType;
+  duration: number | null;
+  attempt: number;
+};
+
+/**
+ * Delivers commands to a farm's valve/pump controller. Delivery is
+ * fire-and-forget: the controller reports the outcome later through
+ * `CommandChannel.acknowledge`, and a command that is never acknowledged is
+ * re-sent with the same id, so controllers must treat ids idempotently.
+ */
+export interface ActuatorTransport {
+  send(message: CommandMessage): Promise<void>;
+}
+
+// Controllers that poll `GET /api/actuator-commands/pending` pick commands up
+// themselves, so there is nothing to push.
+export class PollingTransport implements ActuatorTransport {
+  async send(): Promise<void> {}
+}
+
+type SimulatedValveOptions = {
+  ackDelayMs?: number;
+  // Probability that a command is rejected by the controller
+  failureRate?: number;
+  // Probability that a command is lost before reaching the controller
+  dropRate?: number;
+  random?: () => number;
+};
+
+type ValveState = {
+  open: boolean;
+  openedAt: Date | null;
+  closesAt: Date | null;
+};
+
+/**
+ * The `ACTUATOR_TRANSPORT=simulated` controller: a virtual valve per farm
+ * that applies each command and acknowledges it after `ackDelayMs`. Set
+ * `failureRate` to have it reject commands and `dropRate` to lose them on
+ * the way, which the channel then retries.
+ */
+export class SimulatedValveController implements ActuatorTransport {
+  private valves = new Map<string, ValveState>();
+  private handled = new Set<string>();
+  private onAck: ((id: string, ack: ActuatorAck) => void) | undefined;
+
+  constructor(private options: SimulatedValveOptions = {}) {}
+
+  connect(onAck: (id: string, ack: ActuatorAck) => void) {
+    this.onAck = onAck;
+  }
+
+  getValve(farmId: string): ValveState {
+    return (
+      this.valves.get(farmId) ?? { open: false, openedAt: null, closesAt: null }
+    );
+  }
+
+  async send(message: CommandMessage): Promise<void> {
+    const random = this.options.random ?? Math.random;
+    if (random() < (this.options.dropRate ?? 0)) return;
+
+    setTimeout(() => {
+      if (random() < (this.options.failureRate ?? 0)) {
+        this.onAck?.(message.id, { ok: false, error: "Valve fault" });
+        return;
+      }
+
+      // Retries of an already applied command are acknowledged again
+      // without re-applying it.
+      if (!this.handled.has(message.id)) {
+        this.handled.add(message.id);
+        this.apply(message);
+      }
+      this.onAck?.(message.id, { ok: true });
+    }, this.options.ackDelayMs ?? 500);
+  }
+
+  // Durations are the total run length, counted from when the valve opened.
+  private apply(message: CommandMessage) {
+    const valve = this.getValve(message.farmId);
+    const closesAt = (openedAt: Date) =>
+      message.duration === null
+        ? null
+        : new Date(openedAt.getTime() + message.duration * 60 * 1000);
+
+    switch (message.type) {
+      case "start": {
+        const openedAt = new Date();
+        this.valves.set(message.farmId, {
+          open: true,
+          openedAt,
+          closesAt: closesAt(openedAt),
+        });
+        break;
+      }
+      case "stop":
+        this.valves.set(message.farmId, {
+          open: false,
+          openedAt: null,
+          closesAt: null,
+        });
+        break;
+      case "set_duration":
+        if (valve.open && valve.openedAt) {
+          this.valves.set(message.farmId, {
+            ...valve,
+            closesAt: closesAt(valve.openedAt),
+          });
+        }
+        break;
+    }
+  }
+}
+
+type CommandChannelOptions = {
+  ackTimeoutMs?: number;
+  maxAttempts?: number;
+};
+
+/**
+ * Sends actuator commands, tracks acknowledgements and retries commands that
+ * time out. Emits `settled` with the command once it is confirmed or failed,
+ * and alerts the farm's owner when a stop command fails, since the valve may
+ * still be open.
+ */
+export class CommandChannel extends EventEmitter<{
+  settled: [ActuatorCommand];
+}> {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private ackTimeoutMs: number;
+  private maxAttempts: number;
+
+  constructor(
+    private transport: ActuatorTransport,
+    private storage: IStorage = defaultStorage,
+    options: CommandChannelOptions = {},
+    private events: FarmEvents = farmEvents,
+  ) {
+    super();
+    this.ackTimeoutMs = options.ackTimeoutMs ?? 10 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+  }
+
+  async dispatch(insert: InsertActuatorCommand): Promise<ActuatorCommand> {
+    const command = await this.storage.createActuatorCommand(insert);
+    log(
+      `actuator command ${command.id} (${command.type}) for ${command.farmId}`,
+    );
+    return this.send(command);
+  }
+
+  async acknowledge(
+    id: string,
+    ack: ActuatorAck,
+  ): Promise<ActuatorCommand | undefined> {
+    const command = await this.storage.getActuatorCommand(id);
+    // Late or duplicate acknowledgements leave a settled command untouched.
+    if (!command || command.status !== "pending") return command;
+
+    return this.settle(
+      command,
+      ack.ok ? "confirmed" : "failed",
+      ack.ok ? null : (ack.error ?? "Rejected by controller"),
+    );
+  }
+
+  // Re-arms commands that were still pending when the process stopped.
+  async resume(): Promise<void> {
+    const pending = await this.storage.getActuatorCommandsByStatus("pending");
+    for (const command of pending) {
+      this.armTimeout(command.id);
+    }
+  }
+
+  stop(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private async send(command: ActuatorCommand): Promise<ActuatorCommand> {
+    const sent =
+      (await this.storage.updateActuatorCommand(command.id, {
+        attempts: command.attempts + 1,
+        lastSentAt: new Date(),
+      })) ?? command;
+
+    try {
+      await this.transport.send({
+        id: sent.id,
+        farmId: sent.farmId,
+        type: sent.type,
+        duration: sent.duration,
+        attempt: sent.attempts,
+      });
+    } catch (error) {
+      // Treated like a lost message: the timeout below retries it.
+      console.error(`Failed to deliver actuator command ${sent.id}:`, error);
+    }
+
+    this.armTimeout(sent.id);
+    return sent;
+  }
+
+  private armTimeout(id: string) {
+    clearTimeout(this.timers.get(id));
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      this.onTimeout(id).catch((error) => {
+        console.error(`Actuator command ${id} retry failed:`, error);
+      });
+    }, this.ackTimeoutMs);
+    this.timers.set(id, timer);
+  }
+
+  private async onTimeout(id: string) {
+    const command = await this.storage.getActuatorCommand(id);
+    if (!command || command.status !== "pending") return;
+
+    if (command.attempts >= this.maxAttempts) {
+      await this.settle(
+        command,
+        "failed",
+        `No acknowledgement after ${command.attempts} attempts`,
+      );
+      return;
+    }
+
+    log(`retrying actuator command ${id} (attempt ${command.attempts + 1})`);
+    await this.send(command);
+  }
+
+  private async settle(
+    command: ActuatorCommand,
+    status: "confirmed" | "failed",
+    error: string | null,
+  ): Promise<ActuatorCommand> {
+    clearTimeout(this.timers.get(command.id));
+    this.timers.delete(command.id);
+
+    const settled =
+      (await this.storage.updateActuatorCommand(command.id, {
+        status,
+        error,
+        settledAt: new Date(),
+      })) ?? command;
+    log(`actuator command ${command.id} ${status}`);
+    if (settled.type === "stop" && status === "failed") {
+      await this.raiseStopFailedAlert(settled);
+    }
+    this.emit("settled", settled);
+    return settled;
+  }
+
+  private async raiseStopFailedAlert(command: ActuatorCommand) {
+    const farm = await this.storage.getFarm(command.farmId);
+    if (!farm) return;
+
+    const alert = await this.storage.createAlert({
+      userId: farm.userId,
+      farmId: farm.id,
+      title: "Valve may still be open",
+      message: `The valve on ${farm.name} didn't confirm it closed (${command.error}). Check that it isn't still watering.`,
+      type: "critical",
+      category: "irrigation",
+      priority: "high",
+      data: {
+        actuatorCommandId: command.id,
+        irrigationLogId: command.irrigationLogId,
+      },
+    });
+    this.events.emit("alert", alert);
+  }
+}
+
+function createCommandChannel(): CommandChannel {
+  const transportName =
+    process.env.ACTUATOR_TRANSPORT ??
+    (process.env.NODE_ENV === "production" ? "polling" : "simulated");
+  const ackTimeoutMs = process.env.ACTUATOR_ACK_TIMEOUT_MS
+    ? Number(process.env.ACTUATOR_ACK_TIMEOUT_MS)
+    : undefined;
+  // A timeout of NaN fires at once and would fail every command
+  if (
+    ackTimeoutMs !== undefined &&
+    !(Number.isFinite(ackTimeoutMs) && ackTimeoutMs > 0)
+  ) {
+    throw new Error(
+      `Invalid ACTUATOR_ACK_TIMEOUT_MS: ${process.env.ACTUATOR_ACK_TIMEOUT_MS}`,
+    );
+  }
+
+  if (transportName === "simulated") {
+    const controller = new SimulatedValveController();
+    const channel = new CommandChannel(controller, defaultStorage, {
+      ackTimeoutMs,
+    });
+    controller.connect((id, ack) => {
+      channel.acknowledge(id, ack).catch((error) => {
+        console.error(`Failed to record acknowledgement for ${id}:`, error);
+      });
+    });
+    return channel;
+  }
+
+  if (transportName !== "polling") {
+    throw new Error(`Unknown ACTUATOR_TRANSPORT: ${transportName}`);
+  }
+
+  // Polling controllers only check in periodically, so allow a full minute.
+  return new CommandChannel(new PollingTransport(), defaultStorage, {
+    ackTimeoutMs: ackTimeoutMs ?? 60 * 1000,
+  });
+}
+
+export const commandChannel = createCommandChannel();
+
+const pendingQuerySchema = z.object({
+  farmId: z.string().min(1),
+});
+
+export function registerActuatorRoutes(app: Express) {
+  // Polled by farm controllers; authenticated like telemetry gateways.
+  app.get(
+    "/api/actuator-commands/pending",
+    asyncHandler(async (req, res) => {
+      if (!hasValidApiKey(req)) {
+        return res.status(401).json({ message: "Invalid telemetry API key" });
+      }
+
+      const query = parseInput(pendingQuerySchema, req.query, res);
+      if (!query) return;
+
+      res.json(
+        await defaultStorage.getActuatorCommandsByStatus(
+          "pending",
+          query.farmId,
+        ),
+      );
+    }),
+  );
+
+  app.post(
+    "/api/actuator-commands/:commandId/ack",
+    asyncHandler(async (req, res) => {
+      if (!hasValidApiKey(req)) {
+        return res.status(401).json({ message: "Invalid telemetry API key" });
+      }
+
+      const ack = parseBody(actuatorAckSchema, req, res);
+      if (!ack) return;
+
+      const command = await commandChannel.acknowledge(
+        req.params.commandId,
+        ack,
+      );
+      if (!command) {
+        return res.status(404).json({ message: "Command not found" });
+      }
+      res.json(command);
+    }),
+  );
+
+  app.get(
+    "/api/actuator-commands/:commandId",
+    asyncHandler(async (req, res) => {
+      const command = await defaultStorage.getActuatorCommand(
+        req.params.commandId,
+      );
+      if (!command) {
+        return res.status(404).json({ message: "Command not found" });
+      }
+
+      const farm = await loadFarm(req, res, command.farmId, "view");
+      if (!farm) return;
+
+      res.json(command);
+    }),
+  );
+}
@@ -0,0 +1,160 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import type { AuditAction, AuditEntry } from "@shared/schema";
+import { loadFarm } from "./access";
+import { asyncHandler, parseInput } from "./http";
+import { storage } from "./storage";
+
+// Upper bound on a single export so one request can't pull the whole table
+const MAX_EXPORT_ROWS = 10_000;
+
+type AuditValues = Record<string, unknown>;
+
+export type AuditRecord = {
+  farmId: string;
+  action: AuditAction;
+  targetId?: string;
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+};
+
+// Copies values as they are now, so later changes to the same objects (and
+// Dates) don't leak into the stored entry.
+function snapshot(values: AuditValues | null | undefined): AuditValues | null {
+  return values ? JSON.parse(JSON.stringify(values)) : null;
+}
+
+/**
+ * Narrows an update to the keys it actually changed, so an entry reads as
+ * `{ autoMode: true }` -> `{ autoMode: false }` rather than two whole records.
+ */
+export function changedValues(
+  before: AuditValues,
+  after: AuditValues,
+): { before: AuditValues; after: AuditValues } {
+  const changed = Object.keys(after).filter(
+    (key) =>
+      after[key] !== undefined &&
+      JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+  );
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, before[key]])),
+    after: Object.fromEntries(changed.map((key) => [key, after[key]])),
+  };
+}
+
+/**
+ * Appends an entry for a change the caller has just made. The change has
+ * already happened, so a failure to write the entry is logged rather than
+ * reported to the caller as a failed request.
+ */
+export async function recordAudit(
+  req: Request,
+  record: AuditRecord,
+): Promise<void> {
+  const client = req.header("x-client") ?? req.header("user-agent") ?? null;
+  try {
+    await storage.appendAuditEntry({
+      farmId: record.farmId,
+      actorId: req.user?.uid ?? "anonymous",
+      actorEmail: req.user?.email ?? null,
+      action: record.action,
+      targetId: record.targetId ?? null,
+      before: snapshot(record.before),
+      after: snapshot(record.after),
+      client: client?.slice(0, 200) ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record ${record.action} audit entry:`, error);
+  }
+}
+
+const auditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  // Entries strictly older than this, for paging back through the trail
+  before: z.coerce.date().optional(),
+});
+
+const auditExportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const CSV_COLUMNS = [
+  "createdAt",
+  "action",
+  "actorId",
+  "actorEmail",
+  "targetId",
+  "before",
+  "after",
+  "client",
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  // Stop spreadsheets from evaluating cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => csvCell(entry[column])).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function registerAuditRoutes(app: Express) {
+  app.get(
+    "/api/farms/:farmId/audit",
+    asyncHandler(async (req, res) => {
+      const query = parseInput(auditQuerySchema, req.query, res);
+      if (!query) return;
+
+      const farm = await loadFarm(req, res, req.params.farmId, "viewAudit");
+      if (!farm) return;
+
+      res.json(
+        await storage.getAuditEntries({
+          farmId: farm.id,
+          to: query.before,
+          limit: query.limit,
+        }),
+      );
+    }),
+  );
+
+  app.get(
+    "/api/farms/:farmId/audit/export",
+    asyncHandler(async (req, res) => {
+      const query = parseInput(auditExportQuerySchema, req.query, res);
+      if (!query) return;
+
+      const farm = await loadFarm(req, res, req.params.farmId, "viewAudit");
+      if (!farm) return;
+
+      const entries = await storage.getAuditEntries({
+        farmId: farm.id,
+        from: query.from,
+        to: query.to,
+        limit: MAX_EXPORT_ROWS,
+      });
+      const filename = `audit-${farm.id}-${new Date().toISOString().slice(0, 10)}`;
+
+      res.attachment(`${filename}.${query.format}`);
+      if (query.format === "json") {
+        return res.json(entries);
+      }
+      res.type("text/csv").send(toCsv(entries));
+    }),
+  );
+}
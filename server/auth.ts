@@ -0,0 +1,282 @@
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+const log = console.log;
+
+// Google's signing keys for Firebase ID tokens
+const FIREBASE_JWKS_URL =
+  "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+// Tolerated clock drift between us and the token issuer
+const CLOCK_SKEW_SECONDS = 60;
+// Unknown key ids trigger a refetch (Google rotates keys), but at most this
+// often so forged tokens can't make us hammer the key endpoint.
+const MIN_KEY_REFRESH_MS = 60 * 1000;
+
+export type AuthUser = {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      // Why a bearer token was rejected, reported when a route requires a user
+      authError?: string;
+    }
+  }
+}
+
+export class InvalidTokenError extends Error {
+  status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTokenError";
+  }
+}
+
+export interface TokenVerifier {
+  verify(token: string): Promise<AuthUser>;
+}
+
+type JwtHeader = { alg?: string; kid?: string; typ?: string };
+
+type JwtClaims = {
+  sub?: string;
+  aud?: string;
+  iss?: string;
+  exp?: number;
+  iat?: number;
+  auth_time?: number;
+  email?: string;
+  email_verified?: boolean;
+};
+
+type DecodedJwt = {
+  header: JwtHeader;
+  claims: JwtClaims;
+  signedPart: string;
+  signature: Buffer;
+};
+
+const base64url = (data: string | Buffer) =>
+  Buffer.from(data).toString("base64url");
+
+function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new InvalidTokenError("Malformed ID token");
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], "base64url").toString()),
+      claims: JSON.parse(Buffer.from(parts[1], "base64url").toString()),
+      signedPart: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], "base64url"),
+    };
+  } catch {
+    throw new InvalidTokenError("Malformed ID token");
+  }
+}
+
+// Checks the time and subject claims shared by Firebase and local tokens.
+function checkClaims(claims: JwtClaims, now: number): AuthUser {
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new InvalidTokenError("ID token has expired");
+  }
+  if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new InvalidTokenError("ID token was issued in the future");
+  }
+  if (!claims.sub || claims.sub.length > 128) {
+    throw new InvalidTokenError("ID token has no valid subject");
+  }
+
+  return {
+    uid: claims.sub,
+    email: claims.email ?? null,
+    emailVerified: claims.email_verified ?? false,
+  };
+}
+
+/**
+ * Verifies Firebase Auth ID tokens against Google's published signing keys,
+ * following https://firebase.google.com/docs/auth/admin/verify-id-tokens.
+ * Keys are cached for as long as Google's Cache-Control header allows.
+ */
+export class FirebaseTokenVerifier implements TokenVerifier {
+  private keys = new Map<string, KeyObject>();
+  private keysExpireAt = 0;
+  private keysFetchedAt = -Infinity;
+
+  constructor(
+    private projectId: string,
+    private fetchKeys: typeof fetch = fetch,
+    private now: () => number = () => Date.now(),
+  ) {}
+
+  async verify(token: string): Promise<AuthUser> {
+    const { header, claims, signedPart, signature } = decodeJwt(token);
+    if (header.alg !== "RS256" || !header.kid) {
+      throw new InvalidTokenError("ID token has an unexpected algorithm");
+    }
+    if (claims.aud !== this.projectId) {
+      throw new InvalidTokenError("ID token was issued for another project");
+    }
+    if (claims.iss !== `https://securetoken.google.com/${this.projectId}`) {
+      throw new InvalidTokenError("ID token has an unexpected issuer");
+    }
+
+    const nowSeconds = Math.floor(this.now() / 1000);
+    if (
+      typeof claims.auth_time !== "number" ||
+      claims.auth_time - CLOCK_SKEW_SECONDS > nowSeconds
+    ) {
+      throw new InvalidTokenError("ID token has an invalid auth time");
+    }
+
+    const key = await this.getKey(header.kid);
+    if (
+      !key ||
+      !verify("RSA-SHA256", Buffer.from(signedPart), key, signature)
+    ) {
+      throw new InvalidTokenError("ID token signature is invalid");
+    }
+
+    return checkClaims(claims, nowSeconds);
+  }
+
+  private async getKey(kid: string): Promise<KeyObject | undefined> {
+    const now = this.now();
+    const unknown =
+      !this.keys.has(kid) && now - this.keysFetchedAt >= MIN_KEY_REFRESH_MS;
+    if (now >= this.keysExpireAt || unknown) {
+      await this.refreshKeys();
+    }
+    return this.keys.get(kid);
+  }
+
+  private async refreshKeys() {
+    const res = await this.fetchKeys(FIREBASE_JWKS_URL);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch Firebase signing keys: ${res.status}`);
+    }
+
+    const { keys } = (await res.json()) as {
+      keys: (JsonWebKey & { kid: string })[];
+    };
+    this.keys = new Map(
+      keys.map((jwk) => [
+        jwk.kid,
+        createPublicKey({ key: jwk, format: "jwk" }),
+      ]),
+    );
+
+    const maxAge = /max-age=(\d+)/.exec(res.headers.get("cache-control") ?? "");
+    this.keysFetchedAt = this.now();
+    this.keysExpireAt = this.keysFetchedAt + Number(maxAge?.[1] ?? 3600) * 1000;
+    log(`loaded ${this.keys.size} Firebase signing keys`);
+  }
+}
+
+/**
+ * Verifies HS256 tokens signed with a shared secret, so tests and local
+ * scripts can authenticate without a Firebase project. Mint tokens with
+ * `signLocalToken`.
+ */
+export class LocalTokenVerifier implements TokenVerifier {
+  constructor(private secret: string) {}
+
+  async verify(token: string): Promise<AuthUser> {
+    const { header, claims, signedPart, signature } = decodeJwt(token);
+    if (header.alg !== "HS256") {
+      throw new InvalidTokenError("ID token has an unexpected algorithm");
+    }
+
+    const expected = createHmac("sha256", this.secret)
+      .update(signedPart)
+      .digest();
+    if (
+      expected.length !== signature.length ||
+      !timingSafeEqual(expected, signature)
+    ) {
+      throw new InvalidTokenError("ID token signature is invalid");
+    }
+
+    return checkClaims(claims, Math.floor(Date.now() / 1000));
+  }
+}
+
+export function signLocalToken(
+  secret: string,
+  user: { uid: string; email?: string },
+  ttlSeconds = 3600,
+): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const claims = base64url(
+    JSON.stringify({
+      sub: user.uid,
+      email: user.email,
+      email_verified: user.email !== undefined,
+      iat,
+      exp: iat + ttlSeconds,
+    }),
+  );
+  const signature = createHmac("sha256", secret)
+    .update(`${header}.${claims}`)
+    .digest("base64url");
+  return `${header}.${claims}.${signature}`;
+}
+
+export function createTokenVerifier(): TokenVerifier {
+  const localSecret = process.env.AUTH_LOCAL_SECRET;
+  if (localSecret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("AUTH_LOCAL_SECRET must not be set in production");
+    }
+    log("AUTH_LOCAL_SECRET is set; accepting locally signed ID tokens");
+    return new LocalTokenVerifier(localSecret);
+  }
+
+  // Matches the project in client/config/firebase.ts
+  return new FirebaseTokenVerifier(
+    process.env.FIREBASE_PROJECT_ID ?? "agrisense-f4c16",
+  );
+}
+
+/**
+ * Attaches the signed-in user to `req.user` when the request carries a valid
+ * `Authorization: Bearer <Firebase ID token>`. Requests without a token, or
+ * with one that fails verification, continue anonymously; routes that need a
+ * user reject them through `requireUserId`. Device endpoints reuse the
+ * bearer header for TELEMETRY_API_KEY, which simply fails verification here.
+ */
+export function authenticate(verifier: TokenVerifier): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    const header = req.header("authorization") ?? "";
+    if (!header.startsWith("Bearer ")) return next();
+
+    try {
+      req.user = await verifier.verify(header.slice(7));
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError)) {
+        console.error("ID token verification failed:", error);
+      }
+      req.authError =
+        error instanceof InvalidTokenError
+          ? error.message
+          : "Could not verify ID token";
+    }
+    next();
+  };
+}
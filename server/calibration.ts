@@ -0,0 +1,131 @@
+import type { Express } from "express";
+import {
+  insertDeviceCalibrationSchema,
+  sensorMetrics,
+  type SensorMetric,
+  type SensorReading,
+} from "@shared/schema";
+import { describeCalibration } from "@shared/calibration";
+import { loadDevice } from "./access";
+import { recordAudit } from "./audit";
+import { asyncHandler, parseBody } from "./http";
+import { storage } from "./storage";
+
+const log = console.log;
+
+// What the device itself reported, before any calibration
+export function rawValues(
+  reading: SensorReading,
+): Partial<Record<SensorMetric, number>> {
+  const values: Partial<Record<SensorMetric, number>> = {};
+  for (const metric of sensorMetrics) {
+    const value = reading.corrections?.[metric]?.raw ?? reading[metric];
+    if (value !== null) values[metric] = value;
+  }
+  return values;
+}
+
+export function registerCalibrationRoutes(app: Express) {
+  app.get(
+    "/api/devices/:deviceId/calibrations",
+    asyncHandler(async (req, res) => {
+      const device = await loadDevice(req, res, req.params.deviceId, "view");
+      if (!device) return;
+
+      res.json(await storage.getDeviceCalibrations(device.id));
+    }),
+  );
+
+  // The calibration flow captures what the probe reads in a buffer solution
+  // or reference sample from here.
+  app.get(
+    "/api/devices/:deviceId/readings/latest",
+    asyncHandler(async (req, res) => {
+      const device = await loadDevice(req, res, req.params.deviceId, "view");
+      if (!device) return;
+
+      const [reading] = await storage.getRecentSensorReadings(device.id, 1);
+      if (!reading) {
+        return res
+          .status(404)
+          .json({ message: "This device hasn't sent a reading yet" });
+      }
+      res.json({
+        recordedAt: reading.recordedAt,
+        raw: rawValues(reading),
+      });
+    }),
+  );
+
+  // Applies to readings ingested from now on; stored readings keep the
+  // correction they were ingested with.
+  app.post(
+    "/api/devices/:deviceId/calibrations",
+    asyncHandler(async (req, res) => {
+      const device = await loadDevice(
+        req,
+        res,
+        req.params.deviceId,
+        "manageDevices",
+      );
+      if (!device) return;
+
+      const data = parseBody(insertDeviceCalibrationSchema, req, res);
+      if (!data) return;
+
+      const calibration = await storage.saveDeviceCalibration({
+        deviceId: device.id,
+        metric: data.metric,
+        definition: data.definition,
+        soilType: data.soilType ?? null,
+        note: data.note ?? null,
+        createdBy: req.user?.uid ?? "anonymous",
+      });
+      await recordAudit(req, {
+        farmId: device.farmId,
+        action: "device.calibrate",
+        targetId: device.id,
+        after: {
+          metric: calibration.metric,
+          calibration: describeCalibration(calibration.definition),
+        },
+      });
+      log(`device ${device.id}: calibrated ${calibration.metric}`);
+      res.status(201).json(calibration);
+    }),
+  );
+
+  // Goes back to storing the device's raw values for the metric.
+  app.delete(
+    "/api/devices/:deviceId/calibrations/:metric",
+    asyncHandler(async (req, res) => {
+      const device = await loadDevice(
+        req,
+        res,
+        req.params.deviceId,
+        "manageDevices",
+      );
+      if (!device) return;
+
+      const metric = sensorMetrics.find((m) => m === req.params.metric);
+      const retired =
+        metric && (await storage.retireDeviceCalibration(device.id, metric));
+      if (!retired) {
+        return res
+          .status(404)
+          .json({ message: "No calibration is in force for that metric" });
+      }
+
+      await recordAudit(req, {
+        farmId: device.farmId,
+        action: "device.resetCalibration",
+        targetId: device.id,
+        before: {
+          metric: retired.metric,
+          calibration: describeCalibration(retired.definition),
+        },
+      });
+      res.sendStatus(204);
+    }),
+  );
+}
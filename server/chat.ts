@@ -0,0 +1,403 @@
+import type { Express, Response } from "express";
+import Groq, {
+  APIConnectionError,
+  APIError,
+  APIUserAbortError,
+} from "groq-sdk";
+import { z } from "zod";
+import {
+  chatModels,
+  DEFAULT_CHAT_MODEL,
+  type ChatModelId,
+  type ChatStreamEvent,
+  type ChatUsageSummary,
+} from "@shared/chat";
+import {
+  cropStage,
+  describeStage,
+  findCrop,
+  localDateString,
+  type Crop,
+  type CropStage,
+} from "@shared/crops";
+import { primaryCrop } from "@shared/health";
+import type { Farm } from "@shared/schema";
+import { loadFarm, requireUserId } from "./access";
+import { asyncHandler, parseBody } from "./http";
+import { storage } from "./storage";
+import { farmDate } from "./weather";
+
+const SYSTEM_PROMPT = `You are AgriSense AI, an expert agricultural assistant with 15 years of experience. You provide:
+1. Data-driven crop management advice
+2. Weather impact analysis and forecasting
+3. Soil health optimization strategies
+4. Pest/disease identification and organic treatment plans
+5. Precision irrigation scheduling
+6. Yield optimization techniques
+7. Sustainable farming practices
+8. Market trend analysis
+9. Farm equipment recommendations
+10. Government subsidy guidance
+
+Guidelines:
+- Always use metric units (hectares, liters, kg, °C)
+- Be specific with numbers and data
+- Reference scientific studies when possible
+- Consider regional variations
+- Prioritize cost-effective solutions
+- Emphasize sustainability
+- Include safety precautions
+- Suggest monitoring timelines
+- Provide step-by-step implementation
+- Mention alternative options`;
+
+export class ChatQuotaError extends Error {
+  status = 429;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatQuotaError";
+  }
+}
+
+function chatLimits() {
+  return {
+    requestLimit: Number(process.env.CHAT_DAILY_REQUEST_LIMIT) || 100,
+    tokenLimit: Number(process.env.CHAT_DAILY_TOKEN_LIMIT) || 100_000,
+  };
+}
+
+// Quotas reset at midnight UTC.
+function usageDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export async function getChatUsage(
+  userId: string,
+  now = new Date(),
+): Promise<ChatUsageSummary> {
+  const usage = await storage.getChatUsage(userId, usageDay(now));
+  return {
+    requests: usage?.requests ?? 0,
+    tokens: usage?.tokens ?? 0,
+    ...chatLimits(),
+  };
+}
+
+/**
+ * Counts a request against the caller's daily quota, throwing a
+ * ChatQuotaError if either the request or the token allowance is used up.
+ * Tokens are only known once the answer is complete, so they are added
+ * afterwards with `recordChatTokens`. Requests the AI service never answers
+ * are handed back with `releaseChatRequest`.
+ */
+export async function reserveChatRequest(
+  userId: string,
+  now = new Date(),
+): Promise<void> {
+  const day = usageDay(now);
+  const { requestLimit, tokenLimit } = chatLimits();
+
+  const usage = await storage.addChatUsage(userId, day, {
+    requests: 1,
+    tokens: 0,
+  });
+  if (usage.requests > requestLimit || usage.tokens >= tokenLimit) {
+    // Refused requests don't count towards the quota.
+    await releaseChatRequest(userId, now);
+    throw new ChatQuotaError(
+      "Daily AI chat limit reached. It resets at midnight UTC.",
+    );
+  }
+}
+
+// `now` is when the request was reserved, so it comes off the same day.
+export async function releaseChatRequest(
+  userId: string,
+  now: Date,
+): Promise<void> {
+  await storage.addChatUsage(userId, usageDay(now), {
+    requests: -1,
+    tokens: 0,
+  });
+}
+
+export async function recordChatTokens(
+  userId: string,
+  tokens: number,
+  now = new Date(),
+): Promise<ChatUsageSummary> {
+  const usage = await storage.addChatUsage(userId, usageDay(now), {
+    requests: 0,
+    tokens,
+  });
+  return { requests: usage.requests, tokens: usage.tokens, ...chatLimits() };
+}
+
+let groq: Groq | undefined;
+
+// The provider key only ever lives on the server.
+function getGroqClient(): Groq | undefined {
+  const apiKey = process.env.GROQ_API_KEY;
+  if (!apiKey) return undefined;
+
+  groq ??= new Groq({ apiKey });
+  return groq;
+}
+
+// Maps provider failures onto what the app should show, without leaking
+// details about the server's credentials.
+function describeProviderError(error: unknown): {
+  status: number;
+  message: string;
+} {
+  if (error instanceof APIConnectionError) {
+    return { status: 502, message: "Could not reach the AI service" };
+  }
+  if (error instanceof APIError) {
+    if (error.status === 429) {
+      return {
+        status: 503,
+        message: "The AI service is busy. Please try again shortly.",
+      };
+    }
+    if (error.status === 404 || error.message.includes("decommissioned")) {
+      return {
+        status: 400,
+        message:
+          "The selected AI model is no longer available. Please choose another model in settings.",
+      };
+    }
+  }
+  return { status: 502, message: "The AI service failed to answer" };
+}
+
+const chatModelIds = chatModels.map((model) => model.id) as [
+  ChatModelId,
+  ...ChatModelId[],
+];
+
+const chatRequestSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string().min(1).max(8000),
+      }),
+    )
+    .min(1)
+    .max(20),
+  model: z.enum(chatModelIds).default(DEFAULT_CHAT_MODEL),
+  temperature: z.number().min(0).max(2).default(0.7),
+  maxTokens: z.number().int().min(1).max(4096).default(1024),
+  stream: z.boolean().default(true),
+  farmId: z.string().min(1).optional(),
+});
+
+type ChatRequestBody = z.infer<typeof chatRequestSchema>;
+
+const formatBand = ([low, high]: [number, number]) => `${low}-${high}`;
+
+/**
+ * What the model is told about the farm being asked about: its soil, its
+ * latest readings, and for each field the crop, where it is in its season
+ * and what it needs, so advice fits the crop's stage rather than the crop
+ * in general.
+ */
+export async function describeFarmForChat(
+  farm: Farm,
+  now = new Date(),
+): Promise<string> {
+  const today = farm.coordinates
+    ? farmDate(farm.coordinates, now)
+    : localDateString(now);
+  const [fields, snapshot] = await Promise.all([
+    storage.getFieldsByFarm(farm.id),
+    storage.getSensorData(farm.id),
+  ]);
+
+  const lines = [
+    `The user is asking about their farm "${farm.name}"${farm.location ? ` in ${farm.location}` : ""}. Today is ${today}.`,
+    `Soil: ${farm.soilType || "unknown"}. Irrigation: ${farm.irrigationType}. Size: ${farm.totalAcres} acres.`,
+  ];
+  if (snapshot) {
+    lines.push(
+      `Latest readings (${snapshot.lastUpdated.toISOString()}): soil moisture ${snapshot.soilMoisture}%, pH ${snapshot.pH}, soil temperature ${snapshot.temperature} °C, nitrogen ${snapshot.nitrogen}, phosphorus ${snapshot.phosphorus} and potassium ${snapshot.potassium} mg/kg.`,
+    );
+  }
+
+  const describeCrop = (crop: Crop, stage: CropStage) =>
+    `${describeStage(crop, stage)}; Kc ${stage.kc.toFixed(2)}, roots ${stage.rootDepth.toFixed(1)} m, optimal soil moisture ${formatBand(crop.soilMoisture.healthy)}%, pH ${formatBand(crop.pH.healthy)}, nitrogen ${formatBand(crop.nutrientRanges.nitrogen)}, phosphorus ${formatBand(crop.nutrientRanges.phosphorus)} and potassium ${formatBand(crop.nutrientRanges.potassium)} mg/kg`;
+
+  if (fields.length > 0) {
+    lines.push("Fields:");
+    for (const field of fields) {
+      const crop = findCrop(field.cropType ?? primaryCrop(farm));
+      const detail = crop
+        ? describeCrop(crop, cropStage(crop, field.plantedOn, today))
+        : field.cropType || "crop unknown";
+      lines.push(`- ${field.name} (${field.acres} acres): ${detail}`);
+    }
+  } else {
+    const crops = farm.cropTypes.flatMap((name) => {
+      const crop = findCrop(name);
+      return crop
+        ? [`- ${describeCrop(crop, cropStage(crop, null, today))}`]
+        : [];
+    });
+    if (farm.cropTypes.length > 0) {
+      lines.push(`Crops: ${farm.cropTypes.join(", ")}`, ...crops);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function completionParams(body: ChatRequestBody, farmContext?: string) {
+  const system = farmContext
+    ? `${SYSTEM_PROMPT}\n\n${farmContext}`
+    : SYSTEM_PROMPT;
+  return {
+    messages: [{ role: "system" as const, content: system }, ...body.messages],
+    model: body.model,
+    temperature: body.temperature,
+    max_tokens: body.maxTokens,
+    top_p: 0.9,
+    frequency_penalty: 0.1,
+    presence_penalty: 0.1,
+  };
+}
+
+async function streamCompletion(
+  client: Groq,
+  userId: string,
+  body: ChatRequestBody,
+  res: Response,
+  requestedAt: Date,
+  farmContext?: string,
+) {
+  let stream;
+  try {
+    stream = await client.chat.completions.create({
+      ...completionParams(body, farmContext),
+      stream: true,
+    });
+  } catch (error) {
+    console.error("Chat completion failed:", error);
+    // Unanswered requests don't count towards the quota either.
+    await releaseChatRequest(userId, requestedAt);
+    const { status, message } = describeProviderError(error);
+    return res.status(status).json({ message });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+  const send = (event: ChatStreamEvent) =>
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+  // Stop paying for tokens nobody will read.
+  res.on("close", () => {
+    if (!res.writableEnded) stream.controller.abort();
+  });
+
+  let tokens = 0;
+  try {
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) send({ type: "delta", content });
+      tokens = chunk.x_groq?.usage?.total_tokens ?? tokens;
+    }
+    send({ type: "done", usage: await recordChatTokens(userId, tokens) });
+  } catch (error) {
+    if (!(error instanceof APIUserAbortError)) {
+      console.error("Chat stream failed:", error);
+      send({ type: "error", message: describeProviderError(error).message });
+    }
+    if (tokens > 0) await recordChatTokens(userId, tokens);
+  } finally {
+    res.end();
+  }
+}
+
+export function registerChatRoutes(app: Express) {
+  app.get(
+    "/api/chat/status",
+    asyncHandler(async (req, res) => {
+      const userId = requireUserId(req, res);
+      if (!userId) return;
+
+      res.json({
+        available: getGroqClient() !== undefined,
+        usage: await getChatUsage(userId),
+      });
+    }),
+  );
+
+  app.post(
+    "/api/chat",
+    asyncHandler(async (req, res) => {
+      const userId = requireUserId(req, res);
+      if (!userId) return;
+
+      const body = parseBody(chatRequestSchema, req, res);
+      if (!body) return;
+
+      const client = getGroqClient();
+      if (!client) {
+        return res.status(503).json({ message: "AI chat is not configured" });
+      }
+
+      let farmContext: string | undefined;
+      if (body.farmId) {
+        const farm = await loadFarm(req, res, body.farmId, "view");
+        if (!farm) return;
+        farmContext = await describeFarmForChat(farm);
+      }
+
+      const requestedAt = new Date();
+      try {
+        await reserveChatRequest(userId, requestedAt);
+      } catch (error) {
+        if (error instanceof ChatQuotaError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      if (body.stream) {
+        return streamCompletion(
+          client,
+          userId,
+          body,
+          res,
+          requestedAt,
+          farmContext,
+        );
+      }
+
+      let completion;
+      try {
+        completion = await client.chat.completions.create({
+          ...completionParams(body, farmContext),
+          stream: false,
+        });
+      } catch (error) {
+        console.error("Chat completion failed:", error);
+        await releaseChatRequest(userId, requestedAt);
+        const { status, message } = describeProviderError(error);
+        return res.status(status).json({ message });
+      }
+
+      res.json({
+        content: completion.choices[0]?.message?.content ?? "",
+        usage: await recordChatTokens(
+          userId,
+          completion.usage?.total_tokens ?? 0,
+        ),
+      });
+    }),
+  );
+}
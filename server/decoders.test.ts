@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+  decoderRegistry,
+  draginoLse01,
+  draginoLsph01,
+  milesightEm500Smtc,
+  networkServerDecoded,
+  type UplinkFrame,
+} from "./decoders";
+import { TelemetryError } from "./telemetry";
+
+const frame = (fPort: number, hex: string): UplinkFrame => ({
+  fPort,
+  bytes: Buffer.from(hex.replace(/\s/g, ""), "hex"),
+});
+
+// Uplinks as the devices send them: hex payloads on their data port
+const fixtures = {
+  // 3356 mV battery, no DS18B20, 15.00 %, 25.00 °C, 110 µS/cm, flags
+  lse01: frame(2, "0d1c 0000 05dc 09c4 006e 00"),
+  // Frozen ground: -5.00 °C
+  lse01Frozen: frame(2, "0d1c 0000 0320 fe0c 0000 00"),
+  // 3300 mV battery, no DS18B20, pH 7.00, 24.5 °C, no interrupt
+  lsph01: frame(2, "0ce4 0000 02bc 00f5 00"),
+  // 92 % battery, 30.8 °C, 61 % (0.5 % steps), 60 µS/cm
+  em500: frame(85, "0175 5c 0367 3401 0468 7a 057f 3c00"),
+  // Newer firmware: 30.00 % in 0.01 % steps, -1.2 °C
+  em500Fine: frame(85, "04ca b80b 0367 f4ff"),
+  // Sent on join: protocol, hardware and firmware versions, power on,
+  // class and serial number
+  em500DeviceInfo: frame(
+    85,
+    "ff01 01 ff09 0140 ff0a 0114 ff0b ff ff0f 00 ff16 6746d38802580000",
+  ),
+};
+
+describe("draginoLse01", () => {
+  it("reads moisture and soil temperature from port 2", () => {
+    expect(draginoLse01.decode(fixtures.lse01)).toEqual({
+      soilMoisture: 15,
+      temperature: 25,
+    });
+    expect(draginoLse01.decode(fixtures.lse01Frozen)).toEqual({
+      soilMoisture: 8,
+      temperature: -5,
+    });
+  });
+
+  it("returns nothing for other ports", () => {
+    expect(draginoLse01.decode(frame(5, "16010001"))).toEqual({});
+  });
+
+  it("rejects short frames", () => {
+    expect(() => draginoLse01.decode(frame(2, "0d1c0000"))).toThrow(
+      TelemetryError,
+    );
+  });
+});
+
+describe("draginoLsph01", () => {
+  it("reads pH and soil temperature from port 2", () => {
+    expect(draginoLsph01.decode(fixtures.lsph01)).toEqual({
+      pH: 7,
+      temperature: 24.5,
+    });
+  });
+
+  it("rejects short frames", () => {
+    expect(() => draginoLsph01.decode(frame(2, "0ce40000"))).toThrow(
+      TelemetryError,
+    );
+  });
+});
+
+describe("milesightEm500Smtc", () => {
+  it("reads each entry of a port 85 frame", () => {
+    expect(milesightEm500Smtc.decode(fixtures.em500)).toEqual({
+      battery: 92,
+      temperature: 30.8,
+      soilMoisture: 61,
+    });
+    expect(milesightEm500Smtc.decode(fixtures.em500Fine)).toEqual({
+      soilMoisture: 30,
+      temperature: -1.2,
+    });
+  });
+
+  it("returns nothing for device information", () => {
+    expect(milesightEm500Smtc.decode(fixtures.em500DeviceInfo)).toEqual({});
+  });
+
+  it("keeps the values before an unknown entry", () => {
+    expect(
+      milesightEm500Smtc.decode(frame(85, "0175 5c 0999 aabbcc 0367 3401")),
+    ).toEqual({ battery: 92 });
+  });
+
+  it("returns nothing for other ports", () => {
+    expect(milesightEm500Smtc.decode(frame(2, "0175 5c"))).toEqual({});
+  });
+
+  it("rejects truncated entries", () => {
+    expect(() =>
+      milesightEm500Smtc.decode(frame(85, "0175 5c 0367 34")),
+    ).toThrow(TelemetryError);
+  });
+});
+
+describe("networkServerDecoded", () => {
+  const decoded = (fields: Record<string, unknown>): UplinkFrame => ({
+    fPort: 2,
+    bytes: Buffer.alloc(0),
+    decoded: fields,
+  });
+
+  it("maps The Things Stack's Dragino formatter output", () => {
+    expect(
+      networkServerDecoded.decode(
+        decoded({
+          Bat: 3.356,
+          Water_SOIL: "15.00",
+          Temp_SOIL: "25.00",
+          conduct_SOIL: 110,
+          Mod: 0,
+        }),
+      ),
+    ).toEqual({ soilMoisture: 15, temperature: 25 });
+  });
+
+  it("maps ChirpStack codec output", () => {
+    expect(
+      networkServerDecoded.decode(
+        decoded({ PH1_SOIL: 6.8, soil_temperature: 19.5, nitrogen: 42 }),
+      ),
+    ).toEqual({ pH: 6.8, temperature: 19.5, nitrogen: 42 });
+  });
+
+  it("skips values that aren't numbers", () => {
+    expect(
+      networkServerDecoded.decode(
+        decoded({ moisture: "n/a", ph: null, temperature: 18 }),
+      ),
+    ).toEqual({ temperature: 18 });
+  });
+
+  it("rejects uplinks without a decoded payload", () => {
+    expect(() => networkServerDecoded.decode(frame(2, "0d1c0000"))).toThrow(
+      TelemetryError,
+    );
+  });
+});
+
+describe("decoderRegistry", () => {
+  it("has every built-in decoder", () => {
+    expect(decoderRegistry.list().map((decoder) => decoder.id)).toEqual([
+      "dragino-lse01",
+      "dragino-lsph01",
+      "milesight-em500-smtc",
+      "network-server",
+    ]);
+  });
+
+  it("refuses a second decoder with the same id", () => {
+    expect(() => decoderRegistry.register(draginoLse01)).toThrow(
+      /already registered/,
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import type { SensorMetric } from "@shared/schema";
+import { TelemetryError } from "./telemetry";
+
+// Sensor values plus the device's battery level in percent, when reported
+export type DecodedValues = Partial<Record<SensorMetric | "battery", number>>;
+
+// What a decoder gets from an uplink, whichever network server delivered it
+export type UplinkFrame = {
+  fPort: number;
+  bytes: Buffer;
+  // Fields the network server's own payload formatter produced, if any
+  decoded?: Record<string, unknown>;
+};
+
+/**
+ * Turns one sensor model's uplink into readings. Decoders throw a
+ * `TelemetryError` for frames they can't read, and return no values for
+ * frames that carry none (status or configuration ports).
+ */
+export interface UplinkDecoder {
+  id: string;
+  name: string;
+  decode(frame: UplinkFrame): DecodedValues;
+}
+
+export class DecoderRegistry {
+  private decoders = new Map<string, UplinkDecoder>();
+
+  register(decoder: UplinkDecoder): void {
+    if (this.decoders.has(decoder.id)) {
+      throw new Error(`A decoder with id ${decoder.id} is already registered`);
+    }
+    this.decoders.set(decoder.id, decoder);
+  }
+
+  get(id: string): UplinkDecoder | undefined {
+    return this.decoders.get(id);
+  }
+
+  list(): UplinkDecoder[] {
+    return Array.from(this.decoders.values());
+  }
+}
+
+function requireLength(frame: UplinkFrame, length: number, model: string) {
+  if (frame.bytes.length < length) {
+    throw new TelemetryError(
+      `${model} frames are ${length} bytes, got ${frame.bytes.length}`,
+    );
+  }
+}
+
+// Dragino LSE01 soil moisture & EC probe. Port 2 carries battery, an optional
+// DS18B20 probe, then moisture (0.01 %), soil temperature (0.01 °C, signed)
+// and conductivity, all big-endian.
+export const draginoLse01: UplinkDecoder = {
+  id: "dragino-lse01",
+  name: "Dragino LSE01 soil moisture & EC",
+  decode(frame) {
+    if (frame.fPort !== 2) return {};
+    requireLength(frame, 10, "LSE01");
+
+    return {
+      soilMoisture: frame.bytes.readUInt16BE(4) / 100,
+      temperature: frame.bytes.readInt16BE(6) / 100,
+    };
+  },
+};
+
+// Dragino LSPH01 soil pH probe. Port 2 carries battery, an optional DS18B20
+// probe, then pH (0.01) and soil temperature (0.1 °C, signed).
+export const draginoLsph01: UplinkDecoder = {
+  id: "dragino-lsph01",
+  name: "Dragino LSPH01 soil pH",
+  decode(frame) {
+    if (frame.fPort !== 2) return {};
+    requireLength(frame, 8, "LSPH01");
+
+    return {
+      pH: frame.bytes.readUInt16BE(4) / 100,
+      temperature: frame.bytes.readInt16BE(6) / 10,
+    };
+  },
+};
+
+// Milesight EM500-SMTC soil moisture, temperature & EC. Port 85 frames are a
+// series of channel, type and little-endian value entries. Older firmware
+// reports moisture in 0.5 % steps (type 0x68), newer in 0.01 % (type 0xca).
+// Channel 0xff carries device information, sent on join and on request.
+const EM500_PORT = 85;
+const EM500_VALUE_SIZES: Record<number, number> = {
+  0x0175: 1, // battery, %
+  0x0367: 2, // temperature, 0.1 °C
+  0x0468: 1, // moisture, 0.5 %
+  0x04ca: 2, // moisture, 0.01 %
+  0x057f: 2, // conductivity, µS/cm
+  0xff01: 1, // protocol version
+  0xff09: 2, // hardware version
+  0xff0a: 2, // firmware version
+  0xff0b: 1, // powered on
+  0xff0f: 1, // LoRaWAN class
+  0xff16: 8, // serial number
+};
+
+export const milesightEm500Smtc: UplinkDecoder = {
+  id: "milesight-em500-smtc",
+  name: "Milesight EM500-SMTC soil moisture, temperature & EC",
+  decode({ fPort, bytes }) {
+    if (fPort !== EM500_PORT) return {};
+    const values: DecodedValues = {};
+
+    let i = 0;
+    while (i + 2 <= bytes.length) {
+      const entry = (bytes[i] << 8) | bytes[i + 1];
+      const size = EM500_VALUE_SIZES[entry];
+      const at = i + 2;
+      // Newer firmware adds entries; their size is unknown, so the rest of
+      // the frame can't be read, but what came before it still counts
+      if (size === undefined) break;
+      if (at + size > bytes.length) {
+        throw new TelemetryError("Truncated EM500-SMTC frame");
+      }
+
+      if (entry === 0x0175) values.battery = bytes.readUInt8(at);
+      if (entry === 0x0367) values.temperature = bytes.readInt16LE(at) / 10;
+      if (entry === 0x0468) values.soilMoisture = bytes.readUInt8(at) / 2;
+      if (entry === 0x04ca) values.soilMoisture = bytes.readUInt16LE(at) / 100;
+      i = at + size;
+    }
+    return values;
+  },
+};
+
+// Field names seen from network-server payload formatters and older
+// firmware, mapped to our metrics.
+const DECODED_FIELD_ALIASES: Record<string, SensorMetric> = {
+  soilmoisture: "soilMoisture",
+  soil_moisture: "soilMoisture",
+  "soil moisture": "soilMoisture",
+  water_soil: "soilMoisture",
+  moisture: "soilMoisture",
+  ph: "pH",
+  ph1_soil: "pH",
+  soil_ph: "pH",
+  temperature: "temperature",
+  temp_soil: "temperature",
+  soil_temperature: "temperature",
+  nitrogen: "nitrogen",
+  phosphorus: "phosphorus",
+  potassium: "potassium",
+};
+
+// For devices whose payload the network server already decodes: reads the
+// formatter's output instead of the raw bytes.
+export const networkServerDecoded: UplinkDecoder = {
+  id: "network-server",
+  name: "Decoded by the network server",
+  decode(frame) {
+    if (!frame.decoded) {
+      throw new TelemetryError("The uplink has no decoded payload");
+    }
+
+    const values: DecodedValues = {};
+    for (const [field, value] of Object.entries(frame.decoded)) {
+      const metric = DECODED_FIELD_ALIASES[field.toLowerCase()];
+      const number = typeof value === "string" ? Number(value) : value;
+      if (metric && typeof number === "number" && Number.isFinite(number)) {
+        values[metric] = number;
+      }
+    }
+    return values;
+  },
+};
+
+export const decoderRegistry = new DecoderRegistry();
+[draginoLse01, draginoLsph01, milesightEm500Smtc, networkServerDecoded].forEach(
+  (decoder) => decoderRegistry.register(decoder),
+);
+
+// Adds a decoder for a sensor model that isn't built in. Ids are what uplink
+// webhooks name in their `decoder` parameter.
+export function registerDecoder(decoder: UplinkDecoder): void {
+  decoderRegistry.register(decoder);
+}
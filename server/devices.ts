@@ -0,0 +1,225 @@
+import type { Express, Response } from "express";
+import { randomBytes } from "node:crypto";
+import {
+  insertDeviceSchema,
+  updateDeviceSchema,
+  type Device,
+} from "@shared/schema";
+import {
+  isDeviceOnline,
+  type DeviceResponse,
+  type ProvisionedDevice,
+} from "@shared/devices";
+import { loadDevice, loadFarm, loadFarmAccess } from "./access";
+import { changedValues, recordAudit } from "./audit";
+import { decoderRegistry } from "./decoders";
+import { asyncHandler, parseBody } from "./http";
+import { storage } from "./storage";
+import { hashDeviceSecret } from "./telemetry";
+
+const log = console.log;
+
+export function toDeviceResponse(
+  device: Device,
+  now = new Date(),
+): DeviceResponse {
+  const { secretHash: _secretHash, ...rest } = device;
+  return { ...rest, online: isDeviceOnline(device.lastSeenAt, now) };
+}
+
+function withNewSecret(device: Device, secret: string): ProvisionedDevice {
+  return { ...toDeviceResponse(device), secret };
+}
+
+function generateDeviceSecret(): string {
+  return `dev_${randomBytes(24).toString("base64url")}`;
+}
+
+// Checks the parts of a provisioning or update request that depend on the
+// farm: the field must be one of its own and the decoder must exist.
+async function checkPlacement(
+  res: Response,
+  farmId: string,
+  placement: { fieldId?: string | null; decoder?: string | null },
+): Promise<boolean> {
+  if (placement.fieldId) {
+    const field = await storage.getField(placement.fieldId);
+    if (!field || field.farmId !== farmId) {
+      res.status(400).json({ message: "Unknown field for this farm" });
+      return false;
+    }
+  }
+  if (placement.decoder && !decoderRegistry.get(placement.decoder)) {
+    res.status(400).json({ message: `Unknown decoder: ${placement.decoder}` });
+    return false;
+  }
+  return true;
+}
+
+export function registerDeviceRoutes(app: Express) {
+  app.get(
+    "/api/farms/:farmId/devices",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "view");
+      if (!farm) return;
+
+      const now = new Date();
+      const devices = await storage.getDevicesByFarm(farm.id);
+      res.json(devices.map((device) => toDeviceResponse(device, now)));
+    }),
+  );
+
+  // Responds with the device's telemetry secret. It is only ever shown here
+  // and when rotated, so the installer has to copy it onto the device now.
+  app.post(
+    "/api/farms/:farmId/devices",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(
+        req,
+        res,
+        req.params.farmId,
+        "manageDevices",
+      );
+      if (!access) return;
+
+      const data = parseBody(insertDeviceSchema, req, res);
+      if (!data) return;
+
+      const { farm, userId } = access;
+      if (!(await checkPlacement(res, farm.id, data))) return;
+
+      // Decommissioned ids can be provisioned again, on any farm.
+      const existing = await storage.getDevice(data.id);
+      if (existing?.status === "active") {
+        return res
+          .status(409)
+          .json({ message: `Device ${data.id} is already registered` });
+      }
+
+      const secret = generateDeviceSecret();
+      const provisioned = {
+        farmId: farm.id,
+        fieldId: data.fieldId ?? null,
+        name: data.name,
+        type: data.type,
+        zone: data.zone ?? null,
+        installDepthCm: data.installDepthCm ?? null,
+        decoder: data.decoder ?? null,
+        secretHash: hashDeviceSecret(secret),
+        provisionedBy: userId,
+      };
+      const device = existing
+        ? await storage.updateDevice(existing.id, {
+            ...provisioned,
+            status: "active",
+            battery: null,
+            firmwareVersion: null,
+            lastSeenAt: null,
+            maintenanceReason: null,
+            createdAt: new Date(),
+            decommissionedAt: null,
+          })
+        : await storage.createDevice({ id: data.id, ...provisioned });
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "device.provision",
+        targetId: device.id,
+        after: {
+          name: device.name,
+          type: device.type,
+          fieldId: device.fieldId,
+        },
+      });
+      log(`farm ${farm.id}: provisioned device ${device.id}`);
+      res.status(201).json(withNewSecret(device, secret));
+    }),
+  );
+
+  app.patch(
+    "/api/devices/:deviceId",
+    asyncHandler(async (req, res) => {
+      const device = await loadDevice(
+        req,
+        res,
+        req.params.deviceId,
+        "manageDevices",
+      );
+      if (!device) return;
+
+      const data = parseBody(updateDeviceSchema, req, res);
+      if (!data) return;
+      if (!(await checkPlacement(res, device.farmId, data))) return;
+
+      const updated = await storage.updateDevice(device.id, data);
+      await recordAudit(req, {
+        farmId: device.farmId,
+        action: "device.update",
+        targetId: device.id,
+        ...changedValues(device, data),
+      });
+      res.json(updated && toDeviceResponse(updated));
+    }),
+  );
+
+  // Replaces a lost or leaked secret. The old one stops working immediately.
+  app.post(
+    "/api/devices/:deviceId/secret",
+    asyncHandler(async (req, res) => {
+      const device = await loadDevice(
+        req,
+        res,
+        req.params.deviceId,
+        "manageDevices",
+      );
+      if (!device) return;
+
+      const secret = generateDeviceSecret();
+      const updated = await storage.updateDevice(device.id, {
+        secretHash: hashDeviceSecret(secret),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      await recordAudit(req, {
+        farmId: device.farmId,
+        action: "device.rotateSecret",
+        targetId: device.id,
+      });
+      res.json(withNewSecret(updated, secret));
+    }),
+  );
+
+  // Decommissioning revokes the device's secret and stops it being matched to
+  // incoming readings. The record stays so its history still has a name.
+  app.delete(
+    "/api/devices/:deviceId",
+    asyncHandler(async (req, res) => {
+      const device = await loadDevice(
+        req,
+        res,
+        req.params.deviceId,
+        "manageDevices",
+      );
+      if (!device) return;
+
+      await storage.updateDevice(device.id, {
+        status: "decommissioned",
+        secretHash: null,
+        decommissionedAt: new Date(),
+      });
+      await recordAudit(req, {
+        farmId: device.farmId,
+        action: "device.decommission",
+        targetId: device.id,
+        before: { name: device.name, type: device.type },
+      });
+      log(`farm ${device.farmId}: decommissioned device ${device.id}`);
+      res.sendStatus(204);
+    }),
+  );
+}
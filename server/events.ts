@@ -0,0 +1,17 @@
+import { EventEmitter } from "node:events";
+import type { Alert, IrrigationLog, SensorData } from "@shared/schema";
+
+export type FarmEventMap = {
+  sensorData: [SensorData];
+  irrigationRun: [IrrigationLog];
+  alert: [Alert];
+};
+
+/**
+ * In-process notifications of farm state changes, emitted after the change is
+ * stored. Live updates fan these out to subscribed clients; anything else that
+ * needs to react to new readings or run changes can listen here too.
+ */
+export class FarmEvents extends EventEmitter<FarmEventMap> {}
+
+export const farmEvents = new FarmEvents();
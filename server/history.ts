@@ -0,0 +1,169 @@
+import type { Express } from "express";
+import { z } from "zod";
+import {
+  sensorMetrics,
+  type SensorMetric,
+  type SensorReading,
+} from "@shared/schema";
+import {
+  historyRanges,
+  type FieldHistory,
+  type HistoryBucket,
+  type HistoryPoint,
+  type HistoryRange,
+  type Trend,
+} from "@shared/history";
+import { asyncHandler, parseInput } from "./http";
+import { loadField } from "./access";
+import { storage } from "./storage";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const RANGES: Record<HistoryRange, { span: number; bucket: HistoryBucket }> = {
+  "24h": { span: DAY_MS, bucket: "hour" },
+  "7d": { span: 7 * DAY_MS, bucket: "hour" },
+  "30d": { span: 30 * DAY_MS, bucket: "day" },
+};
+
+// Smallest change between the first and last bucket that counts as a trend
+// rather than sensor noise.
+const TREND_THRESHOLDS: Record<SensorMetric, number> = {
+  soilMoisture: 2,
+  pH: 0.1,
+  temperature: 0.5,
+  nitrogen: 2,
+  phosphorus: 2,
+  potassium: 2,
+};
+
+function bucketStart(time: Date, bucket: HistoryBucket): number {
+  const size = bucket === "hour" ? HOUR_MS : DAY_MS;
+  return Math.floor(time.getTime() / size) * size;
+}
+
+/**
+ * Groups readings into UTC hour or day buckets with min/avg/max per metric.
+ * Readings must be ordered oldest first; empty buckets are omitted. Values
+ * that failed a quality check are left out.
+ */
+export function downsample(
+  readings: SensorReading[],
+  bucket: HistoryBucket,
+): HistoryPoint[] {
+  const buckets = new Map<
+    number,
+    { point: HistoryPoint; sums: Partial<Record<SensorMetric, number>> }
+  >();
+
+  for (const reading of readings) {
+    const start = bucketStart(reading.recordedAt, bucket);
+    let entry = buckets.get(start);
+    if (!entry) {
+      entry = { point: { start: new Date(start).toISOString() }, sums: {} };
+      buckets.set(start, entry);
+    }
+
+    for (const metric of sensorMetrics) {
+      const value = reading[metric];
+      if (value === null || reading.quality?.[metric]) continue;
+
+      const stats = entry.point[metric];
+      if (stats) {
+        stats.min = Math.min(stats.min, value);
+        stats.max = Math.max(stats.max, value);
+        stats.count += 1;
+      } else {
+        entry.point[metric] = { min: value, avg: value, max: value, count: 1 };
+      }
+      entry.sums[metric] = (entry.sums[metric] ?? 0) + value;
+    }
+  }
+
+  return Array.from(buckets.values()).map(({ point, sums }) => {
+    for (const metric of sensorMetrics) {
+      const stats = point[metric];
+      if (stats) {
+        stats.avg = Math.round((sums[metric]! / stats.count) * 100) / 100;
+      }
+    }
+    return point;
+  });
+}
+
+export function computeTrends(
+  series: HistoryPoint[],
+): Partial<Record<SensorMetric, Trend>> {
+  const trends: Partial<Record<SensorMetric, Trend>> = {};
+
+  for (const metric of sensorMetrics) {
+    const values = series.flatMap((point) => {
+      const stats = point[metric];
+      return stats ? [stats.avg] : [];
+    });
+    if (values.length === 0) continue;
+
+    const change = values[values.length - 1] - values[0];
+    if (Math.abs(change) < TREND_THRESHOLDS[metric]) {
+      trends[metric] = "stable";
+    } else {
+      trends[metric] = change > 0 ? "up" : "down";
+    }
+  }
+
+  return trends;
+}
+
+function latestValues(
+  readings: SensorReading[],
+): Partial<Record<SensorMetric, number>> {
+  const latest: Partial<Record<SensorMetric, number>> = {};
+  for (const reading of readings) {
+    for (const metric of sensorMetrics) {
+      const value = reading[metric];
+      if (value !== null && !reading.quality?.[metric]) latest[metric] = value;
+    }
+  }
+  return latest;
+}
+
+export async function getFieldHistory(
+  fieldId: string,
+  range: HistoryRange,
+  now = new Date(),
+): Promise<FieldHistory> {
+  const { span, bucket } = RANGES[range];
+  const from = new Date(bucketStart(new Date(now.getTime() - span), bucket));
+  const readings = await storage.getSensorReadings({ fieldId, from, to: now });
+  const series = downsample(readings, bucket);
+
+  return {
+    fieldId,
+    range,
+    bucket,
+    from: from.toISOString(),
+    to: now.toISOString(),
+    series,
+    latest: latestValues(readings),
+    trends: computeTrends(series),
+  };
+}
+
+const historyQuerySchema = z.object({
+  range: z.enum(historyRanges).default("24h"),
+});
+
+export function registerHistoryRoutes(app: Express) {
+  app.get(
+    "/api/fields/:fieldId/history",
+    asyncHandler(async (req, res) => {
+      const query = parseInput(historyQuerySchema, req.query, res);
+      if (!query) return;
+
+      const field = await loadField(req, res, req.params.fieldId, "view");
+      if (!field) return;
+
+      res.json(await getFieldHistory(field.id, query.range));
+    }),
+  );
+}
@@ -0,0 +1,38 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// Express 4 does not forward rejected promises to the error handler, so every
+// async route goes through this wrapper.
+export function asyncHandler(
+  handler: (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+export function parseBody<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  req: Request,
+  res: Response,
+): T | undefined {
+  return parseInput(schema, req.body, res);
+}
+
+export function parseInput<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  input: unknown,
+  res: Response,
+): T | undefined {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    res.status(400).json({ message: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
@@ -1,6 +1,11 @@
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { commandChannel } from "./actuators";
+import { irrigationScheduler } from "./scheduler";
+import { mqttBridge } from "./mqtt";
+import { deviceHealthMonitor } from "./quality";
+import { weatherSync } from "./weather";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -33,9 +38,12 @@ function setupCors(app: express.Application) {
       res.header("Access-Control-Allow-Origin", origin);
       res.header(
         "Access-Control-Allow-Methods",
-        "GET, POST, PUT, DELETE, OPTIONS",
+        "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+      );
+      res.header(
+        "Access-Control-Allow-Headers",
+        "Content-Type, Authorization, X-Client",
       );
-      res.header("Access-Control-Allow-Headers", "Content-Type");
       res.header("Access-Control-Allow-Credentials", "true");
     }
 
@@ -238,4 +246,10 @@ function setupErrorHandler(app: express.Application) {
       log(`express server serving on port ${port}`);
     },
   );
+
+  await commandChannel.resume();
+  await irrigationScheduler.start();
+  await mqttBridge?.start();
+  deviceHealthMonitor.start();
+  weatherSync.start();
 })();
@@ -0,0 +1,146 @@
+import type { Express } from "express";
+import {
+  insertIrrigationScheduleSchema,
+  setIrrigationDurationSchema,
+  startIrrigationSchema,
+} from "@shared/schema";
+import { loadFarm } from "./access";
+import { changedValues, recordAudit } from "./audit";
+import { asyncHandler, parseBody } from "./http";
+import { IrrigationConflictError, irrigationScheduler } from "./scheduler";
+import { storage } from "./storage";
+
+export function registerIrrigationRoutes(app: Express) {
+  app.get(
+    "/api/farms/:farmId/schedule",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "view");
+      if (!farm) return;
+
+      const schedule = await storage.getIrrigationSchedule(farm.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "No schedule saved" });
+      }
+      res.json(schedule);
+    }),
+  );
+
+  app.put(
+    "/api/farms/:farmId/schedule",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "editSchedule");
+      if (!farm) return;
+
+      const data = parseBody(insertIrrigationScheduleSchema, req, res);
+      if (!data) return;
+
+      const previous = await storage.getIrrigationSchedule(farm.id);
+      const schedule = await storage.upsertIrrigationSchedule(farm.id, data);
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "schedule.update",
+        ...changedValues(previous ?? {}, data),
+      });
+      res.json(schedule);
+    }),
+  );
+
+  app.get(
+    "/api/farms/:farmId/irrigation-logs",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "view");
+      if (!farm) return;
+
+      res.json(await storage.getIrrigationLogs(farm.id, 20));
+    }),
+  );
+
+  app.post(
+    "/api/farms/:farmId/irrigation/start",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "irrigate");
+      if (!farm) return;
+
+      const data = parseBody(startIrrigationSchema, req, res);
+      if (!data) return;
+
+      if (data.fieldId) {
+        const field = await storage.getField(data.fieldId);
+        if (!field || field.farmId !== farm.id) {
+          return res.status(404).json({ message: "Field not found" });
+        }
+      }
+
+      try {
+        const { run, command } = await irrigationScheduler.startRun(farm.id, {
+          mode: "manual",
+          duration: data.duration,
+          fieldId: data.fieldId,
+        });
+        await recordAudit(req, {
+          farmId: farm.id,
+          action: "irrigation.start",
+          targetId: run.id,
+          after: { duration: run.duration, fieldId: run.fieldId },
+        });
+        res.status(201).json({ ...run, command });
+      } catch (error) {
+        if (error instanceof IrrigationConflictError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+    }),
+  );
+
+  app.post(
+    "/api/farms/:farmId/irrigation/stop",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "irrigate");
+      if (!farm) return;
+
+      const run = await irrigationScheduler.getActiveRun(farm.id);
+      if (!run) {
+        return res.status(404).json({ message: "No irrigation is running" });
+      }
+
+      const stopped = await irrigationScheduler.finishRun(run.id, "cancelled");
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "irrigation.stop",
+        targetId: run.id,
+        before: { status: run.status, duration: run.duration },
+        after: { status: "cancelled" },
+      });
+      res.json(stopped && { ...stopped.run, command: stopped.command });
+    }),
+  );
+
+  app.post(
+    "/api/farms/:farmId/irrigation/duration",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "irrigate");
+      if (!farm) return;
+
+      const data = parseBody(setIrrigationDurationSchema, req, res);
+      if (!data) return;
+
+      const running = await irrigationScheduler.getActiveRun(farm.id);
+      const updated = await irrigationScheduler.setRunDuration(
+        farm.id,
+        data.duration,
+      );
+      if (!updated) {
+        return res.status(404).json({ message: "No irrigation is running" });
+      }
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "irrigation.duration",
+        targetId: updated.run.id,
+        before: running && { duration: running.duration },
+        after: { duration: updated.run.duration },
+      });
+      res.json({ ...updated.run, command: updated.command });
+    }),
+  );
+}
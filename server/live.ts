@@ -0,0 +1,284 @@
+import type { Server } from "node:http";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type {
+  ActuatorCommand,
+  Alert,
+  IrrigationLog,
+  SensorData,
+} from "@shared/schema";
+import { canPerform } from "@shared/roles";
+import {
+  LIVE_CLOSE_AUTH_TIMEOUT,
+  LIVE_CLOSE_UNAUTHORIZED,
+  LIVE_PATH,
+  type LiveServerMessage,
+} from "@shared/live";
+import { getFarmRole } from "./access";
+import { commandChannel, type CommandChannel } from "./actuators";
+import { InvalidTokenError, type AuthUser, type TokenVerifier } from "./auth";
+import { farmEvents, type FarmEvents } from "./events";
+import { irrigationScheduler } from "./scheduler";
+import { storage } from "./storage";
+
+// Connections that haven't sent a valid `auth` message by then are closed.
+const AUTH_TIMEOUT_MS = 10 * 1000;
+// Pings go out this often; a client that missed the previous one is dropped.
+const HEARTBEAT_MS = 30 * 1000;
+const MAX_SUBSCRIPTIONS = 50;
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+const liveClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("auth"), token: z.string().min(1) }),
+  z.object({ type: z.literal("subscribe"), farmId: z.string().min(1) }),
+  z.object({ type: z.literal("unsubscribe"), farmId: z.string().min(1) }),
+]);
+
+type LiveClient = {
+  socket: WebSocket;
+  user?: AuthUser;
+  farms: Set<string>;
+  alive: boolean;
+};
+
+// Payload dates are sent as the ISO strings `LiveServerMessage` describes.
+type OutgoingMessage = { type: LiveServerMessage["type"] } & Record<
+  string,
+  unknown
+>;
+
+function send(client: LiveClient, message: OutgoingMessage) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Pushes sensor snapshots, irrigation run changes, valve command results and
+ * farm alerts to WebSocket clients subscribed to the farm. Browsers can't set
+ * headers on a WebSocket, so clients send their Firebase ID token in the first
+ * message instead. The caller's role is checked on subscribe and again before
+ * every push, so removed members stop receiving a farm's updates straight away.
+ */
+export class LiveUpdates {
+  private wss: WebSocketServer;
+  private clients = new Set<LiveClient>();
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(
+    server: Server,
+    private verifier: TokenVerifier,
+    private events: FarmEvents = farmEvents,
+    private commands: CommandChannel = commandChannel,
+  ) {
+    this.wss = new WebSocketServer({
+      server,
+      path: LIVE_PATH,
+      maxPayload: MAX_MESSAGE_BYTES,
+    });
+    this.wss.on("connection", (socket) => this.onConnection(socket));
+
+    this.events.on("sensorData", this.onSensorData);
+    this.events.on("irrigationRun", this.onIrrigationRun);
+    this.events.on("alert", this.onAlert);
+    this.commands.on("settled", this.onCommandSettled);
+
+    this.heartbeat = setInterval(() => this.checkAlive(), HEARTBEAT_MS);
+    server.on("close", () => this.close());
+  }
+
+  close(): void {
+    clearInterval(this.heartbeat);
+    this.events.off("sensorData", this.onSensorData);
+    this.events.off("irrigationRun", this.onIrrigationRun);
+    this.events.off("alert", this.onAlert);
+    this.commands.off("settled", this.onCommandSettled);
+    this.clients.forEach((client) => client.socket.terminate());
+    this.clients.clear();
+    this.wss.close();
+  }
+
+  private onConnection(socket: WebSocket) {
+    const client: LiveClient = { socket, farms: new Set(), alive: true };
+    this.clients.add(client);
+
+    const authTimer = setTimeout(() => {
+      if (!client.user) {
+        socket.close(LIVE_CLOSE_AUTH_TIMEOUT, "Authentication timed out");
+      }
+    }, AUTH_TIMEOUT_MS);
+
+    socket.on("pong", () => {
+      client.alive = true;
+    });
+    socket.on("message", (data) => {
+      this.onMessage(client, data).catch((error) => {
+        console.error("Live update message failed:", error);
+        send(client, { type: "error", message: "Internal Server Error" });
+      });
+    });
+    socket.on("close", () => {
+      clearTimeout(authTimer);
+      this.clients.delete(client);
+    });
+    socket.on("error", (error) => {
+      console.error("Live update socket error:", error);
+    });
+  }
+
+  private async onMessage(client: LiveClient, data: RawData) {
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch {
+      return send(client, { type: "error", message: "Expected JSON" });
+    }
+
+    const result = liveClientMessageSchema.safeParse(json);
+    if (!result.success) {
+      return send(client, {
+        type: "error",
+        message: fromZodError(result.error).message,
+      });
+    }
+
+    const message = result.data;
+    if (message.type === "auth") {
+      return this.authenticate(client, message.token);
+    }
+    if (!client.user) {
+      client.socket.close(LIVE_CLOSE_UNAUTHORIZED, "Authentication required");
+      return;
+    }
+
+    if (message.type === "subscribe") {
+      return this.subscribe(client, client.user.uid, message.farmId);
+    }
+    client.farms.delete(message.farmId);
+  }
+
+  private async authenticate(client: LiveClient, token: string) {
+    if (client.user) {
+      return send(client, { type: "error", message: "Already authenticated" });
+    }
+
+    try {
+      client.user = await this.verifier.verify(token);
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError)) {
+        console.error("ID token verification failed:", error);
+      }
+      client.socket.close(
+        LIVE_CLOSE_UNAUTHORIZED,
+        error instanceof InvalidTokenError
+          ? error.message
+          : "Could not verify ID token",
+      );
+      return;
+    }
+    send(client, { type: "ready", userId: client.user.uid });
+  }
+
+  private async subscribe(client: LiveClient, userId: string, farmId: string) {
+    if (client.farms.has(farmId)) return;
+    if (client.farms.size >= MAX_SUBSCRIPTIONS) {
+      return send(client, {
+        type: "error",
+        farmId,
+        message: `At most ${MAX_SUBSCRIPTIONS} farms can be followed at once`,
+      });
+    }
+
+    const farm = await storage.getFarm(farmId);
+    const role = farm && (await getFarmRole(farm, userId));
+    if (!farm || !canPerform(role, "view")) {
+      return send(client, { type: "error", farmId, message: "Farm not found" });
+    }
+
+    client.farms.add(farmId);
+    send(client, {
+      type: "subscribed",
+      farmId,
+      sensorData: (await storage.getSensorData(farmId)) ?? null,
+      activeRun: (await irrigationScheduler.getActiveRun(farmId)) ?? null,
+    });
+  }
+
+  private async publish(farmId: string, message: OutgoingMessage) {
+    const subscribers = Array.from(this.clients).filter((client) =>
+      client.farms.has(farmId),
+    );
+    if (subscribers.length === 0) return;
+
+    const farm = await storage.getFarm(farmId);
+    for (const client of subscribers) {
+      const role =
+        farm && client.user && (await getFarmRole(farm, client.user.uid));
+      if (canPerform(role, "view")) {
+        send(client, message);
+      } else {
+        client.farms.delete(farmId);
+        send(client, { type: "error", farmId, message: "Farm not found" });
+      }
+    }
+  }
+
+  private publishInBackground(farmId: string, message: OutgoingMessage) {
+    this.publish(farmId, message).catch((error) => {
+      console.error(`Failed to push ${message.type} for ${farmId}:`, error);
+    });
+  }
+
+  private onSensorData = (sensorData: SensorData) => {
+    this.publishInBackground(sensorData.farmId, {
+      type: "sensorData",
+      farmId: sensorData.farmId,
+      sensorData,
+    });
+  };
+
+  private onIrrigationRun = (run: IrrigationLog) => {
+    this.publishInBackground(run.farmId, {
+      type: "irrigationRun",
+      farmId: run.farmId,
+      run,
+    });
+  };
+
+  private onCommandSettled = (command: ActuatorCommand) => {
+    this.publishInBackground(command.farmId, {
+      type: "command",
+      farmId: command.farmId,
+      command,
+    });
+  };
+
+  // Alerts that aren't tied to a farm have no subscribers to go to.
+  private onAlert = (alert: Alert) => {
+    if (!alert.farmId) return;
+    this.publishInBackground(alert.farmId, {
+      type: "alert",
+      farmId: alert.farmId,
+      alert,
+    });
+  };
+
+  private checkAlive() {
+    for (const client of this.clients) {
+      if (!client.alive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }
+}
+
+export function registerLiveUpdates(
+  server: Server,
+  verifier: TokenVerifier,
+): LiveUpdates {
+  return new LiveUpdates(server, verifier);
+}
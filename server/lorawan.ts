@@ -0,0 +1,157 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { sensorMetrics, telemetryReadingSchema } from "@shared/schema";
+import { decoderRegistry, type UplinkFrame } from "./decoders";
+import { asyncHandler, parseBody, parseInput } from "./http";
+import { storage } from "./storage";
+import { hasValidApiKey, ingestReadings, TelemetryError } from "./telemetry";
+
+// The Things Stack (v3) webhook uplink message
+const thingsStackUplinkSchema = z.object({
+  end_device_ids: z.object({
+    device_id: z.string(),
+    dev_eui: z.string().min(1),
+  }),
+  received_at: z.coerce.date(),
+  uplink_message: z.object({
+    // Absent when the frame carries only MAC commands
+    f_port: z.number().int().optional(),
+    frm_payload: z.string().optional(),
+    decoded_payload: z.record(z.unknown()).optional(),
+  }),
+});
+
+// ChirpStack (v4) HTTP integration `up` event, JSON encoding
+const chirpStackUplinkSchema = z.object({
+  deviceInfo: z.object({
+    devEui: z.string().min(1),
+    tags: z.record(z.string()).optional(),
+  }),
+  time: z.coerce.date(),
+  fPort: z.number().int().optional(),
+  data: z.string().optional(),
+  object: z.record(z.unknown()).optional(),
+});
+
+const uplinkSchema = z.union([thingsStackUplinkSchema, chirpStackUplinkSchema]);
+
+// Webhooks name the farm, field and decoder in the query string. A device
+// registered under its EUI overrides them, and ChirpStack device tags with the
+// same names override both.
+const uplinkQuerySchema = z.object({
+  farmId: z.string().min(1).optional(),
+  fieldId: z.string().min(1).optional(),
+  decoder: z.string().min(1).optional(),
+});
+
+type LorawanUplink = {
+  devEui: string;
+  receivedAt: Date;
+  tags: Record<string, string>;
+  // Undefined for frames without an application payload
+  frame?: UplinkFrame;
+};
+
+function normalizeUplink(uplink: z.infer<typeof uplinkSchema>): LorawanUplink {
+  if ("uplink_message" in uplink) {
+    const message = uplink.uplink_message;
+    return {
+      devEui: uplink.end_device_ids.dev_eui.toLowerCase(),
+      receivedAt: uplink.received_at,
+      tags: {},
+      frame:
+        message.f_port === undefined
+          ? undefined
+          : {
+              fPort: message.f_port,
+              bytes: Buffer.from(message.frm_payload ?? "", "base64"),
+              decoded: message.decoded_payload,
+            },
+    };
+  }
+
+  return {
+    devEui: uplink.deviceInfo.devEui.toLowerCase(),
+    receivedAt: uplink.time,
+    tags: uplink.deviceInfo.tags ?? {},
+    frame:
+      uplink.fPort === undefined
+        ? undefined
+        : {
+            fPort: uplink.fPort,
+            bytes: Buffer.from(uplink.data ?? "", "base64"),
+            decoded: uplink.object,
+          },
+  };
+}
+
+export function registerLorawanRoutes(app: Express) {
+  app.get("/api/lorawan/decoders", (_req, res) => {
+    res.json(decoderRegistry.list().map(({ id, name }) => ({ id, name })));
+  });
+
+  // Uplink webhook for The Things Stack and ChirpStack. Network servers send
+  // the telemetry API key like any other gateway.
+  app.post(
+    "/api/lorawan/uplink",
+    asyncHandler(async (req, res) => {
+      if (!hasValidApiKey(req)) {
+        return res.status(401).json({ message: "Invalid telemetry API key" });
+      }
+
+      const query = parseInput(uplinkQuerySchema, req.query, res);
+      if (!query) return;
+      const body = parseBody(uplinkSchema, req, res);
+      if (!body) return;
+
+      const uplink = normalizeUplink(body);
+      if (!uplink.frame) return res.status(202).json({ accepted: 0 });
+
+      const found = await storage.getDevice(uplink.devEui);
+      const device = found?.status === "active" ? found : undefined;
+      const farmId = uplink.tags.farmId ?? device?.farmId ?? query.farmId;
+      const fieldId =
+        uplink.tags.fieldId ?? device?.fieldId ?? query.fieldId ?? undefined;
+      const decoderId =
+        uplink.tags.decoder ?? device?.decoder ?? query.decoder ?? undefined;
+
+      try {
+        if (!farmId) {
+          throw new TelemetryError(
+            `No farm is set for device ${uplink.devEui}`,
+          );
+        }
+        const decoder = decoderId && decoderRegistry.get(decoderId);
+        if (!decoder) {
+          throw new TelemetryError(`Unknown decoder: ${decoderId ?? "none"}`);
+        }
+
+        // Status frames that only report the battery carry no reading.
+        const values = decoder.decode(uplink.frame);
+        if (!sensorMetrics.some((metric) => values[metric] !== undefined)) {
+          return res.status(202).json({ accepted: 0 });
+        }
+
+        const reading = telemetryReadingSchema.safeParse({
+          farmId,
+          fieldId,
+          deviceId: uplink.devEui,
+          timestamp: uplink.receivedAt,
+          ...values,
+        });
+        if (!reading.success) {
+          throw new TelemetryError(fromZodError(reading.error).message);
+        }
+
+        const stored = await ingestReadings([reading.data]);
+        res.status(202).json({ accepted: stored.length });
+      } catch (error) {
+        if (error instanceof TelemetryError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+    }),
+  );
+}
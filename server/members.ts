@@ -0,0 +1,270 @@
+import type { Express } from "express";
+import { insertFarmInviteSchema, updateFarmMemberSchema } from "@shared/schema";
+import { canManageRole } from "@shared/roles";
+import { getFarmRole, loadFarmAccess, requireUserId } from "./access";
+import { recordAudit } from "./audit";
+import { asyncHandler, parseBody } from "./http";
+import { storage } from "./storage";
+
+const log = console.log;
+
+export function registerMemberRoutes(app: Express) {
+  // The owner is listed first even though it has no membership row.
+  app.get(
+    "/api/farms/:farmId/members",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(req, res, req.params.farmId, "view");
+      if (!access) return;
+
+      const { farm } = access;
+      const members = await storage.getFarmMembers(farm.id);
+      res.json([
+        {
+          farmId: farm.id,
+          userId: farm.userId,
+          role: "owner",
+          email: null,
+          addedBy: null,
+          createdAt: farm.createdAt,
+        },
+        ...members,
+      ]);
+    }),
+  );
+
+  app.patch(
+    "/api/farms/:farmId/members/:userId",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(
+        req,
+        res,
+        req.params.farmId,
+        "manageTeam",
+      );
+      if (!access) return;
+
+      const data = parseBody(updateFarmMemberSchema, req, res);
+      if (!data) return;
+
+      const { farm, userId, role } = access;
+      const member = await storage.getFarmMember(farm.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!canManageRole(role, member.role)) {
+        return res
+          .status(403)
+          .json({ message: `A ${role} cannot change a ${member.role}` });
+      }
+      if (!canManageRole(role, data.role)) {
+        return res
+          .status(403)
+          .json({ message: `A ${role} cannot assign the ${data.role} role` });
+      }
+
+      const updated = await storage.upsertFarmMember({
+        ...member,
+        role: data.role,
+        addedBy: userId,
+      });
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "member.update",
+        targetId: member.userId,
+        before: { role: member.role },
+        after: { role: data.role },
+      });
+      log(`farm ${farm.id}: ${member.userId} is now ${data.role}`);
+      res.json(updated);
+    }),
+  );
+
+  // Managers remove lower roles; any member may leave on their own.
+  app.delete(
+    "/api/farms/:farmId/members/:userId",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(req, res, req.params.farmId, "view");
+      if (!access) return;
+
+      const { farm, userId, role } = access;
+      const member = await storage.getFarmMember(farm.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.userId !== userId && !canManageRole(role, member.role)) {
+        return res
+          .status(403)
+          .json({ message: `A ${role} cannot remove a ${member.role}` });
+      }
+
+      await storage.deleteFarmMember(farm.id, member.userId);
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "member.remove",
+        targetId: member.userId,
+        before: { role: member.role, email: member.email },
+      });
+      log(`farm ${farm.id}: removed ${member.userId}`);
+      res.sendStatus(204);
+    }),
+  );
+
+  app.get(
+    "/api/farms/:farmId/invites",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(
+        req,
+        res,
+        req.params.farmId,
+        "manageTeam",
+      );
+      if (!access) return;
+
+      res.json(await storage.getFarmInvites(access.farm.id, "pending"));
+    }),
+  );
+
+  app.post(
+    "/api/farms/:farmId/invites",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(
+        req,
+        res,
+        req.params.farmId,
+        "manageTeam",
+      );
+      if (!access) return;
+
+      const data = parseBody(insertFarmInviteSchema, req, res);
+      if (!data) return;
+
+      const { farm, userId, role } = access;
+      if (!canManageRole(role, data.role)) {
+        return res
+          .status(403)
+          .json({ message: `A ${role} cannot invite a ${data.role}` });
+      }
+
+      const pending = await storage.getFarmInvites(farm.id, "pending");
+      if (pending.some((invite) => invite.email === data.email)) {
+        return res
+          .status(409)
+          .json({ message: `${data.email} already has a pending invite` });
+      }
+
+      const invite = await storage.createFarmInvite(farm.id, userId, data);
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "invite.create",
+        targetId: invite.id,
+        after: { email: invite.email, role: invite.role },
+      });
+      log(`farm ${farm.id}: invited ${invite.email} as ${invite.role}`);
+      res.status(201).json(invite);
+    }),
+  );
+
+  app.delete(
+    "/api/farms/:farmId/invites/:inviteId",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(
+        req,
+        res,
+        req.params.farmId,
+        "manageTeam",
+      );
+      if (!access) return;
+
+      const invite = await storage.getFarmInvite(req.params.inviteId);
+      if (
+        !invite ||
+        invite.farmId !== access.farm.id ||
+        invite.status !== "pending"
+      ) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      await storage.updateFarmInvite(invite.id, {
+        status: "revoked",
+        respondedAt: new Date(),
+      });
+      await recordAudit(req, {
+        farmId: invite.farmId,
+        action: "invite.revoke",
+        targetId: invite.id,
+        before: { email: invite.email, role: invite.role },
+      });
+      res.sendStatus(204);
+    }),
+  );
+
+  // Invites addressed to the caller's email, with the farm name for display
+  app.get(
+    "/api/invites",
+    asyncHandler(async (req, res) => {
+      const userId = requireUserId(req, res);
+      if (!userId) return;
+
+      const email = req.user?.email?.toLowerCase();
+      if (!email || !req.user?.emailVerified) return res.json([]);
+
+      const invites = await storage.getPendingInvitesByEmail(email);
+      const withFarm = await Promise.all(
+        invites.map(async (invite) => ({
+          ...invite,
+          farmName: (await storage.getFarm(invite.farmId))?.name ?? null,
+        })),
+      );
+      res.json(withFarm);
+    }),
+  );
+
+  app.post(
+    "/api/invites/:inviteId/accept",
+    asyncHandler(async (req, res) => {
+      const userId = requireUserId(req, res);
+      if (!userId) return;
+
+      const email = req.user?.email?.toLowerCase();
+      const invite = await storage.getFarmInvite(req.params.inviteId);
+      // Invites for other addresses are reported as missing.
+      if (!invite || invite.status !== "pending" || invite.email !== email) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      if (!req.user?.emailVerified) {
+        return res
+          .status(403)
+          .json({ message: "Verify your email address to accept invites" });
+      }
+
+      const farm = await storage.getFarm(invite.farmId);
+      if (!farm) {
+        return res.status(404).json({ message: "Farm not found" });
+      }
+      if ((await getFarmRole(farm, userId)) === "owner") {
+        return res.status(409).json({ message: "You already own this farm" });
+      }
+
+      const member = await storage.upsertFarmMember({
+        farmId: farm.id,
+        userId,
+        role: invite.role,
+        email: invite.email,
+        addedBy: invite.invitedBy,
+      });
+      await storage.updateFarmInvite(invite.id, {
+        status: "accepted",
+        acceptedBy: userId,
+        respondedAt: new Date(),
+      });
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "invite.accept",
+        targetId: invite.id,
+        after: { userId, role: member.role },
+      });
+      log(`farm ${farm.id}: ${userId} joined as ${member.role}`);
+      res.json({ ...member, farmName: farm.name });
+    }),
+  );
+}
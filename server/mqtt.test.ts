@@ -0,0 +1,191 @@
+import type { SensorData } from "@shared/schema";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { farmEvents } from "./events";
+import { InProcessMqttBroker, MqttBridge, topicMatches } from "./mqtt";
+import { storage } from "./storage";
+
+describe("topicMatches", () => {
+  it.each([
+    ["a/b/c", "a/b/c", true],
+    ["a/b/c", "a/b", false],
+    ["a/b", "a/b/c", false],
+    ["a/+/c", "a/x/c", true],
+    ["a/+/c", "a/x/y/c", false],
+    ["a/+", "a/", true],
+    ["a/#", "a/b/c", true],
+    ["a/#", "b/c", false],
+    ["#", "a/b", true],
+    [
+      "agrisense/farms/+/devices/+/readings",
+      "agrisense/farms/f1/devices/d1/readings",
+      true,
+    ],
+    [
+      "agrisense/farms/+/devices/+/readings",
+      "agrisense/farms/f1/devices/d1/status",
+      false,
+    ],
+  ] as const)("%s against %s is %s", (filter, topic, matches) => {
+    expect(topicMatches(filter, topic)).toBe(matches);
+  });
+});
+
+describe("MqttBridge", () => {
+  let broker: InProcessMqttBroker;
+  let bridge: MqttBridge;
+  let farmId: string;
+  const snapshots: SensorData[] = [];
+  const onSensorData = (snapshot: SensorData) => snapshots.push(snapshot);
+
+  const topic = (deviceId = "probe-1", farm = farmId) =>
+    `agrisense/farms/${farm}/devices/${deviceId}/readings`;
+  const publish = (payload: unknown, to = topic()) =>
+    broker.publish(to, JSON.stringify(payload));
+  const storedReadings = () =>
+    storage.getSensorReadings({
+      farmId,
+      from: new Date(0),
+      to: new Date("2100-01-01T00:00:00Z"),
+    });
+
+  beforeEach(async () => {
+    broker = new InProcessMqttBroker();
+    bridge = new MqttBridge(broker);
+    await bridge.start();
+    farmId = (await storage.createFarm("owner", { name: "North Farm" })).id;
+    snapshots.length = 0;
+    farmEvents.on("sensorData", onSensorData);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    farmEvents.off("sensorData", onSensorData);
+    vi.restoreAllMocks();
+    await bridge.stop();
+  });
+
+  it("ingests a reading and updates the live feed", async () => {
+    await publish({ timestamp: "2026-06-01T06:00:00Z", soilMoisture: 41 });
+
+    const [reading] = await storedReadings();
+    expect(reading).toMatchObject({
+      farmId,
+      deviceId: "probe-1",
+      soilMoisture: 41,
+      recordedAt: new Date("2026-06-01T06:00:00Z"),
+    });
+    expect(snapshots).toEqual([
+      expect.objectContaining({ farmId, soilMoisture: 41 }),
+    ]);
+  });
+
+  it("takes the farm and device from the topic, not the payload", async () => {
+    await publish(
+      { farmId: "someone-else", deviceId: "spoofed", soilMoisture: 41 },
+      topic("probe-2"),
+    );
+
+    expect(await storedReadings()).toEqual([
+      expect.objectContaining({ farmId, deviceId: "probe-2" }),
+    ]);
+  });
+
+  it("ingests arrays as one batch", async () => {
+    await publish([
+      { timestamp: "2026-06-01T06:00:00Z", soilMoisture: 41 },
+      { timestamp: "2026-06-01T06:15:00Z", soilMoisture: 40, pH: 6.4 },
+    ]);
+
+    expect(await storedReadings()).toHaveLength(2);
+    expect(snapshots.at(-1)).toMatchObject({ soilMoisture: 40, pH: 6.4 });
+  });
+
+  it("dates readings without a timestamp when they arrive", async () => {
+    const receivedAt = new Date("2026-06-01T07:00:00Z");
+    const result = await bridge.handleMessage(
+      topic(),
+      Buffer.from(JSON.stringify({ soilMoisture: 41 })),
+      receivedAt,
+    );
+
+    expect(result).toEqual({ ok: true, accepted: 1 });
+    expect((await storedReadings())[0].recordedAt).toEqual(receivedAt);
+  });
+
+  it("only delivers topics the bridge subscribed to", async () => {
+    await publish(
+      { soilMoisture: 41 },
+      `other/farms/${farmId}/devices/p/readings`,
+    );
+    await publish({ soilMoisture: 41 }, topic().replace("readings", "status"));
+
+    expect(await storedReadings()).toEqual([]);
+  });
+
+  describe("rejected messages", () => {
+    const handle = (payload: string, to = topic()) =>
+      bridge.handleMessage(to, Buffer.from(payload));
+
+    it.each([
+      ["not JSON", "{soilMoisture: 41", "Payload is not JSON"],
+      [
+        "without sensor values",
+        JSON.stringify({ battery: 80 }),
+        "A reading must include at least one sensor value",
+      ],
+      [
+        "with values out of bounds",
+        JSON.stringify({ soilMoisture: 140 }),
+        "soilMoisture",
+      ],
+      ["with an empty batch", "[]", "Validation error"],
+    ])("drops payloads %s", async (_, payload, error) => {
+      const result = await handle(payload);
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toContain(error);
+      expect(await storedReadings()).toEqual([]);
+      expect(snapshots).toEqual([]);
+    });
+
+    it("drops readings for unknown farms", async () => {
+      const result = await handle(
+        JSON.stringify({ soilMoisture: 41 }),
+        topic("probe-1", "no-such-farm"),
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Unknown farm: no-such-farm",
+      });
+    });
+
+    it("drops topics outside its prefix", async () => {
+      const result = await handle(
+        JSON.stringify({ soilMoisture: 41 }),
+        `agrisense/farms/${farmId}/readings`,
+      );
+
+      expect(result).toEqual({ ok: false, error: "Unexpected topic" });
+    });
+  });
+
+  it("matches its prefix literally", async () => {
+    const dotted = new MqttBridge(new InProcessMqttBroker(), "site.1");
+    const payload = Buffer.from(JSON.stringify({ soilMoisture: 41 }));
+
+    expect(dotted.filter).toBe("site.1/farms/+/devices/+/readings");
+    expect(
+      await dotted.handleMessage(
+        `siteX1/farms/${farmId}/devices/p/readings`,
+        payload,
+      ),
+    ).toEqual({ ok: false, error: "Unexpected topic" });
+    expect(
+      await dotted.handleMessage(
+        `site.1/farms/${farmId}/devices/p/readings`,
+        payload,
+      ),
+    ).toEqual({ ok: true, accepted: 1 });
+  });
+});
@@ -0,0 +1,256 @@
+import mqtt, { type IClientOptions, type MqttClient } from "mqtt";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { telemetryReadingSchema, type TelemetryReading } from "@shared/schema";
+import { ingestReadings, TelemetryError } from "./telemetry";
+
+const log = console.log;
+
+// Same cap as a POST /api/telemetry batch
+const MAX_READINGS_PER_MESSAGE = 500;
+
+export type MqttMessageHandler = (
+  topic: string,
+  payload: Buffer,
+) => Promise<void>;
+
+/**
+ * The part of an MQTT client the bridge uses, so it can run against a real
+ * broker or the in-process stand-in below.
+ */
+export interface MqttConnection {
+  connect(onMessage: MqttMessageHandler): Promise<void>;
+  subscribe(filter: string): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * A broker connection through mqtt.js. Connecting never waits for the
+ * broker: the client keeps retrying in the background and subscribes again
+ * every time it (re)connects.
+ */
+export class MqttClientConnection implements MqttConnection {
+  private client: MqttClient | undefined;
+  private filters: string[] = [];
+
+  constructor(
+    private url: string,
+    private options: IClientOptions = {},
+  ) {}
+
+  async connect(onMessage: MqttMessageHandler): Promise<void> {
+    const host = new URL(this.url).host;
+    const client = mqtt.connect(this.url, {
+      reconnectPeriod: 5000,
+      ...this.options,
+    });
+
+    client.on("connect", () => {
+      log(`mqtt connected to ${host}`);
+      this.filters.forEach((filter) => this.subscribeNow(filter));
+    });
+    client.on("error", (error) => {
+      console.error(`MQTT connection to ${host} failed:`, error.message);
+    });
+    client.on("message", (topic, payload) => {
+      onMessage(topic, payload).catch((error) => {
+        console.error(`Failed to handle MQTT message on ${topic}:`, error);
+      });
+    });
+    this.client = client;
+  }
+
+  async subscribe(filter: string): Promise<void> {
+    this.filters.push(filter);
+    if (this.client?.connected) this.subscribeNow(filter);
+  }
+
+  async end(): Promise<void> {
+    await this.client?.endAsync();
+    this.client = undefined;
+  }
+
+  private subscribeNow(filter: string) {
+    this.client?.subscribe(filter, { qos: 1 }, (error) => {
+      if (error) console.error(`MQTT subscribe to ${filter} failed:`, error);
+    });
+  }
+}
+
+// MQTT filter matching: `+` matches one level, a trailing `#` the rest.
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split("/");
+  const topicLevels = topic.split("/");
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === "#") return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== "+" && filterLevels[i] !== topicLevels[i]) {
+      return false;
+    }
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+/**
+ * A broker without a network: `publish` hands a message straight to the
+ * connected bridge when it matches one of its subscriptions, and settles once
+ * the bridge has handled it. There is no QoS, retention or reconnecting.
+ */
+export class InProcessMqttBroker implements MqttConnection {
+  private onMessage: MqttMessageHandler | undefined;
+  private filters: string[] = [];
+
+  async connect(onMessage: MqttMessageHandler): Promise<void> {
+    this.onMessage = onMessage;
+  }
+
+  async subscribe(filter: string): Promise<void> {
+    this.filters.push(filter);
+  }
+
+  async end(): Promise<void> {
+    this.onMessage = undefined;
+    this.filters = [];
+  }
+
+  async publish(topic: string, payload: string | Buffer): Promise<void> {
+    if (!this.filters.some((filter) => topicMatches(filter, topic))) return;
+    await this.onMessage?.(topic, Buffer.from(payload));
+  }
+}
+
+// A payload is one reading or an array of them. Farm and device come from the
+// topic, and a missing timestamp means "now" for gateways without a clock.
+const mqttReadingSchema = z
+  .object({
+    fieldId: z.string().min(1).optional(),
+    timestamp: z.unknown().optional(),
+  })
+  .passthrough();
+
+const mqttPayloadSchema = z.union([
+  mqttReadingSchema.transform((reading) => [reading]),
+  z.array(mqttReadingSchema).min(1).max(MAX_READINGS_PER_MESSAGE),
+]);
+
+function validate<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  input: unknown,
+): T {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new TelemetryError(fromZodError(result.error).message);
+  }
+  return result.data;
+}
+
+export type MqttIngestResult =
+  | { ok: true; accepted: number }
+  | { ok: false; error: string };
+
+/**
+ * Subscribes to gateway topics of the form
+ * `<prefix>/farms/<farmId>/devices/<deviceId>/readings` and feeds each
+ * message through the same ingestion as `POST /api/telemetry`, so readings
+ * land in the readings store and the live feed alike. The topic decides the
+ * farm and device; values for either in the payload are ignored, so broker
+ * ACLs on topics are what stop one gateway writing as another.
+ */
+export class MqttBridge {
+  private pattern: RegExp;
+  // Messages are ingested one at a time so concurrent readings for the same
+  // farm don't race each other's snapshot updates.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private connection: MqttConnection,
+    private prefix = "agrisense",
+  ) {
+    const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    this.pattern = new RegExp(
+      `^${escaped}/farms/([^/]+)/devices/([^/]+)/readings$`,
+    );
+  }
+
+  get filter(): string {
+    return `${this.prefix}/farms/+/devices/+/readings`;
+  }
+
+  async start(): Promise<void> {
+    await this.connection.connect(async (topic, payload) => {
+      await this.enqueue(topic, payload);
+    });
+    await this.connection.subscribe(this.filter);
+    log(`mqtt bridge subscribed to ${this.filter}`);
+  }
+
+  async stop(): Promise<void> {
+    await this.connection.end();
+  }
+
+  private enqueue(topic: string, payload: Buffer): Promise<MqttIngestResult> {
+    const result = this.queue.then(() => this.handleMessage(topic, payload));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async handleMessage(
+    topic: string,
+    payload: Buffer,
+    receivedAt = new Date(),
+  ): Promise<MqttIngestResult> {
+    try {
+      const stored = await ingestReadings(
+        this.parse(topic, payload, receivedAt),
+      );
+      return { ok: true, accepted: stored.length };
+    } catch (error) {
+      if (error instanceof TelemetryError) {
+        console.warn(`Rejected MQTT message on ${topic}: ${error.message}`);
+        return { ok: false, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private parse(
+    topic: string,
+    payload: Buffer,
+    receivedAt: Date,
+  ): TelemetryReading[] {
+    const match = this.pattern.exec(topic);
+    if (!match) throw new TelemetryError("Unexpected topic");
+    const [, farmId, deviceId] = match;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(payload.toString("utf8"));
+    } catch {
+      throw new TelemetryError("Payload is not JSON");
+    }
+
+    const readings = validate(mqttPayloadSchema, json).map((reading) => ({
+      ...reading,
+      timestamp: reading.timestamp ?? receivedAt,
+      farmId,
+      deviceId,
+    }));
+    return validate(z.array(telemetryReadingSchema), readings);
+  }
+}
+
+function createMqttBridge(): MqttBridge | undefined {
+  const url = process.env.MQTT_URL;
+  if (!url) return undefined;
+
+  const connection = new MqttClientConnection(url, {
+    username: process.env.MQTT_USERNAME,
+    password: process.env.MQTT_PASSWORD,
+    clientId: process.env.MQTT_CLIENT_ID,
+  });
+  return new MqttBridge(connection, process.env.MQTT_TOPIC_PREFIX);
+}
+
+// Only created when MQTT_URL is set.
+export const mqttBridge = createMqttBridge();
@@ -0,0 +1,189 @@
+import {
+  sensorMetrics,
+  type Device,
+  type InsertSensorReading,
+  type SensorMetric,
+  type SensorReading,
+} from "@shared/schema";
+import { DEVICE_OFFLINE_AFTER_MS } from "@shared/devices";
+import {
+  QUALITY_LABELS,
+  QUALITY_HISTORY,
+  assessReading,
+  type QualityFlag,
+  type QualitySample,
+} from "@shared/quality";
+import { farmEvents, type FarmEvents } from "./events";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+const log = console.log;
+
+const TICK_MS = 15 * 60 * 1000;
+
+const METRIC_NAMES: Record<SensorMetric, string> = {
+  soilMoisture: "soil moisture",
+  pH: "pH",
+  temperature: "temperature",
+  nitrogen: "nitrogen",
+  phosphorus: "phosphorus",
+  potassium: "potassium",
+};
+
+// Flags that mean the probe itself needs attention. A lone spike is flagged
+// on the reading but doesn't call anyone out to the field.
+const MAINTENANCE_FLAGS: QualityFlag[] = ["out_of_range", "stuck", "dropout"];
+
+function toSample(reading: InsertSensorReading): QualitySample {
+  const values: QualitySample["values"] = {};
+  for (const metric of sensorMetrics) values[metric] = reading[metric];
+  return {
+    recordedAt: reading.recordedAt,
+    values,
+    quality: reading.quality,
+  };
+}
+
+/**
+ * Runs the quality checks on readings about to be stored, against earlier
+ * readings from the same device, including those earlier in the batch.
+ */
+export async function assessReadings(
+  readings: InsertSensorReading[],
+  storage: IStorage = defaultStorage,
+): Promise<InsertSensorReading[]> {
+  const histories = new Map<string, QualitySample[]>();
+  const assessed = [...readings];
+  const order = readings
+    .map((_, index) => index)
+    .sort(
+      (a, b) =>
+        readings[a].recordedAt.getTime() - readings[b].recordedAt.getTime(),
+    );
+
+  for (const index of order) {
+    const reading = readings[index];
+    let history = histories.get(reading.deviceId);
+    if (!history) {
+      const recent = await storage.getRecentSensorReadings(
+        reading.deviceId,
+        QUALITY_HISTORY,
+      );
+      history = recent.map(toSample);
+      histories.set(reading.deviceId, history);
+    }
+
+    const sample = toSample(reading);
+    const quality = assessReading(
+      sample,
+      history.filter((h) => h.recordedAt < reading.recordedAt),
+    );
+    const checked = {
+      ...reading,
+      quality: Object.keys(quality).length > 0 ? quality : null,
+    };
+    assessed[index] = checked;
+
+    history.push({ ...sample, quality: checked.quality });
+    history.sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime());
+  }
+
+  return assessed;
+}
+
+// "soil moisture value stuck", from the first flag that needs maintenance
+function maintenanceReason(reading: SensorReading): string | null {
+  for (const metric of sensorMetrics) {
+    const flag = reading.quality?.[metric];
+    if (flag && MAINTENANCE_FLAGS.includes(flag)) {
+      return `${METRIC_NAMES[metric]} ${QUALITY_LABELS[flag]}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Tracks which registered devices need someone to look at them: probes whose
+ * latest reading failed a quality check that points at the hardware, and
+ * devices that stopped reporting. Each problem raises one "sensor needs
+ * maintenance" alert, and the flag clears once the device sends a reading
+ * that passes every check.
+ */
+export class DeviceHealthMonitor {
+  private interval: NodeJS.Timeout | undefined;
+
+  constructor(
+    private storage: IStorage = defaultStorage,
+    private now: () => Date = () => new Date(),
+    private events: FarmEvents = farmEvents,
+  ) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error("Device health check failed:", error);
+      });
+    }, TICK_MS);
+    log("device health monitor started");
+  }
+
+  stop(): void {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+
+  // Flags devices that were reporting and have since gone quiet. Devices
+  // that were never seen are still being installed.
+  async tick(): Promise<void> {
+    const now = this.now().getTime();
+    const devices = await this.storage.getDevicesByStatus("active");
+
+    for (const device of devices) {
+      if (!device.lastSeenAt || device.maintenanceReason) continue;
+      if (now - device.lastSeenAt.getTime() < DEVICE_OFFLINE_AFTER_MS) {
+        continue;
+      }
+      await this.flag(device, "stopped reporting");
+    }
+  }
+
+  // Called with the readings a batch stored for the device.
+  async reviewReadings(device: Device, readings: SensorReading[]) {
+    const latest = readings.reduce<SensorReading | undefined>(
+      (a, b) => (!a || b.recordedAt >= a.recordedAt ? b : a),
+      undefined,
+    );
+    if (!latest) return;
+
+    const reason = maintenanceReason(latest);
+    if (reason && !device.maintenanceReason) {
+      await this.flag(device, reason);
+    } else if (!latest.quality && device.maintenanceReason) {
+      await this.storage.updateDevice(device.id, { maintenanceReason: null });
+      log(`device ${device.id}: back to normal`);
+    }
+  }
+
+  private async flag(device: Device, reason: string) {
+    await this.storage.updateDevice(device.id, { maintenanceReason: reason });
+    log(`device ${device.id}: needs maintenance (${reason})`);
+
+    const farm = await this.storage.getFarm(device.farmId);
+    if (!farm) return;
+
+    const alert = await this.storage.createAlert({
+      userId: farm.userId,
+      farmId: farm.id,
+      title: "Sensor needs maintenance",
+      message: `${device.name} on ${farm.name}: ${reason}. Check the probe and its connection.`,
+      type: "warning",
+      category: "system",
+      priority: "medium",
+      data: { deviceId: device.id, reason },
+    });
+    this.events.emit("alert", alert);
+  }
+}
+
+export const deviceHealthMonitor = new DeviceHealthMonitor();
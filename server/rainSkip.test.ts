@@ -0,0 +1,130 @@
+import type { Et0Day } from "@shared/et0";
+import { describe, expect, it } from "vitest";
+import { decideRainSkip, type RainSkipInput } from "./rainSkip";
+
+const day = (
+  date: string,
+  et0: number,
+  precipitation = 0,
+  precipitationProbability: number | null = null,
+): Et0Day => ({
+  date,
+  et0,
+  method: "penman-monteith",
+  precipitation,
+  precipitationProbability,
+  forecast: date >= "2026-06-02",
+});
+
+const yesterday = (et0: number, rain: number) => day("2026-06-01", et0, rain);
+const today = (et0: number, rain = 0, chance: number | null = null) =>
+  day("2026-06-02", et0, rain, chance);
+const tomorrow = (et0: number, rain: number, chance: number) =>
+  day("2026-06-03", et0, rain, chance);
+
+const decide = (
+  weather: { history?: Et0Day[]; forecast?: Et0Day[] },
+  options: Partial<Omit<RainSkipInput, "weather">> = {},
+) =>
+  decideRainSkip({
+    duration: 30,
+    kc: 1,
+    canDefer: false,
+    ...options,
+    weather: {
+      history: weather.history ?? [],
+      forecast: weather.forecast ?? [],
+    },
+  });
+
+describe("decideRainSkip", () => {
+  it.each([
+    ["there is no forecast", {}],
+    ["the crop isn't using water", { forecast: [today(0, 10, 100)] }],
+    ["no rain is due", { forecast: [today(5)] }],
+    ["the rain is unlikely", { forecast: [today(5, 10, 40)] }],
+    ["the rain is too light to soak in", { forecast: [today(5, 0.9, 100)] }],
+    ["the rain covers under a quarter", { forecast: [today(5, 1, 100)] }],
+    [
+      "the soil can't wait for tomorrow's rain",
+      { forecast: [today(5), tomorrow(5, 10, 90)] },
+    ],
+  ])("runs as planned when %s", (_, weather) => {
+    expect(decide(weather)).toEqual({
+      action: "run",
+      duration: 30,
+      reason: null,
+    });
+  });
+
+  it.each([
+    [
+      "forecast rain",
+      { forecast: [today(5, 3, 100)] },
+      {},
+      12,
+      "3 mm forecast today (100% chance) covers 60% of today's 5 mm crop water demand",
+    ],
+    [
+      "rain weighted by its chance",
+      { forecast: [today(5, 4, 50)] },
+      {},
+      18,
+      "4 mm forecast today (50% chance) covers 40% of today's 5 mm crop water demand",
+    ],
+    [
+      "a thirstier crop",
+      { forecast: [today(5, 3, 100)] },
+      { kc: 1.2 },
+      15,
+      "3 mm forecast today (100% chance) covers 50% of today's 6 mm crop water demand",
+    ],
+    [
+      "tomorrow's rain while the soil can wait",
+      { forecast: [today(5), tomorrow(5, 2, 100)] },
+      { canDefer: true },
+      18,
+      "2 mm forecast tomorrow (100% chance) covers 40% of today's 5 mm crop water demand",
+    ],
+    [
+      "what yesterday's crop left",
+      { history: [yesterday(4, 6)], forecast: [today(5, 1, 100)] },
+      {},
+      12,
+      "6 mm of rain yesterday and 1 mm forecast today (100% chance) cover 60% of today's 5 mm crop water demand",
+    ],
+  ])("shortens the run for %s", (_, weather, options, duration, reason) => {
+    expect(decide(weather, options)).toEqual({
+      action: "shorten",
+      duration,
+      reason,
+    });
+  });
+
+  it.each([
+    [
+      "rain that covers the day",
+      { forecast: [today(5, 6, 100)] },
+      {},
+      "6 mm forecast today (100% chance) covers today's 5 mm crop water demand",
+    ],
+    [
+      "yesterday's soaking",
+      { history: [yesterday(4, 10)], forecast: [today(5)] },
+      {},
+      "10 mm of rain yesterday covers today's 5 mm crop water demand",
+    ],
+    [
+      "a run that would be too short to bother",
+      { forecast: [today(5, 3, 100)] },
+      { duration: 10 },
+      "3 mm forecast today (100% chance) covers today's 5 mm crop water demand",
+    ],
+  ])("skips the run for %s", (_, weather, options, reason) => {
+    expect(decide(weather, options)).toEqual({
+      action: "skip",
+      duration: 0,
+      reason,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import type { FarmEt0, Et0Day } from "@shared/et0";
+import { effectiveRain } from "@shared/waterBalance";
+
+// Forecast rain less likely than this isn't counted on
+export const MIN_RAIN_PROBABILITY = 50;
+// Rain covering less than this share of the day's demand leaves the run alone
+const MIN_SHARE_TO_SHORTEN = 0.25;
+// A run shortened below this many minutes is skipped instead
+const MIN_RUN_MINUTES = 5;
+
+export type RainAction = "run" | "shorten" | "skip";
+
+export type RainDecision = {
+  action: RainAction;
+  // Minutes to run; 0 when skipped
+  duration: number;
+  // Why the run was shortened or skipped
+  reason: string | null;
+};
+
+export type RainSkipInput = {
+  // Minutes the schedule would run
+  duration: number;
+  weather: Pick<FarmEt0, "history" | "forecast">;
+  // Crop coefficient for today
+  kc: number;
+  // Whether the soil has enough water to wait a day for forecast rain
+  canDefer: boolean;
+};
+
+const mm = (value: number) => `${Math.round(value * 10) / 10} mm`;
+
+// Rain expected on a forecast day, weighted by how likely it is
+function expectedRain(day: Et0Day | undefined): number {
+  const probability = day?.precipitationProbability;
+  if (!day || probability === null || probability === undefined) return 0;
+  if (probability < MIN_RAIN_PROBABILITY) return 0;
+  return effectiveRain((day.precipitation * probability) / 100, day.et0);
+}
+
+/**
+ * Decides whether a scheduled run is still needed given the rain that fell
+ * yesterday and the rain forecast for today, or for tomorrow when the soil
+ * can wait a day. Rain that covers today's crop demand skips the run; rain
+ * that covers part of it shortens the run in proportion. Forecast rain is
+ * weighted by its probability, and unlikely rain isn't counted at all.
+ */
+export function decideRainSkip(input: RainSkipInput): RainDecision {
+  const { duration, kc, canDefer } = input;
+  const { history, forecast } = input.weather;
+  const [today, tomorrow] = forecast;
+  const run: RainDecision = { action: "run", duration, reason: null };
+  if (!today) return run;
+
+  const demand = kc * today.et0;
+  if (demand <= 0) return run;
+
+  const sources: { amount: number; label: string }[] = [];
+  const yesterday = history[history.length - 1];
+  if (yesterday) {
+    // Whatever yesterday's crop didn't use is still in the soil
+    const leftover =
+      effectiveRain(yesterday.precipitation, yesterday.et0) -
+      kc * yesterday.et0;
+    if (leftover > 0) {
+      sources.push({
+        amount: leftover,
+        label: `${mm(yesterday.precipitation)} of rain yesterday`,
+      });
+    }
+  }
+  for (const [day, when] of [
+    [today, "today"],
+    [canDefer ? tomorrow : undefined, "tomorrow"],
+  ] as const) {
+    const amount = expectedRain(day);
+    if (day && amount > 0) {
+      sources.push({
+        amount,
+        label: `${mm(day.precipitation)} forecast ${when} (${day.precipitationProbability}% chance)`,
+      });
+    }
+  }
+
+  const credit = sources.reduce((sum, source) => sum + source.amount, 0);
+  const share = credit / demand;
+  if (share < MIN_SHARE_TO_SHORTEN) return run;
+
+  const rain = sources.map((source) => source.label).join(" and ");
+  const covers = sources.length > 1 ? "cover" : "covers";
+  const shortened = Math.round(duration * (1 - share));
+  if (share >= 1 || shortened < MIN_RUN_MINUTES) {
+    return {
+      action: "skip",
+      duration: 0,
+      reason: `${rain} ${covers} today's ${mm(demand)} crop water demand`,
+    };
+  }
+  return {
+    action: "shorten",
+    duration: shortened,
+    reason: `${rain} ${covers} ${Math.round(share * 100)}% of today's ${mm(demand)} crop water demand`,
+  };
+}
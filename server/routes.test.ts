@@ -0,0 +1,226 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { LocalTokenVerifier, signLocalToken } from "./auth";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+const SECRET = "route-tests";
+const owner = signLocalToken(SECRET, { uid: "owner", email: "o@example.com" });
+const viewer = signLocalToken(SECRET, { uid: "viewer" });
+const stranger = signLocalToken(SECRET, { uid: "stranger" });
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app, new LocalTokenVerifier(SECRET));
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function call(
+  method: string,
+  path: string,
+  token?: string,
+  body?: unknown,
+): Promise<{ status: number; body: any }> {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : null };
+}
+
+const createFarm = async (name = "North Farm") =>
+  (await call("POST", "/api/farms", owner, { name, cropTypes: ["Maize"] }))
+    .body;
+
+describe("authentication", () => {
+  it("requires a token", async () => {
+    const res = await call("GET", "/api/farms");
+
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe("Authentication required");
+  });
+
+  it("rejects tokens signed with another secret", async () => {
+    const forged = signLocalToken("not-the-secret", { uid: "owner" });
+    const res = await call("GET", "/api/farms", forged);
+
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe("ID token signature is invalid");
+  });
+
+  it("rejects expired tokens", async () => {
+    // Past the clock skew allowed
+    const expired = signLocalToken(SECRET, { uid: "owner" }, -3600);
+    const res = await call("GET", "/api/farms", expired);
+
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe("ID token has expired");
+  });
+});
+
+describe("farms", () => {
+  it("creates a farm for the caller and lists it as theirs", async () => {
+    const created = await call("POST", "/api/farms", owner, {
+      name: "South Farm",
+      totalAcres: 12,
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ userId: "owner", totalAcres: 12 });
+
+    const listed = await call("GET", "/api/farms", owner);
+    expect(listed.body).toContainEqual(
+      expect.objectContaining({
+        id: created.body.id,
+        role: "owner",
+        sensorData: null,
+      }),
+    );
+    const theirs = await call("GET", "/api/farms", stranger);
+    expect(theirs.body.map((farm: { id: string }) => farm.id)).not.toContain(
+      created.body.id,
+    );
+  });
+
+  it("rejects invalid farms", async () => {
+    const res = await call("POST", "/api/farms", owner, { totalAcres: -1 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toEqual(expect.any(String));
+  });
+
+  it("hides farms from callers without a role", async () => {
+    const farm = await createFarm();
+
+    expect((await call("GET", `/api/farms/${farm.id}`, stranger)).status).toBe(
+      404,
+    );
+    expect(
+      (await call("PATCH", `/api/farms/${farm.id}`, stranger, { name: "x" }))
+        .status,
+    ).toBe(404);
+    expect(
+      (await call("DELETE", `/api/farms/${farm.id}`, stranger)).status,
+    ).toBe(404);
+  });
+
+  it("lets members read but only managers and owners edit", async () => {
+    const farm = await createFarm();
+    await storage.upsertFarmMember({
+      farmId: farm.id,
+      userId: "viewer",
+      role: "viewer",
+      email: null,
+      addedBy: "owner",
+    });
+
+    const read = await call("GET", `/api/farms/${farm.id}`, viewer);
+    expect(read.status).toBe(200);
+    expect(read.body.role).toBe("viewer");
+
+    const edit = await call("PATCH", `/api/farms/${farm.id}`, viewer, {
+      name: "Mine now",
+    });
+    expect(edit.status).toBe(403);
+    expect(edit.body.message).toBe(
+      "Your viewer role does not allow this action",
+    );
+  });
+
+  it("updates and deletes the owner's farm, recording both", async () => {
+    const farm = await createFarm();
+
+    const updated = await call("PATCH", `/api/farms/${farm.id}`, owner, {
+      name: "Renamed",
+    });
+    expect(updated.body.name).toBe("Renamed");
+
+    expect((await call("DELETE", `/api/farms/${farm.id}`, owner)).status).toBe(
+      204,
+    );
+    expect((await call("GET", `/api/farms/${farm.id}`, owner)).status).toBe(
+      404,
+    );
+    const actions = (await storage.getAuditEntries({ farmId: farm.id })).map(
+      (entry) => entry.action,
+    );
+    expect(actions).toEqual(["farm.delete", "farm.update", "farm.create"]);
+  });
+});
+
+describe("fields", () => {
+  it("checks access through the field's farm", async () => {
+    const farm = await createFarm();
+    const created = await call("POST", `/api/farms/${farm.id}/fields`, owner, {
+      name: "Block A",
+      acres: 3,
+      cropType: "Maize",
+    });
+    expect(created.status).toBe(201);
+
+    const fieldId = created.body.id;
+    expect((await call("GET", `/api/fields/${fieldId}`, owner)).body).toEqual(
+      created.body,
+    );
+    expect((await call("GET", `/api/fields/${fieldId}`, stranger)).status).toBe(
+      404,
+    );
+    expect(
+      (await call("GET", `/api/farms/${farm.id}/fields`, owner)).body,
+    ).toEqual([created.body]);
+  });
+
+  it("rejects planting dates that aren't on the calendar", async () => {
+    const farm = await createFarm();
+    const plant = (plantedOn: string) =>
+      call("POST", `/api/farms/${farm.id}/fields`, owner, {
+        name: "Block B",
+        plantedOn,
+      });
+
+    expect((await plant("2026-02-31")).status).toBe(400);
+    expect((await plant("2026-13-01")).status).toBe(400);
+    expect((await plant("2028-02-29")).status).toBe(201);
+  });
+});
+
+describe("irrigation schedule", () => {
+  it("records each auto mode toggle as the change it made", async () => {
+    const farm = await createFarm();
+    const save = (autoMode: boolean) =>
+      call("PUT", `/api/farms/${farm.id}/schedule`, owner, {
+        autoMode,
+        scheduleTime: "06:00",
+        duration: 30,
+        timezone: "Africa/Nairobi",
+      });
+
+    expect((await save(true)).status).toBe(200);
+    const off = await save(false);
+    expect(off.body.autoMode).toBe(false);
+
+    const [toggled] = await storage.getAuditEntries({ farmId: farm.id });
+    expect(toggled.action).toBe("schedule.update");
+    expect(toggled.before).toEqual({ autoMode: true });
+    expect(toggled.after).toEqual({ autoMode: false });
+    expect(
+      (await call("GET", `/api/farms/${farm.id}/schedule`, owner)).body
+        .autoMode,
+    ).toBe(false);
+  });
+});
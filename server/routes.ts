@@ -1,11 +1,226 @@
 import type { Express } from "express";
 import { createServer, type Server } from "node:http";
+import {
+  insertFarmSchema,
+  insertFieldSchema,
+  updateFarmSchema,
+} from "@shared/schema";
+import type { FarmRole } from "@shared/roles";
+import { loadFarm, loadFarmAccess, loadField, requireUserId } from "./access";
+import { registerActuatorRoutes } from "./actuators";
+import { changedValues, recordAudit, registerAuditRoutes } from "./audit";
+import { authenticate, createTokenVerifier, type TokenVerifier } from "./auth";
+import { registerCalibrationRoutes } from "./calibration";
+import { registerChatRoutes } from "./chat";
+import { registerDeviceRoutes } from "./devices";
+import { registerHistoryRoutes } from "./history";
+import { asyncHandler, parseBody } from "./http";
+import { registerIrrigationRoutes } from "./irrigation";
+import { registerLiveUpdates } from "./live";
+import { registerLorawanRoutes } from "./lorawan";
+import { registerMemberRoutes } from "./members";
+import { storage } from "./storage";
+import { registerTelemetryRoutes } from "./telemetry";
+import { registerWaterBalanceRoutes } from "./waterBalance";
+import { registerWeatherRoutes } from "./weather";
 
-export async function registerRoutes(app: Express): Promise<Server> {
+// Tests pass a LocalTokenVerifier to authenticate with locally signed tokens.
+export async function registerRoutes(
+  app: Express,
+  verifier: TokenVerifier = createTokenVerifier(),
+): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
+  app.use("/api", authenticate(verifier));
+
+  app.get(
+    "/api/farms",
+    asyncHandler(async (req, res) => {
+      const userId = requireUserId(req, res);
+      if (!userId) return;
+
+      // Owned farms first, then farms shared with the caller
+      const owned = await storage.getFarmsByUser(userId);
+      const memberships = await storage.getMembershipsByUser(userId);
+      const shared = await Promise.all(
+        memberships.map(async ({ farmId, role }) => {
+          const farm = await storage.getFarm(farmId);
+          return farm && { ...farm, role };
+        }),
+      );
+
+      const withSensorData = await Promise.all(
+        [
+          ...owned.map((farm) => ({ ...farm, role: "owner" as FarmRole })),
+          ...shared.filter((farm) => farm !== undefined),
+        ].map(async (farm) => ({
+          ...farm,
+          sensorData: (await storage.getSensorData(farm.id)) ?? null,
+        })),
+      );
+      res.json(withSensorData);
+    }),
+  );
+
+  app.post(
+    "/api/farms",
+    asyncHandler(async (req, res) => {
+      const userId = requireUserId(req, res);
+      if (!userId) return;
+
+      const data = parseBody(insertFarmSchema, req, res);
+      if (!data) return;
+
+      const farm = await storage.createFarm(userId, data);
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "farm.create",
+        after: farm,
+      });
+      res.status(201).json(farm);
+    }),
+  );
+
+  app.get(
+    "/api/farms/:farmId",
+    asyncHandler(async (req, res) => {
+      const access = await loadFarmAccess(req, res, req.params.farmId, "view");
+      if (!access) return;
+
+      const { farm, role } = access;
+      const sensorData = (await storage.getSensorData(farm.id)) ?? null;
+      res.json({ ...farm, role, sensorData });
+    }),
+  );
+
+  app.patch(
+    "/api/farms/:farmId",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "editFarm");
+      if (!farm) return;
+
+      const data = parseBody(updateFarmSchema, req, res);
+      if (!data) return;
+
+      const updated = await storage.updateFarm(farm.id, data);
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "farm.update",
+        ...changedValues(farm, data),
+      });
+      res.json(updated);
+    }),
+  );
+
+  app.delete(
+    "/api/farms/:farmId",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "deleteFarm");
+      if (!farm) return;
+
+      await storage.deleteFarm(farm.id);
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "farm.delete",
+        before: farm,
+      });
+      res.sendStatus(204);
+    }),
+  );
+
+  app.get(
+    "/api/farms/:farmId/fields",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "view");
+      if (!farm) return;
+
+      res.json(await storage.getFieldsByFarm(farm.id));
+    }),
+  );
+
+  app.post(
+    "/api/farms/:farmId/fields",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "editFarm");
+      if (!farm) return;
+
+      const data = parseBody(insertFieldSchema, req, res);
+      if (!data) return;
+
+      const field = await storage.createField(farm.id, data);
+      await recordAudit(req, {
+        farmId: farm.id,
+        action: "field.create",
+        targetId: field.id,
+        after: field,
+      });
+      res.status(201).json(field);
+    }),
+  );
+
+  app.get(
+    "/api/fields/:fieldId",
+    asyncHandler(async (req, res) => {
+      const field = await loadField(req, res, req.params.fieldId, "view");
+      if (!field) return;
+
+      res.json(field);
+    }),
+  );
+
+  app.patch(
+    "/api/fields/:fieldId",
+    asyncHandler(async (req, res) => {
+      const field = await loadField(req, res, req.params.fieldId, "editFarm");
+      if (!field) return;
+
+      const data = parseBody(insertFieldSchema.partial(), req, res);
+      if (!data) return;
+
+      const updated = await storage.updateField(field.id, data);
+      await recordAudit(req, {
+        farmId: field.farmId,
+        action: "field.update",
+        targetId: field.id,
+        ...changedValues(field, data),
+      });
+      res.json(updated);
+    }),
+  );
+
+  app.delete(
+    "/api/fields/:fieldId",
+    asyncHandler(async (req, res) => {
+      const field = await loadField(req, res, req.params.fieldId, "editFarm");
+      if (!field) return;
+
+      await storage.deleteField(field.id);
+      await recordAudit(req, {
+        farmId: field.farmId,
+        action: "field.delete",
+        targetId: field.id,
+        before: field,
+      });
+      res.sendStatus(204);
+    }),
+  );
+
+  registerDeviceRoutes(app);
+  registerCalibrationRoutes(app);
+  registerTelemetryRoutes(app);
+  registerLorawanRoutes(app);
+  registerHistoryRoutes(app);
+  registerIrrigationRoutes(app);
+  registerWeatherRoutes(app);
+  registerWaterBalanceRoutes(app);
+  registerActuatorRoutes(app);
+  registerMemberRoutes(app);
+  registerAuditRoutes(app);
+  registerChatRoutes(app);
+
   const httpServer = createServer(app);
+  registerLiveUpdates(httpServer, verifier);
 
   return httpServer;
 }
@@ -0,0 +1,193 @@
+import type { Et0Day, FarmEt0 } from "@shared/et0";
+import type { Farm, InsertField } from "@shared/schema";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type Mock,
+} from "vitest";
+import { CommandChannel, PollingTransport } from "./actuators";
+import { FarmEvents } from "./events";
+import { IrrigationScheduler, LITERS_PER_MINUTE } from "./scheduler";
+import { MemStorage } from "./storage";
+
+// Five minutes after the 06:00 UTC slot; farms sit on the prime meridian
+const NOW = new Date("2026-06-02T06:05:00Z");
+
+let storage: MemStorage;
+let channel: CommandChannel;
+let scheduler: IrrigationScheduler;
+let forecast: Et0Day[];
+let getFarmEt0: Mock<(farm: Farm) => Promise<FarmEt0>>;
+
+const today = (et0: number, precipitation: number): Et0Day => ({
+  date: "2026-06-02",
+  et0,
+  method: "penman-monteith",
+  precipitation,
+  precipitationProbability: 100,
+  forecast: true,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  storage = new MemStorage();
+  channel = new CommandChannel(new PollingTransport(), storage, {
+    ackTimeoutMs: 60 * 1000,
+  });
+  forecast = [today(5, 3)];
+  getFarmEt0 = vi.fn(
+    async (farm: Farm): Promise<FarmEt0> => ({
+      farmId: farm.id,
+      latitude: 0,
+      longitude: 0,
+      history: [],
+      forecast,
+      updatedAt: NOW.toISOString(),
+    }),
+  );
+  scheduler = new IrrigationScheduler(
+    storage,
+    channel,
+    () => NOW,
+    new FarmEvents(),
+    { getFarmEt0 },
+  );
+});
+
+afterEach(() => {
+  scheduler.stop();
+  channel.stop();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+async function scheduledFarm(
+  fields: InsertField[] = [],
+  coordinates: Farm["coordinates"] = { latitude: 0, longitude: 0 },
+): Promise<Farm> {
+  const farm = await storage.createFarm("owner", {
+    name: "North Farm",
+    cropTypes: ["Maize"],
+    coordinates,
+  });
+  for (const field of fields) await storage.createField(farm.id, field);
+  await storage.upsertIrrigationSchedule(farm.id, {
+    autoMode: true,
+    scheduleTime: "06:00",
+    duration: 30,
+    timezone: "UTC",
+  });
+  return farm;
+}
+
+async function lastRun(farm: Farm) {
+  const [run] = await storage.getIrrigationLogs(farm.id);
+  return run;
+}
+
+describe("IrrigationScheduler rain check", () => {
+  it("shortens the run by the share of demand the rain covers", async () => {
+    // Maize mid-season: Kc 1.2, so 6 mm of demand against 3 mm of rain
+    const farm = await scheduledFarm();
+
+    await scheduler.tick();
+
+    expect(await lastRun(farm)).toMatchObject({
+      mode: "auto",
+      status: "in_progress",
+      duration: 15,
+      waterSaved: 15 * LITERS_PER_MINUTE,
+    });
+    const [alert] = await storage.getAlertsByUser("owner");
+    expect(alert.title).toBe("Irrigation shortened for rain");
+  });
+
+  it("skips the run when the rain covers the day", async () => {
+    forecast = [today(5, 8)];
+    const farm = await scheduledFarm();
+
+    await scheduler.tick();
+
+    expect(await lastRun(farm)).toMatchObject({
+      status: "skipped",
+      duration: 30,
+      waterSaved: 30 * LITERS_PER_MINUTE,
+    });
+    expect(await storage.getIrrigationLogsByStatus("in_progress")).toEqual([]);
+  });
+
+  it.each([
+    ["none of the fields are planted", [{ name: "A", cropType: "Maize" }], 15],
+    [
+      "every field is still a seedling",
+      [{ name: "A", cropType: "Maize", plantedOn: "2026-05-20" }],
+      0,
+    ],
+    [
+      "the thirstiest field is in mid-season",
+      [
+        { name: "A", cropType: "Maize", plantedOn: "2026-05-20" },
+        { name: "B", cropType: "Maize", plantedOn: "2026-03-15" },
+      ],
+      15,
+    ],
+    [
+      "a field grows a crop of its own",
+      [{ name: "A", cropType: "Coffee" }],
+      11,
+    ],
+  ])("uses the fields' growth stages when %s", async (_, fields, duration) => {
+    const farm = await scheduledFarm(fields);
+
+    await scheduler.tick();
+
+    const run = await lastRun(farm);
+    if (duration === 0) {
+      expect(run.status).toBe("skipped");
+    } else {
+      expect(run).toMatchObject({ status: "in_progress", duration });
+    }
+  });
+
+  it("runs as planned when the weather can't be had", async () => {
+    getFarmEt0.mockRejectedValue(new Error("Weather service down"));
+    const farm = await scheduledFarm();
+
+    await scheduler.tick();
+
+    expect(await lastRun(farm)).toMatchObject({
+      status: "in_progress",
+      duration: 30,
+    });
+  });
+
+  it("runs as planned for farms without coordinates", async () => {
+    const farm = await scheduledFarm([], null);
+
+    await scheduler.tick();
+
+    expect(getFarmEt0).not.toHaveBeenCalled();
+    expect(await lastRun(farm)).toMatchObject({
+      status: "in_progress",
+      duration: 30,
+    });
+  });
+
+  it("drops the slot of a farm deleted after it was claimed", async () => {
+    const farm = await scheduledFarm();
+    vi.spyOn(storage, "getFarm").mockResolvedValue(undefined);
+    const error = vi.spyOn(console, "error");
+
+    await scheduler.tick();
+
+    expect(error).not.toHaveBeenCalled();
+    expect(await lastRun(farm)).toBeUndefined();
+    expect(await storage.getActuatorCommandsByStatus("pending")).toEqual([]);
+  });
+});
@@ -0,0 +1,477 @@
+import { cropStage, findCrop } from "@shared/crops";
+import { assessHealth, primaryCrop } from "@shared/health";
+import type {
+  ActuatorCommand,
+  Farm,
+  Field,
+  IrrigationLog,
+  IrrigationMode,
+  IrrigationSchedule,
+  IrrigationStatus,
+} from "@shared/schema";
+import { commandChannel, type CommandChannel } from "./actuators";
+import { farmEvents, type FarmEvents } from "./events";
+import { decideRainSkip, type RainDecision } from "./rainSkip";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { farmDate, weatherSync, type WeatherSync } from "./weather";
+
+const log = console.log;
+
+const TICK_MS = 30 * 1000;
+// Slots missed by more than this (e.g. while the server was down) are skipped
+// rather than irrigating hours late.
+const MISSED_SLOT_GRACE_MS = 15 * 60 * 1000;
+// Matches the estimate shown in the Control screen.
+export const LITERS_PER_MINUTE = 100;
+
+export class IrrigationConflictError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "IrrigationConflictError";
+  }
+}
+
+type DateParts = { year: number; month: number; day: number };
+
+function zonedParts(timezone: string, at: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant.
+function timeZoneOffset(timezone: string, at: Date): number {
+  const p = zonedParts(timezone, at);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second,
+  );
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+function zonedTimeToUtc(
+  date: DateParts,
+  hour: number,
+  minute: number,
+  timezone: string,
+): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  // Second pass settles the offset when the first guess lands across a DST
+  // transition.
+  const guess = wallClock - timeZoneOffset(timezone, new Date(wallClock));
+  return new Date(wallClock - timeZoneOffset(timezone, new Date(guess)));
+}
+
+/**
+ * Returns the most recent slot at or before `now` for a daily schedule,
+ * i.e. today's `scheduleTime` in the schedule's time zone, or yesterday's if
+ * today's hasn't arrived yet.
+ */
+export function latestScheduledSlot(
+  schedule: Pick<IrrigationSchedule, "scheduleTime" | "timezone">,
+  now: Date,
+): Date {
+  const [hour, minute] = schedule.scheduleTime.split(":").map(Number);
+  const today = zonedParts(schedule.timezone, now);
+  const slot = zonedTimeToUtc(today, hour, minute, schedule.timezone);
+  if (slot <= now) return slot;
+
+  const yesterday = new Date(
+    Date.UTC(today.year, today.month - 1, today.day - 1),
+  );
+  return zonedTimeToUtc(
+    {
+      year: yesterday.getUTCFullYear(),
+      month: yesterday.getUTCMonth() + 1,
+      day: yesterday.getUTCDate(),
+    },
+    hour,
+    minute,
+    schedule.timezone,
+  );
+}
+
+// The crop coefficient a farm-wide run has to cover: the thirstiest field's
+// crop at its stage since planting, or the farm's primary crop when it has
+// no fields with a known crop. 1 when the crop is unknown.
+function cropKc(farm: Farm, fields: Field[], today: string): number {
+  const stages = fields.flatMap((field) => {
+    const crop = findCrop(field.cropType ?? primaryCrop(farm));
+    return crop ? [cropStage(crop, field.plantedOn, today)] : [];
+  });
+  if (stages.length > 0) {
+    return Math.max(...stages.map((stage) => stage.kc));
+  }
+
+  const crop = findCrop(primaryCrop(farm));
+  return crop ? cropStage(crop, null, today).kc : 1;
+}
+
+export type StartRunOptions = {
+  mode: IrrigationMode;
+  duration: number;
+  fieldId?: string;
+  // Why the run is shorter than planned, and the liters that saves
+  note?: string;
+  waterSaved?: number;
+};
+
+// A run together with the actuator command sent for the change, so callers
+// can follow whether the controller confirmed it.
+export type RunUpdate = {
+  run: IrrigationLog;
+  command?: ActuatorCommand;
+};
+
+/**
+ * Fires saved irrigation schedules and ends runs once their duration has
+ * elapsed. Every scheduled slot is claimed in storage before the run starts,
+ * so restarts (or a second instance) never fire the same slot twice, and runs
+ * still in progress when the process stopped are finished or re-armed on
+ * start. Before a scheduled run starts, rain that fell yesterday or is
+ * forecast can skip or shorten it (see decideRainSkip), which is logged on
+ * the run and raised as an alert. Valves are driven through the command
+ * channel; a run whose start command is never confirmed is marked failed and
+ * raises an alert. Every run change is announced on the farm event bus.
+ */
+export class IrrigationScheduler {
+  private interval: NodeJS.Timeout | undefined;
+  private stopTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private storage: IStorage = defaultStorage,
+    private commands: CommandChannel = commandChannel,
+    private now: () => Date = () => new Date(),
+    private events: FarmEvents = farmEvents,
+    private weather: Pick<WeatherSync, "getFarmEt0"> = weatherSync,
+  ) {
+    this.commands.on("settled", (command) => {
+      this.onCommandSettled(command).catch((error) => {
+        console.error(
+          `Failed to handle actuator command ${command.id}:`,
+          error,
+        );
+      });
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this.interval) return;
+
+    await this.recoverRuns();
+    await this.tick();
+    this.interval = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error("Irrigation scheduler tick failed:", error);
+      });
+    }, TICK_MS);
+    log("irrigation scheduler started");
+  }
+
+  stop(): void {
+    clearInterval(this.interval);
+    this.interval = undefined;
+    this.stopTimers.forEach((timer) => clearTimeout(timer));
+    this.stopTimers.clear();
+  }
+
+  async tick(): Promise<void> {
+    const now = this.now();
+    const schedules = await this.storage.getAutoIrrigationSchedules();
+
+    for (const schedule of schedules) {
+      const slot = latestScheduledSlot(schedule, now);
+      if (now.getTime() - slot.getTime() > MISSED_SLOT_GRACE_MS) continue;
+      if (schedule.lastRunAt && schedule.lastRunAt >= slot) continue;
+      if (!(await this.storage.claimScheduledRun(schedule.farmId, slot))) {
+        continue;
+      }
+
+      try {
+        await this.runSchedule(schedule);
+      } catch (error) {
+        console.error(
+          `Scheduled irrigation for ${schedule.farmId} did not start:`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async runSchedule(schedule: IrrigationSchedule) {
+    const { farmId, duration } = schedule;
+    // Deleted after the slot was claimed
+    const farm = await this.storage.getFarm(farmId);
+    if (!farm) {
+      log(`scheduled irrigation for ${farmId} dropped: the farm is gone`);
+      return;
+    }
+
+    const decision = await this.checkRain(farm, duration);
+    const waterSaved = (duration - decision.duration) * LITERS_PER_MINUTE;
+
+    if (decision.action === "skip") {
+      const now = this.now();
+      const run = await this.storage.createIrrigationLog(farmId, {
+        mode: "auto",
+        duration,
+        status: "skipped",
+        startTime: now,
+        endTime: now,
+        estimatedWaterUsage: 0,
+        waterSaved,
+        note: decision.reason,
+      });
+      this.events.emit("irrigationRun", run);
+      log(`irrigation skipped on ${farmId}: ${decision.reason}`);
+      await this.raiseRainAlert(farm, run, decision);
+      return;
+    }
+
+    const { run } = await this.startRun(farmId, {
+      mode: "auto",
+      duration: decision.duration,
+      note: decision.reason ?? undefined,
+      waterSaved,
+    });
+    if (decision.action === "shorten") {
+      await this.raiseRainAlert(farm, run, decision);
+    }
+  }
+
+  // Runs as planned when the weather can't be had
+  private async checkRain(farm: Farm, duration: number): Promise<RainDecision> {
+    const { coordinates } = farm;
+    if (!coordinates) {
+      log(`rain check for ${farm.id} skipped: the farm has no coordinates`);
+      return { action: "run", duration, reason: null };
+    }
+
+    try {
+      const [weather, snapshot, fields] = await Promise.all([
+        this.weather.getFarmEt0(farm, 1),
+        this.storage.getSensorData(farm.id),
+        this.storage.getFieldsByFarm(farm.id),
+      ]);
+      const today = farmDate(coordinates, this.now());
+      // Only wait for tomorrow's rain while the soil is still moist enough
+      const moisture = snapshot
+        ? assessHealth({ soilMoisture: snapshot.soilMoisture }, farm, {
+            quality: snapshot.quality,
+          }).metrics.find((metric) => metric.metric === "soilMoisture")
+        : undefined;
+      return decideRainSkip({
+        duration,
+        weather,
+        kc: cropKc(farm, fields, today),
+        canDefer: moisture?.status === "healthy",
+      });
+    } catch (error) {
+      log(
+        `rain check for ${farm.id} unavailable, running as planned: ${error}`,
+      );
+      return { action: "run", duration, reason: null };
+    }
+  }
+
+  async getActiveRun(farmId: string): Promise<IrrigationLog | undefined> {
+    const running = await this.storage.getIrrigationLogsByStatus("in_progress");
+    return running.find((run) => run.farmId === farmId);
+  }
+
+  async startRun(farmId: string, options: StartRunOptions): Promise<RunUpdate> {
+    const run = await this.storage.startIrrigationRun(farmId, {
+      mode: options.mode,
+      fieldId: options.fieldId,
+      duration: options.duration,
+      startTime: this.now(),
+      estimatedWaterUsage: options.duration * LITERS_PER_MINUTE,
+      waterSaved: options.waterSaved,
+      note: options.note,
+    });
+    if (!run) {
+      throw new IrrigationConflictError("Irrigation is already running");
+    }
+    this.armStopTimer(run);
+    this.events.emit("irrigationRun", run);
+    log(`irrigation ${run.id} started on ${farmId} (${options.mode})`);
+
+    const command = await this.commands.dispatch({
+      farmId,
+      irrigationLogId: run.id,
+      type: "start",
+      duration: run.duration,
+    });
+    return { run, command };
+  }
+
+  /**
+   * Changes the total duration of the farm's active run. Returns undefined
+   * when nothing is running.
+   */
+  async setRunDuration(
+    farmId: string,
+    duration: number,
+  ): Promise<RunUpdate | undefined> {
+    const active = await this.getActiveRun(farmId);
+    if (!active) return undefined;
+
+    const run =
+      (await this.storage.updateIrrigationLog(active.id, {
+        duration,
+        estimatedWaterUsage: duration * LITERS_PER_MINUTE,
+      })) ?? active;
+    clearTimeout(this.stopTimers.get(run.id));
+    this.armStopTimer(run);
+    this.events.emit("irrigationRun", run);
+
+    const command = await this.commands.dispatch({
+      farmId,
+      irrigationLogId: run.id,
+      type: "set_duration",
+      duration,
+    });
+    return { run, command };
+  }
+
+  async finishRun(
+    runId: string,
+    status: Exclude<IrrigationStatus, "scheduled" | "in_progress">,
+    endTime = this.now(),
+  ): Promise<RunUpdate | undefined> {
+    clearTimeout(this.stopTimers.get(runId));
+    this.stopTimers.delete(runId);
+
+    const run = await this.storage.getIrrigationLog(runId);
+    if (!run) return undefined;
+    if (run.status !== "in_progress") return { run };
+
+    // Runs only fail when the valve never confirmed opening.
+    const minutes = (endTime.getTime() - run.startTime.getTime()) / 60000;
+    const delivered =
+      status === "failed" ? 0 : Math.max(0, Math.min(minutes, run.duration));
+    log(`irrigation ${runId} ${status}`);
+    const finished =
+      (await this.storage.updateIrrigationLog(runId, {
+        status,
+        endTime,
+        estimatedWaterUsage: Math.round(delivered * LITERS_PER_MINUTE),
+      })) ?? run;
+    this.events.emit("irrigationRun", finished);
+    if (status === "failed") await this.raiseFailedRunAlert(finished);
+
+    // Sent for failed runs too, in case the valve opened without the
+    // acknowledgement getting through.
+    const command = await this.commands.dispatch({
+      farmId: run.farmId,
+      irrigationLogId: run.id,
+      type: "stop",
+      duration: null,
+    });
+    return { run: finished, command };
+  }
+
+  private async onCommandSettled(command: ActuatorCommand) {
+    if (command.type !== "start" || command.status !== "failed") return;
+    if (!command.irrigationLogId) return;
+
+    await this.finishRun(command.irrigationLogId, "failed");
+  }
+
+  private async raiseFailedRunAlert(run: IrrigationLog) {
+    const farm = await this.storage.getFarm(run.farmId);
+    if (!farm) return;
+
+    const alert = await this.storage.createAlert({
+      userId: farm.userId,
+      farmId: farm.id,
+      title: "Irrigation failed",
+      message: `The valve on ${farm.name} never confirmed the ${run.mode} run, so it was stopped.`,
+      type: "critical",
+      category: "irrigation",
+      priority: "high",
+      data: { irrigationLogId: run.id },
+    });
+    this.events.emit("alert", alert);
+  }
+
+  private async raiseRainAlert(
+    farm: Farm,
+    run: IrrigationLog,
+    decision: RainDecision,
+  ) {
+    const saved = Math.round(run.waterSaved).toLocaleString("en-US");
+    const alert = await this.storage.createAlert({
+      userId: farm.userId,
+      farmId: farm.id,
+      title:
+        decision.action === "skip"
+          ? "Irrigation skipped for rain"
+          : "Irrigation shortened for rain",
+      message:
+        decision.action === "skip"
+          ? `The scheduled run on ${farm.name} was skipped: ${decision.reason}. That saves about ${saved} L.`
+          : `The scheduled run on ${farm.name} was cut to ${decision.duration} minutes: ${decision.reason}. That saves about ${saved} L.`,
+      type: "success",
+      category: "weather",
+      priority: "low",
+      data: { irrigationLogId: run.id, waterSaved: run.waterSaved },
+    });
+    this.events.emit("alert", alert);
+  }
+
+  private plannedEnd(run: IrrigationLog): Date {
+    return new Date(run.startTime.getTime() + run.duration * 60 * 1000);
+  }
+
+  private armStopTimer(run: IrrigationLog) {
+    const end = this.plannedEnd(run);
+    const delay = Math.max(0, end.getTime() - this.now().getTime());
+    const timer = setTimeout(() => {
+      this.finishRun(run.id, "completed", end).catch((error) => {
+        console.error(`Failed to complete irrigation ${run.id}:`, error);
+      });
+    }, delay);
+    this.stopTimers.set(run.id, timer);
+  }
+
+  private async recoverRuns() {
+    const running = await this.storage.getIrrigationLogsByStatus("in_progress");
+    const now = this.now();
+
+    for (const run of running) {
+      const end = this.plannedEnd(run);
+      if (end <= now) {
+        await this.finishRun(run.id, "completed", end);
+      } else {
+        this.armStopTimer(run);
+      }
+    }
+  }
+}
+
+export const irrigationScheduler = new IrrigationScheduler();
@@ -0,0 +1,436 @@
+import { randomUUID } from "node:crypto";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import { beforeAll, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import type { DailyWeatherRow, InsertSensorReading } from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// An in-process Postgres with the schema `npm run db:push` would create
+async function createDbStorage(): Promise<IStorage> {
+  const db = drizzle(new PGlite(), { schema });
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema),
+  );
+  for (const statement of statements) await db.execute(statement);
+  // Same queries, PGlite driver instead of node-postgres
+  return new DbStorage(db as unknown as Database);
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage", createDbStorage],
+];
+
+function reading(
+  farmId: string,
+  recordedAt: Date,
+  values: Partial<InsertSensorReading> = {},
+): InsertSensorReading {
+  return {
+    farmId,
+    fieldId: null,
+    deviceId: "probe-1",
+    recordedAt,
+    soilMoisture: 40,
+    pH: 6.5,
+    temperature: 21,
+    nitrogen: null,
+    phosphorus: null,
+    potassium: null,
+    corrections: null,
+    quality: null,
+    ...values,
+  };
+}
+
+describe.each(implementations)("%s", (_name, create) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await create();
+  });
+
+  // Each test works on its own owner and farm, so they share one database
+  const newFarm = (userId: string = randomUUID()) =>
+    storage.createFarm(userId, { name: "North Farm", cropTypes: ["Maize"] });
+
+  describe("farms", () => {
+    it("fills in defaults and lists the owner's farms newest first", async () => {
+      const userId = randomUUID();
+      const first = await newFarm(userId);
+      const second = await newFarm(userId);
+
+      expect(first).toMatchObject({
+        userId,
+        name: "North Farm",
+        location: "",
+        totalAcres: 0,
+        cropTypes: ["Maize"],
+        irrigationType: "Manual",
+        status: "active",
+        description: null,
+        coordinates: null,
+      });
+      expect(await storage.getFarm(first.id)).toEqual(first);
+
+      // Created in the same millisecond on a fast machine
+      const listed = await storage.getFarmsByUser(userId);
+      expect(listed.map((farm) => farm.id).sort()).toEqual(
+        [first.id, second.id].sort(),
+      );
+      expect(await storage.getFarmsByUser(randomUUID())).toEqual([]);
+    });
+
+    it("keeps an id it is given", async () => {
+      const id = `-Nfirebase${randomUUID()}`;
+      const farm = await storage.createFarm(randomUUID(), { name: "Old" }, id);
+
+      expect(farm.id).toBe(id);
+      expect((await storage.getFarm(id))?.name).toBe("Old");
+    });
+
+    it("updates only the given details", async () => {
+      const farm = await newFarm();
+      const updated = await storage.updateFarm(farm.id, {
+        totalAcres: 12.5,
+        coordinates: { latitude: -1.3, longitude: 36.8 },
+      });
+
+      expect(updated).toMatchObject({
+        name: "North Farm",
+        totalAcres: 12.5,
+        coordinates: { latitude: -1.3, longitude: 36.8 },
+      });
+      expect(await storage.updateFarm(randomUUID(), { name: "x" })).toBe(
+        undefined,
+      );
+
+      const located = await storage.getFarmsWithCoordinates();
+      expect(located.map((f) => f.id)).toContain(farm.id);
+    });
+
+    it("deletes the farm with its fields, runs and members", async () => {
+      const farm = await newFarm();
+      const field = await storage.createField(farm.id, { name: "Block A" });
+      await storage.createIrrigationLog(farm.id, {
+        mode: "manual",
+        duration: 10,
+      });
+      await storage.upsertFarmMember({
+        farmId: farm.id,
+        userId: "worker",
+        role: "worker",
+        email: null,
+        addedBy: farm.userId,
+      });
+
+      expect(await storage.deleteFarm(farm.id)).toBe(true);
+      expect(await storage.getFarm(farm.id)).toBe(undefined);
+      expect(await storage.getField(field.id)).toBe(undefined);
+      expect(await storage.getIrrigationLogs(farm.id)).toEqual([]);
+      expect(await storage.getFarmMember(farm.id, "worker")).toBe(undefined);
+      expect(await storage.deleteFarm(farm.id)).toBe(false);
+    });
+
+    it("deletes the farm's daily weather", async () => {
+      const farm = await newFarm();
+      const other = await newFarm();
+      const day = (farmId: string): DailyWeatherRow => ({
+        farmId,
+        date: "2026-06-01",
+        tempMax: 28,
+        tempMin: 14,
+        humidity: 60,
+        windSpeed: 2,
+        solarRadiation: 24,
+        precipitation: 0,
+        precipitationProbability: null,
+        et0: 5.2,
+        et0Method: "penman-monteith",
+        forecast: false,
+        fetchedAt: new Date("2026-06-02T00:00:00Z"),
+      });
+      await storage.upsertDailyWeather([day(farm.id), day(other.id)]);
+
+      await storage.deleteFarm(farm.id);
+
+      expect(
+        await storage.getDailyWeather(farm.id, "2026-06-01", "2026-06-01"),
+      ).toEqual([]);
+      expect(
+        await storage.getDailyWeather(other.id, "2026-06-01", "2026-06-01"),
+      ).toEqual([day(other.id)]);
+    });
+  });
+
+  describe("members", () => {
+    it("changes a member's role in place", async () => {
+      const farm = await newFarm();
+      const userId = randomUUID();
+      const added = await storage.upsertFarmMember({
+        farmId: farm.id,
+        userId,
+        role: "viewer",
+        email: null,
+        addedBy: farm.userId,
+      });
+      const promoted = await storage.upsertFarmMember({
+        farmId: farm.id,
+        userId,
+        role: "manager",
+        email: null,
+        addedBy: farm.userId,
+      });
+
+      expect(promoted.role).toBe("manager");
+      expect(promoted.createdAt).toEqual(added.createdAt);
+      expect(await storage.getFarmMembers(farm.id)).toHaveLength(1);
+      expect(await storage.getMembershipsByUser(userId)).toEqual([
+        expect.objectContaining({ farmId: farm.id, role: "manager" }),
+      ]);
+
+      expect(await storage.deleteFarmMember(farm.id, userId)).toBe(true);
+      expect(await storage.deleteFarmMember(farm.id, userId)).toBe(false);
+    });
+  });
+
+  describe("fields", () => {
+    it("creates, updates and deletes fields", async () => {
+      const farm = await newFarm();
+      const field = await storage.createField(farm.id, {
+        name: "Block A",
+        acres: 3,
+        cropType: "Maize",
+        plantedOn: "2026-03-01",
+      });
+
+      expect(field).toMatchObject({
+        farmId: farm.id,
+        acres: 3,
+        soilType: null,
+        plantedOn: "2026-03-01",
+      });
+      expect(await storage.getFieldsByFarm(farm.id)).toEqual([field]);
+
+      const updated = await storage.updateField(field.id, { plantedOn: null });
+      expect(updated).toMatchObject({ cropType: "Maize", plantedOn: null });
+
+      expect(await storage.deleteField(field.id)).toBe(true);
+      expect(await storage.getFieldsByFarm(farm.id)).toEqual([]);
+      expect(await storage.deleteField(field.id)).toBe(false);
+    });
+
+    it("keeps a deleted field's readings for the farm", async () => {
+      const farm = await newFarm();
+      const field = await storage.createField(farm.id, { name: "Block B" });
+      const at = new Date("2026-05-01T06:00:00Z");
+      await storage.createSensorReadings([
+        reading(farm.id, at, { fieldId: field.id }),
+      ]);
+
+      await storage.deleteField(field.id);
+      const [kept] = await storage.getSensorReadings({
+        farmId: farm.id,
+        from: at,
+        to: new Date(at.getTime() + 1),
+      });
+      expect(kept.fieldId).toBe(null);
+    });
+  });
+
+  describe("sensor readings", () => {
+    it("returns readings oldest first, from inclusive and to exclusive", async () => {
+      const farm = await newFarm();
+      const hour = (h: number) => new Date(Date.UTC(2026, 4, 1, h));
+      await storage.createSensorReadings([
+        reading(farm.id, hour(3)),
+        reading(farm.id, hour(1), { soilMoisture: 30 }),
+        reading(farm.id, hour(2)),
+      ]);
+
+      const readings = await storage.getSensorReadings({
+        farmId: farm.id,
+        from: hour(1),
+        to: hour(3),
+      });
+      expect(readings.map((r) => r.recordedAt)).toEqual([hour(1), hour(2)]);
+      expect(readings[0].soilMoisture).toBe(30);
+
+      const recent = await storage.getRecentSensorReadings("probe-1", 10);
+      expect(recent.filter((r) => r.farmId === farm.id)[0].recordedAt).toEqual(
+        hour(3),
+      );
+    });
+  });
+
+  describe("irrigation runs", () => {
+    it("defaults a run's savings and note", async () => {
+      const farm = await newFarm();
+      const run = await storage.createIrrigationLog(farm.id, {
+        mode: "manual",
+        duration: 15,
+      });
+
+      expect(run).toMatchObject({
+        farmId: farm.id,
+        fieldId: null,
+        status: "in_progress",
+        estimatedWaterUsage: 0,
+        waterSaved: 0,
+        note: null,
+        endTime: null,
+      });
+    });
+
+    it("starts only one run per farm at a time", async () => {
+      const farm = await newFarm();
+      const log = { mode: "manual" as const, duration: 10 };
+
+      const started = await Promise.all([
+        storage.startIrrigationRun(farm.id, log),
+        storage.startIrrigationRun(farm.id, log),
+      ]);
+      const run = started.find((r) => r !== undefined);
+      expect(started.filter((r) => r === undefined)).toHaveLength(1);
+      expect(run?.status).toBe("in_progress");
+
+      // Other farms aren't held up
+      const other = await newFarm();
+      expect(await storage.startIrrigationRun(other.id, log)).toMatchObject({
+        status: "in_progress",
+      });
+
+      await storage.updateIrrigationLog(run!.id, {
+        status: "completed",
+        endTime: new Date(),
+      });
+      expect(await storage.startIrrigationRun(farm.id, log)).toMatchObject({
+        status: "in_progress",
+      });
+    });
+
+    it("lists runs newest first and since a time", async () => {
+      const farm = await newFarm();
+      const day = (d: number) => new Date(Date.UTC(2026, 4, d, 6));
+      for (const d of [1, 3, 2]) {
+        await storage.createIrrigationLog(farm.id, {
+          mode: "auto",
+          duration: 10,
+          status: "completed",
+          startTime: day(d),
+        });
+      }
+
+      const latest = await storage.getIrrigationLogs(farm.id, 2);
+      expect(latest.map((run) => run.startTime)).toEqual([day(3), day(2)]);
+      const since = await storage.getIrrigationLogsSince(farm.id, day(2));
+      expect(since.map((run) => run.startTime)).toEqual([day(2), day(3)]);
+    });
+  });
+
+  describe("schedules", () => {
+    it("claims each scheduled slot once", async () => {
+      const farm = await newFarm();
+      const slot = new Date("2026-05-01T06:00:00Z");
+      const nextSlot = new Date("2026-05-02T06:00:00Z");
+
+      expect(await storage.claimScheduledRun(farm.id, slot)).toBe(false);
+      await storage.upsertIrrigationSchedule(farm.id, {
+        autoMode: true,
+        scheduleTime: "06:00",
+        duration: 20,
+        timezone: "Africa/Nairobi",
+      });
+
+      const claims = await Promise.all([
+        storage.claimScheduledRun(farm.id, slot),
+        storage.claimScheduledRun(farm.id, slot),
+      ]);
+      expect(claims.sort()).toEqual([false, true]);
+      expect(await storage.claimScheduledRun(farm.id, nextSlot)).toBe(true);
+      expect(await storage.claimScheduledRun(farm.id, slot)).toBe(false);
+
+      // Saving the schedule again doesn't forget the last run
+      const saved = await storage.upsertIrrigationSchedule(farm.id, {
+        autoMode: false,
+        scheduleTime: "07:00",
+        duration: 20,
+        timezone: "Africa/Nairobi",
+      });
+      expect(saved.lastRunAt).toEqual(nextSlot);
+      const auto = await storage.getAutoIrrigationSchedules();
+      expect(auto.map((schedule) => schedule.farmId)).not.toContain(farm.id);
+    });
+  });
+
+  describe("chat usage", () => {
+    it("adds up a user's requests and tokens per day", async () => {
+      const userId = randomUUID();
+      await storage.addChatUsage(userId, "2026-05-01", {
+        requests: 1,
+        tokens: 0,
+      });
+      const usage = await storage.addChatUsage(userId, "2026-05-01", {
+        requests: 0,
+        tokens: 250,
+      });
+
+      expect(usage).toEqual({
+        userId,
+        day: "2026-05-01",
+        requests: 1,
+        tokens: 250,
+      });
+      expect(await storage.getChatUsage(userId, "2026-05-02")).toBe(undefined);
+    });
+  });
+
+  describe("alerts", () => {
+    it("creates unread alerts and marks them read", async () => {
+      const userId = randomUUID();
+      const alert = await storage.createAlert({
+        userId,
+        title: "Dry soil",
+        message: "Moisture is below 20%",
+        type: "warning",
+        category: "irrigation",
+        priority: "high",
+      });
+
+      expect(alert).toMatchObject({ read: false, farmId: null, data: null });
+      expect((await storage.markAlertRead(alert.id))?.read).toBe(true);
+      expect(await storage.getAlertsByUser(userId)).toEqual([
+        expect.objectContaining({ id: alert.id, read: true }),
+      ]);
+    });
+  });
+
+  describe("audit log", () => {
+    it("keeps entries after their farm is deleted", async () => {
+      const farm = await newFarm();
+      await storage.appendAuditEntry({
+        farmId: farm.id,
+        actorId: farm.userId,
+        actorEmail: null,
+        action: "farm.create",
+        targetId: null,
+        before: null,
+        after: { name: farm.name },
+        client: "tests",
+      });
+      await storage.deleteFarm(farm.id);
+
+      const entries = await storage.getAuditEntries({ farmId: farm.id });
+      expect(entries).toEqual([
+        expect.objectContaining({
+          action: "farm.create",
+          after: { name: "North Farm" },
+        }),
+      ]);
+    });
+  });
+});
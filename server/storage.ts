@@ -1,5 +1,70 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type Farm,
+  type InsertFarm,
+  type UpdateFarm,
+  type FarmMember,
+  type FarmInvite,
+  type FarmInviteStatus,
+  type InsertFarmInvite,
+  type Field,
+  type InsertField,
+  type SensorData,
+  type IrrigationLog,
+  type InsertIrrigationLog,
+  type Alert,
+  type InsertAlert,
+  type SensorReading,
+  type InsertSensorReading,
+  type IrrigationSchedule,
+  type InsertIrrigationSchedule,
+  type IrrigationStatus,
+  type ActuatorCommand,
+  type ActuatorCommandStatus,
+  type InsertActuatorCommand,
+  type ChatUsage,
+  type DailyWeatherRow,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type Device,
+  type DeviceCalibration,
+  type InsertDeviceCalibration,
+  type SensorMetric,
+  users,
+  farms,
+  farmMembers,
+  farmInvites,
+  fields,
+  sensorData,
+  irrigationLogs,
+  alerts,
+  sensorReadings,
+  irrigationSchedules,
+  actuatorCommands,
+  chatUsage,
+  dailyWeather,
+  auditLog,
+  devices,
+  deviceCalibrations,
+} from "@shared/schema";
+import type { DeviceStatus } from "@shared/devices";
 import { randomUUID } from "crypto";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+} from "drizzle-orm";
+import { createDb, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +73,250 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getFarmsByUser(userId: string): Promise<Farm[]>;
+  getFarm(id: string): Promise<Farm | undefined>;
+  // Farms whose location is known, for fetching their weather
+  getFarmsWithCoordinates(): Promise<Farm[]>;
+  // `id` is generated unless given, which only the farm migration does to
+  // keep a Realtime Database farm's id
+  createFarm(userId: string, farm: InsertFarm, id?: string): Promise<Farm>;
+  updateFarm(id: string, farm: UpdateFarm): Promise<Farm | undefined>;
+  deleteFarm(id: string): Promise<boolean>;
+
+  getFarmMember(
+    farmId: string,
+    userId: string,
+  ): Promise<FarmMember | undefined>;
+  // Oldest first
+  getFarmMembers(farmId: string): Promise<FarmMember[]>;
+  getMembershipsByUser(userId: string): Promise<FarmMember[]>;
+  upsertFarmMember(member: InsertFarmMember): Promise<FarmMember>;
+  deleteFarmMember(farmId: string, userId: string): Promise<boolean>;
+
+  createFarmInvite(
+    farmId: string,
+    invitedBy: string,
+    invite: InsertFarmInvite,
+  ): Promise<FarmInvite>;
+  getFarmInvite(id: string): Promise<FarmInvite | undefined>;
+  // Newest first
+  getFarmInvites(
+    farmId: string,
+    status?: FarmInviteStatus,
+  ): Promise<FarmInvite[]>;
+  // Newest first; `email` must be lowercased
+  getPendingInvitesByEmail(email: string): Promise<FarmInvite[]>;
+  updateFarmInvite(
+    id: string,
+    update: FarmInviteUpdate,
+  ): Promise<FarmInvite | undefined>;
+
+  getFieldsByFarm(farmId: string): Promise<Field[]>;
+  getField(id: string): Promise<Field | undefined>;
+  createField(farmId: string, field: InsertField): Promise<Field>;
+  updateField(
+    id: string,
+    field: Partial<InsertField>,
+  ): Promise<Field | undefined>;
+  deleteField(id: string): Promise<boolean>;
+
+  getDevice(id: string): Promise<Device | undefined>;
+  getDeviceBySecretHash(secretHash: string): Promise<Device | undefined>;
+  // Newest first
+  getDevicesByFarm(farmId: string): Promise<Device[]>;
+  getDevicesByStatus(status: DeviceStatus): Promise<Device[]>;
+  createDevice(device: NewDevice): Promise<Device>;
+  updateDevice(id: string, update: DeviceUpdate): Promise<Device | undefined>;
+
+  // Newest first, retired ones included
+  getDeviceCalibrations(deviceId: string): Promise<DeviceCalibration[]>;
+  // The calibration in force for each metric of each device
+  getActiveCalibrations(deviceIds: string[]): Promise<DeviceCalibration[]>;
+  // Retires the device's current calibration for the metric, if any, and
+  // records the new one in its place.
+  saveDeviceCalibration(
+    calibration: InsertDeviceCalibration,
+  ): Promise<DeviceCalibration>;
+  retireDeviceCalibration(
+    deviceId: string,
+    metric: SensorMetric,
+  ): Promise<DeviceCalibration | undefined>;
+
+  getSensorData(farmId: string): Promise<SensorData | undefined>;
+  upsertSensorData(snapshot: SensorData): Promise<SensorData>;
+
+  createSensorReadings(
+    readings: InsertSensorReading[],
+  ): Promise<SensorReading[]>;
+  // Oldest first, `from` inclusive and `to` exclusive
+  getSensorReadings(query: SensorReadingQuery): Promise<SensorReading[]>;
+  // The device's latest readings, newest first
+  getRecentSensorReadings(
+    deviceId: string,
+    limit: number,
+  ): Promise<SensorReading[]>;
+
+  // Newest first
+  getIrrigationLogs(farmId: string, limit?: number): Promise<IrrigationLog[]>;
+  getIrrigationLog(id: string): Promise<IrrigationLog | undefined>;
+  createIrrigationLog(
+    farmId: string,
+    log: InsertIrrigationLog,
+  ): Promise<IrrigationLog>;
+  updateIrrigationLog(
+    id: string,
+    log: Partial<InsertIrrigationLog>,
+  ): Promise<IrrigationLog | undefined>;
+  // Atomically creates the farm's in-progress run. Resolves undefined if the
+  // farm already has one.
+  startIrrigationRun(
+    farmId: string,
+    log: InsertIrrigationLog,
+  ): Promise<IrrigationLog | undefined>;
+  getIrrigationLogsByStatus(status: IrrigationStatus): Promise<IrrigationLog[]>;
+  // Oldest first, runs started at or after `since`
+  getIrrigationLogsSince(farmId: string, since: Date): Promise<IrrigationLog[]>;
+
+  getIrrigationSchedule(
+    farmId: string,
+  ): Promise<IrrigationSchedule | undefined>;
+  upsertIrrigationSchedule(
+    farmId: string,
+    schedule: InsertIrrigationSchedule,
+  ): Promise<IrrigationSchedule>;
+  getAutoIrrigationSchedules(): Promise<IrrigationSchedule[]>;
+  // Atomically records `slot` as the schedule's latest run. Resolves false if
+  // that slot (or a later one) was already claimed.
+  claimScheduledRun(farmId: string, slot: Date): Promise<boolean>;
+
+  createActuatorCommand(
+    command: InsertActuatorCommand,
+  ): Promise<ActuatorCommand>;
+  getActuatorCommand(id: string): Promise<ActuatorCommand | undefined>;
+  updateActuatorCommand(
+    id: string,
+    update: ActuatorCommandUpdate,
+  ): Promise<ActuatorCommand | undefined>;
+  // Oldest first
+  getActuatorCommandsByStatus(
+    status: ActuatorCommandStatus,
+    farmId?: string,
+  ): Promise<ActuatorCommand[]>;
+
+  // Oldest first, both dates (YYYY-MM-DD) inclusive
+  getDailyWeather(
+    farmId: string,
+    from: string,
+    to: string,
+  ): Promise<DailyWeatherRow[]>;
+  // Replaces any rows already stored for the same farm and date
+  upsertDailyWeather(days: DailyWeatherRow[]): Promise<void>;
+
+  getChatUsage(userId: string, day: string): Promise<ChatUsage | undefined>;
+  // Atomically adds to the day's counters and returns the new totals.
+  addChatUsage(
+    userId: string,
+    day: string,
+    usage: ChatUsageIncrement,
+  ): Promise<ChatUsage>;
+
+  // Newest first
+  getAlertsByUser(userId: string): Promise<Alert[]>;
+  createAlert(alert: InsertAlert): Promise<Alert>;
+  markAlertRead(id: string): Promise<Alert | undefined>;
+
+  // The audit log is append-only; there is deliberately no update or delete.
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  // Newest first, `from` inclusive and `to` exclusive
+  getAuditEntries(query: AuditEntryQuery): Promise<AuditEntry[]>;
 }
 
+export type SensorReadingQuery = {
+  farmId?: string;
+  fieldId?: string;
+  from: Date;
+  to: Date;
+};
+
+export type AuditEntryQuery = {
+  farmId: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+};
+
+export type ActuatorCommandUpdate = Partial<
+  Pick<
+    ActuatorCommand,
+    "status" | "attempts" | "error" | "lastSentAt" | "settledAt"
+  >
+>;
+
+export type InsertFarmMember = Omit<FarmMember, "createdAt">;
+
+export type NewDevice = Pick<
+  Device,
+  | "id"
+  | "farmId"
+  | "fieldId"
+  | "name"
+  | "type"
+  | "zone"
+  | "installDepthCm"
+  | "decoder"
+  | "secretHash"
+  | "provisionedBy"
+>;
+
+export type DeviceUpdate = Partial<Omit<Device, "id">>;
+
+export type FarmInviteUpdate = Partial<
+  Pick<FarmInvite, "status" | "acceptedBy" | "respondedAt">
+>;
+
+export type ChatUsageIncrement = Pick<ChatUsage, "requests" | "tokens">;
+
+const newestFirst = <T extends { createdAt: Date }>(a: T, b: T) =>
+  b.createdAt.getTime() - a.createdAt.getTime();
+
+// In-memory implementation used when no database is configured, and as the
+// test double for everything built on top of IStorage.
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private farms: Map<string, Farm>;
+  private farmMembers: Map<string, FarmMember>;
+  private farmInvites: Map<string, FarmInvite>;
+  private fields: Map<string, Field>;
+  private sensorData: Map<string, SensorData>;
+  private irrigationLogs: Map<string, IrrigationLog>;
+  private alerts: Map<string, Alert>;
+  private sensorReadings: SensorReading[];
+  private irrigationSchedules: Map<string, IrrigationSchedule>;
+  private actuatorCommands: Map<string, ActuatorCommand>;
+  private chatUsage: Map<string, ChatUsage>;
+  private auditLog: AuditEntry[];
+  private dailyWeather: Map<string, DailyWeatherRow>;
+  private devices: Map<string, Device>;
+  private deviceCalibrations: DeviceCalibration[];
 
   constructor() {
     this.users = new Map();
+    this.farms = new Map();
+    this.farmMembers = new Map();
+    this.farmInvites = new Map();
+    this.fields = new Map();
+    this.sensorData = new Map();
+    this.irrigationLogs = new Map();
+    this.alerts = new Map();
+    this.sensorReadings = [];
+    this.irrigationSchedules = new Map();
+    this.actuatorCommands = new Map();
+    this.chatUsage = new Map();
+    this.auditLog = [];
+    this.dailyWeather = new Map();
+    this.devices = new Map();
+    this.deviceCalibrations = [];
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +335,1369 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getFarmsByUser(userId: string): Promise<Farm[]> {
+    return Array.from(this.farms.values())
+      .filter((farm) => farm.userId === userId)
+      .sort(newestFirst);
+  }
+
+  async getFarm(id: string): Promise<Farm | undefined> {
+    return this.farms.get(id);
+  }
+
+  async getFarmsWithCoordinates(): Promise<Farm[]> {
+    return Array.from(this.farms.values()).filter((farm) => farm.coordinates);
+  }
+
+  async createFarm(
+    userId: string,
+    insertFarm: InsertFarm,
+    id: string = randomUUID(),
+  ): Promise<Farm> {
+    const now = new Date();
+    const farm: Farm = {
+      location: "",
+      totalAcres: 0,
+      cropTypes: [],
+      soilType: "",
+      irrigationType: "Manual",
+      status: "active",
+      ...insertFarm,
+      description: insertFarm.description ?? null,
+      coordinates: insertFarm.coordinates ?? null,
+      id,
+      userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.farms.set(id, farm);
+    return farm;
+  }
+
+  async updateFarm(id: string, update: UpdateFarm): Promise<Farm | undefined> {
+    const existing = this.farms.get(id);
+    if (!existing) return undefined;
+
+    const farm: Farm = {
+      ...existing,
+      ...update,
+      description:
+        update.description === undefined
+          ? existing.description
+          : update.description,
+      coordinates:
+        update.coordinates === undefined
+          ? existing.coordinates
+          : update.coordinates,
+      updatedAt: new Date(),
+    };
+    this.farms.set(id, farm);
+    return farm;
+  }
+
+  async deleteFarm(id: string): Promise<boolean> {
+    if (!this.farms.delete(id)) return false;
+
+    Array.from(this.fields.values())
+      .filter((field) => field.farmId === id)
+      .forEach((field) => this.fields.delete(field.id));
+    Array.from(this.irrigationLogs.values())
+      .filter((log) => log.farmId === id)
+      .forEach((log) => this.irrigationLogs.delete(log.id));
+    Array.from(this.alerts.values())
+      .filter((alert) => alert.farmId === id)
+      .forEach((alert) => this.alerts.delete(alert.id));
+    this.sensorData.delete(id);
+    this.irrigationSchedules.delete(id);
+    Array.from(this.actuatorCommands.values())
+      .filter((command) => command.farmId === id)
+      .forEach((command) => this.actuatorCommands.delete(command.id));
+    this.sensorReadings = this.sensorReadings.filter(
+      (reading) => reading.farmId !== id,
+    );
+    Array.from(this.dailyWeather.entries())
+      .filter(([, day]) => day.farmId === id)
+      .forEach(([key]) => this.dailyWeather.delete(key));
+    Array.from(this.farmMembers.entries())
+      .filter(([, member]) => member.farmId === id)
+      .forEach(([key]) => this.farmMembers.delete(key));
+    Array.from(this.farmInvites.values())
+      .filter((invite) => invite.farmId === id)
+      .forEach((invite) => this.farmInvites.delete(invite.id));
+    Array.from(this.devices.values())
+      .filter((device) => device.farmId === id)
+      .forEach((device) => this.devices.delete(device.id));
+    this.deviceCalibrations = this.deviceCalibrations.filter((calibration) =>
+      this.devices.has(calibration.deviceId),
+    );
+    return true;
+  }
+
+  async getFarmMember(
+    farmId: string,
+    userId: string,
+  ): Promise<FarmMember | undefined> {
+    return this.farmMembers.get(`${farmId}:${userId}`);
+  }
+
+  async getFarmMembers(farmId: string): Promise<FarmMember[]> {
+    return Array.from(this.farmMembers.values())
+      .filter((member) => member.farmId === farmId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getMembershipsByUser(userId: string): Promise<FarmMember[]> {
+    return Array.from(this.farmMembers.values()).filter(
+      (member) => member.userId === userId,
+    );
+  }
+
+  async upsertFarmMember(insertMember: InsertFarmMember): Promise<FarmMember> {
+    const key = `${insertMember.farmId}:${insertMember.userId}`;
+    const member: FarmMember = {
+      ...insertMember,
+      createdAt: this.farmMembers.get(key)?.createdAt ?? new Date(),
+    };
+    this.farmMembers.set(key, member);
+    return member;
+  }
+
+  async deleteFarmMember(farmId: string, userId: string): Promise<boolean> {
+    return this.farmMembers.delete(`${farmId}:${userId}`);
+  }
+
+  async createFarmInvite(
+    farmId: string,
+    invitedBy: string,
+    insertInvite: InsertFarmInvite,
+  ): Promise<FarmInvite> {
+    const id = randomUUID();
+    const invite: FarmInvite = {
+      ...insertInvite,
+      id,
+      farmId,
+      invitedBy,
+      status: "pending",
+      acceptedBy: null,
+      createdAt: new Date(),
+      respondedAt: null,
+    };
+    this.farmInvites.set(id, invite);
+    return invite;
+  }
+
+  async getFarmInvite(id: string): Promise<FarmInvite | undefined> {
+    return this.farmInvites.get(id);
+  }
+
+  async getFarmInvites(
+    farmId: string,
+    status?: FarmInviteStatus,
+  ): Promise<FarmInvite[]> {
+    return Array.from(this.farmInvites.values())
+      .filter(
+        (invite) =>
+          invite.farmId === farmId &&
+          (status === undefined || invite.status === status),
+      )
+      .sort(newestFirst);
+  }
+
+  async getPendingInvitesByEmail(email: string): Promise<FarmInvite[]> {
+    return Array.from(this.farmInvites.values())
+      .filter((invite) => invite.email === email && invite.status === "pending")
+      .sort(newestFirst);
+  }
+
+  async updateFarmInvite(
+    id: string,
+    update: FarmInviteUpdate,
+  ): Promise<FarmInvite | undefined> {
+    const existing = this.farmInvites.get(id);
+    if (!existing) return undefined;
+
+    const invite: FarmInvite = { ...existing, ...update };
+    this.farmInvites.set(id, invite);
+    return invite;
+  }
+
+  async getFieldsByFarm(farmId: string): Promise<Field[]> {
+    return Array.from(this.fields.values()).filter(
+      (field) => field.farmId === farmId,
+    );
+  }
+
+  async getField(id: string): Promise<Field | undefined> {
+    return this.fields.get(id);
+  }
+
+  async createField(farmId: string, insertField: InsertField): Promise<Field> {
+    const id = randomUUID();
+    const field: Field = {
+      acres: 0,
+      ...insertField,
+      cropType: insertField.cropType ?? null,
+      soilType: insertField.soilType ?? null,
+      plantedOn: insertField.plantedOn ?? null,
+      id,
+      farmId,
+      createdAt: new Date(),
+    };
+    this.fields.set(id, field);
+    return field;
+  }
+
+  async updateField(
+    id: string,
+    update: Partial<InsertField>,
+  ): Promise<Field | undefined> {
+    const existing = this.fields.get(id);
+    if (!existing) return undefined;
+
+    const field: Field = {
+      ...existing,
+      ...update,
+      cropType:
+        update.cropType === undefined ? existing.cropType : update.cropType,
+      soilType:
+        update.soilType === undefined ? existing.soilType : update.soilType,
+      plantedOn:
+        update.plantedOn === undefined ? existing.plantedOn : update.plantedOn,
+    };
+    this.fields.set(id, field);
+    return field;
+  }
+
+  async deleteField(id: string): Promise<boolean> {
+    if (!this.fields.delete(id)) return false;
+
+    Array.from(this.irrigationLogs.values())
+      .filter((log) => log.fieldId === id)
+      .forEach((log) =>
+        this.irrigationLogs.set(log.id, { ...log, fieldId: null }),
+      );
+    this.sensorReadings = this.sensorReadings.map((reading) =>
+      reading.fieldId === id ? { ...reading, fieldId: null } : reading,
+    );
+    Array.from(this.devices.values())
+      .filter((device) => device.fieldId === id)
+      .forEach((device) =>
+        this.devices.set(device.id, { ...device, fieldId: null }),
+      );
+    return true;
+  }
+
+  async getDevice(id: string): Promise<Device | undefined> {
+    return this.devices.get(id);
+  }
+
+  async getDeviceBySecretHash(secretHash: string): Promise<Device | undefined> {
+    return Array.from(this.devices.values()).find(
+      (device) => device.secretHash === secretHash,
+    );
+  }
+
+  async getDevicesByFarm(farmId: string): Promise<Device[]> {
+    return Array.from(this.devices.values())
+      .filter((device) => device.farmId === farmId)
+      .sort(newestFirst);
+  }
+
+  async getDevicesByStatus(status: DeviceStatus): Promise<Device[]> {
+    return Array.from(this.devices.values()).filter(
+      (device) => device.status === status,
+    );
+  }
+
+  async createDevice(newDevice: NewDevice): Promise<Device> {
+    const device: Device = {
+      ...newDevice,
+      status: "active",
+      battery: null,
+      firmwareVersion: null,
+      lastSeenAt: null,
+      maintenanceReason: null,
+      createdAt: new Date(),
+      decommissionedAt: null,
+    };
+    this.devices.set(device.id, device);
+    return device;
+  }
+
+  async updateDevice(
+    id: string,
+    update: DeviceUpdate,
+  ): Promise<Device | undefined> {
+    const existing = this.devices.get(id);
+    if (!existing) return undefined;
+
+    const device: Device = { ...existing, ...update };
+    this.devices.set(id, device);
+    return device;
+  }
+
+  async getDeviceCalibrations(deviceId: string): Promise<DeviceCalibration[]> {
+    return this.deviceCalibrations
+      .filter((calibration) => calibration.deviceId === deviceId)
+      .sort(newestFirst);
+  }
+
+  async getActiveCalibrations(
+    deviceIds: string[],
+  ): Promise<DeviceCalibration[]> {
+    return this.deviceCalibrations.filter(
+      (calibration) =>
+        deviceIds.includes(calibration.deviceId) &&
+        calibration.retiredAt === null,
+    );
+  }
+
+  async saveDeviceCalibration(
+    insertCalibration: InsertDeviceCalibration,
+  ): Promise<DeviceCalibration> {
+    const now = new Date();
+    await this.retireDeviceCalibration(
+      insertCalibration.deviceId,
+      insertCalibration.metric,
+    );
+    const calibration: DeviceCalibration = {
+      ...insertCalibration,
+      id: randomUUID(),
+      createdAt: now,
+      retiredAt: null,
+    };
+    this.deviceCalibrations.push(calibration);
+    return calibration;
+  }
+
+  async retireDeviceCalibration(
+    deviceId: string,
+    metric: SensorMetric,
+  ): Promise<DeviceCalibration | undefined> {
+    const index = this.deviceCalibrations.findIndex(
+      (calibration) =>
+        calibration.deviceId === deviceId &&
+        calibration.metric === metric &&
+        calibration.retiredAt === null,
+    );
+    if (index === -1) return undefined;
+
+    const retired = {
+      ...this.deviceCalibrations[index],
+      retiredAt: new Date(),
+    };
+    this.deviceCalibrations[index] = retired;
+    return retired;
+  }
+
+  async getSensorData(farmId: string): Promise<SensorData | undefined> {
+    return this.sensorData.get(farmId);
+  }
+
+  async upsertSensorData(snapshot: SensorData): Promise<SensorData> {
+    this.sensorData.set(snapshot.farmId, snapshot);
+    return snapshot;
+  }
+
+  async createSensorReadings(
+    readings: InsertSensorReading[],
+  ): Promise<SensorReading[]> {
+    const receivedAt = new Date();
+    const created = readings.map((reading) => ({
+      ...reading,
+      id: randomUUID(),
+      receivedAt,
+    }));
+    this.sensorReadings.push(...created);
+    return created;
+  }
+
+  async getSensorReadings(query: SensorReadingQuery): Promise<SensorReading[]> {
+    return this.sensorReadings
+      .filter(
+        (reading) =>
+          (query.farmId === undefined || reading.farmId === query.farmId) &&
+          (query.fieldId === undefined || reading.fieldId === query.fieldId) &&
+          reading.recordedAt >= query.from &&
+          reading.recordedAt < query.to,
+      )
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async getRecentSensorReadings(
+    deviceId: string,
+    limit: number,
+  ): Promise<SensorReading[]> {
+    return this.sensorReadings
+      .filter((reading) => reading.deviceId === deviceId)
+      .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getIrrigationLogs(
+    farmId: string,
+    limit?: number,
+  ): Promise<IrrigationLog[]> {
+    const logs = Array.from(this.irrigationLogs.values())
+      .filter((log) => log.farmId === farmId)
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    return limit === undefined ? logs : logs.slice(0, limit);
+  }
+
+  async getIrrigationLog(id: string): Promise<IrrigationLog | undefined> {
+    return this.irrigationLogs.get(id);
+  }
+
+  async createIrrigationLog(
+    farmId: string,
+    insertLog: InsertIrrigationLog,
+  ): Promise<IrrigationLog> {
+    const id = randomUUID();
+    const now = new Date();
+    const log: IrrigationLog = {
+      status: "in_progress",
+      estimatedWaterUsage: 0,
+      ...insertLog,
+      fieldId: insertLog.fieldId ?? null,
+      waterSaved: insertLog.waterSaved ?? 0,
+      note: insertLog.note ?? null,
+      startTime: insertLog.startTime ?? now,
+      endTime: insertLog.endTime ?? null,
+      id,
+      farmId,
+      createdAt: now,
+    };
+    this.irrigationLogs.set(id, log);
+    return log;
+  }
+
+  async updateIrrigationLog(
+    id: string,
+    update: Partial<InsertIrrigationLog>,
+  ): Promise<IrrigationLog | undefined> {
+    const existing = this.irrigationLogs.get(id);
+    if (!existing) return undefined;
+
+    const log: IrrigationLog = {
+      ...existing,
+      ...update,
+      fieldId: update.fieldId === undefined ? existing.fieldId : update.fieldId,
+      startTime: update.startTime ?? existing.startTime,
+      endTime: update.endTime === undefined ? existing.endTime : update.endTime,
+    };
+    this.irrigationLogs.set(id, log);
+    return log;
+  }
+
+  async startIrrigationRun(
+    farmId: string,
+    insertLog: InsertIrrigationLog,
+  ): Promise<IrrigationLog | undefined> {
+    const running = Array.from(this.irrigationLogs.values()).some(
+      (log) => log.farmId === farmId && log.status === "in_progress",
+    );
+    if (running) return undefined;
+    return this.createIrrigationLog(farmId, {
+      ...insertLog,
+      status: "in_progress",
+    });
+  }
+
+  async getIrrigationLogsByStatus(
+    status: IrrigationStatus,
+  ): Promise<IrrigationLog[]> {
+    return Array.from(this.irrigationLogs.values()).filter(
+      (log) => log.status === status,
+    );
+  }
+
+  async getIrrigationLogsSince(
+    farmId: string,
+    since: Date,
+  ): Promise<IrrigationLog[]> {
+    return Array.from(this.irrigationLogs.values())
+      .filter((log) => log.farmId === farmId && log.startTime >= since)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  async getIrrigationSchedule(
+    farmId: string,
+  ): Promise<IrrigationSchedule | undefined> {
+    return this.irrigationSchedules.get(farmId);
+  }
+
+  async upsertIrrigationSchedule(
+    farmId: string,
+    insertSchedule: InsertIrrigationSchedule,
+  ): Promise<IrrigationSchedule> {
+    const existing = this.irrigationSchedules.get(farmId);
+    const schedule: IrrigationSchedule = {
+      autoMode: true,
+      timezone: "UTC",
+      ...insertSchedule,
+      farmId,
+      lastRunAt: existing?.lastRunAt ?? null,
+      updatedAt: new Date(),
+    };
+    this.irrigationSchedules.set(farmId, schedule);
+    return schedule;
+  }
+
+  async getAutoIrrigationSchedules(): Promise<IrrigationSchedule[]> {
+    return Array.from(this.irrigationSchedules.values()).filter(
+      (schedule) => schedule.autoMode,
+    );
+  }
+
+  async claimScheduledRun(farmId: string, slot: Date): Promise<boolean> {
+    const schedule = this.irrigationSchedules.get(farmId);
+    if (!schedule) return false;
+    if (schedule.lastRunAt && schedule.lastRunAt >= slot) return false;
+
+    this.irrigationSchedules.set(farmId, { ...schedule, lastRunAt: slot });
+    return true;
+  }
+
+  async createActuatorCommand(
+    insertCommand: InsertActuatorCommand,
+  ): Promise<ActuatorCommand> {
+    const id = randomUUID();
+    const command: ActuatorCommand = {
+      ...insertCommand,
+      id,
+      status: "pending",
+      attempts: 0,
+      error: null,
+      createdAt: new Date(),
+      lastSentAt: null,
+      settledAt: null,
+    };
+    this.actuatorCommands.set(id, command);
+    return command;
+  }
+
+  async getActuatorCommand(id: string): Promise<ActuatorCommand | undefined> {
+    return this.actuatorCommands.get(id);
+  }
+
+  async updateActuatorCommand(
+    id: string,
+    update: ActuatorCommandUpdate,
+  ): Promise<ActuatorCommand | undefined> {
+    const existing = this.actuatorCommands.get(id);
+    if (!existing) return undefined;
+
+    const command: ActuatorCommand = { ...existing, ...update };
+    this.actuatorCommands.set(id, command);
+    return command;
+  }
+
+  async getActuatorCommandsByStatus(
+    status: ActuatorCommandStatus,
+    farmId?: string,
+  ): Promise<ActuatorCommand[]> {
+    return Array.from(this.actuatorCommands.values())
+      .filter(
+        (command) =>
+          command.status === status &&
+          (farmId === undefined || command.farmId === farmId),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getDailyWeather(
+    farmId: string,
+    from: string,
+    to: string,
+  ): Promise<DailyWeatherRow[]> {
+    return Array.from(this.dailyWeather.values())
+      .filter(
+        (day) => day.farmId === farmId && day.date >= from && day.date <= to,
+      )
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async upsertDailyWeather(days: DailyWeatherRow[]): Promise<void> {
+    for (const day of days) {
+      this.dailyWeather.set(`${day.farmId}:${day.date}`, day);
+    }
+  }
+
+  async getChatUsage(
+    userId: string,
+    day: string,
+  ): Promise<ChatUsage | undefined> {
+    return this.chatUsage.get(`${userId}:${day}`);
+  }
+
+  async addChatUsage(
+    userId: string,
+    day: string,
+    usage: ChatUsageIncrement,
+  ): Promise<ChatUsage> {
+    const key = `${userId}:${day}`;
+    const existing = this.chatUsage.get(key);
+    const updated: ChatUsage = {
+      userId,
+      day,
+      requests: (existing?.requests ?? 0) + usage.requests,
+      tokens: (existing?.tokens ?? 0) + usage.tokens,
+    };
+    this.chatUsage.set(key, updated);
+    return updated;
+  }
+
+  async getAlertsByUser(userId: string): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter((alert) => alert.userId === userId)
+      .sort(newestFirst);
+  }
+
+  async createAlert(insertAlert: InsertAlert): Promise<Alert> {
+    const id = randomUUID();
+    const alert: Alert = {
+      ...insertAlert,
+      farmId: insertAlert.farmId ?? null,
+      data: insertAlert.data ?? null,
+      actionUrl: insertAlert.actionUrl ?? null,
+      expiresAt: insertAlert.expiresAt ?? null,
+      id,
+      read: false,
+      createdAt: new Date(),
+    };
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  async markAlertRead(id: string): Promise<Alert | undefined> {
+    const existing = this.alerts.get(id);
+    if (!existing) return undefined;
+
+    const alert: Alert = { ...existing, read: true };
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      ...insertEntry,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  async getAuditEntries(query: AuditEntryQuery): Promise<AuditEntry[]> {
+    const entries = this.auditLog
+      .filter(
+        (entry) =>
+          entry.farmId === query.farmId &&
+          (query.from === undefined || entry.createdAt >= query.from) &&
+          (query.to === undefined || entry.createdAt < query.to),
+      )
+      .sort(newestFirst);
+    return query.limit === undefined ? entries : entries.slice(0, query.limit);
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getFarmsByUser(userId: string): Promise<Farm[]> {
+    return this.db
+      .select()
+      .from(farms)
+      .where(eq(farms.userId, userId))
+      .orderBy(desc(farms.createdAt));
+  }
+
+  async getFarm(id: string): Promise<Farm | undefined> {
+    const [farm] = await this.db.select().from(farms).where(eq(farms.id, id));
+    return farm;
+  }
+
+  async getFarmsWithCoordinates(): Promise<Farm[]> {
+    return this.db.select().from(farms).where(isNotNull(farms.coordinates));
+  }
+
+  async createFarm(
+    userId: string,
+    insertFarm: InsertFarm,
+    id?: string,
+  ): Promise<Farm> {
+    const [farm] = await this.db
+      .insert(farms)
+      .values({ ...insertFarm, userId, ...(id ? { id } : {}) })
+      .returning();
+    return farm;
+  }
+
+  async updateFarm(id: string, update: UpdateFarm): Promise<Farm | undefined> {
+    const [farm] = await this.db
+      .update(farms)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(farms.id, id))
+      .returning();
+    return farm;
+  }
+
+  async deleteFarm(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(farms)
+      .where(eq(farms.id, id))
+      .returning({ id: farms.id });
+    return deleted.length > 0;
+  }
+
+  async getFarmMember(
+    farmId: string,
+    userId: string,
+  ): Promise<FarmMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(farmMembers)
+      .where(
+        and(eq(farmMembers.farmId, farmId), eq(farmMembers.userId, userId)),
+      );
+    return member;
+  }
+
+  async getFarmMembers(farmId: string): Promise<FarmMember[]> {
+    return this.db
+      .select()
+      .from(farmMembers)
+      .where(eq(farmMembers.farmId, farmId))
+      .orderBy(asc(farmMembers.createdAt));
+  }
+
+  async getMembershipsByUser(userId: string): Promise<FarmMember[]> {
+    return this.db
+      .select()
+      .from(farmMembers)
+      .where(eq(farmMembers.userId, userId));
+  }
+
+  async upsertFarmMember(insertMember: InsertFarmMember): Promise<FarmMember> {
+    const [member] = await this.db
+      .insert(farmMembers)
+      .values(insertMember)
+      .onConflictDoUpdate({
+        target: [farmMembers.farmId, farmMembers.userId],
+        set: {
+          role: insertMember.role,
+          email: insertMember.email,
+          addedBy: insertMember.addedBy,
+        },
+      })
+      .returning();
+    return member;
+  }
+
+  async deleteFarmMember(farmId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(farmMembers)
+      .where(
+        and(eq(farmMembers.farmId, farmId), eq(farmMembers.userId, userId)),
+      )
+      .returning({ userId: farmMembers.userId });
+    return deleted.length > 0;
+  }
+
+  async createFarmInvite(
+    farmId: string,
+    invitedBy: string,
+    insertInvite: InsertFarmInvite,
+  ): Promise<FarmInvite> {
+    const [invite] = await this.db
+      .insert(farmInvites)
+      .values({ ...insertInvite, farmId, invitedBy })
+      .returning();
+    return invite;
+  }
+
+  async getFarmInvite(id: string): Promise<FarmInvite | undefined> {
+    const [invite] = await this.db
+      .select()
+      .from(farmInvites)
+      .where(eq(farmInvites.id, id));
+    return invite;
+  }
+
+  async getFarmInvites(
+    farmId: string,
+    status?: FarmInviteStatus,
+  ): Promise<FarmInvite[]> {
+    const conditions = [eq(farmInvites.farmId, farmId)];
+    if (status !== undefined) {
+      conditions.push(eq(farmInvites.status, status));
+    }
+
+    return this.db
+      .select()
+      .from(farmInvites)
+      .where(and(...conditions))
+      .orderBy(desc(farmInvites.createdAt));
+  }
+
+  async getPendingInvitesByEmail(email: string): Promise<FarmInvite[]> {
+    return this.db
+      .select()
+      .from(farmInvites)
+      .where(
+        and(eq(farmInvites.email, email), eq(farmInvites.status, "pending")),
+      )
+      .orderBy(desc(farmInvites.createdAt));
+  }
+
+  async updateFarmInvite(
+    id: string,
+    update: FarmInviteUpdate,
+  ): Promise<FarmInvite | undefined> {
+    const [invite] = await this.db
+      .update(farmInvites)
+      .set(update)
+      .where(eq(farmInvites.id, id))
+      .returning();
+    return invite;
+  }
+
+  async getFieldsByFarm(farmId: string): Promise<Field[]> {
+    return this.db.select().from(fields).where(eq(fields.farmId, farmId));
+  }
+
+  async getField(id: string): Promise<Field | undefined> {
+    const [field] = await this.db
+      .select()
+      .from(fields)
+      .where(eq(fields.id, id));
+    return field;
+  }
+
+  async createField(farmId: string, insertField: InsertField): Promise<Field> {
+    const [field] = await this.db
+      .insert(fields)
+      .values({ ...insertField, farmId })
+      .returning();
+    return field;
+  }
+
+  async updateField(
+    id: string,
+    update: Partial<InsertField>,
+  ): Promise<Field | undefined> {
+    const [field] = await this.db
+      .update(fields)
+      .set(update)
+      .where(eq(fields.id, id))
+      .returning();
+    return field;
+  }
+
+  async deleteField(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(fields)
+      .where(eq(fields.id, id))
+      .returning({ id: fields.id });
+    return deleted.length > 0;
+  }
+
+  async getDevice(id: string): Promise<Device | undefined> {
+    const [device] = await this.db
+      .select()
+      .from(devices)
+      .where(eq(devices.id, id));
+    return device;
+  }
+
+  async getDeviceBySecretHash(secretHash: string): Promise<Device | undefined> {
+    const [device] = await this.db
+      .select()
+      .from(devices)
+      .where(eq(devices.secretHash, secretHash));
+    return device;
+  }
+
+  async getDevicesByFarm(farmId: string): Promise<Device[]> {
+    return this.db
+      .select()
+      .from(devices)
+      .where(eq(devices.farmId, farmId))
+      .orderBy(desc(devices.createdAt));
+  }
+
+  async getDevicesByStatus(status: DeviceStatus): Promise<Device[]> {
+    return this.db.select().from(devices).where(eq(devices.status, status));
+  }
+
+  async createDevice(newDevice: NewDevice): Promise<Device> {
+    const [device] = await this.db
+      .insert(devices)
+      .values(newDevice)
+      .returning();
+    return device;
+  }
+
+  async updateDevice(
+    id: string,
+    update: DeviceUpdate,
+  ): Promise<Device | undefined> {
+    const [device] = await this.db
+      .update(devices)
+      .set(update)
+      .where(eq(devices.id, id))
+      .returning();
+    return device;
+  }
+
+  async getDeviceCalibrations(deviceId: string): Promise<DeviceCalibration[]> {
+    return this.db
+      .select()
+      .from(deviceCalibrations)
+      .where(eq(deviceCalibrations.deviceId, deviceId))
+      .orderBy(desc(deviceCalibrations.createdAt));
+  }
+
+  async getActiveCalibrations(
+    deviceIds: string[],
+  ): Promise<DeviceCalibration[]> {
+    if (deviceIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(deviceCalibrations)
+      .where(
+        and(
+          inArray(deviceCalibrations.deviceId, deviceIds),
+          isNull(deviceCalibrations.retiredAt),
+        ),
+      );
+  }
+
+  async saveDeviceCalibration(
+    insertCalibration: InsertDeviceCalibration,
+  ): Promise<DeviceCalibration> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .update(deviceCalibrations)
+        .set({ retiredAt: new Date() })
+        .where(
+          and(
+            eq(deviceCalibrations.deviceId, insertCalibration.deviceId),
+            eq(deviceCalibrations.metric, insertCalibration.metric),
+            isNull(deviceCalibrations.retiredAt),
+          ),
+        );
+      const [calibration] = await tx
+        .insert(deviceCalibrations)
+        .values(insertCalibration)
+        .returning();
+      return calibration;
+    });
+  }
+
+  async retireDeviceCalibration(
+    deviceId: string,
+    metric: SensorMetric,
+  ): Promise<DeviceCalibration | undefined> {
+    const [calibration] = await this.db
+      .update(deviceCalibrations)
+      .set({ retiredAt: new Date() })
+      .where(
+        and(
+          eq(deviceCalibrations.deviceId, deviceId),
+          eq(deviceCalibrations.metric, metric),
+          isNull(deviceCalibrations.retiredAt),
+        ),
+      )
+      .returning();
+    return calibration;
+  }
+
+  async getSensorData(farmId: string): Promise<SensorData | undefined> {
+    const [snapshot] = await this.db
+      .select()
+      .from(sensorData)
+      .where(eq(sensorData.farmId, farmId));
+    return snapshot;
+  }
+
+  async upsertSensorData(snapshot: SensorData): Promise<SensorData> {
+    const { farmId, ...values } = snapshot;
+    const [saved] = await this.db
+      .insert(sensorData)
+      .values(snapshot)
+      .onConflictDoUpdate({ target: sensorData.farmId, set: values })
+      .returning();
+    return saved;
+  }
+
+  async createSensorReadings(
+    readings: InsertSensorReading[],
+  ): Promise<SensorReading[]> {
+    if (readings.length === 0) return [];
+    return this.db.insert(sensorReadings).values(readings).returning();
+  }
+
+  async getSensorReadings(query: SensorReadingQuery): Promise<SensorReading[]> {
+    const conditions = [
+      gte(sensorReadings.recordedAt, query.from),
+      lt(sensorReadings.recordedAt, query.to),
+    ];
+    if (query.farmId !== undefined) {
+      conditions.push(eq(sensorReadings.farmId, query.farmId));
+    }
+    if (query.fieldId !== undefined) {
+      conditions.push(eq(sensorReadings.fieldId, query.fieldId));
+    }
+
+    return this.db
+      .select()
+      .from(sensorReadings)
+      .where(and(...conditions))
+      .orderBy(asc(sensorReadings.recordedAt));
+  }
+
+  async getRecentSensorReadings(
+    deviceId: string,
+    limit: number,
+  ): Promise<SensorReading[]> {
+    return this.db
+      .select()
+      .from(sensorReadings)
+      .where(eq(sensorReadings.deviceId, deviceId))
+      .orderBy(desc(sensorReadings.recordedAt))
+      .limit(limit);
+  }
+
+  async getIrrigationLogs(
+    farmId: string,
+    limit?: number,
+  ): Promise<IrrigationLog[]> {
+    const query = this.db
+      .select()
+      .from(irrigationLogs)
+      .where(eq(irrigationLogs.farmId, farmId))
+      .orderBy(desc(irrigationLogs.startTime));
+    return limit === undefined ? query : query.limit(limit);
+  }
+
+  async getIrrigationLog(id: string): Promise<IrrigationLog | undefined> {
+    const [log] = await this.db
+      .select()
+      .from(irrigationLogs)
+      .where(eq(irrigationLogs.id, id));
+    return log;
+  }
+
+  async createIrrigationLog(
+    farmId: string,
+    insertLog: InsertIrrigationLog,
+  ): Promise<IrrigationLog> {
+    const [log] = await this.db
+      .insert(irrigationLogs)
+      .values({ ...insertLog, farmId })
+      .returning();
+    return log;
+  }
+
+  async updateIrrigationLog(
+    id: string,
+    update: Partial<InsertIrrigationLog>,
+  ): Promise<IrrigationLog | undefined> {
+    const [log] = await this.db
+      .update(irrigationLogs)
+      .set(update)
+      .where(eq(irrigationLogs.id, id))
+      .returning();
+    return log;
+  }
+
+  async startIrrigationRun(
+    farmId: string,
+    insertLog: InsertIrrigationLog,
+  ): Promise<IrrigationLog | undefined> {
+    // irrigation_logs_active_farm_idx lets only one insert through
+    const [log] = await this.db
+      .insert(irrigationLogs)
+      .values({ ...insertLog, farmId, status: "in_progress" })
+      .onConflictDoNothing({
+        target: irrigationLogs.farmId,
+        where: sql`${irrigationLogs.status} = 'in_progress'`,
+      })
+      .returning();
+    return log;
+  }
+
+  async getIrrigationLogsByStatus(
+    status: IrrigationStatus,
+  ): Promise<IrrigationLog[]> {
+    return this.db
+      .select()
+      .from(irrigationLogs)
+      .where(eq(irrigationLogs.status, status));
+  }
+
+  async getIrrigationLogsSince(
+    farmId: string,
+    since: Date,
+  ): Promise<IrrigationLog[]> {
+    return this.db
+      .select()
+      .from(irrigationLogs)
+      .where(
+        and(
+          eq(irrigationLogs.farmId, farmId),
+          gte(irrigationLogs.startTime, since),
+        ),
+      )
+      .orderBy(asc(irrigationLogs.startTime));
+  }
+
+  async getIrrigationSchedule(
+    farmId: string,
+  ): Promise<IrrigationSchedule | undefined> {
+    const [schedule] = await this.db
+      .select()
+      .from(irrigationSchedules)
+      .where(eq(irrigationSchedules.farmId, farmId));
+    return schedule;
+  }
+
+  async upsertIrrigationSchedule(
+    farmId: string,
+    insertSchedule: InsertIrrigationSchedule,
+  ): Promise<IrrigationSchedule> {
+    const values = { ...insertSchedule, updatedAt: new Date() };
+    const [schedule] = await this.db
+      .insert(irrigationSchedules)
+      .values({ ...values, farmId })
+      .onConflictDoUpdate({ target: irrigationSchedules.farmId, set: values })
+      .returning();
+    return schedule;
+  }
+
+  async getAutoIrrigationSchedules(): Promise<IrrigationSchedule[]> {
+    return this.db
+      .select()
+      .from(irrigationSchedules)
+      .where(eq(irrigationSchedules.autoMode, true));
+  }
+
+  async claimScheduledRun(farmId: string, slot: Date): Promise<boolean> {
+    const claimed = await this.db
+      .update(irrigationSchedules)
+      .set({ lastRunAt: slot })
+      .where(
+        and(
+          eq(irrigationSchedules.farmId, farmId),
+          or(
+            isNull(irrigationSchedules.lastRunAt),
+            lt(irrigationSchedules.lastRunAt, slot),
+          ),
+        ),
+      )
+      .returning({ farmId: irrigationSchedules.farmId });
+    return claimed.length > 0;
+  }
+
+  async createActuatorCommand(
+    insertCommand: InsertActuatorCommand,
+  ): Promise<ActuatorCommand> {
+    const [command] = await this.db
+      .insert(actuatorCommands)
+      .values(insertCommand)
+      .returning();
+    return command;
+  }
+
+  async getActuatorCommand(id: string): Promise<ActuatorCommand | undefined> {
+    const [command] = await this.db
+      .select()
+      .from(actuatorCommands)
+      .where(eq(actuatorCommands.id, id));
+    return command;
+  }
+
+  async updateActuatorCommand(
+    id: string,
+    update: ActuatorCommandUpdate,
+  ): Promise<ActuatorCommand | undefined> {
+    const [command] = await this.db
+      .update(actuatorCommands)
+      .set(update)
+      .where(eq(actuatorCommands.id, id))
+      .returning();
+    return command;
+  }
+
+  async getActuatorCommandsByStatus(
+    status: ActuatorCommandStatus,
+    farmId?: string,
+  ): Promise<ActuatorCommand[]> {
+    const conditions = [eq(actuatorCommands.status, status)];
+    if (farmId !== undefined) {
+      conditions.push(eq(actuatorCommands.farmId, farmId));
+    }
+
+    return this.db
+      .select()
+      .from(actuatorCommands)
+      .where(and(...conditions))
+      .orderBy(asc(actuatorCommands.createdAt));
+  }
+
+  async getDailyWeather(
+    farmId: string,
+    from: string,
+    to: string,
+  ): Promise<DailyWeatherRow[]> {
+    return this.db
+      .select()
+      .from(dailyWeather)
+      .where(
+        and(
+          eq(dailyWeather.farmId, farmId),
+          gte(dailyWeather.date, from),
+          lte(dailyWeather.date, to),
+        ),
+      )
+      .orderBy(asc(dailyWeather.date));
+  }
+
+  async upsertDailyWeather(days: DailyWeatherRow[]): Promise<void> {
+    if (days.length === 0) return;
+    const excluded = (column: { name: string }) =>
+      sql.raw(`excluded.${column.name}`);
+    await this.db
+      .insert(dailyWeather)
+      .values(days)
+      .onConflictDoUpdate({
+        target: [dailyWeather.farmId, dailyWeather.date],
+        set: {
+          tempMax: excluded(dailyWeather.tempMax),
+          tempMin: excluded(dailyWeather.tempMin),
+          humidity: excluded(dailyWeather.humidity),
+          windSpeed: excluded(dailyWeather.windSpeed),
+          solarRadiation: excluded(dailyWeather.solarRadiation),
+          precipitation: excluded(dailyWeather.precipitation),
+          precipitationProbability: excluded(
+            dailyWeather.precipitationProbability,
+          ),
+          et0: excluded(dailyWeather.et0),
+          et0Method: excluded(dailyWeather.et0Method),
+          forecast: excluded(dailyWeather.forecast),
+          fetchedAt: excluded(dailyWeather.fetchedAt),
+        },
+      });
+  }
+
+  async getChatUsage(
+    userId: string,
+    day: string,
+  ): Promise<ChatUsage | undefined> {
+    const [usage] = await this.db
+      .select()
+      .from(chatUsage)
+      .where(and(eq(chatUsage.userId, userId), eq(chatUsage.day, day)));
+    return usage;
+  }
+
+  async addChatUsage(
+    userId: string,
+    day: string,
+    usage: ChatUsageIncrement,
+  ): Promise<ChatUsage> {
+    const [updated] = await this.db
+      .insert(chatUsage)
+      .values({ userId, day, ...usage })
+      .onConflictDoUpdate({
+        target: [chatUsage.userId, chatUsage.day],
+        set: {
+          requests: sql`${chatUsage.requests} + ${usage.requests}`,
+          tokens: sql`${chatUsage.tokens} + ${usage.tokens}`,
+        },
+      })
+      .returning();
+    return updated;
+  }
+
+  async getAlertsByUser(userId: string): Promise<Alert[]> {
+    return this.db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.userId, userId))
+      .orderBy(desc(alerts.createdAt));
+  }
+
+  async createAlert(insertAlert: InsertAlert): Promise<Alert> {
+    const [alert] = await this.db
+      .insert(alerts)
+      .values(insertAlert)
+      .returning();
+    return alert;
+  }
+
+  async markAlertRead(id: string): Promise<Alert | undefined> {
+    const [alert] = await this.db
+      .update(alerts)
+      .set({ read: true })
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await this.db
+      .insert(auditLog)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async getAuditEntries(query: AuditEntryQuery): Promise<AuditEntry[]> {
+    const conditions = [eq(auditLog.farmId, query.farmId)];
+    if (query.from !== undefined) {
+      conditions.push(gte(auditLog.createdAt, query.from));
+    }
+    if (query.to !== undefined) {
+      conditions.push(lt(auditLog.createdAt, query.to));
+    }
+
+    const entries = this.db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt));
+    return query.limit === undefined ? entries : entries.limit(query.limit);
+  }
+}
+
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DbStorage(createDb(process.env.DATABASE_URL));
+  }
+
+  console.warn("DATABASE_URL is not set; using in-memory storage");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,75 @@
+import type { Request } from "express";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { hasValidApiKey, ingestReadings, TelemetryError } from "./telemetry";
+
+const request = (authorization?: string) =>
+  ({
+    header: (name: string) =>
+      name.toLowerCase() === "authorization" ? authorization : undefined,
+  }) as Request;
+
+describe("hasValidApiKey", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts only the configured key", () => {
+    vi.stubEnv("TELEMETRY_API_KEY", "gateway-key");
+
+    expect(hasValidApiKey(request("Bearer gateway-key"))).toBe(true);
+    expect(hasValidApiKey(request("Bearer another-key"))).toBe(false);
+    expect(hasValidApiKey(request())).toBe(false);
+  });
+
+  it("is open without a key outside production", () => {
+    vi.stubEnv("TELEMETRY_API_KEY", "");
+    vi.stubEnv("NODE_ENV", "development");
+
+    expect(hasValidApiKey(request())).toBe(true);
+  });
+
+  it("is closed without a key in production", () => {
+    vi.stubEnv("TELEMETRY_API_KEY", "");
+    vi.stubEnv("NODE_ENV", "production");
+
+    expect(hasValidApiKey(request())).toBe(false);
+    expect(hasValidApiKey(request("Bearer anything"))).toBe(false);
+  });
+});
+
+describe("ingestReadings", () => {
+  const reading = (farmId: string, fieldId: string) => ({
+    farmId,
+    fieldId,
+    deviceId: "probe-1",
+    timestamp: new Date(),
+    soilMoisture: 40,
+  });
+
+  it("stores readings for the field's own farm", async () => {
+    const farm = await storage.createFarm("owner", { name: "North Farm" });
+    const field = await storage.createField(farm.id, { name: "Block A" });
+
+    const stored = await ingestReadings([reading(farm.id, field.id)]);
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ farmId: farm.id, fieldId: field.id });
+  });
+
+  it("rejects a batch where any reading names another farm's field", async () => {
+    const farm = await storage.createFarm("owner", { name: "North Farm" });
+    const other = await storage.createFarm("someone", { name: "Other Farm" });
+    const field = await storage.createField(farm.id, { name: "Block A" });
+
+    await expect(
+      ingestReadings([reading(farm.id, field.id), reading(other.id, field.id)]),
+    ).rejects.toThrow(new TelemetryError(`Unknown field: ${field.id}`));
+    const stored = await storage.getSensorReadings({
+      farmId: other.id,
+      from: new Date(0),
+      to: new Date(),
+    });
+    expect(stored).toHaveLength(0);
+  });
+});
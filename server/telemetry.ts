@@ -0,0 +1,324 @@
+import type { Express, Request } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { applyCalibration, type ReadingCorrections } from "@shared/calibration";
+import {
+  sensorMetrics,
+  telemetryBatchSchema,
+  type Device,
+  type DeviceCalibration,
+  type InsertSensorReading,
+  type SensorData,
+  type SensorReading,
+  type TelemetryReading,
+} from "@shared/schema";
+import { farmEvents } from "./events";
+import { asyncHandler, parseBody } from "./http";
+import { assessReadings, deviceHealthMonitor } from "./quality";
+import { storage } from "./storage";
+
+export class TelemetryError extends Error {
+  constructor(
+    message: string,
+    public status = 422,
+  ) {
+    super(message);
+    this.name = "TelemetryError";
+  }
+}
+
+function toInsertReading({
+  reading,
+  corrections,
+}: CalibratedReading): InsertSensorReading {
+  return {
+    farmId: reading.farmId,
+    fieldId: reading.fieldId ?? null,
+    deviceId: reading.deviceId,
+    recordedAt: reading.timestamp,
+    soilMoisture: reading.soilMoisture ?? null,
+    pH: reading.pH ?? null,
+    temperature: reading.temperature ?? null,
+    nitrogen: reading.nitrogen ?? null,
+    phosphorus: reading.phosphorus ?? null,
+    potassium: reading.potassium ?? null,
+    corrections,
+    quality: null,
+  };
+}
+
+type CalibratedReading = {
+  reading: TelemetryReading;
+  corrections: ReadingCorrections | null;
+};
+
+// Applies the device's calibrations, keeping the raw value of each metric one
+// of them corrected.
+function calibrate(
+  reading: TelemetryReading,
+  calibrations: DeviceCalibration[],
+): CalibratedReading {
+  const corrected = { ...reading };
+  const corrections: ReadingCorrections = {};
+
+  for (const calibration of calibrations) {
+    const { metric } = calibration;
+    const raw = reading[metric];
+    if (calibration.deviceId !== reading.deviceId || raw === undefined) {
+      continue;
+    }
+    corrected[metric] = applyCalibration(calibration.definition, metric, raw);
+    corrections[metric] = { raw, calibrationId: calibration.id };
+  }
+
+  return {
+    reading: corrected,
+    corrections: Object.keys(corrections).length > 0 ? corrections : null,
+  };
+}
+
+// Folds readings into the farm's latest snapshot. Readings older than the
+// snapshot are kept in history but never roll the snapshot back, and a reading
+// only overwrites the metrics it actually carries. Values that failed a
+// quality check, and metrics that dropped out, leave the metric's last good
+// value in place and mark it in the snapshot's `quality` instead.
+function applyToSnapshot(
+  farmId: string,
+  current: SensorData | undefined,
+  readings: SensorReading[],
+): SensorData | undefined {
+  let snapshot = current;
+  const ordered = [...readings].sort(
+    (a, b) => a.recordedAt.getTime() - b.recordedAt.getTime(),
+  );
+
+  for (const reading of ordered) {
+    if (snapshot && reading.recordedAt < snapshot.lastUpdated) continue;
+
+    const next: SensorData = snapshot
+      ? { ...snapshot }
+      : {
+          farmId,
+          soilMoisture: 0,
+          pH: 0,
+          temperature: 0,
+          nitrogen: 0,
+          phosphorus: 0,
+          potassium: 0,
+          lastUpdated: reading.recordedAt,
+          quality: null,
+        };
+    const quality = { ...next.quality };
+    for (const metric of sensorMetrics) {
+      const value = reading[metric];
+      const flag = reading.quality?.[metric];
+      if (flag) {
+        quality[metric] = flag;
+      } else if (value !== null) {
+        next[metric] = value;
+        delete quality[metric];
+      }
+    }
+    next.quality = Object.keys(quality).length > 0 ? quality : null;
+    next.lastUpdated = reading.recordedAt;
+    snapshot = next;
+  }
+
+  return snapshot === current ? undefined : snapshot;
+}
+
+// Active registry entries for the devices a batch names, keyed by their
+// lowercased id. Readings from unregistered devices are still accepted.
+async function loadRegisteredDevices(
+  readings: TelemetryReading[],
+): Promise<Map<string, Device>> {
+  const registered = new Map<string, Device>();
+  const ids = new Set(readings.map((r) => r.deviceId.toLowerCase()));
+  for (const id of Array.from(ids)) {
+    const device = await storage.getDevice(id);
+    if (device?.status === "active") registered.set(id, device);
+  }
+  return registered;
+}
+
+// Marks each registered device as seen, keeping the battery level and
+// firmware version from its latest reading that reported them.
+async function recordDevicesSeen(
+  registered: Map<string, Device>,
+  readings: TelemetryReading[],
+) {
+  const ordered = [...readings].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+  const now = new Date();
+
+  for (const device of Array.from(registered.values())) {
+    const own = ordered.filter((r) => r.deviceId.toLowerCase() === device.id);
+    const battery = own.findLast((r) => r.battery !== undefined)?.battery;
+    const firmwareVersion = own.findLast(
+      (r) => r.firmwareVersion !== undefined,
+    )?.firmwareVersion;
+
+    await storage.updateDevice(device.id, {
+      lastSeenAt: now,
+      ...(battery !== undefined && { battery }),
+      ...(firmwareVersion !== undefined && { firmwareVersion }),
+    });
+  }
+}
+
+/**
+ * Validates that every reading targets a known farm/field, appends them to
+ * the readings table and refreshes each farm's latest snapshot. The whole
+ * batch is rejected if any reading points at an unknown farm or field, or
+ * files a registered device under a farm it doesn't belong to. Readings from
+ * registered devices are filed under the device's canonical id, default to its
+ * field and are corrected by its calibrations, with the raw values kept. Every
+ * reading is then quality-checked against its device's earlier readings.
+ */
+export async function ingestReadings(
+  batch: TelemetryReading[],
+): Promise<SensorReading[]> {
+  const registered = await loadRegisteredDevices(batch);
+  const readings = batch.map((reading) => {
+    const device = registered.get(reading.deviceId.toLowerCase());
+    if (!device) return reading;
+    if (device.farmId !== reading.farmId) {
+      throw new TelemetryError(
+        `Device ${reading.deviceId} is registered to another farm`,
+      );
+    }
+    return {
+      ...reading,
+      deviceId: device.id,
+      fieldId: reading.fieldId ?? device.fieldId ?? undefined,
+    };
+  });
+  const calibrations = await storage.getActiveCalibrations(
+    Array.from(registered.keys()),
+  );
+
+  const farmIds = Array.from(new Set(readings.map((r) => r.farmId)));
+  for (const farmId of farmIds) {
+    if (!(await storage.getFarm(farmId))) {
+      throw new TelemetryError(`Unknown farm: ${farmId}`);
+    }
+  }
+
+  const fieldIds = Array.from(
+    new Set(readings.flatMap((r) => (r.fieldId ? [r.fieldId] : []))),
+  );
+  for (const fieldId of fieldIds) {
+    const field = await storage.getField(fieldId);
+    // Every reading naming the field must come from the field's farm
+    if (
+      !field ||
+      readings.some((r) => r.fieldId === fieldId && r.farmId !== field.farmId)
+    ) {
+      throw new TelemetryError(`Unknown field: ${fieldId}`);
+    }
+  }
+
+  const stored = await storage.createSensorReadings(
+    await assessReadings(
+      readings.map((reading) =>
+        toInsertReading(calibrate(reading, calibrations)),
+      ),
+    ),
+  );
+
+  for (const farmId of farmIds) {
+    const snapshot = applyToSnapshot(
+      farmId,
+      await storage.getSensorData(farmId),
+      stored.filter((reading) => reading.farmId === farmId),
+    );
+    if (snapshot) {
+      farmEvents.emit("sensorData", await storage.upsertSensorData(snapshot));
+    }
+  }
+  await recordDevicesSeen(registered, readings);
+  for (const device of Array.from(registered.values())) {
+    await deviceHealthMonitor.reviewReadings(
+      device,
+      stored.filter((reading) => reading.deviceId === device.id),
+    );
+  }
+
+  return stored;
+}
+
+function bearerToken(req: Request): string {
+  const header = req.header("authorization") ?? "";
+  return header.startsWith("Bearer ") ? header.slice(7) : "";
+}
+
+// Gateways and controllers authenticate with the shared TELEMETRY_API_KEY.
+// Without one configured the device endpoints are open for local development,
+// and closed to everything but device secrets in production.
+export function hasValidApiKey(req: Request): boolean {
+  const expected = process.env.TELEMETRY_API_KEY;
+  if (!expected) return process.env.NODE_ENV !== "production";
+
+  const provided = bearerToken(req);
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Device secrets are random, so a plain SHA-256 is enough to keep them out
+// of storage while still looking a device up by its secret.
+export function hashDeviceSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+// A registered device sending with its own secret, or a gateway with the
+// shared key (`device` unset).
+export type TelemetryCaller = { device?: Device };
+
+export async function authenticateTelemetry(
+  req: Request,
+): Promise<TelemetryCaller | undefined> {
+  const token = bearerToken(req);
+  if (token) {
+    const device = await storage.getDeviceBySecretHash(hashDeviceSecret(token));
+    if (device?.status === "active") return { device };
+  }
+  return hasValidApiKey(req) ? {} : undefined;
+}
+
+export function registerTelemetryRoutes(app: Express) {
+  app.post(
+    "/api/telemetry",
+    asyncHandler(async (req, res) => {
+      const caller = await authenticateTelemetry(req);
+      if (!caller) {
+        return res
+          .status(401)
+          .json({ message: "Invalid telemetry API key or device secret" });
+      }
+
+      const batch = parseBody(telemetryBatchSchema, req, res);
+      if (!batch) return;
+
+      const { device } = caller;
+      if (
+        device &&
+        batch.readings.some((r) => r.deviceId.toLowerCase() !== device.id)
+      ) {
+        return res.status(403).json({
+          message: `Device ${device.id} can only send its own readings`,
+        });
+      }
+
+      try {
+        const stored = await ingestReadings(batch.readings);
+        res.status(202).json({ accepted: stored.length });
+      } catch (error) {
+        if (error instanceof TelemetryError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+    }),
+  );
+}
@@ -0,0 +1,159 @@
+import type { Express } from "express";
+import { cropStage, describeStage, findCrop } from "@shared/crops";
+import { primaryCrop } from "@shared/health";
+import type { Farm, Field, IrrigationLog } from "@shared/schema";
+import {
+  DEFAULT_CROP_WATER,
+  irrigationEfficiency,
+  runWaterBalance,
+  soilWater,
+  type FieldWaterBalance,
+} from "@shared/waterBalance";
+import { loadFarm, loadField } from "./access";
+import { asyncHandler } from "./http";
+import { LITERS_PER_MINUTE } from "./scheduler";
+import { storage } from "./storage";
+import { farmDate, weatherSync } from "./weather";
+
+// Days of weather, runs and readings the balance is worked out from
+const LOOKBACK_DAYS = 30;
+const SQUARE_METRES_PER_ACRE = 4046.86;
+
+const areaOf = (acres: number) => acres * SQUARE_METRES_PER_ACRE;
+
+// Litres delivered by a run. Runs still going count once they finish.
+function deliveredLitres(run: IrrigationLog): number {
+  return run.status === "completed" || run.status === "cancelled"
+    ? run.estimatedWaterUsage
+    : 0;
+}
+
+/**
+ * The root-zone water balance of each of the farm's fields, from the farm's
+ * weather, the runs that watered the field and its moisture readings. A run
+ * for one field wets only that field; a farm-wide run is spread over the
+ * whole farm. Throws MissingCoordinatesError if the farm has no coordinates.
+ */
+export async function getWaterBalances(
+  farm: Farm,
+  fields: Field[],
+  now = new Date(),
+): Promise<FieldWaterBalance[]> {
+  const et0 = await weatherSync.getFarmEt0(farm, LOOKBACK_DAYS);
+  const coordinates = farm.coordinates!;
+  const today = farmDate(coordinates, now);
+  const since = new Date(now.getTime() - LOOKBACK_DAYS * 86400000);
+  const runs = await storage.getIrrigationLogsSince(farm.id, since);
+
+  const farmArea = areaOf(
+    farm.totalAcres ||
+      (await storage.getFieldsByFarm(farm.id)).reduce(
+        (sum, field) => sum + field.acres,
+        0,
+      ),
+  );
+  const efficiency = irrigationEfficiency(farm.irrigationType);
+
+  return Promise.all(
+    fields.map(async (field) => {
+      const fieldArea = areaOf(field.acres);
+      const irrigation: Record<string, number> = {};
+      for (const run of runs) {
+        const area = run.fieldId === null ? farmArea : fieldArea;
+        if ((run.fieldId !== null && run.fieldId !== field.id) || !area) {
+          continue;
+        }
+        const date = farmDate(coordinates, run.startTime);
+        // A litre over a square metre is a millimetre
+        irrigation[date] =
+          (irrigation[date] ?? 0) + deliveredLitres(run) / area;
+      }
+
+      const readings = await storage.getSensorReadings({
+        fieldId: field.id,
+        from: since,
+        to: now,
+      });
+      const sums: Record<string, { total: number; count: number }> = {};
+      for (const reading of readings) {
+        if (reading.soilMoisture === null || reading.quality?.soilMoisture) {
+          continue;
+        }
+        const date = farmDate(coordinates, reading.recordedAt);
+        sums[date] ??= { total: 0, count: 0 };
+        sums[date].total += reading.soilMoisture;
+        sums[date].count += 1;
+      }
+      const moisture = Object.fromEntries(
+        Object.entries(sums).map(([date, { total, count }]) => [
+          date,
+          total / count,
+        ]),
+      );
+
+      const soilType = field.soilType || farm.soilType || null;
+      const crop = findCrop(field.cropType ?? primaryCrop(farm));
+      const stageOn = (date: string) =>
+        crop ? cropStage(crop, field.plantedOn, date) : null;
+      const stage = stageOn(today);
+      const balance = runWaterBalance({
+        soil: soilWater(soilType),
+        crop:
+          crop && stage
+            ? {
+                kc: stage.kc,
+                rootDepth: stage.rootDepth,
+                allowableDepletion: crop.allowableDepletion,
+              }
+            : DEFAULT_CROP_WATER,
+        kcOn: (date) => stageOn(date)?.kc ?? DEFAULT_CROP_WATER.kc,
+        efficiency,
+        weather: [...et0.history, ...et0.forecast],
+        irrigation,
+        moisture,
+      });
+      return {
+        ...balance,
+        fieldId: field.id,
+        fieldName: field.name,
+        soilType,
+        cropStage: crop && stage ? describeStage(crop, stage) : null,
+        efficiency,
+        recommendedMinutes: fieldArea
+          ? Math.ceil(
+              (balance.recommendedDepth * fieldArea) / LITERS_PER_MINUTE,
+            )
+          : null,
+        updatedAt: et0.updatedAt,
+      };
+    }),
+  );
+}
+
+export function registerWaterBalanceRoutes(app: Express) {
+  app.get(
+    "/api/farms/:farmId/water-balance",
+    asyncHandler(async (req, res) => {
+      const farm = await loadFarm(req, res, req.params.farmId, "view");
+      if (!farm) return;
+
+      const fields = await storage.getFieldsByFarm(farm.id);
+      res.json(await getWaterBalances(farm, fields));
+    }),
+  );
+
+  app.get(
+    "/api/fields/:fieldId/water-balance",
+    asyncHandler(async (req, res) => {
+      const field = await loadField(req, res, req.params.fieldId, "view");
+      if (!field) return;
+
+      const farm = await storage.getFarm(field.farmId);
+      if (!farm) {
+        return res.status(404).json({ message: "Farm not found" });
+      }
+      const [balance] = await getWaterBalances(farm, [field]);
+      res.json(balance);
+    }),
+  );
+}
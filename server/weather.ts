@@ -0,0 +1,292 @@
+import type { Express } from "express";
+import { z } from "zod";
+import {
+  referenceEt,
+  windAt2m,
+  type DailyWeather,
+  type Et0Day,
+  type FarmEt0,
+} from "@shared/et0";
+import type { Coordinates, DailyWeatherRow, Farm } from "@shared/schema";
+import { loadFarm } from "./access";
+import { asyncHandler, parseInput } from "./http";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+const log = console.log;
+
+const TICK_MS = 3 * 60 * 60 * 1000;
+// Weather older than this is refetched before it is served
+const STALE_AFTER_MS = TICK_MS;
+// Every fetch re-reads the last few days, so history fills in even after the
+// server was down for a while, and the week ahead.
+const PAST_DAYS = 7;
+const FORECAST_DAYS = 7;
+
+export class WeatherUnavailableError extends Error {
+  status = 502;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "WeatherUnavailableError";
+  }
+}
+
+export class MissingCoordinatesError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MissingCoordinatesError";
+  }
+}
+
+export type FetchedWeather = {
+  // Metres above sea level
+  elevation: number;
+  days: DailyWeather[];
+};
+
+export type WeatherFetcher = (
+  coordinates: Coordinates,
+) => Promise<FetchedWeather>;
+
+const openMeteoSchema = z.object({
+  elevation: z.number(),
+  daily: z.object({
+    time: z.array(z.string()),
+    temperature_2m_max: z.array(z.number().nullable()),
+    temperature_2m_min: z.array(z.number().nullable()),
+    relative_humidity_2m_mean: z.array(z.number().nullable()),
+    wind_speed_10m_mean: z.array(z.number().nullable()),
+    shortwave_radiation_sum: z.array(z.number().nullable()),
+    precipitation_sum: z.array(z.number().nullable()),
+    precipitation_probability_max: z.array(z.number().nullable()).optional(),
+  }),
+});
+
+/**
+ * Daily weather from Open-Meteo, which needs no API key. Dates are local to
+ * the farm. OPEN_METEO_URL points it at a mirror or a self-hosted instance.
+ */
+export const fetchOpenMeteo: WeatherFetcher = async (coordinates) => {
+  const url = new URL(
+    process.env.OPEN_METEO_URL || "https://api.open-meteo.com/v1/forecast",
+  );
+  url.search = new URLSearchParams({
+    latitude: String(coordinates.latitude),
+    longitude: String(coordinates.longitude),
+    daily: [
+      "temperature_2m_max",
+      "temperature_2m_min",
+      "relative_humidity_2m_mean",
+      "wind_speed_10m_mean",
+      "shortwave_radiation_sum",
+      "precipitation_sum",
+      "precipitation_probability_max",
+    ].join(","),
+    wind_speed_unit: "ms",
+    timezone: "auto",
+    past_days: String(PAST_DAYS),
+    forecast_days: String(FORECAST_DAYS),
+  }).toString();
+
+  let body: unknown;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`${res.status} ${await res.text()}`);
+    body = await res.json();
+  } catch (error) {
+    throw new WeatherUnavailableError(
+      `Weather service unavailable: ${(error as Error).message}`,
+    );
+  }
+
+  const parsed = openMeteoSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new WeatherUnavailableError("Unexpected weather service response");
+  }
+
+  const { elevation, daily } = parsed.data;
+  const days = daily.time.flatMap((date, i): DailyWeather[] => {
+    const tempMax = daily.temperature_2m_max[i];
+    const tempMin = daily.temperature_2m_min[i];
+    if (tempMax === null || tempMin === null) return [];
+
+    const wind = daily.wind_speed_10m_mean[i];
+    return [
+      {
+        date,
+        tempMax,
+        tempMin,
+        humidity: daily.relative_humidity_2m_mean[i],
+        windSpeed: wind === null ? null : windAt2m(wind, 10),
+        solarRadiation: daily.shortwave_radiation_sum[i],
+        precipitation: daily.precipitation_sum[i] ?? 0,
+        precipitationProbability:
+          daily.precipitation_probability_max?.[i] ?? null,
+      },
+    ];
+  });
+  return { elevation, days };
+};
+
+// The date at the farm, YYYY-MM-DD, `offset` days from `at`. Worked out from
+// the longitude, which is within an hour or two of the local time zone and
+// good enough to tell past days from forecast ones.
+export function farmDate(
+  coordinates: Coordinates,
+  at: Date,
+  offset = 0,
+): string {
+  const hours = Math.round(coordinates.longitude / 15);
+  return new Date(at.getTime() + (hours * 3600 + offset * 86400) * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function toEt0Day(row: DailyWeatherRow): Et0Day {
+  return {
+    date: row.date,
+    et0: row.et0,
+    method: row.et0Method,
+    precipitation: row.precipitation,
+    precipitationProbability: row.precipitationProbability,
+    forecast: row.forecast,
+  };
+}
+
+/**
+ * Keeps each located farm's daily weather and reference evapotranspiration
+ * (ET0) up to date. Every few hours it refetches the last week and the week
+ * ahead; past days stay in storage as history once they drop out of the
+ * window. Farms without coordinates are left alone.
+ */
+export class WeatherSync {
+  private interval: NodeJS.Timeout | undefined;
+
+  constructor(
+    private storage: IStorage = defaultStorage,
+    private now: () => Date = () => new Date(),
+    private fetchWeather: WeatherFetcher = fetchOpenMeteo,
+  ) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.tick().catch((error) => {
+      console.error("Weather sync failed:", error);
+    });
+    this.interval = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error("Weather sync failed:", error);
+      });
+    }, TICK_MS);
+    log("weather sync started");
+  }
+
+  stop(): void {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+
+  async tick(): Promise<void> {
+    const farms = await this.storage.getFarmsWithCoordinates();
+    for (const farm of farms) {
+      try {
+        await this.refreshFarm(farm);
+      } catch (error) {
+        console.error(`Weather for ${farm.id} not updated:`, error);
+      }
+    }
+  }
+
+  // Fetches the farm's weather and stores it with each day's ET0
+  async refreshFarm(farm: Farm): Promise<void> {
+    if (!farm.coordinates) {
+      throw new MissingCoordinatesError(
+        "Add the farm's coordinates to get its weather",
+      );
+    }
+
+    const now = this.now();
+    const { elevation, days } = await this.fetchWeather(farm.coordinates);
+    const today = farmDate(farm.coordinates, now);
+    const site = { latitude: farm.coordinates.latitude, elevation };
+    await this.storage.upsertDailyWeather(
+      days.map((day) => {
+        const { et0, method } = referenceEt(day, site);
+        return {
+          ...day,
+          farmId: farm.id,
+          et0,
+          et0Method: method,
+          forecast: day.date >= today,
+          fetchedAt: now,
+        };
+      }),
+    );
+    log(`weather for ${farm.id} updated (${days.length} days)`);
+  }
+
+  /**
+   * The farm's ET0 for the last `historyDays` days and the days ahead,
+   * fetching fresh weather first if what is stored is stale. Stale weather is
+   * still served if the weather service is down.
+   */
+  async getFarmEt0(farm: Farm, historyDays: number): Promise<FarmEt0> {
+    if (!farm.coordinates) {
+      throw new MissingCoordinatesError(
+        "Add the farm's coordinates to estimate evapotranspiration",
+      );
+    }
+
+    const { coordinates } = farm;
+    const now = this.now();
+    const today = farmDate(coordinates, now);
+    const from = farmDate(coordinates, now, -historyDays);
+    const to = farmDate(coordinates, now, FORECAST_DAYS);
+    let days = await this.storage.getDailyWeather(farm.id, from, to);
+
+    const lastFetch = (rows: DailyWeatherRow[]) =>
+      Math.max(0, ...rows.map((day) => day.fetchedAt.getTime()));
+    if (now.getTime() - lastFetch(days) > STALE_AFTER_MS) {
+      try {
+        await this.refreshFarm(farm);
+        days = await this.storage.getDailyWeather(farm.id, from, to);
+      } catch (error) {
+        if (days.length === 0) throw error;
+        console.error(`Serving stale weather for ${farm.id}:`, error);
+      }
+    }
+
+    return {
+      farmId: farm.id,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      history: days.filter((day) => day.date < today).map(toEt0Day),
+      forecast: days.filter((day) => day.date >= today).map(toEt0Day),
+      updatedAt: days.length ? new Date(lastFetch(days)).toISOString() : null,
+    };
+  }
+}
+
+export const weatherSync = new WeatherSync();
+
+const et0QuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(14),
+});
+
+export function registerWeatherRoutes(app: Express) {
+  app.get(
+    "/api/farms/:farmId/et0",
+    asyncHandler(async (req, res) => {
+      const query = parseInput(et0QuerySchema, req.query, res);
+      if (!query) return;
+
+      const farm = await loadFarm(req, res, req.params.farmId, "view");
+      if (!farm) return;
+
+      res.json(await weatherSync.getFarmEt0(farm, query.days));
+    }),
+  );
+}
@@ -0,0 +1,65 @@
+import type { SensorMetric } from "./schema";
+
+export type CalibrationPoint = { raw: number; actual: number };
+
+/**
+ * How a device's raw value for one metric maps to the true value. `linear`
+ * is a plain offset and gain; `curve` interpolates between measured points
+ * (pH buffers, or moisture references for a given soil) and extends the end
+ * segments beyond them.
+ */
+export type CalibrationDefinition =
+  | { kind: "linear"; offset: number; gain: number }
+  | { kind: "curve"; points: CalibrationPoint[] };
+
+// What calibration changed on a stored reading, per metric
+export type ReadingCorrections = Partial<
+  Record<SensorMetric, { raw: number; calibrationId: string }>
+>;
+
+// Corrected values are clamped to what the metric can physically be, so a
+// curve extended past its points can't report 104 % moisture.
+export const METRIC_LIMITS: Record<SensorMetric, [number, number]> = {
+  soilMoisture: [0, 100],
+  pH: [0, 14],
+  temperature: [-50, 80],
+  nitrogen: [0, Infinity],
+  phosphorus: [0, Infinity],
+  potassium: [0, Infinity],
+};
+
+// Standard pH buffer solutions, as printed on the bottle at 25 °C
+export const PH_BUFFERS = [4.01, 6.86, 7.0, 9.18, 10.01];
+
+function interpolate(a: CalibrationPoint, b: CalibrationPoint, raw: number) {
+  return a.actual + ((raw - a.raw) * (b.actual - a.actual)) / (b.raw - a.raw);
+}
+
+export function applyCalibration(
+  definition: CalibrationDefinition,
+  metric: SensorMetric,
+  raw: number,
+): number {
+  let value: number;
+  if (definition.kind === "linear") {
+    value = raw * definition.gain + definition.offset;
+  } else {
+    const points = [...definition.points].sort((a, b) => a.raw - b.raw);
+    // The segment around `raw`, or the first or last one outside the points
+    let i = 1;
+    while (i < points.length - 1 && raw > points[i].raw) i++;
+    value = interpolate(points[i - 1], points[i], raw);
+  }
+
+  const [min, max] = METRIC_LIMITS[metric];
+  return Math.min(max, Math.max(min, value));
+}
+
+// "offset +0.30, gain 1.020" or "3-point curve"
+export function describeCalibration(definition: CalibrationDefinition): string {
+  if (definition.kind === "curve") {
+    return `${definition.points.length}-point curve`;
+  }
+  const sign = definition.offset >= 0 ? "+" : "";
+  return `offset ${sign}${definition.offset.toFixed(2)}, gain ${definition.gain.toFixed(3)}`;
+}
@@ -0,0 +1,99 @@
+export const chatModels = [
+  // Production models
+  {
+    id: "llama-3.3-70b-versatile",
+    name: "Llama 3.3 70B Versatile",
+    provider: "Meta",
+    category: "production",
+  },
+  {
+    id: "llama-3.1-8b-instant",
+    name: "Llama 3.1 8B Instant",
+    provider: "Meta",
+    category: "production",
+  },
+  {
+    id: "openai/gpt-oss-120b",
+    name: "GPT-OSS 120B",
+    provider: "OpenAI",
+    category: "production",
+  },
+  {
+    id: "openai/gpt-oss-20b",
+    name: "GPT-OSS 20B",
+    provider: "OpenAI",
+    category: "production",
+  },
+  // Preview models, for evaluation only
+  {
+    id: "meta-llama/llama-4-scout-17b-16e-instruct",
+    name: "Llama 4 Scout 17B",
+    provider: "Meta",
+    category: "preview",
+  },
+  {
+    id: "meta-llama/llama-4-maverick-17b-128e-instruct",
+    name: "Llama 4 Maverick 17B",
+    provider: "Meta",
+    category: "preview",
+  },
+  {
+    id: "moonshotai/kimi-k2-instruct-0905",
+    name: "Kimi K2 Instruct",
+    provider: "Moonshot AI",
+    category: "preview",
+  },
+  {
+    id: "qwen/qwen3-32b",
+    name: "Qwen3 32B",
+    provider: "Alibaba Cloud",
+    category: "preview",
+  },
+] as const;
+
+export type ChatModel = (typeof chatModels)[number];
+export type ChatModelId = ChatModel["id"];
+
+export const DEFAULT_CHAT_MODEL: ChatModelId = "llama-3.3-70b-versatile";
+
+export type ChatRole = "user" | "assistant";
+
+export type ChatMessage = {
+  role: ChatRole;
+  content: string;
+};
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  model?: ChatModelId;
+  temperature?: number;
+  maxTokens?: number;
+  // Defaults to true; otherwise the answer comes back as one JSON response.
+  stream?: boolean;
+  // A farm the caller can view. Its crops, their growth stages and its
+  // latest readings are given to the model as context.
+  farmId?: string;
+};
+
+// Server-sent events emitted by POST /api/chat when streaming
+export type ChatStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "done"; usage: ChatUsageSummary }
+  | { type: "error"; message: string };
+
+export type ChatUsageSummary = {
+  requests: number;
+  tokens: number;
+  requestLimit: number;
+  tokenLimit: number;
+};
+
+export type ChatResponse = {
+  content: string;
+  usage: ChatUsageSummary;
+};
+
+export type ChatStatus = {
+  available: boolean;
+  usage: ChatUsageSummary;
+};
@@ -0,0 +1,332 @@
+import type { Band, MetricThresholds } from "./health";
+
+/*
+ * What the app knows about each crop it offers: how much water it uses as
+ * it grows (FAO-56 crop coefficients and stage lengths), how deep it roots
+ * and how dry it lets the soil get, and the soil it does best in. With a
+ * field's planting date this gives the crop's growth stage, which the water
+ * balance, the health thresholds and the AI chat all take into account.
+ */
+
+// FAO-56 growth stages, from planting to harvest
+export const growthStages = ["initial", "development", "mid", "late"] as const;
+
+export type GrowthStage = (typeof growthStages)[number];
+
+export const GROWTH_STAGE_LABELS: Record<GrowthStage, string> = {
+  initial: "Establishment",
+  development: "Development",
+  mid: "Mid-season",
+  late: "Late season",
+};
+
+export const nutrients = ["nitrogen", "phosphorus", "potassium"] as const;
+
+export type Nutrient = (typeof nutrients)[number];
+
+export type Crop = {
+  name: string;
+  // Crop coefficients (FAO-56 table 12): crop evapotranspiration is ET0
+  // times these. Kc climbs through development and falls in the late stage.
+  kc: { initial: number; mid: number; late: number };
+  // Days in each stage (table 11). Null for perennials, which are treated
+  // as always in mid season.
+  stageDays: Record<GrowthStage, number> | null;
+  // Rooting depth at planting and once fully grown, m (table 22)
+  rootDepth: { initial: number; max: number };
+  // Share of the available water the crop can use before it is stressed
+  allowableDepletion: number;
+  // Healthy is the optimal range. Moisture is for loam; other soils shift it
+  // (see SOIL_MOISTURE_SHIFT).
+  soilMoisture: MetricThresholds;
+  pH: MetricThresholds;
+  // Optimal soil levels, mg/kg
+  nutrientRanges: Record<Nutrient, Band>;
+};
+
+// Keyed by the lowercased names the app offers
+export const CROPS: Record<string, Crop> = {
+  maize: {
+    name: "Maize",
+    kc: { initial: 0.3, mid: 1.2, late: 0.6 },
+    stageDays: { initial: 30, development: 40, mid: 50, late: 30 },
+    rootDepth: { initial: 0.2, max: 1.2 },
+    allowableDepletion: 0.55,
+    soilMoisture: { healthy: [35, 70], attention: [25, 80] },
+    pH: { healthy: [5.8, 7], attention: [5, 8] },
+    nutrientRanges: {
+      nitrogen: [30, 60],
+      phosphorus: [20, 40],
+      potassium: [150, 250],
+    },
+  },
+  wheat: {
+    name: "Wheat",
+    kc: { initial: 0.3, mid: 1.15, late: 0.4 },
+    stageDays: { initial: 20, development: 25, mid: 60, late: 30 },
+    rootDepth: { initial: 0.2, max: 1.2 },
+    allowableDepletion: 0.55,
+    soilMoisture: { healthy: [30, 65], attention: [20, 75] },
+    pH: { healthy: [6, 7.5], attention: [5.5, 8] },
+    nutrientRanges: {
+      nitrogen: [25, 50],
+      phosphorus: [15, 35],
+      potassium: [120, 200],
+    },
+  },
+  // Paddy rice grows in saturated soil
+  rice: {
+    name: "Rice",
+    kc: { initial: 1.05, mid: 1.2, late: 0.9 },
+    stageDays: { initial: 30, development: 30, mid: 60, late: 30 },
+    rootDepth: { initial: 0.2, max: 0.5 },
+    allowableDepletion: 0.2,
+    soilMoisture: { healthy: [60, 100], attention: [45, 100] },
+    pH: { healthy: [5.5, 7], attention: [4.5, 8] },
+    nutrientRanges: {
+      nitrogen: [25, 50],
+      phosphorus: [15, 30],
+      potassium: [100, 200],
+    },
+  },
+  // Fixes its own nitrogen, so needs less in the soil
+  soybeans: {
+    name: "Soybeans",
+    kc: { initial: 0.4, mid: 1.15, late: 0.5 },
+    stageDays: { initial: 20, development: 30, mid: 60, late: 25 },
+    rootDepth: { initial: 0.2, max: 1 },
+    allowableDepletion: 0.5,
+    soilMoisture: { healthy: [35, 70], attention: [25, 80] },
+    pH: { healthy: [6, 7], attention: [5.5, 7.8] },
+    nutrientRanges: {
+      nitrogen: [10, 30],
+      phosphorus: [20, 40],
+      potassium: [150, 250],
+    },
+  },
+  cotton: {
+    name: "Cotton",
+    kc: { initial: 0.35, mid: 1.18, late: 0.7 },
+    stageDays: { initial: 30, development: 50, mid: 60, late: 55 },
+    rootDepth: { initial: 0.2, max: 1.2 },
+    allowableDepletion: 0.65,
+    soilMoisture: { healthy: [30, 65], attention: [20, 75] },
+    pH: { healthy: [5.8, 8], attention: [5, 8.5] },
+    nutrientRanges: {
+      nitrogen: [25, 55],
+      phosphorus: [15, 35],
+      potassium: [150, 250],
+    },
+  },
+  vegetables: {
+    name: "Vegetables",
+    kc: { initial: 0.7, mid: 1.05, late: 0.95 },
+    stageDays: { initial: 20, development: 30, mid: 40, late: 15 },
+    rootDepth: { initial: 0.15, max: 0.5 },
+    allowableDepletion: 0.4,
+    soilMoisture: { healthy: [40, 70], attention: [30, 80] },
+    pH: { healthy: [6, 7], attention: [5.5, 7.5] },
+    nutrientRanges: {
+      nitrogen: [40, 80],
+      phosphorus: [30, 60],
+      potassium: [150, 300],
+    },
+  },
+  fruits: {
+    name: "Fruits",
+    kc: { initial: 0.6, mid: 0.9, late: 0.75 },
+    stageDays: null,
+    rootDepth: { initial: 1.2, max: 1.2 },
+    allowableDepletion: 0.5,
+    soilMoisture: { healthy: [35, 65], attention: [25, 75] },
+    pH: { healthy: [5.5, 7], attention: [5, 7.5] },
+    nutrientRanges: {
+      nitrogen: [20, 50],
+      phosphorus: [15, 35],
+      potassium: [150, 300],
+    },
+  },
+  coffee: {
+    name: "Coffee",
+    kc: { initial: 0.9, mid: 0.95, late: 0.95 },
+    stageDays: null,
+    rootDepth: { initial: 1.2, max: 1.2 },
+    allowableDepletion: 0.4,
+    soilMoisture: { healthy: [40, 70], attention: [30, 80] },
+    pH: { healthy: [5, 6.5], attention: [4.5, 7] },
+    nutrientRanges: {
+      nitrogen: [30, 60],
+      phosphorus: [15, 30],
+      potassium: [150, 300],
+    },
+  },
+  // Tea needs acid soil that would worry most other crops
+  tea: {
+    name: "Tea",
+    kc: { initial: 0.95, mid: 1, late: 1 },
+    stageDays: null,
+    rootDepth: { initial: 0.9, max: 0.9 },
+    allowableDepletion: 0.4,
+    soilMoisture: { healthy: [40, 75], attention: [30, 85] },
+    pH: { healthy: [4.5, 5.5], attention: [4, 6.5] },
+    nutrientRanges: {
+      nitrogen: [40, 80],
+      phosphorus: [10, 30],
+      potassium: [100, 200],
+    },
+  },
+  // A plant crop; ratoons are shorter
+  sugarcane: {
+    name: "Sugarcane",
+    kc: { initial: 0.4, mid: 1.25, late: 0.75 },
+    stageDays: { initial: 35, development: 60, mid: 190, late: 120 },
+    rootDepth: { initial: 0.3, max: 1.5 },
+    allowableDepletion: 0.65,
+    soilMoisture: { healthy: [40, 75], attention: [30, 85] },
+    pH: { healthy: [6, 7.5], attention: [5, 8.5] },
+    nutrientRanges: {
+      nitrogen: [30, 60],
+      phosphorus: [15, 35],
+      potassium: [150, 300],
+    },
+  },
+  potatoes: {
+    name: "Potatoes",
+    kc: { initial: 0.5, mid: 1.15, late: 0.75 },
+    stageDays: { initial: 25, development: 30, mid: 45, late: 30 },
+    rootDepth: { initial: 0.15, max: 0.5 },
+    allowableDepletion: 0.35,
+    soilMoisture: { healthy: [40, 70], attention: [30, 80] },
+    pH: { healthy: [5, 6.5], attention: [4.5, 7] },
+    nutrientRanges: {
+      nitrogen: [40, 80],
+      phosphorus: [25, 50],
+      potassium: [200, 350],
+    },
+  },
+  // Tolerates drought well
+  cassava: {
+    name: "Cassava",
+    kc: { initial: 0.3, mid: 0.8, late: 0.3 },
+    stageDays: { initial: 20, development: 40, mid: 90, late: 60 },
+    rootDepth: { initial: 0.2, max: 0.7 },
+    allowableDepletion: 0.35,
+    soilMoisture: { healthy: [25, 60], attention: [15, 70] },
+    pH: { healthy: [5.5, 7], attention: [4.5, 8] },
+    nutrientRanges: {
+      nitrogen: [15, 40],
+      phosphorus: [10, 25],
+      potassium: [100, 200],
+    },
+  },
+};
+
+export function findCrop(name?: string | null): Crop | null {
+  return CROPS[name?.toLowerCase() ?? ""] ?? null;
+}
+
+// Where a crop is in its season on a given day
+export type CropStage = {
+  // Null for a seasonal crop with no planting date
+  stage: GrowthStage | null;
+  // Days since planting, when known
+  day: number | null;
+  // Days left in the stage; null for perennials or an unknown stage
+  daysLeftInStage: number | null;
+  // Past the end of the late stage, i.e. due for or past harvest
+  harvested: boolean;
+  kc: number;
+  // m
+  rootDepth: number;
+};
+
+// YYYY-MM-DD for a date in the device's or server's own time zone
+export function localDateString(at = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+const interpolate = (from: number, to: number, share: number) =>
+  from + (to - from) * Math.min(1, Math.max(0, share));
+
+/**
+ * The crop's stage on `date` (YYYY-MM-DD) for a field planted on
+ * `plantedOn`. Kc follows the FAO-56 curve: flat through the initial stage,
+ * rising through development, flat in mid season and falling to the late
+ * value by harvest. Roots grow until the end of development. Without a
+ * planting date the stage is unknown and mid-season values are used, which
+ * errs towards more water rather than less.
+ */
+export function cropStage(
+  crop: Crop,
+  plantedOn: string | null | undefined,
+  date: string,
+): CropStage {
+  const { kc, rootDepth, stageDays } = crop;
+  const mature = {
+    kc: kc.mid,
+    rootDepth: rootDepth.max,
+    daysLeftInStage: null,
+    harvested: false,
+  };
+  if (!stageDays) return { ...mature, stage: "mid", day: null };
+  if (!plantedOn) return { ...mature, stage: null, day: null };
+
+  const day = Math.max(0, daysBetween(plantedOn, date));
+  const development = stageDays.initial + stageDays.development;
+  const rooting = interpolate(
+    rootDepth.initial,
+    rootDepth.max,
+    day / development,
+  );
+
+  let start = 0;
+  for (const stage of growthStages) {
+    const length = stageDays[stage];
+    if (day < start + length) {
+      const share = (day - start) / length;
+      return {
+        stage,
+        day,
+        daysLeftInStage: start + length - day,
+        harvested: false,
+        kc:
+          stage === "initial"
+            ? kc.initial
+            : stage === "development"
+              ? interpolate(kc.initial, kc.mid, share)
+              : stage === "mid"
+                ? kc.mid
+                : interpolate(kc.mid, kc.late, share),
+        rootDepth: rooting,
+      };
+    }
+    start += length;
+  }
+
+  return {
+    stage: "late",
+    day,
+    daysLeftInStage: 0,
+    harvested: true,
+    kc: kc.late,
+    rootDepth: rootDepth.max,
+  };
+}
+
+// E.g. "Maize, mid-season, day 85 (20 days left)"
+export function describeStage(crop: Crop, stage: CropStage): string {
+  if (stage.harvested) return `${crop.name}, past harvest`;
+  if (!stage.stage) return `${crop.name}, planting date unknown`;
+  if (!crop.stageDays) return `${crop.name}, perennial`;
+
+  const left =
+    stage.daysLeftInStage === null
+      ? ""
+      : ` (${stage.daysLeftInStage} days left)`;
+  return `${crop.name}, ${GROWTH_STAGE_LABELS[stage.stage].toLowerCase()}, day ${stage.day}${left}`;
+}
@@ -0,0 +1,35 @@
+import type { Device } from "./schema";
+
+export const deviceTypes = [
+  "soil_probe",
+  "ph_probe",
+  "npk_probe",
+  "weather_station",
+  "valve_controller",
+  "gateway",
+] as const;
+export const deviceStatuses = ["active", "decommissioned"] as const;
+
+export type DeviceType = (typeof deviceTypes)[number];
+export type DeviceStatus = (typeof deviceStatuses)[number];
+
+// Most probes report every 15 minutes; allow a few missed uplinks before a
+// device counts as offline.
+export const DEVICE_OFFLINE_AFTER_MS = 60 * 60 * 1000;
+
+export function isDeviceOnline(
+  lastSeenAt: Date | string | null,
+  now = new Date(),
+): boolean {
+  if (!lastSeenAt) return false;
+  return (
+    now.getTime() - new Date(lastSeenAt).getTime() < DEVICE_OFFLINE_AFTER_MS
+  );
+}
+
+// A device as the API returns it: never with its secret hash, and with its
+// online state worked out server-side.
+export type DeviceResponse = Omit<Device, "secretHash"> & { online: boolean };
+
+// Only returned when a device is provisioned or its secret rotated
+export type ProvisionedDevice = DeviceResponse & { secret: string };
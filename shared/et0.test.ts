@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  extraterrestrialRadiation,
+  penmanMonteith,
+  referenceEt,
+  windAt2m,
+  type DailyWeather,
+  type Site,
+} from "./et0";
+
+// FAO-56 example 18: Uccle (Brussels) on 6 July, with the sunshine hours
+// already turned into radiation and RHmax/RHmin into a mean
+const UCCLE: Site = { latitude: 50.8, elevation: 100 };
+const JULY_6: DailyWeather = {
+  date: "2026-07-06",
+  tempMax: 21.5,
+  tempMin: 12.3,
+  humidity: 70.6,
+  windSpeed: 2.078,
+  solarRadiation: 22.07,
+  precipitation: 0,
+  precipitationProbability: null,
+};
+
+describe("windAt2m", () => {
+  it.each([
+    // FAO-56 example 14
+    [3.2, 10, 2.4],
+    [2.78, 10, 2.08],
+    [2, 2, 2],
+  ])("brings %s m/s at %s m down to %s m/s", (speed, height, expected) => {
+    expect(windAt2m(speed, height)).toBeCloseTo(expected, 1);
+  });
+});
+
+describe("extraterrestrialRadiation", () => {
+  it.each([
+    // FAO-56 example 8
+    ["20°S in early September", -20, "2026-09-03", 32.2],
+    ["the equator at the equinox", 0, "2026-03-20", 37.8],
+    ["polar day", -80, "2026-12-21", 47.7],
+    ["polar night", 80, "2026-12-21", 0],
+  ])("gives %s", (_, latitude, date, expected) => {
+    expect(extraterrestrialRadiation(latitude, date)).toBeCloseTo(expected, 1);
+  });
+});
+
+describe("referenceEt", () => {
+  it("matches the FAO-56 Penman-Monteith example", () => {
+    expect(
+      penmanMonteith({ ...JULY_6, humidity: 70.6, windSpeed: 2.078 }, UCCLE),
+    ).toBeCloseTo(3.9, 1);
+    expect(referenceEt(JULY_6, UCCLE)).toEqual({
+      et0: 3.9,
+      method: "penman-monteith",
+    });
+  });
+
+  it.each([
+    ["humidity", { humidity: null }],
+    ["wind", { windSpeed: null }],
+    ["humidity and wind", { humidity: null, windSpeed: null }],
+  ])("falls back to Hargreaves without %s", (_, missing) => {
+    expect(referenceEt({ ...JULY_6, ...missing }, UCCLE)).toEqual({
+      et0: 4.1,
+      method: "hargreaves",
+    });
+  });
+
+  it("estimates radiation from the temperature range when it is missing", () => {
+    expect(referenceEt({ ...JULY_6, solarRadiation: null }, UCCLE)).toEqual({
+      et0: 3.6,
+      method: "penman-monteith",
+    });
+  });
+
+  it.each([
+    [
+      "a still, saturated polar night",
+      {
+        date: "2026-12-21",
+        tempMax: -5,
+        tempMin: -15,
+        humidity: 100,
+        windSpeed: 0,
+        solarRadiation: 0,
+      },
+      { latitude: 75, elevation: 0 },
+      "penman-monteith",
+    ],
+    [
+      "deep frost",
+      {
+        date: "2026-01-15",
+        tempMax: -20,
+        tempMin: -30,
+        humidity: null,
+        windSpeed: null,
+      },
+      { latitude: 60, elevation: 0 },
+      "hargreaves",
+    ],
+  ] as const)("never goes below zero in %s", (_, weather, site, method) => {
+    expect(referenceEt({ ...JULY_6, ...weather }, site)).toEqual({
+      et0: 0,
+      method,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/*
+ * Reference evapotranspiration (ET0) as in FAO Irrigation and Drainage Paper
+ * 56: how much water a well-watered grass surface would lose in a day, in mm.
+ * Crop water demand is ET0 scaled by a crop coefficient.
+ */
+
+export const et0Methods = ["penman-monteith", "hargreaves"] as const;
+
+export type Et0Method = (typeof et0Methods)[number];
+
+// A day of weather at a farm. Only the temperatures are required; without
+// humidity or wind, ET0 falls back to Hargreaves.
+export type DailyWeather = {
+  // Local date, YYYY-MM-DD
+  date: string;
+  // °C
+  tempMax: number;
+  tempMin: number;
+  // Mean relative humidity, %
+  humidity: number | null;
+  // Mean wind speed 2 m above the ground, m/s (see `windAt2m`)
+  windSpeed: number | null;
+  // Incoming shortwave radiation, MJ/m²/day. Estimated from the daily
+  // temperature range when missing.
+  solarRadiation: number | null;
+  // mm
+  precipitation: number;
+  // Chance of rain, %, for forecast days
+  precipitationProbability: number | null;
+};
+
+export type Site = {
+  // Decimal degrees, south negative
+  latitude: number;
+  // Metres above sea level
+  elevation: number;
+};
+
+export type ReferenceEt = {
+  // mm/day
+  et0: number;
+  method: Et0Method;
+};
+
+// A day's ET0 as the API returns it
+export type Et0Day = ReferenceEt & {
+  date: string;
+  precipitation: number;
+  precipitationProbability: number | null;
+  // The day hadn't ended when the weather was fetched
+  forecast: boolean;
+};
+
+export type FarmEt0 = {
+  farmId: string;
+  latitude: number;
+  longitude: number;
+  // Oldest first, up to yesterday
+  history: Et0Day[];
+  // Today onwards
+  forecast: Et0Day[];
+  // When the weather was last fetched, ISO
+  updatedAt: string | null;
+};
+
+// Solar constant, MJ/m²/min
+const GSC = 0.082;
+// Stefan-Boltzmann constant, MJ/K⁴/m²/day
+const SIGMA = 4.903e-9;
+// Hargreaves radiation adjustment for inland sites (eq. 50)
+const KRS = 0.16;
+// Grass reference albedo
+const ALBEDO = 0.23;
+
+// Saturation vapour pressure at a temperature, kPa (eq. 11)
+const saturationVapourPressure = (temp: number) =>
+  0.6108 * Math.exp((17.27 * temp) / (temp + 237.3));
+
+function dayOfYear(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / 86400000;
+}
+
+/**
+ * Converts a wind speed measured `height` metres up, as most forecasts give it
+ * at 10 m, to the 2 m speed the equations expect (eq. 47).
+ */
+export function windAt2m(speed: number, height = 10): number {
+  return (speed * 4.87) / Math.log(67.8 * height - 5.42);
+}
+
+// Radiation at the top of the atmosphere, MJ/m²/day (eq. 21)
+export function extraterrestrialRadiation(
+  latitude: number,
+  date: string,
+): number {
+  const j = dayOfYear(date);
+  const phi = (latitude * Math.PI) / 180;
+  const dr = 1 + 0.033 * Math.cos(((2 * Math.PI) / 365) * j);
+  const delta = 0.409 * Math.sin(((2 * Math.PI) / 365) * j - 1.39);
+  // Clamped for polar day and night
+  const omega = Math.acos(
+    Math.min(1, Math.max(-1, -Math.tan(phi) * Math.tan(delta))),
+  );
+  const ra =
+    ((24 * 60) / Math.PI) *
+    GSC *
+    dr *
+    (omega * Math.sin(phi) * Math.sin(delta) +
+      Math.cos(phi) * Math.cos(delta) * Math.sin(omega));
+  return Math.max(0, ra);
+}
+
+// Needs only temperatures (eq. 52). Less accurate in humid or windy places.
+export function hargreaves(day: DailyWeather, site: Site): number {
+  const tempMean = (day.tempMax + day.tempMin) / 2;
+  const range = Math.max(0, day.tempMax - day.tempMin);
+  const ra = extraterrestrialRadiation(site.latitude, day.date);
+  return 0.0023 * (tempMean + 17.8) * Math.sqrt(range) * 0.408 * ra;
+}
+
+// FAO-56 Penman-Monteith (eq. 6), with soil heat flux ignored as it is over
+// a day. Expects humidity and wind.
+export function penmanMonteith(
+  day: DailyWeather & { humidity: number; windSpeed: number },
+  site: Site,
+): number {
+  const tempMean = (day.tempMax + day.tempMin) / 2;
+  const pressure = 101.3 * ((293 - 0.0065 * site.elevation) / 293) ** 5.26;
+  const gamma = 0.000665 * pressure;
+  const slope =
+    (4098 * saturationVapourPressure(tempMean)) / (tempMean + 237.3) ** 2;
+
+  const es =
+    (saturationVapourPressure(day.tempMax) +
+      saturationVapourPressure(day.tempMin)) /
+    2;
+  const ea = (Math.min(100, Math.max(0, day.humidity)) / 100) * es;
+
+  const ra = extraterrestrialRadiation(site.latitude, day.date);
+  const clearSky = (0.75 + 2e-5 * site.elevation) * ra;
+  const rs = Math.min(
+    day.solarRadiation ??
+      KRS * Math.sqrt(Math.max(0, day.tempMax - day.tempMin)) * ra,
+    clearSky,
+  );
+  const netShortwave = (1 - ALBEDO) * rs;
+  const netLongwave =
+    SIGMA *
+    (((day.tempMax + 273.16) ** 4 + (day.tempMin + 273.16) ** 4) / 2) *
+    (0.34 - 0.14 * Math.sqrt(ea)) *
+    (clearSky > 0 ? 1.35 * (rs / clearSky) - 0.35 : 0.05);
+  const netRadiation = netShortwave - netLongwave;
+
+  const u2 = Math.max(0, day.windSpeed);
+  return (
+    (0.408 * slope * netRadiation +
+      gamma * (900 / (tempMean + 273)) * u2 * (es - ea)) /
+    (slope + gamma * (1 + 0.34 * u2))
+  );
+}
+
+/**
+ * ET0 for a day at a site, by Penman-Monteith when humidity and wind are
+ * known and by Hargreaves otherwise. Rounded to 0.1 mm and never negative.
+ */
+export function referenceEt(day: DailyWeather, site: Site): ReferenceEt {
+  const { humidity, windSpeed } = day;
+  const [et0, method]: [number, Et0Method] =
+    humidity !== null && windSpeed !== null
+      ? [
+          penmanMonteith({ ...day, humidity, windSpeed }, site),
+          "penman-monteith",
+        ]
+      : [hargreaves(day, site), "hargreaves"];
+  return { et0: Math.max(0, Math.round(et0 * 10) / 10), method };
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { assessHealth, resolveThresholds } from "./health";
+
+describe("assessHealth", () => {
+  describe("status bands", () => {
+    it.each([
+      [50, "healthy", null],
+      [30, "healthy", null],
+      [70, "healthy", null],
+      [25, "attention", "low"],
+      [20, "attention", "low"],
+      [80, "attention", "high"],
+      [19.9, "critical", "low"],
+      [95, "critical", "high"],
+    ] as const)(
+      "rates %s%% moisture %s with the default bands",
+      (value, status, direction) => {
+        const health = assessHealth({ soilMoisture: value });
+
+        expect(health.status).toBe(status);
+        expect(health.metrics[0]).toMatchObject({
+          metric: "soilMoisture",
+          status,
+          direction,
+        });
+      },
+    );
+
+    it.each([
+      [6.5, "healthy"],
+      [4.5, "attention"],
+      [8.5, "attention"],
+      [3.5, "critical"],
+      [9.5, "critical"],
+    ] as const)("rates pH %s %s", (value, status) => {
+      expect(assessHealth({ pH: value }).status).toBe(status);
+    });
+
+    it("scores the middle of the healthy band 100 and falls off past it", () => {
+      const score = (soilMoisture: number) =>
+        assessHealth({ soilMoisture }).score;
+
+      expect(score(50)).toBe(100);
+      expect(score(30)).toBe(80);
+      expect(score(20)).toBe(40);
+      expect(score(10)).toBe(0);
+    });
+  });
+
+  describe("thresholds", () => {
+    it("uses the primary crop's bands and names it", () => {
+      const health = assessHealth(
+        { soilMoisture: 32 },
+        { cropTypes: ["Maize"] },
+      );
+
+      expect(health.crop).toBe("Maize");
+      expect(health.status).toBe("attention");
+      expect(health.reason).toBe(
+        "Soil moisture 32% is low (aim for 35-70% for Maize)",
+      );
+    });
+
+    it("skips crops the library doesn't know", () => {
+      const health = assessHealth(
+        { soilMoisture: 32 },
+        { cropTypes: ["Dragonfruit", "Maize"] },
+      );
+
+      expect(health.crop).toBe("Maize");
+    });
+
+    it("moves the moisture bands for the soil and the growth stage", () => {
+      const maize = { cropTypes: ["Maize"] };
+
+      expect(assessHealth({ soilMoisture: 30 }, maize).status).toBe(
+        "attention",
+      );
+      expect(
+        assessHealth({ soilMoisture: 30 }, { ...maize, soilType: "Sandy" })
+          .status,
+      ).toBe("healthy");
+      expect(
+        assessHealth({ soilMoisture: 30 }, { ...maize, stage: "late" }).status,
+      ).toBe("healthy");
+      expect(
+        resolveThresholds({ ...maize, soilType: "clay", stage: "initial" })
+          .soilMoisture.healthy,
+      ).toEqual([50, 85]);
+    });
+
+    it("lets explicit overrides win", () => {
+      const health = assessHealth(
+        { pH: 6.5 },
+        { cropTypes: ["Maize"] },
+        { overrides: { pH: { healthy: [7, 8], attention: [6, 9] } } },
+      );
+
+      expect(health.status).toBe("attention");
+      expect(health.driver?.direction).toBe("low");
+    });
+  });
+
+  describe("driver", () => {
+    it("is null when every reading is healthy", () => {
+      const health = assessHealth({ soilMoisture: 50, pH: 6.5 });
+
+      expect(health.driver).toBe(null);
+      expect(health.reason).toBe("All readings within range");
+    });
+
+    it("is the most severe metric", () => {
+      const health = assessHealth({ soilMoisture: 25, pH: 3.5 });
+
+      expect(health.status).toBe("critical");
+      expect(health.driver?.metric).toBe("pH");
+      expect(health.reason).toBe("pH 3.5 is critically low (aim for 5-8)");
+    });
+
+    it("is the one further out of its band between equally bad metrics", () => {
+      // Moisture barely past its healthy edge, pH nearly critical
+      const health = assessHealth({ soilMoisture: 29, pH: 4.1 });
+
+      expect(health.status).toBe("attention");
+      expect(health.driver?.metric).toBe("pH");
+    });
+  });
+
+  describe("quality flags", () => {
+    it("leaves flagged readings out instead of reading them as soil problems", () => {
+      const health = assessHealth(
+        { soilMoisture: 0, pH: 6.5 },
+        {},
+        { quality: { soilMoisture: "out_of_range" } },
+      );
+
+      expect(health.status).toBe("healthy");
+      expect(health.metrics.map((m) => m.metric)).toEqual(["pH"]);
+    });
+
+    it("lets an unflagged bad reading through next to a flagged one", () => {
+      const health = assessHealth(
+        { soilMoisture: 10, pH: 2 },
+        {},
+        { quality: { pH: "stuck" } },
+      );
+
+      expect(health.status).toBe("critical");
+      expect(health.driver?.metric).toBe("soilMoisture");
+    });
+
+    it("has nothing to go on when every reading is flagged or missing", () => {
+      const health = assessHealth(
+        { soilMoisture: 45, pH: null },
+        {},
+        { quality: { soilMoisture: "spike" } },
+      );
+
+      expect(health).toMatchObject({
+        status: "healthy",
+        driver: null,
+        metrics: [],
+        reason: "No readings yet",
+        score: 0,
+      });
+    });
+  });
+});
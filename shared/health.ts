@@ -0,0 +1,262 @@
+import { CROPS, findCrop, type GrowthStage } from "./crops";
+import type { HealthStatus } from "./models";
+import type { ReadingQuality } from "./quality";
+
+/*
+ * Works out how a farm or field is doing from its latest readings. Every
+ * screen, the dashboard score and the alert generator go through here, so
+ * they agree on what "attention" and "critical" mean for a given crop and
+ * soil.
+ */
+
+// Metrics that set a field's health
+export const healthMetrics = ["soilMoisture", "pH"] as const;
+
+export type HealthMetric = (typeof healthMetrics)[number];
+
+// Inclusive [low, high]
+export type Band = [number, number];
+
+// Inside `healthy` is healthy, inside `attention` needs attention and
+// anything beyond is critical. `attention` always contains `healthy`.
+export type MetricThresholds = { healthy: Band; attention: Band };
+
+export type HealthThresholds = Record<HealthMetric, MetricThresholds>;
+
+export const DEFAULT_THRESHOLDS: HealthThresholds = {
+  soilMoisture: { healthy: [30, 70], attention: [20, 80] },
+  pH: { healthy: [5, 8], attention: [4, 9] },
+};
+
+// What each crop prefers, from the crop library, keyed by the lowercased
+// names the app offers
+export const CROP_THRESHOLDS: Record<
+  string,
+  Partial<HealthThresholds>
+> = Object.fromEntries(
+  Object.entries(CROPS).map(([key, crop]) => [
+    key,
+    { soilMoisture: crop.soilMoisture, pH: crop.pH },
+  ]),
+);
+
+// Percentage points to move the moisture bands by. Sand drains and reads
+// lower at the same plant-available water; clay and peat hold more.
+export const SOIL_MOISTURE_SHIFT: Record<string, number> = {
+  sandy: -10,
+  rocky: -10,
+  chalky: -5,
+  loamy: 0,
+  silt: 5,
+  clay: 10,
+  peaty: 15,
+};
+
+// Percentage points to move the moisture bands by as the crop grows.
+// Seedlings' shallow roots need a moist surface; a crop ripening for
+// harvest can be let dry.
+export const STAGE_MOISTURE_SHIFT: Record<GrowthStage, number> = {
+  initial: 5,
+  development: 0,
+  mid: 0,
+  late: -10,
+};
+
+// What a farm or field is growing, and in what. The stage is the primary
+// crop's, when its planting date is known.
+export type GrowingProfile = {
+  cropTypes?: readonly string[] | null;
+  soilType?: string | null;
+  stage?: GrowthStage | null;
+};
+
+const clampBand = ([low, high]: Band): Band => [
+  Math.max(0, low),
+  Math.min(100, high),
+];
+
+const shift = ({ healthy, attention }: MetricThresholds, by: number) => ({
+  healthy: clampBand([healthy[0] + by, healthy[1] + by]),
+  attention: clampBand([attention[0] + by, attention[1] + by]),
+});
+
+// The first of the farm's crops with thresholds of its own, if any
+export function primaryCrop(profile: GrowingProfile): string | null {
+  return profile.cropTypes?.find((crop) => findCrop(crop)) ?? null;
+}
+
+/**
+ * Thresholds for a farm or field: the defaults, then its primary crop's,
+ * with moisture shifted for the soil and the growth stage, then any
+ * explicit overrides.
+ */
+export function resolveThresholds(
+  profile: GrowingProfile,
+  overrides: Partial<HealthThresholds> = {},
+): HealthThresholds {
+  const crop = primaryCrop(profile);
+  const thresholds = {
+    ...DEFAULT_THRESHOLDS,
+    ...(crop ? CROP_THRESHOLDS[crop.toLowerCase()] : {}),
+  };
+  const moistureShift =
+    (SOIL_MOISTURE_SHIFT[profile.soilType?.toLowerCase() ?? ""] ?? 0) +
+    (profile.stage ? STAGE_MOISTURE_SHIFT[profile.stage] : 0);
+  return {
+    ...thresholds,
+    soilMoisture: shift(thresholds.soilMoisture, moistureShift),
+    ...overrides,
+  };
+}
+
+export type MetricAssessment = {
+  metric: HealthMetric;
+  value: number;
+  status: HealthStatus;
+  // Which side of the healthy band the value is on, if outside it
+  direction: "low" | "high" | null;
+  thresholds: MetricThresholds;
+  // 0-100: 100 in the middle of the healthy band, 0 well past critical
+  score: number;
+};
+
+export type HealthAssessment = {
+  status: HealthStatus;
+  // The metric that set the status; null when everything is healthy
+  driver: MetricAssessment | null;
+  metrics: MetricAssessment[];
+  // One line saying why, for badges and alerts
+  reason: string;
+  score: number;
+  thresholds: HealthThresholds;
+  crop: string | null;
+};
+
+const SEVERITY: Record<HealthStatus, number> = {
+  healthy: 0,
+  attention: 1,
+  critical: 2,
+};
+
+export const METRIC_LABELS: Record<HealthMetric, string> = {
+  soilMoisture: "Soil moisture",
+  pH: "pH",
+};
+
+const formatValue = (metric: HealthMetric, value: number) =>
+  metric === "soilMoisture" ? `${Math.round(value)}%` : value.toFixed(1);
+
+const formatBand = (metric: HealthMetric, [low, high]: Band) =>
+  metric === "soilMoisture" ? `${low}-${high}%` : `${low}-${high}`;
+
+const within = (value: number, [low, high]: Band) =>
+  value >= low && value <= high;
+
+function scoreMetric(value: number, { healthy, attention }: MetricThresholds) {
+  const center = (healthy[0] + healthy[1]) / 2;
+  const halfWidth = Math.max((healthy[1] - healthy[0]) / 2, Number.EPSILON);
+  if (within(value, healthy)) {
+    return 100 - 20 * (Math.abs(value - center) / halfWidth);
+  }
+
+  // 80 at the healthy edge, 40 at the attention edge, 0 as far again beyond
+  const low = value < healthy[0];
+  const edge = low ? healthy[0] : healthy[1];
+  const margin = Math.max(
+    Math.abs((low ? attention[0] : attention[1]) - edge),
+    Number.EPSILON,
+  );
+  const past = Math.abs(value - edge) / margin;
+  return past <= 1 ? 80 - 40 * past : Math.max(0, 40 - 40 * (past - 1));
+}
+
+function assessMetric(
+  metric: HealthMetric,
+  value: number,
+  thresholds: MetricThresholds,
+): MetricAssessment {
+  const status: HealthStatus = within(value, thresholds.healthy)
+    ? "healthy"
+    : within(value, thresholds.attention)
+      ? "attention"
+      : "critical";
+  return {
+    metric,
+    value,
+    status,
+    direction:
+      status === "healthy"
+        ? null
+        : value < thresholds.healthy[0]
+          ? "low"
+          : "high",
+    thresholds,
+    score: Math.round(scoreMetric(value, thresholds)),
+  };
+}
+
+function describe(driver: MetricAssessment | null, crop: string | null) {
+  if (!driver) return "All readings within range";
+
+  const label = METRIC_LABELS[driver.metric];
+  const severity = driver.status === "critical" ? "critically " : "";
+  const target = `aim for ${formatBand(driver.metric, driver.thresholds.healthy)}${crop ? ` for ${crop}` : ""}`;
+  return `${label} ${formatValue(driver.metric, driver.value)} is ${severity}${driver.direction} (${target})`;
+}
+
+/**
+ * Assesses the latest readings against the thresholds for the crop and soil.
+ * Missing metrics, and metrics whose sensor failed a quality check, are left
+ * out rather than read as a soil problem. The worst metric sets the status;
+ * between two equally bad ones, the one further out of its band wins.
+ */
+export function assessHealth(
+  readings: Partial<Record<HealthMetric, number | null>>,
+  profile: GrowingProfile = {},
+  options: {
+    quality?: ReadingQuality | null;
+    overrides?: Partial<HealthThresholds>;
+  } = {},
+): HealthAssessment {
+  const thresholds = resolveThresholds(profile, options.overrides);
+  const crop = primaryCrop(profile);
+
+  const metrics = healthMetrics.flatMap((metric) => {
+    const value = readings[metric];
+    if (value === null || value === undefined || options.quality?.[metric]) {
+      return [];
+    }
+    return [assessMetric(metric, value, thresholds[metric])];
+  });
+
+  const driver =
+    metrics
+      .filter((m) => m.status !== "healthy")
+      .sort(
+        (a, b) => SEVERITY[b.status] - SEVERITY[a.status] || a.score - b.score,
+      )[0] ?? null;
+
+  return {
+    status: driver?.status ?? "healthy",
+    driver,
+    metrics,
+    reason: metrics.length === 0 ? "No readings yet" : describe(driver, crop),
+    score:
+      metrics.length === 0
+        ? 0
+        : Math.round(
+            metrics.reduce((sum, m) => sum + m.score, 0) / metrics.length,
+          ),
+    thresholds,
+    crop,
+  };
+}
+
+// One metric's score for a single value, e.g. how close moisture is to ideal
+export function scoreReading(
+  metric: HealthMetric,
+  value: number,
+  profile: GrowingProfile = {},
+): number {
+  return assessMetric(metric, value, resolveThresholds(profile)[metric]).score;
+}
@@ -0,0 +1,30 @@
+import type { SensorMetric } from "./schema";
+
+export const historyRanges = ["24h", "7d", "30d"] as const;
+
+export type HistoryRange = (typeof historyRanges)[number];
+export type HistoryBucket = "hour" | "day";
+export type Trend = "up" | "down" | "stable";
+
+export type MetricStats = {
+  min: number;
+  avg: number;
+  max: number;
+  count: number;
+};
+
+export type HistoryPoint = {
+  // ISO timestamp of the start of the bucket
+  start: string;
+} & Partial<Record<SensorMetric, MetricStats>>;
+
+export type FieldHistory = {
+  fieldId: string;
+  range: HistoryRange;
+  bucket: HistoryBucket;
+  from: string;
+  to: string;
+  series: HistoryPoint[];
+  latest: Partial<Record<SensorMetric, number>>;
+  trends: Partial<Record<SensorMetric, Trend>>;
+};
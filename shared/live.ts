@@ -0,0 +1,51 @@
+import type {
+  ActuatorCommand,
+  Alert,
+  IrrigationLog,
+  SensorData,
+} from "./schema";
+
+// Path of the WebSocket endpoint on the API server
+export const LIVE_PATH = "/api/live";
+
+// Close codes sent by the server; 4000-4999 are reserved for applications.
+export const LIVE_CLOSE_UNAUTHORIZED = 4401;
+export const LIVE_CLOSE_AUTH_TIMEOUT = 4408;
+
+// Dates arrive as ISO strings over JSON
+export type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date
+    ? string
+    : T[K] extends Date | null
+      ? string | null
+      : T[K];
+};
+
+export type LiveSensorData = Serialized<SensorData>;
+export type LiveIrrigationRun = Serialized<IrrigationLog>;
+export type LiveCommand = Serialized<ActuatorCommand>;
+export type LiveAlert = Serialized<Alert>;
+
+/**
+ * Client to server. The first message must be `auth` with a Firebase ID
+ * token; farms can be subscribed once the server replies `ready`.
+ */
+export type LiveClientMessage =
+  | { type: "auth"; token: string }
+  | { type: "subscribe"; farmId: string }
+  | { type: "unsubscribe"; farmId: string };
+
+export type LiveServerMessage =
+  | { type: "ready"; userId: string }
+  // Current state, sent once on subscribe so clients don't need a separate fetch
+  | {
+      type: "subscribed";
+      farmId: string;
+      sensorData: LiveSensorData | null;
+      activeRun: LiveIrrigationRun | null;
+    }
+  | { type: "sensorData"; farmId: string; sensorData: LiveSensorData }
+  | { type: "irrigationRun"; farmId: string; run: LiveIrrigationRun }
+  | { type: "command"; farmId: string; command: LiveCommand }
+  | { type: "alert"; farmId: string; alert: LiveAlert }
+  | { type: "error"; farmId?: string; message: string };
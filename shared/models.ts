@@ -0,0 +1,199 @@
+import { z } from "zod";
+import type { HealthMetric } from "./health";
+import type { Serialized } from "./live";
+import { qualityFlags } from "./quality";
+import { memberRoles, type FarmRole } from "./roles";
+import type {
+  Alert as AlertRow,
+  Field as FieldRow,
+  IrrigationLog as IrrigationLogRow,
+} from "./schema";
+
+/*
+ * The domain model the server and the app share. `schema.ts` says how the
+ * server stores farms, fields, alerts and irrigation logs; the schemas here
+ * check the same data where the app reads it, from the Realtime Database or
+ * the API, so screens never work on a shape they didn't expect.
+ */
+
+// Whether a farm is in use. Stored on the farm; unrelated to its health.
+export const farmStatuses = ["active", "inactive"] as const;
+// How a farm or field is doing, worked out from its latest readings
+export const healthStatuses = ["healthy", "attention", "critical"] as const;
+
+export const irrigationModes = ["auto", "manual"] as const;
+export const irrigationStatuses = [
+  "scheduled",
+  "in_progress",
+  "completed",
+  "failed",
+  "cancelled",
+  // Automatic runs the weather made unnecessary
+  "skipped",
+] as const;
+
+export const alertTypes = [
+  "info",
+  "warning",
+  "critical",
+  "success",
+  "system",
+] as const;
+export const alertPriorities = ["low", "medium", "high"] as const;
+export const alertCategories = [
+  "irrigation",
+  "soil",
+  "weather",
+  "system",
+  "crop",
+  "market",
+  "security",
+] as const;
+
+export type FarmStatus = (typeof farmStatuses)[number];
+export type HealthStatus = (typeof healthStatuses)[number];
+export type IrrigationMode = (typeof irrigationModes)[number];
+export type IrrigationStatus = (typeof irrigationStatuses)[number];
+export type AlertType = (typeof alertTypes)[number];
+export type AlertPriority = (typeof alertPriorities)[number];
+export type AlertCategory = (typeof alertCategories)[number];
+
+export const coordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+
+const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+// `farms/{farmId}/sensorData`: the farm's latest reading of each metric
+export const sensorSnapshotSchema = z.object({
+  soilMoisture: z.number().default(0),
+  pH: z.number().default(0),
+  temperature: z.number().default(0),
+  nitrogen: z.number().default(0),
+  phosphorus: z.number().default(0),
+  potassium: z.number().default(0),
+  lastUpdated: isoDate.optional(),
+  // Metrics whose sensor failed a quality check
+  quality: z.record(z.enum(qualityFlags)).nullish(),
+});
+
+export type SensorSnapshot = z.infer<typeof sensorSnapshotSchema>;
+
+// `farms/{farmId}/irrigationSchedule`, the app's copy of the saved schedule
+export const farmScheduleSchema = z.object({
+  autoMode: z.boolean(),
+  scheduleTime: z.string().regex(/^\d{2}:\d{2}$/),
+  // Minutes
+  duration: z.number().positive(),
+  lastUpdated: isoDate.optional(),
+  nextIrrigation: z.string().optional(),
+});
+
+export type FarmSchedule = z.infer<typeof farmScheduleSchema>;
+
+/**
+ * A `farms/{farmId}` node. Details the app never filled in fall back to the
+ * same defaults the server uses.
+ */
+export const farmRecordSchema = z.object({
+  userId: z.string().min(1),
+  name: z.string().default(""),
+  location: z.string().default(""),
+  totalAcres: z.number().nonnegative().default(0),
+  cropTypes: z.array(z.string()).default([]),
+  soilType: z.string().default(""),
+  irrigationType: z.string().default("Manual"),
+  // Older app versions stored the farm's health here
+  status: z.enum(farmStatuses).catch("active"),
+  description: z.string().optional(),
+  coordinates: coordinatesSchema.nullish(),
+  createdAt: z.string().default(""),
+  updatedAt: z.string().default(""),
+  // A garbled snapshot or schedule is dropped instead of hiding the farm
+  sensorData: sensorSnapshotSchema.optional().catch(undefined),
+  irrigationSchedule: farmScheduleSchema.optional().catch(undefined),
+  // Mirror of the server's memberships, read by the database rules
+  members: z.record(z.enum(memberRoles)).optional(),
+});
+
+export type FarmRecord = z.infer<typeof farmRecordSchema>;
+
+// A farm as the app works with it, with the current user's role once loaded
+export type Farm = FarmRecord & { id: string; role?: FarmRole };
+
+// The details a farm is created with
+export type NewFarm = Omit<
+  FarmRecord,
+  "userId" | "createdAt" | "updatedAt" | "members"
+>;
+
+// A farm or field at a glance, as the dashboard and field cards show it
+export type FieldSummary = {
+  id: string;
+  name: string;
+  acres: number;
+  cropType: string;
+  status: HealthStatus;
+  // Why, when it isn't healthy, and which reading drove it
+  statusReason?: string;
+  statusMetric?: HealthMetric;
+  moisture: number;
+  pH: number;
+  temperature: number;
+  nitrogen: number;
+  phosphorus: number;
+  potassium: number;
+  lastIrrigation?: string;
+};
+
+// API responses carry dates as ISO strings
+export type ApiField = Serialized<FieldRow>;
+export type ApiAlert = Serialized<AlertRow>;
+export type ApiIrrigationLog = Serialized<IrrigationLogRow>;
+
+export const fieldSchema: z.ZodType<ApiField> = z.object({
+  id: z.string(),
+  farmId: z.string(),
+  name: z.string(),
+  acres: z.number(),
+  cropType: z.string().nullable(),
+  soilType: z.string().nullable(),
+  plantedOn: z.string().nullable(),
+  createdAt: isoDate,
+});
+
+export const alertSchema: z.ZodType<ApiAlert> = z.object({
+  id: z.string(),
+  userId: z.string(),
+  farmId: z.string().nullable(),
+  title: z.string(),
+  message: z.string(),
+  type: z.enum(alertTypes),
+  category: z.enum(alertCategories),
+  priority: z.enum(alertPriorities),
+  data: z.record(z.unknown()).nullable(),
+  read: z.boolean(),
+  actionUrl: z.string().nullable(),
+  createdAt: isoDate,
+  expiresAt: isoDate.nullable(),
+});
+
+export const irrigationLogSchema: z.ZodType<ApiIrrigationLog> = z.object({
+  id: z.string(),
+  farmId: z.string(),
+  fieldId: z.string().nullable(),
+  mode: z.enum(irrigationModes),
+  status: z.enum(irrigationStatuses),
+  duration: z.number(),
+  startTime: isoDate,
+  endTime: isoDate.nullable(),
+  estimatedWaterUsage: z.number(),
+  waterSaved: z.number(),
+  note: z.string().nullable(),
+  createdAt: isoDate,
+});
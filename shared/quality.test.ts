@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { assessReading, type QualitySample } from "./quality";
+import type { SensorMetric } from "./schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date("2026-06-01T12:00:00Z");
+
+type Values = QualitySample["values"];
+
+const sample = (hoursAgo: number, values: Values) => ({
+  recordedAt: new Date(NOW.getTime() - hoursAgo * HOUR_MS),
+  values,
+});
+
+// Earlier readings, newest first, one every `stepHours` before NOW
+function history(
+  count: number,
+  stepHours: number,
+  values: Values,
+  quality: QualitySample["quality"] = null,
+): QualitySample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    ...sample((i + 1) * stepHours, values),
+    quality,
+  }));
+}
+
+const flagFor = (metric: SensorMetric, values: Values, past: QualitySample[]) =>
+  assessReading(sample(0, values), past)[metric];
+
+describe("assessReading", () => {
+  it("passes a reading that moves like soil does", () => {
+    const past = history(5, 1, { soilMoisture: 41.2, pH: 6.4 });
+
+    expect(
+      assessReading(sample(0, { soilMoisture: 40.8, pH: 6.5 }), past),
+    ).toEqual({});
+  });
+
+  it("flags values outside the plausible range", () => {
+    expect(flagFor("soilMoisture", { soilMoisture: 0 }, [])).toBe(
+      "out_of_range",
+    );
+    expect(flagFor("pH", { pH: 1 }, [])).toBe("out_of_range");
+  });
+
+  it("flags jumps from the last good value within the hour", () => {
+    const past = history(1, 0.25, { soilMoisture: 30 });
+
+    expect(flagFor("soilMoisture", { soilMoisture: 65 }, past)).toBe("spike");
+    expect(
+      flagFor(
+        "soilMoisture",
+        { soilMoisture: 65 },
+        history(1, 2, { soilMoisture: 30 }),
+      ),
+    ).toBeUndefined();
+  });
+
+  describe("stuck", () => {
+    it("flags moisture repeated exactly for 6 hours", () => {
+      const past = history(6, 1, { soilMoisture: 37.5 });
+
+      expect(flagFor("soilMoisture", { soilMoisture: 37.5 }, past)).toBe(
+        "stuck",
+      );
+      expect(
+        flagFor("soilMoisture", { soilMoisture: 37.5 }, past.slice(0, 4)),
+      ).toBeUndefined();
+    });
+
+    it("gives pH a day and NPK two days before calling them stuck", () => {
+      const pH = { pH: 6.5 };
+      const nitrogen = { nitrogen: 42 };
+
+      expect(flagFor("pH", pH, history(12, 1, pH))).toBeUndefined();
+      expect(flagFor("pH", pH, history(24, 1, pH))).toBe("stuck");
+      expect(
+        flagFor("nitrogen", nitrogen, history(24, 1, nitrogen)),
+      ).toBeUndefined();
+      expect(flagFor("nitrogen", nitrogen, history(48, 1, nitrogen))).toBe(
+        "stuck",
+      );
+    });
+
+    it("stays flagged for as long as the value holds", () => {
+      const stuck = { soilMoisture: "stuck" } as const;
+      const past = history(1, 1, { soilMoisture: 37.5 }, stuck);
+
+      expect(flagFor("soilMoisture", { soilMoisture: 37.5 }, past)).toBe(
+        "stuck",
+      );
+      expect(
+        flagFor("soilMoisture", { soilMoisture: 37.6 }, past),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("dropout", () => {
+    it("flags a metric the device stopped sending", () => {
+      const past = history(3, 0.25, { soilMoisture: 40, temperature: 18 });
+
+      expect(
+        flagFor("soilMoisture", { soilMoisture: null, temperature: 18 }, past),
+      ).toBe("dropout");
+    });
+
+    it("ignores metrics the device only sends now and then", () => {
+      const past = [
+        { ...sample(0.25, { temperature: 18 }), quality: null },
+        {
+          ...sample(0.5, { soilMoisture: 40, temperature: 18 }),
+          quality: null,
+        },
+        { ...sample(0.75, { temperature: 18 }), quality: null },
+      ];
+
+      expect(
+        flagFor("soilMoisture", { soilMoisture: null, temperature: 18 }, past),
+      ).toBeUndefined();
+      expect(flagFor("pH", { pH: null }, [])).toBeUndefined();
+    });
+
+    it("stays flagged until the metric comes back", () => {
+      const dropout = { soilMoisture: "dropout" } as const;
+      const past = history(1, 0.25, { soilMoisture: null }, dropout);
+
+      expect(flagFor("soilMoisture", { soilMoisture: null }, past)).toBe(
+        "dropout",
+      );
+      expect(
+        flagFor("soilMoisture", { soilMoisture: 40 }, past),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { SensorMetric } from "./schema";
+
+/**
+ * Why a reading's value for a metric is not trusted:
+ * - `out_of_range`: outside what the metric can plausibly be in soil, which
+ *   usually means a disconnected, flooded or damaged probe
+ * - `spike`: jumped further from the last good value than the soil can
+ *   change in that time
+ * - `stuck`: exactly the same value for longer than the metric plausibly
+ *   holds still, i.e. a flatlined sensor
+ * - `dropout`: missing from a reading although the device had been reporting
+ *   it, i.e. a probe that stopped answering. There is no value to distrust;
+ *   the flag marks the gap in the metric's series.
+ */
+export const qualityFlags = [
+  "out_of_range",
+  "spike",
+  "stuck",
+  "dropout",
+] as const;
+
+export type QualityFlag = (typeof qualityFlags)[number];
+
+// Flags per metric; metrics without one passed every check
+export type ReadingQuality = Partial<Record<SensorMetric, QualityFlag>>;
+
+// Narrower than what telemetry validation accepts: a moisture probe pinned at
+// 0 or 100 %, or a pH electrode reading 1, is reporting a fault, not the soil.
+export const PLAUSIBLE_RANGES: Record<SensorMetric, [number, number]> = {
+  soilMoisture: [0.5, 99.5],
+  pH: [3, 10.5],
+  temperature: [-30, 60],
+  nitrogen: [0, 2000],
+  phosphorus: [0, 2000],
+  potassium: [0, 3000],
+};
+
+// Largest believable change from the last good value within SPIKE_WINDOW_MS.
+// Moisture allows for an irrigation run or a downpour between readings.
+export const MAX_STEP: Record<SensorMetric, number> = {
+  soilMoisture: 30,
+  pH: 1,
+  temperature: 8,
+  nitrogen: 150,
+  phosphorus: 150,
+  potassium: 150,
+};
+
+export const SPIKE_WINDOW_MS = 60 * 60 * 1000;
+
+// A value repeated exactly across at least this many readings spanning at
+// least the metric's STUCK_AFTER_MS is a flatline. Moisture and temperature
+// probes jitter in the last digit within hours. Stable soil can hold a pH
+// reading for a day, and NPK probes report whole mg/kg that barely move.
+export const STUCK_READINGS = 6;
+export const STUCK_AFTER_MS: Record<SensorMetric, number> = {
+  soilMoisture: 6 * 60 * 60 * 1000,
+  pH: 24 * 60 * 60 * 1000,
+  temperature: 6 * 60 * 60 * 1000,
+  nitrogen: 48 * 60 * 60 * 1000,
+  phosphorus: 48 * 60 * 60 * 1000,
+  potassium: 48 * 60 * 60 * 1000,
+};
+
+// A metric the device sent in each of this many readings before is expected
+// in the next one.
+export const DROPOUT_READINGS = 3;
+
+// How many of a device's earlier readings the checks look back over; enough
+// to see a nutrient flatline at one reading every 15 minutes.
+export const QUALITY_HISTORY = 200;
+
+// A device's earlier reading, as the checks need it
+export type QualitySample = {
+  recordedAt: Date;
+  values: Partial<Record<SensorMetric, number | null>>;
+  quality: ReadingQuality | null;
+};
+
+/**
+ * Checks one reading against the same device's earlier readings, newest
+ * first. Only the first failing check is reported per metric.
+ */
+export function assessReading(
+  sample: Omit<QualitySample, "quality">,
+  history: QualitySample[],
+): ReadingQuality {
+  const quality: ReadingQuality = {};
+  const time = sample.recordedAt.getTime();
+
+  for (const [metric, value] of Object.entries(sample.values) as [
+    SensorMetric,
+    number | null | undefined,
+  ][]) {
+    if (value === null || value === undefined) {
+      // Once flagged, a dropout stays flagged until the metric comes back
+      const previous = history.slice(0, DROPOUT_READINGS);
+      const dropout =
+        history[0]?.quality?.[metric] === "dropout" ||
+        (previous.length === DROPOUT_READINGS &&
+          previous.every(
+            (h) => h.values[metric] !== null && h.values[metric] !== undefined,
+          ));
+      if (dropout) quality[metric] = "dropout";
+      continue;
+    }
+
+    const [min, max] = PLAUSIBLE_RANGES[metric];
+    if (value < min || value > max) {
+      quality[metric] = "out_of_range";
+      continue;
+    }
+
+    const earlier = history.filter(
+      (h) => h.values[metric] !== null && h.values[metric] !== undefined,
+    );
+    const lastGood = earlier.find((h) => !h.quality?.[metric]);
+    if (
+      lastGood &&
+      time - lastGood.recordedAt.getTime() <= SPIKE_WINDOW_MS &&
+      Math.abs(value - lastGood.values[metric]!) > MAX_STEP[metric]
+    ) {
+      quality[metric] = "spike";
+      continue;
+    }
+
+    // Once flagged, a flatline stays flagged for as long as it lasts
+    let run = 0;
+    while (run < earlier.length && earlier[run].values[metric] === value) run++;
+    const stuck =
+      run > 0 &&
+      (earlier[0].quality?.[metric] === "stuck" ||
+        (run + 1 >= STUCK_READINGS &&
+          time - earlier[run - 1].recordedAt.getTime() >=
+            STUCK_AFTER_MS[metric]));
+    if (stuck) quality[metric] = "stuck";
+  }
+
+  return quality;
+}
+
+export const QUALITY_LABELS: Record<QualityFlag, string> = {
+  out_of_range: "reading outside the plausible range",
+  spike: "sudden spike",
+  stuck: "value stuck",
+  dropout: "missing from readings",
+};
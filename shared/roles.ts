@@ -0,0 +1,44 @@
+// Ordered from most to least privileged. The owner is the farm's `userId`;
+// everyone else holds one of the member roles through a farm membership.
+export const farmRoles = ["owner", "manager", "worker", "viewer"] as const;
+export const memberRoles = ["manager", "worker", "viewer"] as const;
+
+export type FarmRole = (typeof farmRoles)[number];
+export type MemberRole = (typeof memberRoles)[number];
+
+export type FarmAction =
+  | "view"
+  | "irrigate"
+  | "editSchedule"
+  | "editFarm"
+  | "manageTeam"
+  | "manageDevices"
+  | "viewAudit"
+  | "deleteFarm";
+
+// Least privileged role allowed to perform each action
+const REQUIRED_ROLE: Record<FarmAction, FarmRole> = {
+  view: "viewer",
+  irrigate: "worker",
+  editSchedule: "manager",
+  editFarm: "manager",
+  manageTeam: "manager",
+  manageDevices: "manager",
+  viewAudit: "manager",
+  deleteFarm: "owner",
+};
+
+const rank = (role: FarmRole) => farmRoles.indexOf(role);
+
+export function canPerform(
+  role: FarmRole | undefined,
+  action: FarmAction,
+): boolean {
+  return role !== undefined && rank(role) <= rank(REQUIRED_ROLE[action]);
+}
+
+// Team changes only ever go downwards: managers can add, change or remove
+// workers and viewers, and only the owner can do so for managers.
+export function canManageRole(actor: FarmRole, target: FarmRole): boolean {
+  return canPerform(actor, "manageTeam") && rank(actor) < rank(target);
+}
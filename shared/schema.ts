@@ -1,7 +1,40 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  real,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { CalibrationDefinition, ReadingCorrections } from "./calibration";
+import { deviceTypes, type DeviceStatus, type DeviceType } from "./devices";
+import type { Et0Method } from "./et0";
+import {
+  alertCategories,
+  alertPriorities,
+  alertTypes,
+  coordinatesSchema,
+  farmStatuses,
+  irrigationModes,
+  irrigationStatuses,
+  type AlertCategory,
+  type AlertPriority,
+  type AlertType,
+  type Coordinates,
+  type FarmStatus,
+  type IrrigationMode,
+  type IrrigationStatus,
+} from "./models";
+import type { ReadingQuality } from "./quality";
+import { memberRoles, type MemberRole } from "./roles";
 
 export const users = pgTable("users", {
   id: varchar("id")
@@ -18,3 +51,710 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+export type {
+  AlertCategory,
+  AlertPriority,
+  AlertType,
+  Coordinates,
+  FarmStatus,
+  IrrigationMode,
+  IrrigationStatus,
+};
+
+export const farms = pgTable("farms", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  location: text("location").notNull().default(""),
+  totalAcres: real("total_acres").notNull().default(0),
+  cropTypes: text("crop_types")
+    .array()
+    .notNull()
+    .default(sql`'{}'::text[]`),
+  soilType: text("soil_type").notNull().default(""),
+  irrigationType: text("irrigation_type").notNull().default("Manual"),
+  status: text("status").$type<FarmStatus>().notNull().default("active"),
+  description: text("description"),
+  coordinates: jsonb("coordinates").$type<Coordinates>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertFarmSchema = createInsertSchema(farms, {
+  name: (schema) => schema.trim().min(1, "Farm name is required"),
+  totalAcres: z.number().nonnegative().optional(),
+  status: z.enum(farmStatuses).optional(),
+  coordinates: coordinatesSchema.nullish(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateFarmSchema = insertFarmSchema.partial();
+
+export type InsertFarm = z.infer<typeof insertFarmSchema>;
+export type UpdateFarm = z.infer<typeof updateFarmSchema>;
+export type Farm = typeof farms.$inferSelect;
+
+// People the owner has given access to a farm. The owner themself is not
+// listed; their access comes from `farms.userId`.
+export const farmMembers = pgTable(
+  "farm_members",
+  {
+    farmId: varchar("farm_id")
+      .notNull()
+      .references(() => farms.id, { onDelete: "cascade" }),
+    userId: text("user_id").notNull(),
+    role: text("role").$type<MemberRole>().notNull(),
+    email: text("email"),
+    addedBy: text("added_by").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.farmId, table.userId] }),
+    index("farm_members_user_idx").on(table.userId),
+  ],
+);
+
+export type FarmMember = typeof farmMembers.$inferSelect;
+
+export const updateFarmMemberSchema = z.object({
+  role: z.enum(memberRoles),
+});
+
+export const farmInviteStatuses = ["pending", "accepted", "revoked"] as const;
+
+export type FarmInviteStatus = (typeof farmInviteStatuses)[number];
+
+// Invites are addressed to an email and accepted by whoever signs in with
+// that (verified) address.
+export const farmInvites = pgTable(
+  "farm_invites",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    farmId: varchar("farm_id")
+      .notNull()
+      .references(() => farms.id, { onDelete: "cascade" }),
+    // Stored lowercased
+    email: text("email").notNull(),
+    role: text("role").$type<MemberRole>().notNull(),
+    invitedBy: text("invited_by").notNull(),
+    status: text("status")
+      .$type<FarmInviteStatus>()
+      .notNull()
+      .default("pending"),
+    acceptedBy: text("accepted_by"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    respondedAt: timestamp("responded_at"),
+  },
+  (table) => [
+    index("farm_invites_farm_idx").on(table.farmId),
+    index("farm_invites_email_idx").on(table.email),
+  ],
+);
+
+export type FarmInvite = typeof farmInvites.$inferSelect;
+
+export const insertFarmInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(memberRoles),
+});
+
+export type InsertFarmInvite = z.infer<typeof insertFarmInviteSchema>;
+
+export const fields = pgTable("fields", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  farmId: varchar("farm_id")
+    .notNull()
+    .references(() => farms.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  acres: real("acres").notNull().default(0),
+  cropType: text("crop_type"),
+  soilType: text("soil_type"),
+  // Local date, YYYY-MM-DD, that sets the crop's growth stage
+  plantedOn: varchar("planted_on", { length: 10 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A real calendar day. Date.parse reads "2026-02-31" as 3 March.
+function isValidDate(value: string): boolean {
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+export const insertFieldSchema = createInsertSchema(fields, {
+  name: (schema) => schema.trim().min(1, "Field name is required"),
+  acres: z.number().nonnegative().optional(),
+  plantedOn: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+    .refine(isValidDate, "Invalid date")
+    .nullish(),
+}).omit({
+  id: true,
+  farmId: true,
+  createdAt: true,
+});
+
+export type InsertField = z.infer<typeof insertFieldSchema>;
+export type Field = typeof fields.$inferSelect;
+
+// Latest sensor snapshot per farm, mirroring `farms/{id}/sensorData`.
+export const sensorData = pgTable("sensor_data", {
+  farmId: varchar("farm_id")
+    .primaryKey()
+    .references(() => farms.id, { onDelete: "cascade" }),
+  soilMoisture: real("soil_moisture").notNull().default(0),
+  pH: real("ph").notNull().default(0),
+  temperature: real("temperature").notNull().default(0),
+  nitrogen: real("nitrogen").notNull().default(0),
+  phosphorus: real("phosphorus").notNull().default(0),
+  potassium: real("potassium").notNull().default(0),
+  lastUpdated: timestamp("last_updated").notNull().defaultNow(),
+  // Metrics whose latest reading failed a quality check. Their value above is
+  // the last one that passed, and shouldn't drive status or alerts.
+  quality: jsonb("quality").$type<ReadingQuality>(),
+});
+
+export type SensorData = typeof sensorData.$inferSelect;
+
+export const irrigationLogs = pgTable(
+  "irrigation_logs",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    farmId: varchar("farm_id")
+      .notNull()
+      .references(() => farms.id, { onDelete: "cascade" }),
+    fieldId: varchar("field_id").references(() => fields.id, {
+      onDelete: "set null",
+    }),
+    mode: text("mode").$type<IrrigationMode>().notNull(),
+    status: text("status")
+      .$type<IrrigationStatus>()
+      .notNull()
+      .default("in_progress"),
+    // Minutes
+    duration: integer("duration").notNull(),
+    startTime: timestamp("start_time").notNull().defaultNow(),
+    endTime: timestamp("end_time"),
+    // Liters
+    estimatedWaterUsage: real("estimated_water_usage").notNull().default(0),
+    // Liters the schedule would have used that rain made unnecessary
+    waterSaved: real("water_saved").notNull().default(0),
+    // Why an automatic run was skipped or shortened
+    note: text("note"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("irrigation_logs_farm_idx").on(table.farmId),
+    // A farm's valve runs one irrigation at a time
+    uniqueIndex("irrigation_logs_active_farm_idx")
+      .on(table.farmId)
+      .where(sql`${table.status} = 'in_progress'`),
+  ],
+);
+
+export const insertIrrigationLogSchema = createInsertSchema(irrigationLogs, {
+  mode: z.enum(irrigationModes),
+  status: z.enum(irrigationStatuses).optional(),
+  duration: z.number().int().positive(),
+}).omit({
+  id: true,
+  farmId: true,
+  createdAt: true,
+});
+
+export type InsertIrrigationLog = z.infer<typeof insertIrrigationLogSchema>;
+export type IrrigationLog = typeof irrigationLogs.$inferSelect;
+
+export const alerts = pgTable(
+  "alerts",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: text("user_id").notNull(),
+    farmId: varchar("farm_id").references(() => farms.id, {
+      onDelete: "cascade",
+    }),
+    title: text("title").notNull(),
+    message: text("message").notNull(),
+    type: text("type").$type<AlertType>().notNull(),
+    category: text("category").$type<AlertCategory>().notNull(),
+    priority: text("priority").$type<AlertPriority>().notNull(),
+    data: jsonb("data").$type<Record<string, unknown>>(),
+    read: boolean("read").notNull().default(false),
+    actionUrl: text("action_url"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    expiresAt: timestamp("expires_at"),
+  },
+  (table) => [index("alerts_user_idx").on(table.userId)],
+);
+
+export const insertAlertSchema = createInsertSchema(alerts, {
+  type: z.enum(alertTypes),
+  category: z.enum(alertCategories),
+  priority: z.enum(alertPriorities),
+  data: z.record(z.unknown()).nullish(),
+}).omit({
+  id: true,
+  read: true,
+  createdAt: true,
+});
+
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type Alert = typeof alerts.$inferSelect;
+
+export const sensorMetrics = [
+  "soilMoisture",
+  "pH",
+  "temperature",
+  "nitrogen",
+  "phosphorus",
+  "potassium",
+] as const;
+
+export type SensorMetric = (typeof sensorMetrics)[number];
+export type SensorValues = Record<SensorMetric, number>;
+
+// Append-only history of every reading a device has reported.
+export const sensorReadings = pgTable(
+  "sensor_readings",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    farmId: varchar("farm_id")
+      .notNull()
+      .references(() => farms.id, { onDelete: "cascade" }),
+    fieldId: varchar("field_id").references(() => fields.id, {
+      onDelete: "set null",
+    }),
+    deviceId: text("device_id").notNull(),
+    recordedAt: timestamp("recorded_at").notNull(),
+    receivedAt: timestamp("received_at").notNull().defaultNow(),
+    soilMoisture: real("soil_moisture"),
+    pH: real("ph"),
+    temperature: real("temperature"),
+    nitrogen: real("nitrogen"),
+    phosphorus: real("phosphorus"),
+    potassium: real("potassium"),
+    // Raw values of the metrics above that calibration corrected
+    corrections: jsonb("corrections").$type<ReadingCorrections>(),
+    // Quality checks the metrics above failed, if any
+    quality: jsonb("quality").$type<ReadingQuality>(),
+  },
+  (table) => [
+    index("sensor_readings_farm_time_idx").on(table.farmId, table.recordedAt),
+    index("sensor_readings_field_time_idx").on(table.fieldId, table.recordedAt),
+    index("sensor_readings_device_time_idx").on(
+      table.deviceId,
+      table.recordedAt,
+    ),
+  ],
+);
+
+export type SensorReading = typeof sensorReadings.$inferSelect;
+export type InsertSensorReading = Omit<SensorReading, "id" | "receivedAt">;
+
+export const telemetryReadingSchema = z
+  .object({
+    farmId: z.string().min(1),
+    fieldId: z.string().min(1).optional(),
+    deviceId: z.string().min(1),
+    timestamp: z.coerce.date(),
+    soilMoisture: z.number().min(0).max(100).optional(),
+    pH: z.number().min(0).max(14).optional(),
+    temperature: z.number().min(-50).max(80).optional(),
+    nitrogen: z.number().nonnegative().optional(),
+    phosphorus: z.number().nonnegative().optional(),
+    potassium: z.number().nonnegative().optional(),
+    // Device health, recorded on the device registry rather than the reading
+    battery: z.number().min(0).max(100).optional(),
+    firmwareVersion: z.string().trim().min(1).max(32).optional(),
+  })
+  .refine(
+    (reading) => sensorMetrics.some((metric) => reading[metric] !== undefined),
+    { message: "A reading must include at least one sensor value" },
+  );
+
+export const telemetryBatchSchema = z.object({
+  readings: z.array(telemetryReadingSchema).min(1).max(500),
+});
+
+export type TelemetryReading = z.infer<typeof telemetryReadingSchema>;
+export type TelemetryBatch = z.infer<typeof telemetryBatchSchema>;
+
+// Sensors, controllers and gateways registered to a farm. Readings refer to a
+// device by `deviceId`, which is this table's id.
+export const devices = pgTable(
+  "devices",
+  {
+    // Serial number or LoRaWAN device EUI, lowercased
+    id: text("id").primaryKey(),
+    farmId: varchar("farm_id")
+      .notNull()
+      .references(() => farms.id, { onDelete: "cascade" }),
+    fieldId: varchar("field_id").references(() => fields.id, {
+      onDelete: "set null",
+    }),
+    name: text("name").notNull(),
+    type: text("type").$type<DeviceType>().notNull(),
+    // Free-form zone within the field, e.g. "north block"
+    zone: text("zone"),
+    // Centimetres below the surface
+    installDepthCm: real("install_depth_cm"),
+    // Uplink decoder id, for LoRaWAN devices
+    decoder: text("decoder"),
+    status: text("status").$type<DeviceStatus>().notNull().default("active"),
+    // Percent, as last reported
+    battery: real("battery"),
+    firmwareVersion: text("firmware_version"),
+    lastSeenAt: timestamp("last_seen_at"),
+    // Why the device was last flagged for maintenance, e.g. "value stuck";
+    // cleared once it sends readings that pass the quality checks again
+    maintenanceReason: text("maintenance_reason"),
+    // SHA-256 of the device's telemetry secret; cleared on decommissioning
+    secretHash: text("secret_hash").unique(),
+    provisionedBy: text("provisioned_by").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    decommissionedAt: timestamp("decommissioned_at"),
+  },
+  (table) => [index("devices_farm_idx").on(table.farmId)],
+);
+
+export type Device = typeof devices.$inferSelect;
+
+export const insertDeviceSchema = createInsertSchema(devices, {
+  id: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9._:-]{1,64}$/, "Expected a serial number or device EUI"),
+  name: (schema) => schema.trim().min(1, "Device name is required"),
+  type: z.enum(deviceTypes),
+  zone: z.string().trim().max(64).nullish(),
+  installDepthCm: z.number().min(0).max(500).nullish(),
+}).pick({
+  id: true,
+  fieldId: true,
+  name: true,
+  type: true,
+  zone: true,
+  installDepthCm: true,
+  decoder: true,
+});
+
+export const updateDeviceSchema = insertDeviceSchema
+  .omit({ id: true })
+  .partial();
+
+export type InsertDevice = z.infer<typeof insertDeviceSchema>;
+export type UpdateDevice = z.infer<typeof updateDeviceSchema>;
+
+// Every calibration a device has had. Saving a new one for a metric retires
+// the previous one, so at most one per device and metric has no `retiredAt`.
+export const deviceCalibrations = pgTable(
+  "device_calibrations",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    deviceId: text("device_id")
+      .notNull()
+      .references(() => devices.id, { onDelete: "cascade" }),
+    metric: text("metric").$type<SensorMetric>().notNull(),
+    definition: jsonb("definition").$type<CalibrationDefinition>().notNull(),
+    // Soil the curve was measured in, for moisture
+    soilType: text("soil_type"),
+    note: text("note"),
+    createdBy: text("created_by").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    retiredAt: timestamp("retired_at"),
+  },
+  (table) => [
+    index("device_calibrations_device_idx").on(table.deviceId, table.metric),
+  ],
+);
+
+export type DeviceCalibration = typeof deviceCalibrations.$inferSelect;
+export type InsertDeviceCalibration = Omit<
+  DeviceCalibration,
+  "id" | "createdAt" | "retiredAt"
+>;
+
+const calibrationPointSchema = z.object({
+  raw: z.number().finite(),
+  actual: z.number().finite(),
+});
+
+const calibrationDefinitionSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("linear"),
+    offset: z.number().finite(),
+    gain: z.number().finite().positive(),
+  }),
+  z.object({
+    kind: z.literal("curve"),
+    points: z
+      .array(calibrationPointSchema)
+      .min(2)
+      .max(10)
+      .refine(
+        (points) => new Set(points.map((p) => p.raw)).size === points.length,
+        "Each point needs a different raw value",
+      ),
+  }),
+]);
+
+export const insertDeviceCalibrationSchema = z.object({
+  metric: z.enum(sensorMetrics),
+  definition: calibrationDefinitionSchema,
+  soilType: z.string().trim().min(1).max(64).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type CalibrationRequest = z.infer<typeof insertDeviceCalibrationSchema>;
+
+export const irrigationSchedules = pgTable("irrigation_schedules", {
+  farmId: varchar("farm_id")
+    .primaryKey()
+    .references(() => farms.id, { onDelete: "cascade" }),
+  autoMode: boolean("auto_mode").notNull().default(true),
+  // Local wall-clock time in `timezone`, HH:MM
+  scheduleTime: text("schedule_time").notNull(),
+  // Minutes
+  duration: integer("duration").notNull(),
+  timezone: text("timezone").notNull().default("UTC"),
+  // Slot of the most recent scheduled run, used to avoid firing twice
+  lastRunAt: timestamp("last_run_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const insertIrrigationScheduleSchema = createInsertSchema(
+  irrigationSchedules,
+  {
+    scheduleTime: z
+      .string()
+      .regex(/^([01]?\d|2[0-3]):[0-5]\d$/, "Expected a time in HH:MM format"),
+    duration: z
+      .number()
+      .int()
+      .min(1)
+      .max(24 * 60),
+    timezone: z
+      .string()
+      .refine(isValidTimeZone, "Unknown time zone")
+      .optional(),
+  },
+).omit({
+  farmId: true,
+  lastRunAt: true,
+  updatedAt: true,
+});
+
+export type InsertIrrigationSchedule = z.infer<
+  typeof insertIrrigationScheduleSchema
+>;
+export type IrrigationSchedule = typeof irrigationSchedules.$inferSelect;
+
+export const startIrrigationSchema = z.object({
+  duration: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 60),
+  fieldId: z.string().min(1).optional(),
+});
+
+export const actuatorCommandTypes = ["start", "stop", "set_duration"] as const;
+export const actuatorCommandStatuses = [
+  "pending",
+  "confirmed",
+  "failed",
+] as const;
+
+export type ActuatorCommandType = (typeof actuatorCommandTypes)[number];
+export type ActuatorCommandStatus = (typeof actuatorCommandStatuses)[number];
+
+// Commands sent to the valve/pump controller of a farm. A command stays
+// pending until the controller acknowledges it or every retry has timed out.
+export const actuatorCommands = pgTable(
+  "actuator_commands",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    farmId: varchar("farm_id")
+      .notNull()
+      .references(() => farms.id, { onDelete: "cascade" }),
+    irrigationLogId: varchar("irrigation_log_id").references(
+      () => irrigationLogs.id,
+      { onDelete: "set null" },
+    ),
+    type: text("type").$type<ActuatorCommandType>().notNull(),
+    // Minutes, for start and set_duration
+    duration: integer("duration"),
+    status: text("status")
+      .$type<ActuatorCommandStatus>()
+      .notNull()
+      .default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    error: text("error"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    lastSentAt: timestamp("last_sent_at"),
+    settledAt: timestamp("settled_at"),
+  },
+  (table) => [index("actuator_commands_farm_idx").on(table.farmId)],
+);
+
+export type ActuatorCommand = typeof actuatorCommands.$inferSelect;
+export type InsertActuatorCommand = Pick<
+  ActuatorCommand,
+  "farmId" | "irrigationLogId" | "type" | "duration"
+>;
+
+export const actuatorAckSchema = z.object({
+  ok: z.boolean(),
+  error: z.string().max(500).optional(),
+});
+
+export type ActuatorAck = z.infer<typeof actuatorAckSchema>;
+
+export const setIrrigationDurationSchema = z.object({
+  duration: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 60),
+});
+
+// Each farm's weather, one row per local day, fetched for its coordinates.
+// Past days are kept as history; days from today on are the latest forecast
+// and are overwritten as it changes.
+export const dailyWeather = pgTable(
+  "daily_weather",
+  {
+    farmId: varchar("farm_id")
+      .notNull()
+      .references(() => farms.id, { onDelete: "cascade" }),
+    // Local date, YYYY-MM-DD
+    date: varchar("date", { length: 10 }).notNull(),
+    // °C
+    tempMax: real("temp_max").notNull(),
+    tempMin: real("temp_min").notNull(),
+    // Mean relative humidity, %
+    humidity: real("humidity"),
+    // m/s at 2 m
+    windSpeed: real("wind_speed"),
+    // MJ/m²/day
+    solarRadiation: real("solar_radiation"),
+    // mm
+    precipitation: real("precipitation").notNull().default(0),
+    // Chance of rain, %, for forecast days
+    precipitationProbability: real("precipitation_probability"),
+    // Reference evapotranspiration, mm
+    et0: real("et0").notNull(),
+    et0Method: text("et0_method").$type<Et0Method>().notNull(),
+    // The day hadn't ended when this was fetched
+    forecast: boolean("forecast").notNull(),
+    fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.farmId, table.date] })],
+);
+
+export type DailyWeatherRow = typeof dailyWeather.$inferSelect;
+
+// Per-user AI chat usage, one row per UTC day, used to enforce chat quotas.
+export const chatUsage = pgTable(
+  "chat_usage",
+  {
+    userId: varchar("user_id").notNull(),
+    // UTC date, YYYY-MM-DD
+    day: varchar("day", { length: 10 }).notNull(),
+    requests: integer("requests").notNull().default(0),
+    tokens: integer("tokens").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.day] })],
+);
+
+export type ChatUsage = typeof chatUsage.$inferSelect;
+
+export const auditActions = [
+  "farm.create",
+  "farm.update",
+  "farm.delete",
+  "field.create",
+  "field.update",
+  "field.delete",
+  "schedule.update",
+  "irrigation.start",
+  "irrigation.stop",
+  "irrigation.duration",
+  "member.update",
+  "member.remove",
+  "invite.create",
+  "invite.revoke",
+  "invite.accept",
+  "device.provision",
+  "device.update",
+  "device.rotateSecret",
+  "device.decommission",
+  "device.calibrate",
+  "device.resetCalibration",
+] as const;
+
+export type AuditAction = (typeof auditActions)[number];
+
+// Append-only record of every change made through the API. There is no
+// foreign key to farms so the trail outlives the farm it describes.
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    farmId: varchar("farm_id").notNull(),
+    actorId: text("actor_id").notNull(),
+    actorEmail: text("actor_email"),
+    action: text("action").$type<AuditAction>().notNull(),
+    // Id of the field, run, member or invite acted on, when not the farm
+    targetId: text("target_id"),
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    // X-Client header, or the user agent when the caller sends none
+    client: text("client"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("audit_log_farm_time_idx").on(table.farmId, table.createdAt),
+  ],
+);
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = Omit<AuditEntry, "id" | "createdAt">;
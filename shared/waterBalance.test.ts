@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import type { Et0Day } from "./et0";
+import {
+  DEFAULT_IRRIGATION_EFFICIENCY,
+  DEFAULT_SOIL_WATER,
+  SENSOR_WEIGHT,
+  SOIL_WATER,
+  depletionFromMoisture,
+  effectiveRain,
+  irrigationEfficiency,
+  runWaterBalance,
+  soilWater,
+  type SoilWater,
+  type WaterBalanceInput,
+} from "./waterBalance";
+
+// 100 mm/m over 0.5 m of roots: 50 mm available, 25 mm before stress.
+// Moisture 40% is half way between field capacity and wilting.
+const SOIL: SoilWater = {
+  fieldCapacity: 60,
+  wiltingPoint: 20,
+  availableWater: 100,
+};
+
+const weatherDay =
+  (forecast: boolean) =>
+  (date: string, et0: number, precipitation = 0): Et0Day => ({
+    date,
+    et0,
+    method: "hargreaves",
+    precipitation,
+    precipitationProbability: null,
+    forecast,
+  });
+const past = weatherDay(false);
+const ahead = weatherDay(true);
+
+const balance = (
+  weather: Et0Day[],
+  options: Partial<Omit<WaterBalanceInput, "weather">> = {},
+) =>
+  runWaterBalance({
+    soil: SOIL,
+    crop: { kc: 1, rootDepth: 0.5, allowableDepletion: 0.5 },
+    efficiency: 1,
+    irrigation: {},
+    moisture: {},
+    ...options,
+    weather,
+  });
+
+const depletions = (...args: Parameters<typeof balance>) =>
+  balance(...args).days.map((day) => day.depletion);
+
+describe("soil and irrigation lookups", () => {
+  it("finds soils and irrigation types whatever their case", () => {
+    expect(soilWater("Clay")).toBe(SOIL_WATER.clay);
+    expect(soilWater("volcanic")).toBe(DEFAULT_SOIL_WATER);
+    expect(soilWater(null)).toBe(DEFAULT_SOIL_WATER);
+    expect(irrigationEfficiency("Drip Irrigation")).toBe(0.9);
+    expect(irrigationEfficiency(undefined)).toBe(DEFAULT_IRRIGATION_EFFICIENCY);
+  });
+});
+
+describe("effectiveRain", () => {
+  it.each([
+    [0, 5, 0],
+    [0.9, 5, 0],
+    [1, 5, 1],
+    [12, 5, 12],
+    [0.1, 0, 0.1],
+  ])("counts %s mm against %s mm of ET0 as %s mm", (rain, et0, expected) => {
+    expect(effectiveRain(rain, et0)).toBe(expected);
+  });
+});
+
+describe("depletionFromMoisture", () => {
+  it.each([
+    ["at field capacity", 60, 0],
+    ["half way to wilting", 40, 25],
+    ["at the wilting point", 20, 50],
+    ["above field capacity", 70, 0],
+    ["below the wilting point", 10, 50],
+  ])("reads %s", (_, moisture, expected) => {
+    expect(depletionFromMoisture(moisture, SOIL, 50)).toBe(expected);
+  });
+});
+
+describe("runWaterBalance", () => {
+  it.each([
+    [
+      "adds up the crop's use",
+      [past("2026-06-01", 4), past("2026-06-02", 5), past("2026-06-03", 6)],
+      {},
+      [4, 9, 15],
+    ],
+    [
+      "scales ET0 by the crop coefficient",
+      [past("2026-06-01", 4), past("2026-06-02", 5)],
+      { crop: { kc: 1.2, rootDepth: 0.5, allowableDepletion: 0.5 } },
+      [4.8, 10.8],
+    ],
+    [
+      "follows the coefficient through the season",
+      [past("2026-06-01", 4), past("2026-06-02", 5)],
+      { kcOn: (date: string) => (date === "2026-06-01" ? 0.5 : 1) },
+      [2, 7],
+    ],
+    [
+      "takes off the rain that soaks in",
+      [past("2026-06-01", 5), past("2026-06-02", 5, 3)],
+      {},
+      [5, 7],
+    ],
+    [
+      "ignores rain too light to soak in",
+      [past("2026-06-01", 5), past("2026-06-02", 5, 0.9)],
+      {},
+      [5, 10],
+    ],
+    [
+      "takes off irrigation less its losses",
+      [past("2026-06-01", 5), past("2026-06-02", 5)],
+      { irrigation: { "2026-06-02": 10 }, efficiency: 0.8 },
+      [5, 2],
+    ],
+    [
+      "drains whatever goes past field capacity",
+      [past("2026-06-01", 5), past("2026-06-02", 5, 30), past("2026-06-03", 5)],
+      {},
+      [5, 0, 5],
+    ],
+    [
+      "stops at the wilting point",
+      [past("2026-06-01", 20), past("2026-06-02", 20), past("2026-06-03", 20)],
+      {},
+      [20, 40, 50],
+    ],
+  ])("%s", (_, weather, options, expected) => {
+    expect(depletions(weather, options)).toEqual(expected);
+  });
+
+  it("pulls the model towards what the sensors measured", () => {
+    const { days } = balance([past("2026-06-01", 5), past("2026-06-02", 5)], {
+      moisture: { "2026-06-02": 40 },
+    });
+
+    expect(days[1]).toMatchObject({
+      depletion: 10 + SENSOR_WEIGHT * (25 - 10),
+      sensorDepletion: 25,
+    });
+  });
+
+  it("starts from the first day's reading rather than a full root zone", () => {
+    expect(
+      depletions([past("2026-06-01", 5)], { moisture: { "2026-06-01": 40 } }),
+    ).toEqual([30 + SENSOR_WEIGHT * (25 - 30)]);
+  });
+
+  it("counts today's irrigation but not today's rain", () => {
+    const result = balance(
+      [
+        past("2026-06-01", 5),
+        past("2026-06-02", 10),
+        ahead("2026-06-03", 5, 20),
+      ],
+      { irrigation: { "2026-06-03": 10 }, efficiency: 0.5 },
+    );
+
+    expect(result.depletion).toBe(10);
+    expect(result.days[2]).toMatchObject({
+      rain: 0,
+      irrigation: 0,
+      depletion: 15,
+      forecast: true,
+    });
+  });
+
+  it("reports what's left and how much to deliver", () => {
+    expect(
+      balance(
+        [past("2026-06-01", 5), past("2026-06-02", 10), ahead("2026-06-03", 5)],
+        { efficiency: 0.75 },
+      ),
+    ).toMatchObject({
+      totalAvailableWater: 50,
+      readilyAvailableWater: 25,
+      depletion: 15,
+      waterLeft: 70,
+      recommendedDepth: 20,
+    });
+  });
+
+  it.each([
+    [
+      "already past the refill point",
+      [past("2026-06-01", 30), ahead("2026-06-02", 5)],
+      0,
+    ],
+    [
+      "reaching it today",
+      [past("2026-06-01", 20), ahead("2026-06-02", 5), ahead("2026-06-03", 5)],
+      0,
+    ],
+    [
+      "reaching it within the forecast",
+      [
+        ahead("2026-06-02", 10),
+        ahead("2026-06-03", 10),
+        ahead("2026-06-04", 10),
+      ],
+      2,
+    ],
+    [
+      "carrying on at the forecast's average demand",
+      [ahead("2026-06-02", 5), ahead("2026-06-03", 5), ahead("2026-06-04", 5)],
+      4,
+    ],
+    ["with the crop using no water", [ahead("2026-06-02", 0)], null],
+    ["without a forecast", [past("2026-06-01", 5)], null],
+  ])("counts the days until refill %s", (_, weather, expected) => {
+    expect(balance(weather).daysUntilRefill).toBe(expected);
+  });
+});
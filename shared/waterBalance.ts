@@ -0,0 +1,273 @@
+import type { Et0Day } from "./et0";
+
+/*
+ * A daily root-zone water balance as in FAO Irrigation and Drainage Paper 56,
+ * chapter 8. Depletion is how far the root zone is below field capacity, in
+ * mm of water: crop evapotranspiration adds to it, effective rain and
+ * irrigation take it away, and anything beyond field capacity drains. Once
+ * depletion passes the readily available water, the crop starts to suffer
+ * and the field should be irrigated.
+ */
+
+// How a soil holds water
+export type SoilWater = {
+  // Sensor moisture (%) once the soil has drained, and where plants wilt
+  fieldCapacity: number;
+  wiltingPoint: number;
+  // Water plants can take up per metre of soil, mm
+  availableWater: number;
+};
+
+// Keyed by the lowercased soil types the app offers. Moisture is on the same
+// scale as the sensors and the simulator.
+export const SOIL_WATER: Record<string, SoilWater> = {
+  sandy: { fieldCapacity: 55, wiltingPoint: 20, availableWater: 80 },
+  rocky: { fieldCapacity: 50, wiltingPoint: 20, availableWater: 60 },
+  chalky: { fieldCapacity: 60, wiltingPoint: 25, availableWater: 120 },
+  loamy: { fieldCapacity: 65, wiltingPoint: 28, availableWater: 150 },
+  silt: { fieldCapacity: 70, wiltingPoint: 32, availableWater: 180 },
+  clay: { fieldCapacity: 75, wiltingPoint: 40, availableWater: 160 },
+  peaty: { fieldCapacity: 85, wiltingPoint: 45, availableWater: 200 },
+};
+
+export const DEFAULT_SOIL_WATER = SOIL_WATER.loamy;
+
+// How a crop draws on the soil's water
+export type CropWater = {
+  // Crop coefficient: crop evapotranspiration is ET0 times this
+  kc: number;
+  // Effective rooting depth, m
+  rootDepth: number;
+  // Share of the available water the crop can use before it is stressed (p)
+  allowableDepletion: number;
+};
+
+// For crops the library doesn't know
+export const DEFAULT_CROP_WATER: CropWater = {
+  kc: 1,
+  rootDepth: 0.6,
+  allowableDepletion: 0.5,
+};
+
+// Share of the water delivered that reaches the root zone, by the lowercased
+// irrigation types the app offers
+export const IRRIGATION_EFFICIENCY: Record<string, number> = {
+  "drip irrigation": 0.9,
+  "sprinkler irrigation": 0.75,
+  "center pivot": 0.8,
+  "surface irrigation": 0.6,
+  "manual irrigation": 0.6,
+  manual: 0.6,
+};
+
+export const DEFAULT_IRRIGATION_EFFICIENCY = 0.7;
+
+// How much a sensor reading pulls the modelled depletion towards what it
+// measured. Below 1 because one probe at one depth doesn't see the whole root
+// zone.
+export const SENSOR_WEIGHT = 0.7;
+
+export function soilWater(soilType?: string | null): SoilWater {
+  return SOIL_WATER[soilType?.toLowerCase() ?? ""] ?? DEFAULT_SOIL_WATER;
+}
+
+export function irrigationEfficiency(irrigationType?: string | null): number {
+  return (
+    IRRIGATION_EFFICIENCY[irrigationType?.toLowerCase() ?? ""] ??
+    DEFAULT_IRRIGATION_EFFICIENCY
+  );
+}
+
+// Rain too light to soak in, under a fifth of the day's ET0, is lost to
+// evaporation from the leaves and the surface
+export function effectiveRain(precipitation: number, et0: number): number {
+  return precipitation < 0.2 * et0 ? 0 : precipitation;
+}
+
+// The depletion a moisture reading implies, mm
+export function depletionFromMoisture(
+  moisture: number,
+  soil: SoilWater,
+  totalAvailableWater: number,
+): number {
+  const fraction =
+    (soil.fieldCapacity - moisture) / (soil.fieldCapacity - soil.wiltingPoint);
+  return Math.min(1, Math.max(0, fraction)) * totalAvailableWater;
+}
+
+export type WaterBalanceDay = {
+  date: string;
+  // Crop evapotranspiration, mm
+  etc: number;
+  // Rain that soaked in, mm; forecast rain is left out of the projection
+  rain: number;
+  // Irrigation that reached the root zone, mm
+  irrigation: number;
+  // Depletion at the end of the day, mm
+  depletion: number;
+  // What the day's moisture readings implied, if there were any
+  sensorDepletion: number | null;
+  // Projected from the forecast rather than worked out from what happened
+  forecast: boolean;
+};
+
+export type WaterBalance = {
+  // Water the root zone holds between field capacity and wilting, mm
+  totalAvailableWater: number;
+  // The part the crop can use without stress; the refill point, mm
+  readilyAvailableWater: number;
+  // Now, mm
+  depletion: number;
+  // Share of the available water left, 0-100
+  waterLeft: number;
+  // Whole days until depletion reaches the refill point, 0 when it already
+  // has or will today. Null when the crop isn't using water.
+  daysUntilRefill: number | null;
+  // Water to deliver to bring the root zone back to field capacity, mm,
+  // allowing for irrigation losses
+  recommendedDepth: number;
+  // Oldest first: what happened, then today and the days ahead as projected
+  days: WaterBalanceDay[];
+};
+
+// A field's balance as the API returns it
+export type FieldWaterBalance = WaterBalance & {
+  fieldId: string;
+  fieldName: string;
+  soilType: string | null;
+  // The crop and where it is in its season, as `describeStage` puts it
+  cropStage: string | null;
+  efficiency: number;
+  // How long the farm's valve needs to run to deliver the recommended depth,
+  // or null when the field's area isn't known
+  recommendedMinutes: number | null;
+  // When the weather behind it was fetched, ISO
+  updatedAt: string | null;
+};
+
+export type WaterBalanceInput = {
+  soil: SoilWater;
+  // Today's; the root depth sets how much water the root zone holds
+  crop: CropWater;
+  // The crop coefficient on each date, as it changes through the season.
+  // Defaults to `crop.kc` throughout.
+  kcOn?: (date: string) => number;
+  // See IRRIGATION_EFFICIENCY
+  efficiency: number;
+  // Oldest first: past days, then today and the forecast
+  weather: Et0Day[];
+  // Water delivered to the field on each date, mm, before losses
+  irrigation: Record<string, number>;
+  // Mean moisture reading on each date, %
+  moisture: Record<string, number>;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Runs the balance over the past days and projects it over the forecast.
+ * The root zone is assumed full before the first day unless a sensor says
+ * otherwise; with a few weeks of weather that guess has long washed out.
+ * Today's irrigation and readings count towards the current depletion, but
+ * its rain, like the forecast's, doesn't: the projection only relies on rain
+ * that has fallen.
+ */
+export function runWaterBalance(input: WaterBalanceInput): WaterBalance {
+  const { soil, crop, efficiency } = input;
+  const totalAvailableWater = soil.availableWater * crop.rootDepth;
+  const readilyAvailableWater = crop.allowableDepletion * totalAvailableWater;
+  const clamp = (depletion: number) =>
+    Math.min(totalAvailableWater, Math.max(0, depletion));
+
+  const sensorDepletion = (date: string) => {
+    const moisture = input.moisture[date];
+    return moisture === undefined
+      ? null
+      : depletionFromMoisture(moisture, soil, totalAvailableWater);
+  };
+  const kcOn = input.kcOn ?? (() => crop.kc);
+  const irrigationOn = (date: string) =>
+    (input.irrigation[date] ?? 0) * efficiency;
+
+  const history = input.weather.filter((day) => !day.forecast);
+  const ahead = input.weather.filter((day) => day.forecast);
+
+  const days: WaterBalanceDay[] = [];
+  let depletion = sensorDepletion(input.weather[0]?.date ?? "") ?? 0;
+
+  for (const day of history) {
+    const etc = kcOn(day.date) * day.et0;
+    const rain = effectiveRain(day.precipitation, day.et0);
+    const irrigation = irrigationOn(day.date);
+    const measured = sensorDepletion(day.date);
+    depletion = clamp(depletion + etc - rain - irrigation);
+    if (measured !== null) {
+      depletion += SENSOR_WEIGHT * (measured - depletion);
+    }
+    days.push({
+      date: day.date,
+      etc: round1(etc),
+      rain: round1(rain),
+      irrigation: round1(irrigation),
+      depletion: round1(depletion),
+      sensorDepletion: measured === null ? null : round1(measured),
+      forecast: false,
+    });
+  }
+
+  // Today so far: water already applied, and readings already taken
+  const today = ahead[0]?.date;
+  if (today) {
+    depletion = clamp(depletion - irrigationOn(today));
+    const measured = sensorDepletion(today);
+    if (measured !== null) {
+      depletion += SENSOR_WEIGHT * (measured - depletion);
+    }
+  }
+  const current = depletion;
+
+  let daysUntilRefill: number | null =
+    current >= readilyAvailableWater ? 0 : null;
+  let projected = current;
+  ahead.forEach((day, i) => {
+    const etc = kcOn(day.date) * day.et0;
+    projected = clamp(projected + etc);
+    if (daysUntilRefill === null && projected >= readilyAvailableWater) {
+      daysUntilRefill = i;
+    }
+    days.push({
+      date: day.date,
+      etc: round1(etc),
+      rain: 0,
+      irrigation: 0,
+      depletion: round1(projected),
+      sensorDepletion: null,
+      forecast: true,
+    });
+  });
+
+  // Past the forecast, carry on at its average demand
+  if (daysUntilRefill === null && ahead.length > 0) {
+    const averageEtc =
+      ahead.reduce((sum, day) => sum + kcOn(day.date) * day.et0, 0) /
+      ahead.length;
+    if (averageEtc > 0) {
+      daysUntilRefill =
+        ahead.length -
+        1 +
+        Math.ceil((readilyAvailableWater - projected) / averageEtc);
+    }
+  }
+
+  return {
+    totalAvailableWater: round1(totalAvailableWater),
+    readilyAvailableWater: round1(readilyAvailableWater),
+    depletion: round1(current),
+    waterLeft: Math.round(
+      (100 * (totalAvailableWater - current)) / totalAvailableWater,
+    ),
+    daysUntilRefill,
+    recommendedDepth: Math.round(current / efficiency),
+    days,
+  };
+}
@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+const resolve = (dir: string) =>
+  fileURLToPath(new URL(`./${dir}`, import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": resolve("shared"),
+      "@": resolve("client"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Routes run on the in-memory storage, whatever the shell points at
+    env: { DATABASE_URL: "" },
+  },
+});